@@ -1,77 +1,53 @@
 import React, { useState } from 'react';
-import { StyleSheet, View, ScrollView, SafeAreaView, TouchableOpacity, TextInput } from 'react-native';
+import { StyleSheet, View, ScrollView, SafeAreaView, TouchableOpacity, TextInput, ActivityIndicator, RefreshControl } from 'react-native';
+import { router } from 'expo-router';
 import { IconSymbol } from '@/components/ui/IconSymbol';
 import { ThemedText } from '@/components/ThemedText';
 import { Card } from '@/components/ui/Card';
 import { Colors } from '@/constants/Colors';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCan } from '@/hooks/useCan';
+import { useQuery } from '@/hooks/useQuery';
+import { ENDPOINTS } from '@/services/api.config';
+import { queryKey } from '@/services/query.cache';
+import { getAllVehicles } from '@/services/vehicle.service';
+import type { Vehicle } from '@/services/api.types';
 
-// Mock data for vehicles
-const VEHICLE_DATA = [
-  {
-    id: '1',
-    name: 'Toyota Camry',
-    plate: 'ABC-1234',
-    status: 'active',
-    type: 'sedan',
-    driver: 'John Doe',
-    location: 'Downtown',
-    lastUpdated: '10 min ago',
-    fuelLevel: 75,
-  },
-  {
-    id: '2',
-    name: 'Honda Civic',
-    plate: 'XYZ-5678',
-    status: 'active',
-    type: 'sedan',
-    driver: 'Jane Smith',
-    location: 'North Side',
-    lastUpdated: '5 min ago',
-    fuelLevel: 25,
-  },
-  {
-    id: '3',
-    name: 'Ford F-150',
-    plate: 'DEF-9012',
-    status: 'maintenance',
-    type: 'truck',
-    driver: 'Mike Johnson',
-    location: 'Service Center',
-    lastUpdated: '2 hours ago',
-    fuelLevel: 50,
-  },
-  {
-    id: '4',
-    name: 'Chevrolet Suburban',
-    plate: 'GHI-3456',
-    status: 'inactive',
-    type: 'suv',
-    driver: 'Unassigned',
-    location: 'Headquarters',
-    lastUpdated: '1 day ago',
-    fuelLevel: 90,
-  },
-  {
-    id: '5',
-    name: 'Tesla Model 3',
-    plate: 'JKL-7890',
-    status: 'active',
-    type: 'sedan',
-    driver: 'Alex Brown',
-    location: 'East Side',
-    lastUpdated: '15 min ago',
-    fuelLevel: 80,
-  },
-];
+type StatusFilter = 'all' | 'active' | 'maintenance' | 'inactive';
+
+// Primary driver first, or a placeholder when nobody is assigned
+const getDriverNames = (vehicle: Vehicle) => {
+  const drivers = [...(vehicle.drivers || [])].sort(
+    (a, b) => Number(!!b.assignment?.isPrimary) - Number(!!a.assignment?.isPrimary)
+  );
+  return drivers.map(driver => driver.name);
+};
+
+const formatLastUpdated = (value?: string) => {
+  if (!value) return 'N/A';
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? 'N/A' : date.toLocaleString();
+};
 
 export default function VehiclesScreen() {
+  const { authToken } = useAuth();
+  const can = useCan();
   const [searchQuery, setSearchQuery] = useState('');
-  const [filter, setFilter] = useState('all'); // 'all', 'active', 'maintenance', 'inactive'
+  const [filter, setFilter] = useState<StatusFilter>('all');
+
+  // Same cached fleet list as the vehicles screen
+  const vehiclesQuery = useQuery(
+    authToken ? queryKey(ENDPOINTS.VEHICLE.GET_ALL) : null,
+    () => getAllVehicles(authToken)
+  );
+  const response: any = vehiclesQuery.data;
+  const vehicles: Vehicle[] = Array.isArray(response) ? response : (response && (response.vehicles || response.data)) || [];
 
-  const filteredVehicles = VEHICLE_DATA.filter(vehicle => {
-    const matchesQuery = vehicle.name.toLowerCase().includes(searchQuery.toLowerCase()) || 
-                         vehicle.plate.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         vehicle.driver.toLowerCase().includes(searchQuery.toLowerCase());
+  const filteredVehicles = vehicles.filter(vehicle => {
+    const query = searchQuery.toLowerCase();
+    const matchesQuery = vehicle.name.toLowerCase().includes(query) || 
+                         vehicle.plate.toLowerCase().includes(query) ||
+                         getDriverNames(vehicle).some(name => name.toLowerCase().includes(query));
                          
     const matchesFilter = filter === 'all' || vehicle.status === filter;
     
@@ -80,12 +56,23 @@ export default function VehiclesScreen() {
 
   return (
     <SafeAreaView style={styles.container}>
-      <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.content}
+        refreshControl={
+          <RefreshControl
+            refreshing={vehiclesQuery.isRefreshing}
+            onRefresh={vehiclesQuery.refetch}
+          />
+        }
+      >
         <View style={styles.header}>
           <ThemedText type="title">Vehicles</ThemedText>
-          <TouchableOpacity style={styles.addButton}>
-            <IconSymbol name="plus" size={20} color="#fff" />
-          </TouchableOpacity>
+          {can('vehicles:write') && (
+            <TouchableOpacity style={styles.addButton} onPress={() => router.push('/vehicles/add-vehicle')}>
+              <IconSymbol name="plus" size={20} color="#fff" />
+            </TouchableOpacity>
+          )}
         </View>
 
         <View style={styles.searchContainer}>
@@ -128,19 +115,35 @@ export default function VehiclesScreen() {
           />
         </View>
 
-        <ThemedText style={styles.resultCount}>
-          {filteredVehicles.length} {filteredVehicles.length === 1 ? 'vehicle' : 'vehicles'} found
-        </ThemedText>
+        {vehiclesQuery.isLoading ? (
+          <View style={styles.stateContainer}>
+            <ActivityIndicator size="large" color={Colors.light.primary} />
+            <ThemedText style={styles.stateText}>Loading vehicles...</ThemedText>
+          </View>
+        ) : vehiclesQuery.error && vehicles.length === 0 ? (
+          <View style={styles.stateContainer}>
+            <ThemedText style={styles.stateText}>Failed to load vehicles</ThemedText>
+            <TouchableOpacity style={styles.retryButton} onPress={vehiclesQuery.refetch}>
+              <ThemedText style={styles.retryText}>Retry</ThemedText>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <>
+            <ThemedText style={styles.resultCount}>
+              {filteredVehicles.length} {filteredVehicles.length === 1 ? 'vehicle' : 'vehicles'} found
+            </ThemedText>
 
-        {filteredVehicles.map(vehicle => (
-          <VehicleCard key={vehicle.id} vehicle={vehicle} />
-        ))}
+            {filteredVehicles.map(vehicle => (
+              <VehicleCard key={vehicle.id} vehicle={vehicle} />
+            ))}
+          </>
+        )}
       </ScrollView>
     </SafeAreaView>
   );
 }
 
-function FilterButton({ title, active, onPress }) {
+function FilterButton({ title, active, onPress }: { title: string; active: boolean; onPress: () => void }) {
   return (
     <TouchableOpacity 
       style={[styles.filterButton, active && styles.activeFilterButton]}
@@ -153,7 +156,9 @@ function FilterButton({ title, active, onPress }) {
   );
 }
 
-function VehicleCard({ vehicle }) {
+function VehicleCard({ vehicle }: { vehicle: Vehicle }) {
+  const driverNames = getDriverNames(vehicle);
+
   const getStatusColor = () => {
     switch(vehicle.status) {
       case 'active': return Colors.light.success;
@@ -187,28 +192,27 @@ function VehicleCard({ vehicle }) {
       <View style={styles.vehicleDetails}>
         <View style={styles.detailItem}>
           <IconSymbol name={getVehicleIcon()} size={14} color={Colors.light.icon} />
-          <ThemedText style={styles.detailText}>{vehicle.type}</ThemedText>
+          <ThemedText style={styles.detailText}>{vehicle.type || 'N/A'}</ThemedText>
         </View>
         <View style={styles.detailItem}>
           <IconSymbol name="person.fill" size={14} color={Colors.light.icon} />
-          <ThemedText style={styles.detailText}>{vehicle.driver}</ThemedText>
+          <ThemedText style={styles.detailText} numberOfLines={1}>
+            {driverNames.length === 0
+              ? 'Unassigned'
+              : driverNames.length === 1 ? driverNames[0] : `${driverNames[0]} +${driverNames.length - 1}`}
+          </ThemedText>
         </View>
         <View style={styles.detailItem}>
           <IconSymbol name="location.fill" size={14} color={Colors.light.icon} />
-          <ThemedText style={styles.detailText}>{vehicle.location}</ThemedText>
+          <ThemedText style={styles.detailText}>{vehicle.location || 'N/A'}</ThemedText>
         </View>
         <View style={styles.detailItem}>
           <IconSymbol name="clock.fill" size={14} color={Colors.light.icon} />
-          <ThemedText style={styles.detailText}>{vehicle.lastUpdated}</ThemedText>
+          <ThemedText style={styles.detailText}>{formatLastUpdated(vehicle.lastUpdated)}</ThemedText>
         </View>
       </View>
 
-      <View style={styles.fuelBar}>
-        <View style={[styles.fuelLevel, { width: `${vehicle.fuelLevel}%`, backgroundColor: getFuelColor(vehicle.fuelLevel) }]} />
-      </View>
-      <ThemedText style={styles.fuelText}>Fuel: {vehicle.fuelLevel}%</ThemedText>
-
-      <TouchableOpacity style={styles.viewDetailsButton}>
+      <TouchableOpacity style={styles.viewDetailsButton} onPress={() => router.push(`/vehicles/${vehicle.id}` as any)}>
         <ThemedText style={styles.viewDetailsText}>View Details</ThemedText>
         <IconSymbol name="chevron.right" size={14} color={Colors.light.primary} />
       </TouchableOpacity>
@@ -216,12 +220,6 @@ function VehicleCard({ vehicle }) {
   );
 }
 
-function getFuelColor(level) {
-  if (level > 60) return Colors.light.success;
-  if (level > 30) return Colors.light.secondary;
-  return Colors.light.error;
-}
-
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -293,6 +291,24 @@ const styles = StyleSheet.create({
     marginBottom: 16,
     color: '#666',
   },
+  stateContainer: {
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  stateText: {
+    marginTop: 12,
+    color: '#666',
+  },
+  retryButton: {
+    marginTop: 12,
+    paddingVertical: 8,
+    paddingHorizontal: 20,
+    borderRadius: 20,
+    backgroundColor: Colors.light.primary,
+  },
+  retryText: {
+    color: '#fff',
+  },
   vehicleCard: {
     marginBottom: 16,
   },
@@ -337,22 +353,6 @@ const styles = StyleSheet.create({
     marginLeft: 6,
     fontSize: 14,
   },
-  fuelBar: {
-    height: 6,
-    backgroundColor: '#f0f0f0',
-    borderRadius: 3,
-    marginBottom: 4,
-    overflow: 'hidden',
-  },
-  fuelLevel: {
-    height: '100%',
-    borderRadius: 3,
-  },
-  fuelText: {
-    fontSize: 12,
-    color: '#666',
-    marginBottom: 12,
-  },
   viewDetailsButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -9,6 +9,8 @@ import 'react-native-reanimated';
 import { useColorScheme } from '@/hooks/useColorScheme';
 import { AuthProvider, useAuth } from '@/contexts/AuthContext';
 import { ToastProvider } from '@/contexts/ToastContext';
+import { OutboxProvider } from '@/contexts/OutboxContext';
+import { getHomeRoute } from '@/services/permissions';
 
 export default function RootLayout() {
   const colorScheme = useColorScheme();
@@ -23,12 +25,14 @@ export default function RootLayout() {
 
   return (
     <ThemeProvider value={DefaultTheme}>
-      <AuthProvider>
-        <ToastProvider>
-          <RootLayoutNav />
-          <StatusBar style="dark" />
-        </ToastProvider>
-      </AuthProvider>
+      <ToastProvider>
+        <AuthProvider>
+          <OutboxProvider>
+            <RootLayoutNav />
+            <StatusBar style="dark" />
+          </OutboxProvider>
+        </AuthProvider>
+      </ToastProvider>
     </ThemeProvider>
   );
 }
@@ -49,8 +53,8 @@ function RootLayoutNav() {
       return;
     }
     
-    // Do not redirect if on settings page
-    if (pathname === '/settings') {
+    // Do not redirect if on settings pages
+    if (pathname === '/settings' || pathname === '/change-password') {
       return;
     }
     
@@ -64,17 +68,7 @@ function RootLayoutNav() {
       if (!isAuthenticated) {
         router.replace('/auth/login');
       } else if (user) {
-        switch (user.role) {
-          case 'Admin':
-            router.replace('/dashboard/admin');
-            break;
-          case 'Driver':
-            router.replace('/dashboard/driver');
-            break;
-          case 'Viewer':
-            router.replace('/dashboard/viewer');
-            break;
-        }
+        router.replace(getHomeRoute(user.role) as any);
       }
     }
   }, [isAuthenticated, user, loading, pathname]);
@@ -85,7 +79,9 @@ function RootLayoutNav() {
       <Stack.Screen name="welcome" options={{ headerShown: false }} />
       <Stack.Screen name="auth/login" options={{ headerShown: false }} />
       <Stack.Screen name="auth/signup" options={{ headerShown: false }} />
+      <Stack.Screen name="auth/forgot-password" options={{ headerShown: false }} />
       <Stack.Screen name="settings" options={{ headerShown: false }} />
+      <Stack.Screen name="change-password" options={{ headerShown: false }} />
       <Stack.Screen name="vehicles" options={{ headerShown: false }} />
       <Stack.Screen name="vehicles/[id]" options={{ headerShown: false }} />
       <Stack.Screen name="+not-found" />
@@ -0,0 +1,282 @@
+import React, { useState } from 'react';
+import { StyleSheet, View, Image, TouchableOpacity, KeyboardAvoidingView, Platform, Dimensions, ScrollView } from 'react-native';
+import { router, Link } from 'expo-router';
+
+import { ThemedText } from '@/components/ThemedText';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { PasswordRules } from '@/components/PasswordRules';
+import { requestPasswordReset, resetPassword } from '@/services/auth.service';
+import { validateNewPassword } from '@/utils/password';
+
+const { height } = Dimensions.get('window');
+const topHeight = height * 0.3;
+
+export default function ForgotPasswordScreen() {
+  // First ask for the email, then for the emailed code and the new password
+  const [step, setStep] = useState<'request' | 'reset'>('request');
+  const [email, setEmail] = useState('');
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [info, setInfo] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleRequestCode = async () => {
+    setError('');
+    setInfo('');
+
+    if (!email.trim()) {
+      setError('Please enter your email address');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      await requestPasswordReset(email.trim());
+      // The server doesn't say whether the email has an account
+      setInfo(`If ${email.trim()} has an account, a reset code is on its way.`);
+      setStep('reset');
+    } catch (err: any) {
+      setError(err.message || 'Failed to send reset code. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setError('');
+
+    if (!code.trim()) {
+      setError('Please enter the code from the email');
+      return;
+    }
+    const problem = validateNewPassword(password, confirmPassword);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      await resetPassword(email.trim(), code.trim(), password);
+      router.replace({
+        pathname: '/auth/login',
+        params: {
+          notificationTitle: 'Password Reset',
+          notification: 'Your password has been reset. You can now log in with your new password.'
+        }
+      });
+    } catch (err: any) {
+      setError(err.message || 'Failed to reset password. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Black Background Top Section */}
+      <View style={styles.topSection}>
+        <View style={styles.logoContainer}>
+          <Image
+            source={require('@/assets/logo/lightLogo.png')}
+            style={styles.logo}
+            resizeMode="contain"
+          />
+        </View>
+      </View>
+
+      {/* Form Section */}
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.formSection}
+      >
+        <ScrollView contentContainerStyle={styles.scrollView}>
+          <View style={styles.formContainer}>
+            <ThemedText style={styles.title}>Reset Password</ThemedText>
+            <ThemedText style={styles.subtitle}>
+              {step === 'request'
+                ? 'Enter your email and we will send you a one-time code'
+                : 'Enter the code from the email and choose a new password'}
+            </ThemedText>
+
+            {error ? (
+              <View style={styles.errorContainer}>
+                <ThemedText style={styles.errorText}>{error}</ThemedText>
+              </View>
+            ) : info ? (
+              <View style={styles.infoContainer}>
+                <ThemedText style={styles.infoText}>{info}</ThemedText>
+              </View>
+            ) : null}
+
+            {step === 'request' ? (
+              <>
+                <Input
+                  icon="envelope.fill"
+                  placeholder="Email address"
+                  value={email}
+                  onChangeText={setEmail}
+                  keyboardType="email-address"
+                />
+
+                <Button
+                  title="Send Code"
+                  onPress={handleRequestCode}
+                  loading={loading}
+                  fullWidth
+                  outlined
+                />
+              </>
+            ) : (
+              <>
+                <Input
+                  icon="key.fill"
+                  placeholder="Reset code"
+                  value={code}
+                  onChangeText={setCode}
+                  keyboardType="numeric"
+                />
+
+                <Input
+                  icon="lock.fill"
+                  placeholder="New password"
+                  value={password}
+                  onChangeText={setPassword}
+                  secureTextEntry
+                />
+
+                <PasswordRules password={password} />
+
+                <Input
+                  icon="lock.fill"
+                  placeholder="Confirm new password"
+                  value={confirmPassword}
+                  onChangeText={setConfirmPassword}
+                  secureTextEntry
+                />
+
+                <Button
+                  title="Reset Password"
+                  onPress={handleReset}
+                  loading={loading}
+                  fullWidth
+                  outlined
+                />
+
+                <TouchableOpacity style={styles.resendButton} onPress={handleRequestCode} disabled={loading}>
+                  <ThemedText style={styles.resendText}>Send a new code</ThemedText>
+                </TouchableOpacity>
+              </>
+            )}
+
+            <View style={styles.loginContainer}>
+              <ThemedText style={styles.loginText}>Remembered it? </ThemedText>
+              <Link href="/auth/login" asChild>
+                <TouchableOpacity>
+                  <ThemedText style={styles.loginLink}>Log in</ThemedText>
+                </TouchableOpacity>
+              </Link>
+            </View>
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  topSection: {
+    height: topHeight,
+    backgroundColor: '#000000',
+    borderBottomLeftRadius: 30,
+    borderBottomRightRadius: 30,
+  },
+  logoContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  logo: {
+    width: 150,
+    height: 150,
+  },
+  formSection: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+    marginTop: -30,
+    borderTopLeftRadius: 30,
+    borderTopRightRadius: 30,
+  },
+  scrollView: {
+    flexGrow: 1,
+  },
+  formContainer: {
+    padding: 24,
+    paddingTop: 40,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#000000',
+    marginBottom: 8,
+    fontFamily: 'Inter',
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666',
+    marginBottom: 24,
+    fontFamily: 'Inter',
+  },
+  errorContainer: {
+    backgroundColor: 'rgba(229, 57, 53, 0.1)',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  errorText: {
+    color: '#E53935',
+    textAlign: 'center',
+    fontFamily: 'Inter',
+  },
+  infoContainer: {
+    backgroundColor: 'rgba(52, 152, 219, 0.1)',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  infoText: {
+    color: '#2471A3',
+    textAlign: 'center',
+    fontFamily: 'Inter',
+  },
+  resendButton: {
+    alignSelf: 'center',
+    marginTop: 16,
+  },
+  resendText: {
+    color: '#000000',
+    fontFamily: 'Inter',
+    fontSize: 14,
+  },
+  loginContainer: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginTop: 24,
+  },
+  loginText: {
+    fontFamily: 'Inter',
+    color: '#666',
+  },
+  loginLink: {
+    color: '#000000',
+    fontWeight: '600',
+    fontFamily: 'Inter',
+  },
+});
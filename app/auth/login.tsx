@@ -22,7 +22,7 @@ export default function LoginScreen() {
   const { login, loading } = useAuth();
   const params = useLocalSearchParams();
 
-  // Check for notification message from signup page
+  // Check for notification message from the signup or password reset page
   useEffect(() => {
     if (params.notification && !showNotification) {
       setNotificationMessage(params.notification as string);
@@ -62,7 +62,9 @@ export default function LoginScreen() {
         <View style={styles.modalOverlay}>
           <View style={styles.notificationContainer}>
             <View style={styles.notificationHeader}>
-              <ThemedText style={styles.notificationTitle}>Registration Successful</ThemedText>
+              <ThemedText style={styles.notificationTitle}>
+                {(params.notificationTitle as string) || 'Registration Successful'}
+              </ThemedText>
             </View>
             
             <ThemedText style={styles.notificationMessage}>
@@ -121,7 +123,7 @@ export default function LoginScreen() {
             secureTextEntry
           />
 
-          <TouchableOpacity style={styles.forgotPassword}>
+          <TouchableOpacity style={styles.forgotPassword} onPress={() => router.push('/auth/forgot-password' as any)}>
             <ThemedText style={styles.forgotPasswordText}>Forgot password?</ThemedText>
           </TouchableOpacity>
 
@@ -1,31 +1,24 @@
-import React, { useEffect } from 'react';
+import React from 'react';
 import { Stack } from 'expo-router';
-import { router } from 'expo-router';
-import { useAuth } from '@/contexts/AuthContext';
+import { RouteGuard } from '@/components/RouteGuard';
 
 export default function DashboardLayout() {
-  const { isAuthenticated, loading } = useAuth();
-
-  // Protected route - redirect to login if not authenticated
-  useEffect(() => {
-    if (!loading && !isAuthenticated) {
-      router.replace('/auth/login');
-    }
-  }, [isAuthenticated, loading]);
-
+  // Protected routes - signed-out users go to login, others need the route's permission
   return (
-    <Stack
-      screenOptions={{
-        headerShown: false,
-      }}>
-      <Stack.Screen name="admin" />
-      <Stack.Screen name="driver" />
-      <Stack.Screen name="viewer" />
-      <Stack.Screen name="drivers" />
-      <Stack.Screen name="add-driver" />
-      <Stack.Screen name="edit-driver" />
-      <Stack.Screen name="auto-expense" />
-      <Stack.Screen name="add-auto-expense" />
-    </Stack>
+    <RouteGuard>
+      <Stack
+        screenOptions={{
+          headerShown: false,
+        }}>
+        <Stack.Screen name="admin" />
+        <Stack.Screen name="driver" />
+        <Stack.Screen name="viewer" />
+        <Stack.Screen name="drivers" />
+        <Stack.Screen name="add-driver" />
+        <Stack.Screen name="edit-driver" />
+        <Stack.Screen name="auto-expense" />
+        <Stack.Screen name="add-auto-expense" />
+      </Stack>
+    </RouteGuard>
   );
-} 
\ No newline at end of file
+}
@@ -14,6 +14,9 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
 import { getAllEarnings } from '@/services/earning.service';
+import { isOnAccount } from '@/services/account.service';
+import { ExportFormat, exportTransactions, withKind } from '@/services/export.service';
+import { ExportButton } from '@/components/ExportButton';
 
 // Define data types
 type EarningType = {
@@ -21,7 +24,7 @@ type EarningType = {
   amount: number;
   note?: string;
   type: 'Online' | 'Cash' | 'Pocket Slipt';
-  accountName: 'Personal Account' | 'Limousine Account';
+  accountName?: string;
   driverId: string;
   date: string;
   createdAt: string;
@@ -38,7 +41,7 @@ export default function AccountDetailScreen() {  const { user, authToken } = use
   const params = useLocalSearchParams();
   
   // Get parameters from route
-  const accountName = params.accountName as 'Personal Account' | 'Limousine Account';
+  const accountName = params.accountName as string;
   const totalAmount = parseFloat((params.totalAmount as string) || '0');
   const paramDriverId = params.driverId as string;
   
@@ -48,16 +51,6 @@ export default function AccountDetailScreen() {  const { user, authToken } = use
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
-  // Role-based protection - only Driver and Admin can access this screen
-  useEffect(() => {
-    if (user && user.role !== 'Driver' && user.role !== 'Admin') {
-      // Redirect non-authorized users to their respective dashboards
-      if (user.role === 'Viewer') {
-        router.replace('/dashboard/viewer');
-      }
-    }
-  }, [user, router]);
-
   // Fetch earnings for the specific account
   const fetchEarnings = async () => {
     if (!user) return;
@@ -85,7 +78,7 @@ export default function AccountDetailScreen() {  const { user, authToken } = use
       
       // Filter earnings for this specific account
       const filteredEarnings = validEarnings.filter(
-        (item: EarningType) => item.accountName === accountName
+        (item: EarningType) => isOnAccount(item, accountName)
       );
       
       console.log(`Found ${filteredEarnings.length} valid transactions for ${accountName}`);
@@ -143,6 +136,13 @@ export default function AccountDetailScreen() {  const { user, authToken } = use
     });
   };
 
+  // Export this account's transactions as a spreadsheet
+  const handleExport = (format: ExportFormat) =>
+    exportTransactions(withKind(earnings, 'Earning'), format, {
+      kind: accountName,
+      driverName: paramDriverId ? earnings[0]?.driver?.name : user?.name,
+    });
+
   return (
     <SafeAreaView style={styles.container}>
       <StatusBar style="dark" />
@@ -164,7 +164,11 @@ export default function AccountDetailScreen() {  const { user, authToken } = use
           <Ionicons name="chevron-back" size={24} color="black" />
         </TouchableOpacity>
         <Text style={styles.title}>{accountName}</Text>
-        <View style={styles.rightPlaceholder} />
+        <ExportButton
+          style={styles.backButton}
+          disabled={earnings.length === 0}
+          onExport={handleExport}
+        />
       </View>
       
       {isLoading && !refreshing ? (
@@ -259,9 +263,6 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: 'black',
   },
-  rightPlaceholder: {
-    width: 24, // Match back button width for centering
-  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
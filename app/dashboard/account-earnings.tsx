@@ -16,7 +16,10 @@ import { StatusBar } from 'expo-status-bar';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
+import { useAccounts } from '@/hooks/useAccounts';
 import { getAllEarnings } from '@/services/earning.service';
+import { AccountEarnings, groupEarningsByAccount } from '@/services/account.service';
+import { UNASSIGNED_ACCOUNT } from '@/services/salary.service';
 
 const { width } = Dimensions.get('window');
 const cardWidth = width * 0.85;
@@ -27,7 +30,7 @@ type EarningType = {
   amount: number;
   note?: string;
   type: 'Online' | 'Cash' | 'Pocket Slipt';
-  accountName: 'Personal Account' | 'Limousine Account';
+  accountName?: string;
   driverId: string;
   date: string;
   createdAt: string;
@@ -39,14 +42,8 @@ type EarningType = {
   };
 };
 
-type AccountEarnings = {
-  accountName: 'Personal Account' | 'Limousine Account';
-  totalAmount: number;
-  earnings: EarningType[];
-  iconName: string;
-  cardColor: string;
-  textColor: string;
-};
+// Card colours, in turn for each account
+const CARD_COLORS = ['#2C3E50', '#34495E', '#1B2631', '#283747'];
 
 export default function AccountEarningsScreen() {
   const { user } = useAuth();
@@ -57,20 +54,8 @@ export default function AccountEarningsScreen() {
   const [isLoading, setIsLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [accountEarnings, setAccountEarnings] = useState<AccountEarnings[]>([]);
+  const { accounts } = useAccounts();
   
-  // Role-based protection - only Driver can access this screen
-  useEffect(() => {
-    if (user && user.role !== 'Driver') {
-      // Redirect non-driver users to their respective dashboards
-      if (user.role === 'Admin') {
-        router.replace('/dashboard/admin');
-      } else if (user.role === 'Viewer') {
-        router.replace('/dashboard/viewer');
-      }
-    }
-  }, [user, router]);
-
   // Fetch all earnings
   const fetchEarnings = async () => {
     if (!user) return;
@@ -92,38 +77,6 @@ export default function AccountEarningsScreen() {
       });
       
       setEarnings(validData);
-      
-      // Process the data for each account type
-      const personalAccountData = validData.filter((item: EarningType) => item.accountName === 'Personal Account');
-      const limousineAccountData = validData.filter((item: EarningType) => item.accountName === 'Limousine Account');
-      
-      const personalTotal = personalAccountData.reduce((sum: number, item: EarningType) => sum + parseFloat(String(item.amount)), 0);
-      const limousineTotal = limousineAccountData.reduce((sum: number, item: EarningType) => sum + parseFloat(String(item.amount)), 0);
-      
-      console.log('Personal Account entries:', personalAccountData.length, 'Total:', personalTotal);
-      console.log('Limousine Account entries:', limousineAccountData.length, 'Total:', limousineTotal);
-      
-      const accountsData: AccountEarnings[] = [
-        {
-          accountName: 'Personal Account',
-          totalAmount: personalTotal,
-          earnings: personalAccountData,
-          iconName: 'wallet-outline',
-          cardColor: '#2C3E50', // Dark blue-gray
-          textColor: '#ffffff'  // White
-        },
-        {
-          accountName: 'Limousine Account',
-          totalAmount: limousineTotal,
-          earnings: limousineAccountData,
-          iconName: 'car-outline',
-          cardColor: '#34495E', // Slightly lighter blue-gray
-          textColor: '#ffffff'  // White
-        }
-      ];
-      
-      setAccountEarnings(accountsData);
-      
     } catch (err) {
       console.error('Error fetching earnings data:', err);
       setError('Failed to load account earnings. Please try again later.');
@@ -201,46 +154,51 @@ export default function AccountEarningsScreen() {
   );
   
   // Render an account card
-  const renderAccountCard = (account: AccountEarnings, index: number) => (
+  const renderAccountCard = (account: AccountEarnings<EarningType>, index: number) => (
     <TouchableOpacity 
-      key={account.accountName}
+      key={account.name}
       style={[
         styles.accountCard, 
-        { backgroundColor: account.cardColor }
+        { backgroundColor: CARD_COLORS[index % CARD_COLORS.length] }
       ]}
       onPress={() => router.push({
         pathname: '/dashboard/account-detail',
         params: { 
-          accountName: account.accountName,
-          totalAmount: account.totalAmount.toString()
+          accountName: account.name,
+          totalAmount: account.total.toString()
         }
       } as any)}
     >
       <View style={styles.cardHeader}>
-        <Ionicons name={account.iconName as any} size={36} color={account.textColor} />
+        <Ionicons
+          name={account.name === UNASSIGNED_ACCOUNT ? 'help-circle-outline' : 'wallet-outline'}
+          size={36}
+          color="#ffffff"
+        />
         <View style={styles.cardTitleContainer}>
-          <Text style={[styles.cardTitle, { color: account.textColor }]}>{account.accountName}</Text>
-          <Text style={[styles.cardSubtitle, { color: account.textColor }]}>
+          <Text style={styles.cardTitle}>{account.name}</Text>
+          <Text style={styles.cardSubtitle}>
             {account.earnings.length} {account.earnings.length === 1 ? 'Payment' : 'Payments'}
+            {account.account?.isArchived ? ' - Archived' : ''}
           </Text>
         </View>
       </View>
       
       <View style={styles.cardBody}>
-        <Text style={[styles.cardAmount, { color: account.textColor }]}>
-          {formatCurrency(account.totalAmount)}
+        <Text style={styles.cardAmount}>
+          {formatCurrency(account.total)}
         </Text>
-        <Text style={[styles.cardLabel, { color: account.textColor }]}>Total Earnings</Text>
+        <Text style={styles.cardLabel}>Total Earnings</Text>
       </View>
       
       <View style={styles.cardFooter}>
-        <Text style={[styles.viewDetailsText, { color: account.textColor }]}>
+        <Text style={styles.viewDetailsText}>
           View Transactions
         </Text>
         <Ionicons 
           name="chevron-forward" 
           size={16} 
-          color={account.textColor} 
+          color="#ffffff" 
         />
       </View>
     </TouchableOpacity>
@@ -292,7 +250,7 @@ export default function AccountEarningsScreen() {
           {/* Account Cards */}
           <View style={styles.accountCardsContainer}>
             <Text style={styles.sectionTitle}>Your Accounts</Text>
-            {accountEarnings.map(renderAccountCard)}
+            {groupEarningsByAccount(earnings, accounts).map(renderAccountCard)}
           </View>
         </ScrollView>
       )}
@@ -392,10 +350,12 @@ const styles = StyleSheet.create({
     marginLeft: 12,
   },
   cardTitle: {
+    color: '#ffffff',
     fontSize: 18,
     fontWeight: 'bold',
   },
   cardSubtitle: {
+    color: '#ffffff',
     fontSize: 12,
     marginTop: 2,
     opacity: 0.8,
@@ -404,11 +364,13 @@ const styles = StyleSheet.create({
     marginBottom: 20,
   },
   cardAmount: {
+    color: '#ffffff',
     fontSize: 28,
     fontWeight: 'bold',
     marginBottom: 4,
   },
   cardLabel: {
+    color: '#ffffff',
     fontSize: 14,
     opacity: 0.7,
   },
@@ -421,6 +383,7 @@ const styles = StyleSheet.create({
     paddingTop: 12,
   },
   viewDetailsText: {
+    color: '#ffffff',
     fontSize: 14,
     fontWeight: 'bold',
     marginRight: 8,
@@ -0,0 +1,310 @@
+import React, { useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { router } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import { useAccounts } from '@/hooks/useAccounts';
+import { createAccount, updateAccount } from '@/services/account.service';
+import { UNASSIGNED_ACCOUNT } from '@/services/salary.service';
+import type { EarningAccount } from '@/services/api.types';
+
+export default function AccountsScreen() {
+  const { authToken } = useAuth();
+  const { showToast } = useToast();
+  const { accounts, activeAccounts, isLoading, error, refetch } = useAccounts();
+  const [name, setName] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  // Account being archived or restored
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const archivedAccounts = accounts.filter(account => account.isArchived);
+
+  const handleAdd = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      showToast('error', 'Error', 'Please enter an account name');
+      return;
+    }
+    // Earnings refer to their account by name, so names must be unique
+    const existing = accounts.find(account => account.name.toLowerCase() === trimmed.toLowerCase());
+    if (existing || trimmed.toLowerCase() === UNASSIGNED_ACCOUNT.toLowerCase()) {
+      showToast('error', 'Error', existing?.isArchived
+        ? `${existing.name} is archived. Restore it instead.`
+        : `There is already an account called ${trimmed}`);
+      return;
+    }
+
+    setIsAdding(true);
+    try {
+      await createAccount({ name: trimmed }, authToken);
+      setName('');
+      showToast('success', 'Success', `${trimmed} added`);
+    } catch (err: any) {
+      console.error('Error creating account:', err);
+      showToast('error', 'Error', err.message || 'Failed to create account');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const setArchived = async (account: EarningAccount, isArchived: boolean) => {
+    setUpdatingId(account.id);
+    try {
+      await updateAccount(account.id, { isArchived }, authToken);
+      showToast('success', 'Success', `${account.name} ${isArchived ? 'archived' : 'restored'}`);
+    } catch (err: any) {
+      console.error('Error updating account:', err);
+      showToast('error', 'Error', err.message || 'Failed to update account');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const renderAccount = (account: EarningAccount) => (
+    <View key={account.id} style={styles.accountRow}>
+      <Ionicons
+        name="wallet-outline"
+        size={22}
+        color={account.isArchived ? '#999' : '#000'}
+        style={styles.accountIcon}
+      />
+      <Text style={[styles.accountName, account.isArchived && styles.archivedName]}>{account.name}</Text>
+      <TouchableOpacity
+        style={styles.actionButton}
+        onPress={() => setArchived(account, !account.isArchived)}
+        disabled={updatingId !== null}
+      >
+        {updatingId === account.id ? (
+          <ActivityIndicator size="small" color="#000" />
+        ) : (
+          <Text style={styles.actionText}>{account.isArchived ? 'Restore' : 'Archive'}</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="dark" />
+
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color="#000" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Earning Accounts</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}
+        showsVerticalScrollIndicator={false}
+      >
+        {/* New account */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Add Account</Text>
+          <Text style={styles.infoText}>
+            One account per company or platform drivers earn through, e.g. a limousine company or a ride-hailing app.
+          </Text>
+          <View style={styles.addRow}>
+            <TextInput
+              style={styles.input}
+              placeholder="Account name"
+              value={name}
+              onChangeText={setName}
+              placeholderTextColor="#999"
+              editable={!isAdding}
+              onSubmitEditing={handleAdd}
+            />
+            <TouchableOpacity
+              style={[styles.addButton, isAdding && styles.disabledButton]}
+              onPress={handleAdd}
+              disabled={isAdding}
+            >
+              {isAdding ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={styles.addButtonText}>Add</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {isLoading && accounts.length === 0 ? (
+          <ActivityIndicator size="large" color="#000" style={styles.loading} />
+        ) : error && accounts.length === 0 ? (
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorText}>Failed to load accounts</Text>
+            <TouchableOpacity style={styles.retryButton} onPress={() => refetch()}>
+              <Text style={styles.retryButtonText}>Retry</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <>
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Active</Text>
+              {activeAccounts.length === 0 ? (
+                <Text style={styles.infoText}>No active accounts. Earnings will be recorded as Unassigned.</Text>
+              ) : (
+                activeAccounts.map(renderAccount)
+              )}
+            </View>
+
+            {archivedAccounts.length > 0 && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Archived</Text>
+                <Text style={styles.infoText}>
+                  Archived accounts keep their earnings but can no longer be picked for new ones.
+                </Text>
+                {archivedAccounts.map(renderAccount)}
+              </View>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0'
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  placeholder: {
+    width: 24,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  infoText: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 8,
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  input: {
+    flex: 1,
+    height: 48,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    fontSize: 16,
+    color: '#000',
+  },
+  addButton: {
+    height: 48,
+    paddingHorizontal: 20,
+    marginLeft: 8,
+    borderRadius: 8,
+    backgroundColor: '#000',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  addButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  accountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  accountIcon: {
+    marginRight: 12,
+  },
+  accountName: {
+    flex: 1,
+    fontSize: 16,
+    color: '#000',
+  },
+  archivedName: {
+    color: '#999',
+  },
+  actionButton: {
+    minWidth: 80,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#000',
+    alignItems: 'center',
+  },
+  actionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#000',
+  },
+  loading: {
+    marginTop: 20,
+  },
+  errorContainer: {
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#666',
+    marginBottom: 12,
+  },
+  retryButton: {
+    backgroundColor: '#000',
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
@@ -11,23 +11,39 @@ import {
   Platform,
   Modal
 } from 'react-native';
-import { router } from 'expo-router';
+import { router, useLocalSearchParams } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
+import { useCan } from '@/hooks/useCan';
 import { useToast } from '@/contexts/ToastContext';
-import { createAutoExpense } from '@/services/autoExpense.service';
-import { getAllAutoExpenses } from '@/services/autoExpense.service';
+import { useOutbox } from '@/contexts/OutboxContext';
+import { ReceiptPicker } from '@/components/ReceiptPicker';
+import { ReceiptGallery } from '@/components/ReceiptGallery';
+import { getAllAutoExpenses, getAutoExpenseById, updateAutoExpense } from '@/services/autoExpense.service';
+import { assertPeriodOpen } from '@/services/settlement.service';
+import { toDateKey } from '@/utils/date';
+import type { AutoExpense } from '@/services/api.types';
 import { generateAutoExpensesPDF } from '@/services/pdf.service';
+import type { StatementFilters } from '@/services/statement.template';
+import { StatementBuilder } from '@/components/StatementBuilder';
 
 export default function AddAutoExpenseScreen() {
   const { token, user } = useAuth();
+  const can = useCan();
   const toast = useToast();
+  const { submit } = useOutbox();
+  // Set when editing an existing auto expense instead of adding one
+  const { id } = useLocalSearchParams();
+  const autoExpenseId = id as string | undefined;
+  const [original, setOriginal] = useState<AutoExpense | null>(null);
+  const [loadingRecord, setLoadingRecord] = useState(!!autoExpenseId);
   const [loading, setLoading] = useState(false);
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [isAmountValid, setIsAmountValid] = useState(false);
   const [isDownloading, setIsDownloading] = useState(false);
+  const [showStatementBuilder, setShowStatementBuilder] = useState(false);
   const [formData, setFormData] = useState({
     amount: '',
     category: 'Other', // Default category
@@ -35,27 +51,51 @@ export default function AddAutoExpenseScreen() {
     driverId: '', // Will be auto-filled based on user role
     date: new Date().toISOString().split('T')[0] // Today's date in YYYY-MM-DD format
   });
+  const [receipts, setReceipts] = useState<string[]>([]);
 
   // Date picker state
   const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
   const [selectedMonth, setSelectedMonth] = useState(new Date().getMonth());
   const [selectedDay, setSelectedDay] = useState(new Date().getDate());
   
-  // Protect route - only Driver or Admin can access this page
+  // Drivers always record their own auto expenses
   useEffect(() => {
-    if (!user) {
-      router.replace('/auth/login');
-    } else if (user.role === 'Driver') {
-      // If user is driver, pre-fill the driverId
+    if (user && can('expenses:own')) {
       setFormData(prev => ({
         ...prev,
         driverId: user.id
       }));
-    } else if (user.role !== 'Admin') {
-      // Redirect viewers to their dashboard
-      router.replace('/dashboard/viewer');
     }
-  }, [user]);
+  }, [user, can]);
+
+  // Prefill the form with the auto expense being edited
+  useEffect(() => {
+    if (!autoExpenseId) return;
+
+    const fetchAutoExpense = async () => {
+      try {
+        setLoadingRecord(true);
+        const response = await getAutoExpenseById(autoExpenseId, token);
+        const autoExpense: AutoExpense = (response && response.data) || response;
+        setOriginal(autoExpense);
+        setFormData({
+          amount: String(autoExpense.amount),
+          category: autoExpense.category || 'Other',
+          note: autoExpense.note || '',
+          driverId: autoExpense.driverId,
+          date: toDateKey(autoExpense.date)
+        });
+      } catch (error) {
+        console.error('Error fetching auto expense:', error);
+        Alert.alert('Error', 'Failed to load auto expense record');
+        router.back();
+      } finally {
+        setLoadingRecord(false);
+      }
+    };
+
+    fetchAutoExpense();
+  }, [autoExpenseId, token]);
   
   // Validate amount whenever it changes
   useEffect(() => {
@@ -163,16 +203,33 @@ export default function AddAutoExpenseScreen() {
       const formattedDate = `${year}-${month}-${day}`;
       console.log('Manually formatted date:', formattedDate);
       
+      if (autoExpenseId && original) {
+        // Moving an auto expense must not touch a settled month on either side
+        await assertPeriodOpen(original.driverId, toDateKey(original.date), token);
+        if (formattedDate !== toDateKey(original.date) || formData.driverId !== original.driverId) {
+          await assertPeriodOpen(formData.driverId, formattedDate, token);
+        }
+        // Receipts stay as they are; only the details can be edited
+        await updateAutoExpense(autoExpenseId, {
+          ...formData,
+          amount: parseFloat(formData.amount),
+          date: formattedDate
+        }, token);
+        toast.showToast('success', 'Success', 'Auto expense record updated successfully');
+        router.back();
+        return;
+      }
+      
       const data = {
         ...formData,
         amount: parseFloat(formData.amount),
-        date: formattedDate
+        date: formattedDate,
+        receipts
       };
       
       console.log('Submitting auto expense with data:', data);
       
-      // Cast token to any to avoid TypeScript errors
-      const response = await createAutoExpense(data, token as any);
+      const response = await submit('autoExpense', data);
       console.log('Auto expense created response:', response);
       
       // Try to refresh the driver dashboard if function is available
@@ -181,22 +238,26 @@ export default function AddAutoExpenseScreen() {
         (global as any).refreshDriverDashboard();
       }
       
-      toast.showToast('success', 'Success', 'Auto expense record created successfully');
+      if (response.status === 'queued') {
+        toast.showToast('info', 'Saved Offline', 'Auto expense will sync when you are back online');
+      } else {
+        toast.showToast('success', 'Success', 'Auto expense record created successfully');
+      }
       
       // Navigate back after a short delay to let the toast appear
       setTimeout(() => {
         router.push('/dashboard/auto-expense' as any);
       }, 1000);
     } catch (error: any) {
-      console.error('Error creating auto expense:', error);
-      toast.showToast('error', 'Error', error.message || 'Failed to create auto expense record');
+      console.error(autoExpenseId ? 'Error updating auto expense:' : 'Error creating auto expense:', error);
+      toast.showToast('error', 'Error', error.message || (autoExpenseId ? 'Failed to update auto expense record' : 'Failed to create auto expense record'));
     } finally {
       setLoading(false);
     }
   };
   
-  // Handle PDF download
-  const handleDownloadStatement = async () => {
+  // Handle PDF download for the period and filters picked in the statement builder
+  const handleDownloadStatement = async (filters: StatementFilters) => {
     try {
       setIsDownloading(true);
       
@@ -219,7 +280,8 @@ export default function AddAutoExpenseScreen() {
       
       const autoExpensesData = await fetchAllData();
       
-      await generateAutoExpensesPDF(autoExpensesData, user, 'fleetx-auto-expenses-statement.pdf');
+      await generateAutoExpensesPDF(autoExpensesData, user, { filters });
+      setShowStatementBuilder(false);
       
       toast.showToast('success', 'Success', 'Auto expenses statement has been generated and is ready to share.');
     } catch (error) {
@@ -344,9 +406,14 @@ export default function AddAutoExpenseScreen() {
         >
           <Ionicons name="arrow-back" size={24} color="black" />
         </TouchableOpacity>
-        <Text style={styles.title}>Add Auto Expense</Text>
+        <Text style={styles.title}>{autoExpenseId ? 'Edit Auto Expense' : 'Add Auto Expense'}</Text>
       </View>
       
+      {loadingRecord ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#000" />
+        </View>
+      ) : (
       <ScrollView 
         style={styles.content}
         contentContainerStyle={styles.contentContainer}
@@ -466,7 +533,7 @@ export default function AddAutoExpenseScreen() {
         </View>
         
         {/* Driver ID (Admin only) */}
-        {user?.role === 'Admin' && (
+        {can('drivers:read') && (
           <View style={styles.formGroup}>
             <Text style={styles.label}>Driver ID</Text>
             <View style={styles.inputContainer}>
@@ -522,6 +589,20 @@ export default function AddAutoExpenseScreen() {
           </View>
         </View>
         
+        {/* Receipts */}
+        <View style={styles.formGroup}>
+          <Text style={styles.label}>Receipts (Optional)</Text>
+          {autoExpenseId ? (
+            original?.receipts?.length ? (
+              <ReceiptGallery receipts={original.receipts} size={72} />
+            ) : (
+              <Text style={styles.infoText}>No receipts attached</Text>
+            )
+          ) : (
+            <ReceiptPicker receipts={receipts} onChange={setReceipts} disabled={loading} />
+          )}
+        </View>
+        
         {/* Submit Button */}
         <TouchableOpacity 
           style={[
@@ -538,19 +619,20 @@ export default function AddAutoExpenseScreen() {
             </>
           ) : (
             <>
-              <Ionicons name="add-circle-outline" size={20} color="#fff" style={{marginRight: 8}} />
-              <Text style={styles.submitButtonText}>Create Auto Expense Record</Text>
+              <Ionicons name={autoExpenseId ? 'save-outline' : 'add-circle-outline'} size={20} color="#fff" style={{marginRight: 8}} />
+              <Text style={styles.submitButtonText}>{autoExpenseId ? 'Update Auto Expense Record' : 'Create Auto Expense Record'}</Text>
             </>
           )}
         </TouchableOpacity>
         
         {/* Download Statement Button */}
+        {!autoExpenseId && (
         <TouchableOpacity 
           style={[
             styles.downloadButton,
             isDownloading && styles.disabledDownloadButton
           ]}
-          onPress={handleDownloadStatement}
+          onPress={() => setShowStatementBuilder(true)}
           disabled={isDownloading}
         >
           {isDownloading ? (
@@ -565,7 +647,19 @@ export default function AddAutoExpenseScreen() {
             </>
           )}
         </TouchableOpacity>
+        )}
       </ScrollView>
+      )}
+
+      <StatementBuilder
+        visible={showStatementBuilder}
+        title="Auto Expenses Statement"
+        categoryLabel="Category"
+        categories={['Petrol', 'Car Accident', 'Maintenance', 'Insurance', 'Other']}
+        isGenerating={isDownloading}
+        onClose={() => setShowStatementBuilder(false)}
+        onGenerate={handleDownloadStatement}
+      />
       
       {/* Date Picker Modal */}
       <Modal
@@ -697,6 +791,11 @@ const styles = StyleSheet.create({
     fontSize: 20,
     fontWeight: 'bold',
   },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   content: {
     flex: 1,
     padding: 20,
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { 
   StyleSheet, 
   View, 
@@ -17,7 +17,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import * as driverService from '@/services/driver.service';
 
 export default function AddDriverScreen() {
-  const { token, user } = useAuth();
+  const { token } = useAuth();
   const [loading, setLoading] = useState(false);
   const [formData, setFormData] = useState({
     name: '',
@@ -26,20 +26,6 @@ export default function AddDriverScreen() {
     phoneNumber: ''
   });
   
-  // Protect route - only Admin can access this page
-  useEffect(() => {
-    if (!user) {
-      router.replace('/auth/login');
-    } else if (user.role !== 'Admin') {
-      // Redirect non-admin users to their respective dashboards
-      if (user.role === 'Driver') {
-        router.replace('/dashboard/driver');
-      } else if (user.role === 'Viewer') {
-        router.replace('/dashboard/viewer');
-      }
-    }
-  }, [user]);
-
   const handleInputChange = (field: string, value: string) => {
     setFormData(prev => ({
       ...prev,
@@ -109,7 +95,12 @@ export default function AddDriverScreen() {
           <Ionicons name="arrow-back" size={24} color="black" />
         </TouchableOpacity>
         <Text style={styles.title}>Add New Driver</Text>
-        <View style={{ width: 24 }} />
+        <TouchableOpacity 
+          style={styles.backButton}
+          onPress={() => router.push('/dashboard/import-fleet' as any)}
+        >
+          <Ionicons name="cloud-upload-outline" size={24} color="black" />
+        </TouchableOpacity>
       </View>
       
       <ScrollView 
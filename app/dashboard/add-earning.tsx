@@ -11,23 +11,37 @@ import {
   Platform,
   Modal
 } from 'react-native';
-import { router } from 'expo-router';
+import { router, useLocalSearchParams } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
+import { useCan } from '@/hooks/useCan';
 import { useToast } from '@/contexts/ToastContext';
-import { createEarning } from '@/services/earning.service';
+import { useOutbox } from '@/contexts/OutboxContext';
+import { AccountPicker } from '@/components/AccountPicker';
+import { getEarningById, updateEarning } from '@/services/earning.service';
+import { assertPeriodOpen } from '@/services/settlement.service';
+import { toDateKey } from '@/utils/date';
+import type { Earning } from '@/services/api.types';
 
 export default function AddEarningScreen() {
   const { token, user } = useAuth();
+  const can = useCan();
   const toast = useToast();
+  const { submit } = useOutbox();
+  // Set when editing an existing earning instead of adding one
+  const { id } = useLocalSearchParams();
+  const earningId = id as string | undefined;
+  const [original, setOriginal] = useState<Earning | null>(null);
+  const [loadingRecord, setLoadingRecord] = useState(!!earningId);
   const [loading, setLoading] = useState(false);
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [isAmountValid, setIsAmountValid] = useState(false);
   const [formData, setFormData] = useState({
     amount: '',
     type: 'Cash', // Default type
+    accountName: undefined as string | undefined,
     note: '',
     driverId: '', // Will be auto-filled based on user role
     date: new Date().toISOString().split('T')[0] // Today's date in YYYY-MM-DD format
@@ -38,21 +52,45 @@ export default function AddEarningScreen() {
   const [selectedMonth, setSelectedMonth] = useState(new Date().getMonth());
   const [selectedDay, setSelectedDay] = useState(new Date().getDate());
   
-  // Protect route - only Admin can access this page
+  // Drivers always record their own earnings
   useEffect(() => {
-    if (!user) {
-      router.replace('/auth/login');
-    } else if (user.role === 'Driver') {
-      // If user is driver, pre-fill the driverId
+    if (user && can('earnings:own')) {
       setFormData(prev => ({
         ...prev,
         driverId: user.id
       }));
-    } else if (user.role !== 'Admin') {
-      // Redirect viewers to their dashboard
-      router.replace('/dashboard/viewer');
     }
-  }, [user]);
+  }, [user, can]);
+
+  // Prefill the form with the earning being edited
+  useEffect(() => {
+    if (!earningId) return;
+
+    const fetchEarning = async () => {
+      try {
+        setLoadingRecord(true);
+        const response = await getEarningById(earningId, token);
+        const earning: Earning = (response && response.data) || response;
+        setOriginal(earning);
+        setFormData({
+          amount: String(earning.amount),
+          type: earning.type,
+          accountName: earning.accountName,
+          note: earning.note || '',
+          driverId: earning.driverId,
+          date: toDateKey(earning.date)
+        });
+      } catch (error) {
+        console.error('Error fetching earning:', error);
+        Alert.alert('Error', 'Failed to load earning record');
+        router.back();
+      } finally {
+        setLoadingRecord(false);
+      }
+    };
+
+    fetchEarning();
+  }, [earningId, token]);
   
   // Validate amount whenever it changes
   useEffect(() => {
@@ -113,7 +151,7 @@ export default function AddEarningScreen() {
   };
 
   const validateForm = () => {
-    const { amount, type, driverId } = formData;
+    const { amount, type, driverId, accountName } = formData;
     
     if (!amount.trim() || isNaN(parseFloat(amount)) || parseFloat(amount) <= 0) {
       toast.showToast('error', 'Invalid Amount', 'Please enter a valid amount');
@@ -135,6 +173,11 @@ export default function AddEarningScreen() {
       toast.showToast('error', 'Missing Driver', 'Driver ID is required');
       return false;
     }
+
+    if (!accountName) {
+      toast.showToast('error', 'Missing Account', 'Choose the account this earning is booked against');
+      return false;
+    }
     
     return true;
   };
@@ -166,9 +209,21 @@ export default function AddEarningScreen() {
         date: formattedDate
       };
       
+      if (earningId && original) {
+        // Moving an earning must not touch a settled month on either side
+        await assertPeriodOpen(original.driverId, toDateKey(original.date), token);
+        if (formattedDate !== toDateKey(original.date) || data.driverId !== original.driverId) {
+          await assertPeriodOpen(data.driverId, formattedDate, token);
+        }
+        await updateEarning(earningId, data, token);
+        toast.showToast('success', 'Success', 'Earning record updated successfully');
+        router.back();
+        return;
+      }
+      
       console.log('Submitting earning with data:', data);
       
-      const response = await createEarning(data);
+      const response = await submit('earning', data);
       console.log('Earning created response:', response);
       
       // Try to refresh the driver dashboard if function is available
@@ -177,15 +232,19 @@ export default function AddEarningScreen() {
         (global as any).refreshDriverDashboard();
       }
       
-      toast.showToast('success', 'Success', 'Earning record created successfully');
+      if (response.status === 'queued') {
+        toast.showToast('info', 'Saved Offline', 'Earning will sync when you are back online');
+      } else {
+        toast.showToast('success', 'Success', 'Earning record created successfully');
+      }
       
       // Navigate back after a short delay to let the toast appear
       setTimeout(() => {
         router.push('/dashboard/driver' as any);
       }, 1000);
     } catch (error: any) {
-      console.error('Error creating earning:', error);
-      toast.showToast('error', 'Error', error.message || 'Failed to create earning record');
+      console.error(earningId ? 'Error updating earning:' : 'Error creating earning:', error);
+      toast.showToast('error', 'Error', error.message || (earningId ? 'Failed to update earning record' : 'Failed to create earning record'));
     } finally {
       setLoading(false);
     }
@@ -322,14 +381,28 @@ export default function AddEarningScreen() {
       <View style={styles.header}>
         <TouchableOpacity 
           style={styles.backButton}
-          onPress={() => router.push('/dashboard/earnings' as any)}
+          onPress={() => (earningId ? router.back() : router.push('/dashboard/earnings' as any))}
         >
           <Ionicons name="arrow-back" size={24} color="#000" />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Add Earning</Text>
-        <View style={styles.placeholder} />
+        <Text style={styles.headerTitle}>{earningId ? 'Edit Earning' : 'Add Earning'}</Text>
+        {earningId ? (
+          <View style={styles.placeholder} />
+        ) : (
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => router.push('/dashboard/import-earnings' as any)}
+          >
+            <Ionicons name="cloud-upload-outline" size={24} color="#000" />
+          </TouchableOpacity>
+        )}
       </View>
       
+      {loadingRecord ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#000" />
+        </View>
+      ) : (
       <ScrollView 
         style={styles.content}
         contentContainerStyle={styles.contentContainer}
@@ -413,8 +486,18 @@ export default function AddEarningScreen() {
           </View>
         </View>
         
+        {/* Account Selector */}
+        <View style={styles.formGroup}>
+          <Text style={styles.label}>Account</Text>
+          <AccountPicker
+            value={formData.accountName}
+            onChange={(accountName) => setFormData(prev => ({ ...prev, accountName }))}
+            autoSelect={!earningId}
+          />
+        </View>
+        
         {/* Driver ID (Admin only) */}
-        {user?.role === 'Admin' && (
+        {can('drivers:read') && (
           <View style={styles.formGroup}>
             <Text style={styles.label}>Driver ID</Text>
             <View style={styles.inputContainer}>
@@ -481,12 +564,13 @@ export default function AddEarningScreen() {
             <ActivityIndicator color="#fff" size="small" />
           ) : (
             <>
-              <Ionicons name="add-circle-outline" size={20} color="#fff" style={{marginRight: 8}} />
-              <Text style={styles.submitButtonText}>Create Earning Record</Text>
+              <Ionicons name={earningId ? 'save-outline' : 'add-circle-outline'} size={20} color="#fff" style={{marginRight: 8}} />
+              <Text style={styles.submitButtonText}>{earningId ? 'Update Earning Record' : 'Create Earning Record'}</Text>
             </>
           )}
         </TouchableOpacity>
       </ScrollView>
+      )}
 
       {/* Custom Date Picker Modal */}
       <Modal
@@ -629,6 +713,11 @@ const styles = StyleSheet.create({
   placeholder: {
     width: 24,
   },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   content: {
     flex: 1,
   },
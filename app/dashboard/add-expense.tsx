@@ -11,23 +11,39 @@ import {
   Platform,
   Modal
 } from 'react-native';
-import { router } from 'expo-router';
+import { router, useLocalSearchParams } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
+import { useCan } from '@/hooks/useCan';
 import { useToast } from '@/contexts/ToastContext';
-import { createExpense } from '@/services/expense.service';
-import { getAllExpenses } from '@/services/expense.service';
+import { useOutbox } from '@/contexts/OutboxContext';
+import { ReceiptPicker } from '@/components/ReceiptPicker';
+import { ReceiptGallery } from '@/components/ReceiptGallery';
+import { getAllExpenses, getExpenseById, updateExpense } from '@/services/expense.service';
+import { assertPeriodOpen } from '@/services/settlement.service';
+import { toDateKey } from '@/utils/date';
+import type { Expense } from '@/services/api.types';
 import { generateExpensesPDF } from '@/services/pdf.service';
+import type { StatementFilters } from '@/services/statement.template';
+import { StatementBuilder } from '@/components/StatementBuilder';
 
 export default function AddExpenseScreen() {
   const { token, user } = useAuth();
+  const can = useCan();
   const toast = useToast();
+  const { submit } = useOutbox();
+  // Set when editing an existing expense instead of adding one
+  const { id } = useLocalSearchParams();
+  const expenseId = id as string | undefined;
+  const [original, setOriginal] = useState<Expense | null>(null);
+  const [loadingRecord, setLoadingRecord] = useState(!!expenseId);
   const [loading, setLoading] = useState(false);
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [isAmountValid, setIsAmountValid] = useState(false);
   const [isDownloading, setIsDownloading] = useState(false);
+  const [showStatementBuilder, setShowStatementBuilder] = useState(false);
   const [formData, setFormData] = useState({
     amount: '',
     category: 'Other', // Default category
@@ -35,27 +51,51 @@ export default function AddExpenseScreen() {
     driverId: '', // Will be auto-filled based on user role
     date: new Date().toISOString().split('T')[0] // Today's date in YYYY-MM-DD format
   });
+  const [receipts, setReceipts] = useState<string[]>([]);
 
   // Date picker state
   const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
   const [selectedMonth, setSelectedMonth] = useState(new Date().getMonth());
   const [selectedDay, setSelectedDay] = useState(new Date().getDate());
   
-  // Protect route - only Driver or Admin can access this page
+  // Drivers always record their own expenses
   useEffect(() => {
-    if (!user) {
-      router.replace('/auth/login');
-    } else if (user.role === 'Driver') {
-      // If user is driver, pre-fill the driverId
+    if (user && can('expenses:own')) {
       setFormData(prev => ({
         ...prev,
         driverId: user.id
       }));
-    } else if (user.role !== 'Admin') {
-      // Redirect viewers to their dashboard
-      router.replace('/dashboard/viewer');
     }
-  }, [user]);
+  }, [user, can]);
+
+  // Prefill the form with the expense being edited
+  useEffect(() => {
+    if (!expenseId) return;
+
+    const fetchExpense = async () => {
+      try {
+        setLoadingRecord(true);
+        const response = await getExpenseById(expenseId, token);
+        const expense: Expense = (response && response.data) || response;
+        setOriginal(expense);
+        setFormData({
+          amount: String(expense.amount),
+          category: expense.category || 'Other',
+          note: expense.note || '',
+          driverId: expense.driverId,
+          date: toDateKey(expense.date)
+        });
+      } catch (error) {
+        console.error('Error fetching expense:', error);
+        Alert.alert('Error', 'Failed to load expense record');
+        router.back();
+      } finally {
+        setLoadingRecord(false);
+      }
+    };
+
+    fetchExpense();
+  }, [expenseId, token]);
   
   // Validate amount whenever it changes
   useEffect(() => {
@@ -163,15 +203,33 @@ export default function AddExpenseScreen() {
       const formattedDate = `${year}-${month}-${day}`;
       console.log('Manually formatted date:', formattedDate);
       
+      if (expenseId && original) {
+        // Moving an expense must not touch a settled month on either side
+        await assertPeriodOpen(original.driverId, toDateKey(original.date), token);
+        if (formattedDate !== toDateKey(original.date) || formData.driverId !== original.driverId) {
+          await assertPeriodOpen(formData.driverId, formattedDate, token);
+        }
+        // Receipts stay as they are; only the details can be edited
+        await updateExpense(expenseId, {
+          ...formData,
+          amount: parseFloat(formData.amount),
+          date: formattedDate
+        }, token);
+        toast.showToast('success', 'Success', 'Expense record updated successfully');
+        router.back();
+        return;
+      }
+      
       const data = {
         ...formData,
         amount: parseFloat(formData.amount),
-        date: formattedDate
+        date: formattedDate,
+        receipts
       };
       
       console.log('Submitting expense with data:', data);
       
-      const response = await createExpense(data, token);
+      const response = await submit('expense', data);
       console.log('Expense created response:', response);
       
       // Try to refresh the driver dashboard if function is available
@@ -180,22 +238,26 @@ export default function AddExpenseScreen() {
         (global as any).refreshDriverDashboard();
       }
       
-      toast.showToast('success', 'Success', 'Expense record created successfully');
+      if (response.status === 'queued') {
+        toast.showToast('info', 'Saved Offline', 'Expense will sync when you are back online');
+      } else {
+        toast.showToast('success', 'Success', 'Expense record created successfully');
+      }
       
       // Navigate back after a short delay to let the toast appear
       setTimeout(() => {
         router.push('/dashboard/driver' as any);
       }, 1000);
     } catch (error: any) {
-      console.error('Error creating expense:', error);
-      toast.showToast('error', 'Error', error.message || 'Failed to create expense record');
+      console.error(expenseId ? 'Error updating expense:' : 'Error creating expense:', error);
+      toast.showToast('error', 'Error', error.message || (expenseId ? 'Failed to update expense record' : 'Failed to create expense record'));
     } finally {
       setLoading(false);
     }
   };
   
-  // Handle PDF download
-  const handleDownloadStatement = async () => {
+  // Handle PDF download for the period and filters picked in the statement builder
+  const handleDownloadStatement = async (filters: StatementFilters) => {
     try {
       setIsDownloading(true);
       
@@ -218,7 +280,8 @@ export default function AddExpenseScreen() {
       
       const expensesData = await fetchAllData();
       
-      await generateExpensesPDF(expensesData, user, 'fleetx-expenses-statement.pdf');
+      await generateExpensesPDF(expensesData, user, { filters });
+      setShowStatementBuilder(false);
       
       toast.showToast('success', 'Success', 'Expenses statement has been generated and is ready to share.');
     } catch (error) {
@@ -355,14 +418,19 @@ export default function AddExpenseScreen() {
       <View style={styles.header}>
         <TouchableOpacity 
           style={styles.backButton}
-          onPress={() => router.push('/dashboard/all-expenses' as any)}
+          onPress={() => (expenseId ? router.back() : router.push('/dashboard/all-expenses' as any))}
         >
           <Ionicons name="arrow-back" size={24} color="#000" />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Add Expense</Text>
+        <Text style={styles.headerTitle}>{expenseId ? 'Edit Expense' : 'Add Expense'}</Text>
         <View style={styles.placeholder} />
       </View>
       
+      {loadingRecord ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#000" />
+        </View>
+      ) : (
       <ScrollView 
         style={styles.content}
         contentContainerStyle={styles.contentContainer}
@@ -477,7 +545,7 @@ export default function AddExpenseScreen() {
         </View>
         
         {/* Driver ID (Admin only) */}
-        {user?.role === 'Admin' && (
+        {can('drivers:read') && (
           <View style={styles.formGroup}>
             <Text style={styles.label}>Driver ID</Text>
             <View style={styles.inputContainer}>
@@ -533,6 +601,20 @@ export default function AddExpenseScreen() {
           </View>
         </View>
         
+        {/* Receipts */}
+        <View style={styles.formGroup}>
+          <Text style={styles.label}>Receipts (Optional)</Text>
+          {expenseId ? (
+            original?.receipts?.length ? (
+              <ReceiptGallery receipts={original.receipts} size={72} />
+            ) : (
+              <Text style={styles.infoText}>No receipts attached</Text>
+            )
+          ) : (
+            <ReceiptPicker receipts={receipts} onChange={setReceipts} disabled={loading} />
+          )}
+        </View>
+        
         {/* Submit Button */}
         <TouchableOpacity 
           style={[
@@ -549,19 +631,20 @@ export default function AddExpenseScreen() {
             </>
           ) : (
             <>
-              <Ionicons name="add-circle-outline" size={20} color="#fff" style={{marginRight: 8}} />
-              <Text style={styles.submitButtonText}>Create Expense Record</Text>
+              <Ionicons name={expenseId ? 'save-outline' : 'add-circle-outline'} size={20} color="#fff" style={{marginRight: 8}} />
+              <Text style={styles.submitButtonText}>{expenseId ? 'Update Expense Record' : 'Create Expense Record'}</Text>
             </>
           )}
         </TouchableOpacity>
         
         {/* Download Statement Button */}
+        {!expenseId && (
         <TouchableOpacity 
           style={[
             styles.downloadButton,
             isDownloading && styles.disabledDownloadButton
           ]}
-          onPress={handleDownloadStatement}
+          onPress={() => setShowStatementBuilder(true)}
           disabled={isDownloading}
         >
           {isDownloading ? (
@@ -576,7 +659,19 @@ export default function AddExpenseScreen() {
             </>
           )}
         </TouchableOpacity>
+        )}
       </ScrollView>
+      )}
+
+      <StatementBuilder
+        visible={showStatementBuilder}
+        title="Expenses Statement"
+        categoryLabel="Category"
+        categories={['Fuel', 'Maintenance', 'Insurance', 'Parking', 'Other']}
+        isGenerating={isDownloading}
+        onClose={() => setShowStatementBuilder(false)}
+        onGenerate={handleDownloadStatement}
+      />
       
       {/* Date Picker Modal */}
       <Modal
@@ -719,6 +814,11 @@ const styles = StyleSheet.create({
   placeholder: {
     width: 24,
   },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   content: {
     flex: 1,
   },
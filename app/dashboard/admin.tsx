@@ -9,7 +9,9 @@ import {
   Dimensions,
   Animated,
   Easing,
-  ActivityIndicator
+  ActivityIndicator,
+  TextInput,
+  Alert
 } from 'react-native';
 import { router, useRouter, usePathname } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
@@ -17,9 +19,29 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
 import { LinearGradient } from 'expo-linear-gradient';
+import { useQuery } from '@/hooks/useQuery';
+import { ENDPOINTS } from '@/services/api.config';
+import { queryKey } from '@/services/query.cache';
 import { getAllDrivers } from '@/services/driver.service';
 import { getEarningsSummary } from '@/services/earning.service';
 import { getAllEarnings } from '@/services/earning.service';
+import { getAllExpenses } from '@/services/expense.service';
+import { getAllAutoExpenses } from '@/services/autoExpense.service';
+import { getAllVehicles } from '@/services/vehicle.service';
+import { buildFleetReport, generateFleetReportCSV, getPeriodRecords } from '@/services/report.service';
+import { generateFleetReportPDF } from '@/services/pdf.service';
+import {
+  ANALYTICS_PERIODS,
+  AnalyticsPeriod,
+  DateRange,
+  buildAnalytics,
+  getBucketTransactions,
+  getChange,
+  getPeriodRange,
+  getPreviousRange
+} from '@/services/analytics.service';
+import { BarChart } from '@/components/BarChart';
+import { addDays, parseDate, toDateString } from '@/utils/date';
 
 const screenWidth = Dimensions.get('window').width - 40;
 const screenHeight = Dimensions.get('window').height;
@@ -43,39 +65,20 @@ type EarningsSummary = {
 
 export default function AdminDashboard() {
   const { logout, user, authToken } = useAuth();
-  const [selectedPeriod, setSelectedPeriod] = useState('Daily');
+  const [selectedPeriod, setSelectedPeriod] = useState<AnalyticsPeriod>('Daily');
+  const [customRange, setCustomRange] = useState<DateRange>(() => getPeriodRange('Monthly').range);
+  const [customInput, setCustomInput] = useState<DateRange>(customRange);
+  const [selectedBucket, setSelectedBucket] = useState<number | null>(null);
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [exportingReport, setExportingReport] = useState<'pdf' | 'csv' | null>(null);
   const router = useRouter();
   const pathname = usePathname();
   
-  // New state variables for active drivers and their earnings
-  const [activeDrivers, setActiveDrivers] = useState<Driver[]>([]);
-  const [driverEarnings, setDriverEarnings] = useState<{[key: string]: EarningsSummary}>({});
-  const [isLoading, setIsLoading] = useState(true);
-
-  // Role-based protection - only Admin can access this dashboard
-  useEffect(() => {
-    if (user && user.role !== 'Admin') {
-      // Redirect non-admin users to their respective dashboards
-      if (user.role === 'Driver') {
-        router.replace('/dashboard/driver');
-      } else if (user.role === 'Viewer') {
-        router.replace('/dashboard/viewer');
-      }
-    }
-  }, [user, router]);
 
   // Animation value for sidebar
   const sidebarAnim = useRef(new Animated.Value(-SIDEBAR_WIDTH)).current;
   const overlayAnim = useRef(new Animated.Value(0)).current;
   
-  // Chart data points
-  const data = [2500, 4000, 2800, 4800, 3900, 6500, 5000];
-  const days = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
-  
-  // Find max value for scaling
-  const maxValue = Math.max(...data);
-  
   // Animate sidebar when sidebarOpen changes
   useEffect(() => {
     if (sidebarOpen) {
@@ -146,8 +149,8 @@ export default function AdminDashboard() {
         router.replace('/dashboard/users');
         break;
       default:
-        // For other routes, just log for now
-        console.log(`Navigate to: ${route}`);
+        // Screens opened from the sidebar, e.g. the expense review queue
+        router.push(route as any);
         break;
     }
   };
@@ -157,62 +160,131 @@ export default function AdminDashboard() {
     { icon: 'home-outline' as any, label: 'Dashboard', route: '/dashboard/admin' },
     { icon: 'car-outline' as any, label: 'Vehicles', route: '/vehicles' },
     { icon: 'people-outline' as any, label: 'Users', route: '/dashboard/users' },
+    { icon: 'checkmark-done-outline' as any, label: 'Expense Review', route: '/dashboard/expense-review' },
+    { icon: 'wallet-outline' as any, label: 'Earning Accounts', route: '/dashboard/accounts' },
+    { icon: 'trash-outline' as any, label: 'Trash', route: '/dashboard/trash' },
   ];
 
-  // Fetch drivers
-  useEffect(() => {
-    const fetchDrivers = async () => {
-      try {
-        if (!authToken) return;
-        
-        setIsLoading(true);
-        console.log('Fetching drivers with token...');
-        
-        const response = await getAllDrivers(authToken);
-        console.log('Driver API response:', response);
-        
-        if (response && response.data) {
-          const allDrivers = response.data;
-          console.log('All users found:', allDrivers.length);
-          
-          // Set all drivers without filtering
-          setActiveDrivers(allDrivers);
-          
-          // Fetch earnings for each driver
-          if (allDrivers.length > 0) {
-            const earningsData: {[key: string]: EarningsSummary} = {};
-            
-            await Promise.all(
-              allDrivers.map(async (driver: Driver) => {
-                try {
-                  // Remove period restriction to get all earnings
-                  const allEarningsResp = await getAllEarnings({ driverId: driver.id });
-                  let allEarnings = Array.isArray(allEarningsResp) ? allEarningsResp : (allEarningsResp.earnings || []);
-                  const totalEarnings = allEarnings.reduce((sum: number, e: any) => sum + parseFloat(e.amount), 0);
-                  earningsData[driver.id] = { totalEarnings };
-                } catch (error) {
-                  console.error(`Error fetching earnings for driver ${driver.id}:`, error);
-                  earningsData[driver.id] = { totalEarnings: 0 };
-                }
-              })
-            );
-            
-            setDriverEarnings(earningsData);
+  // Fetch drivers - cached so the dashboard renders instantly on return visits
+  const driversQuery = useQuery(
+    authToken ? queryKey(ENDPOINTS.DRIVER.GET_ALL) : null,
+    () => getAllDrivers(authToken)
+  );
+  const activeDrivers: Driver[] = driversQuery.data?.data || [];
+
+  // Fetch earnings for each driver, keyed by the set of driver IDs
+  const driverIds = activeDrivers.map(driver => driver.id).sort();
+  const driverEarningsQuery = useQuery<{[key: string]: EarningsSummary}>(
+    driverIds.length > 0 ? queryKey(ENDPOINTS.EARNING.GET_ALL, { query: { driverIds: driverIds.join(',') } }) : null,
+    async () => {
+      const earningsData: {[key: string]: EarningsSummary} = {};
+
+      await Promise.all(
+        driverIds.map(async (driverId) => {
+          try {
+            // Remove period restriction to get all earnings
+            const allEarningsResp = await getAllEarnings({ driverId });
+            let allEarnings = Array.isArray(allEarningsResp) ? allEarningsResp : (allEarningsResp.earnings || []);
+            const totalEarnings = allEarnings.reduce((sum: number, e: any) => sum + parseFloat(e.amount), 0);
+            earningsData[driverId] = { totalEarnings };
+          } catch (error) {
+            console.error(`Error fetching earnings for driver ${driverId}:`, error);
+            earningsData[driverId] = { totalEarnings: 0 };
           }
-        } else {
-          console.log('No drivers found in response');
-          setActiveDrivers([]);
-        }
-      } catch (error) {
-        console.error('Error fetching drivers:', error);
-        setActiveDrivers([]);
-      } finally {
-        setIsLoading(false);
-      }
-    };
+        })
+      );
+
+      return earningsData;
+    }
+  );
+  const driverEarnings = driverEarningsQuery.data || {};
+  const isLoading = driversQuery.isLoading;
+
+  // Fleet-wide records for the selected period and the one before it
+  const { range } = getPeriodRange(selectedPeriod, customRange);
+  const previousRange = getPreviousRange(range);
+  const analyticsFilters = {
+    startDate: previousRange.startDate,
+    // The day after, so records on the last day are included
+    endDate: toDateString(addDays(parseDate(range.endDate), 1)),
+  };
 
-    fetchDrivers();
-  }, [authToken]);
+  const analyticsEarningsQuery = useQuery(
+    authToken ? queryKey(ENDPOINTS.EARNING.GET_ALL, { query: analyticsFilters }) : null,
+    () => getAllEarnings(analyticsFilters, authToken)
+  );
+  const analyticsExpensesQuery = useQuery(
+    authToken ? queryKey(ENDPOINTS.EXPENSE.GET_ALL, { query: analyticsFilters }) : null,
+    () => getAllExpenses(analyticsFilters, authToken)
+  );
+  const analyticsAutoExpensesQuery = useQuery(
+    authToken ? queryKey(ENDPOINTS.AUTO_EXPENSE.GET_ALL, { query: analyticsFilters }) : null,
+    () => getAllAutoExpenses(analyticsFilters, authToken)
+  );
+
+  // Responses are either arrays or wrapped in an object
+  const toList = (response: any, field: string) =>
+    Array.isArray(response) ? response : (response && (response.data || response[field])) || [];
+
+  const analyticsLoading = analyticsEarningsQuery.isLoading || analyticsExpensesQuery.isLoading ||
+    analyticsAutoExpensesQuery.isLoading;
+  const analyticsRecords = {
+    earnings: toList(analyticsEarningsQuery.data, 'earnings'),
+    expenses: toList(analyticsExpensesQuery.data, 'expenses'),
+    autoExpenses: toList(analyticsAutoExpensesQuery.data, 'autoExpenses'),
+  };
+  const analytics = buildAnalytics(analyticsRecords, selectedPeriod, customRange);
+  const activeBucket = selectedBucket !== null ? analytics.buckets[selectedBucket] : undefined;
+  const bucketTransactions = activeBucket ? getBucketTransactions(analyticsRecords, activeBucket) : [];
+
+  const selectPeriod = (period: AnalyticsPeriod) => {
+    setSelectedPeriod(period);
+    setSelectedBucket(null);
+  };
+
+  const applyCustomRange = () => {
+    const isDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(parseDate(value).getTime());
+    if (!isDate(customInput.startDate) || !isDate(customInput.endDate) || customInput.startDate > customInput.endDate) {
+      Alert.alert('Invalid Range', 'Enter a start and end date as YYYY-MM-DD, with the start first');
+      return;
+    }
+    setCustomRange(customInput);
+    setSelectedBucket(null);
+  };
+
+  // Fleet report for the selected analytics period
+  const exportReport = async (format: 'pdf' | 'csv') => {
+    try {
+      setExportingReport(format);
+      const [records, vehicles] = await Promise.all([
+        getPeriodRecords(range, undefined, authToken),
+        getAllVehicles(authToken),
+      ]);
+      const report = buildFleetReport(range, records, activeDrivers, toList(vehicles, 'vehicles'));
+      await (format === 'pdf' ? generateFleetReportPDF(report) : generateFleetReportCSV(report));
+    } catch (error: any) {
+      Alert.alert('Export Failed', error.message || 'Failed to export the fleet report');
+    } finally {
+      setExportingReport(null);
+    }
+  };
+
+  const formatAmount = (value: number) =>
+    `AED ${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  const formatRange = ({ startDate, endDate }: DateRange) => {
+    const format = (value: string) =>
+      parseDate(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+    return startDate === endDate ? format(startDate) : `${format(startDate)} – ${format(endDate)}`;
+  };
+
+  // KPI cards; expenses going down is good news
+  const kpis = [
+    { label: 'Earnings', value: analytics.totals.earnings, previous: analytics.previousTotals.earnings, higherIsBetter: true },
+    { label: 'Expenses', value: analytics.totals.expenses, previous: analytics.previousTotals.expenses, higherIsBetter: false },
+    { label: 'Auto Expenses', value: analytics.totals.autoExpenses, previous: analytics.previousTotals.autoExpenses, higherIsBetter: false },
+    { label: 'Net Income', value: analytics.totals.net, previous: analytics.previousTotals.net, higherIsBetter: true },
+  ];
 
   // Use a constant black gradient for all cards
   const getCardGradient = () => {
@@ -375,6 +447,141 @@ export default function AdminDashboard() {
           )}
         </View>
 
+        {/* Fleet Analytics Section */}
+        <View style={styles.driversListSection}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Fleet Analytics</Text>
+            <View style={styles.headerActions}>
+              {(['pdf', 'csv'] as const).map(format => (
+                <TouchableOpacity
+                  key={format}
+                  style={[styles.actionButton, styles.exportButton]}
+                  onPress={() => exportReport(format)}
+                  disabled={exportingReport !== null}
+                >
+                  {exportingReport === format ? (
+                    <ActivityIndicator size="small" color="#000" />
+                  ) : (
+                    <Ionicons name={format === 'pdf' ? 'document-text-outline' : 'grid-outline'} size={18} color="#000" />
+                  )}
+                  <Text style={styles.exportButtonText}>{format.toUpperCase()}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.periodSelector}>
+            {ANALYTICS_PERIODS.map(period => (
+              <TouchableOpacity
+                key={period}
+                style={[styles.periodButton, selectedPeriod === period && styles.periodButtonActive]}
+                onPress={() => selectPeriod(period)}
+              >
+                <Text style={[styles.periodButtonText, selectedPeriod === period && styles.periodButtonTextActive]}>
+                  {period}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+
+          {selectedPeriod === 'Custom' && (
+            <View style={styles.customRange}>
+              <TextInput
+                style={styles.customRangeInput}
+                placeholder="YYYY-MM-DD"
+                value={customInput.startDate}
+                onChangeText={(value) => setCustomInput(prev => ({ ...prev, startDate: value }))}
+              />
+              <Text style={styles.customRangeSeparator}>to</Text>
+              <TextInput
+                style={styles.customRangeInput}
+                placeholder="YYYY-MM-DD"
+                value={customInput.endDate}
+                onChangeText={(value) => setCustomInput(prev => ({ ...prev, endDate: value }))}
+              />
+              <TouchableOpacity style={styles.customRangeButton} onPress={applyCustomRange}>
+                <Text style={styles.customRangeButtonText}>Apply</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          <Text style={styles.rangeText}>
+            {formatRange(analytics.range)} · vs {formatRange(analytics.previousRange)}
+          </Text>
+
+          {analyticsLoading ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="large" color="#000" />
+              <Text style={styles.loadingText}>Loading analytics...</Text>
+            </View>
+          ) : (
+            <>
+              <View style={styles.kpiGrid}>
+                {kpis.map(kpi => {
+                  const change = getChange(kpi.value, kpi.previous);
+                  const isGood = change !== null && (change >= 0) === kpi.higherIsBetter;
+                  return (
+                    <View key={kpi.label} style={styles.kpiCard}>
+                      <Text style={styles.kpiLabel}>{kpi.label}</Text>
+                      <Text style={styles.kpiValue} numberOfLines={1} adjustsFontSizeToFit>
+                        {formatAmount(kpi.value)}
+                      </Text>
+                      <Text style={[styles.kpiChange, change !== null && (isGood ? styles.kpiChangeGood : styles.kpiChangeBad)]}>
+                        {change === null ? 'No previous data' : `${change >= 0 ? '▲' : '▼'} ${Math.abs(change)}% vs previous`}
+                      </Text>
+                    </View>
+                  );
+                })}
+              </View>
+
+              <View style={styles.chartCard}>
+                <BarChart
+                  labels={analytics.buckets.map(bucket => bucket.label)}
+                  values={[
+                    analytics.buckets.map(bucket => bucket.earnings),
+                    analytics.buckets.map(bucket => bucket.expenses + bucket.autoExpenses),
+                  ]}
+                  series={[
+                    { label: 'Earnings', color: '#4CAF50' },
+                    { label: 'Expenses', color: '#ff4444' },
+                  ]}
+                  selectedIndex={selectedBucket}
+                  onSelect={(index) => setSelectedBucket(index === selectedBucket ? null : index)}
+                />
+              </View>
+
+              {/* Drill-down into the selected bar */}
+              {activeBucket ? (
+                <View style={styles.drillDown}>
+                  <Text style={styles.drillDownTitle}>{formatRange(activeBucket)}</Text>
+                  <Text style={styles.drillDownSummary}>
+                    {formatAmount(activeBucket.earnings)} earned · {formatAmount(activeBucket.expenses + activeBucket.autoExpenses)} spent
+                  </Text>
+                  {bucketTransactions.length === 0 ? (
+                    <Text style={styles.noDataText}>No transactions</Text>
+                  ) : (
+                    bucketTransactions.map(transaction => (
+                      <View key={`${transaction.kind}-${transaction.id}`} style={styles.drillDownItem}>
+                        <View style={styles.drillDownItemLeft}>
+                          <Text style={styles.drillDownItemTitle}>{transaction.title}</Text>
+                          <Text style={styles.drillDownItemSubtitle}>
+                            {transaction.driverName || 'Driver'} · {parseDate(transaction.date.split('T')[0]).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                          </Text>
+                        </View>
+                        <Text style={[styles.drillDownItemAmount, transaction.kind !== 'earning' && styles.drillDownExpense]}>
+                          {transaction.kind === 'earning' ? '+' : '-'}{formatAmount(transaction.amount)}
+                        </Text>
+                      </View>
+                    ))
+                  )}
+                </View>
+              ) : (
+                <Text style={styles.chartHint}>Tap a bar to see its transactions</Text>
+              )}
+            </>
+          )}
+        </View>
+
         {/* Drivers List Section */}
         <View style={styles.driversListSection}>
           <View style={styles.sectionHeader}>
@@ -696,6 +903,156 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
   },
+  periodSelector: {
+    paddingBottom: 12,
+  },
+  periodButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    marginRight: 8,
+  },
+  periodButtonActive: {
+    backgroundColor: '#000',
+    borderColor: '#000',
+  },
+  periodButtonText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  periodButtonTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  customRange: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  customRangeInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 13,
+    backgroundColor: '#f9f9f9',
+  },
+  customRangeSeparator: {
+    marginHorizontal: 6,
+    color: '#666',
+  },
+  customRangeButton: {
+    marginLeft: 8,
+    backgroundColor: '#000',
+    borderRadius: 8,
+    paddingVertical: 9,
+    paddingHorizontal: 12,
+  },
+  customRangeButtonText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  rangeText: {
+    fontSize: 12,
+    color: '#888',
+    marginBottom: 12,
+  },
+  kpiGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+  },
+  kpiCard: {
+    width: '48%',
+    backgroundColor: '#000',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 12,
+  },
+  kpiLabel: {
+    fontSize: 12,
+    color: '#aaa',
+  },
+  kpiValue: {
+    fontSize: 17,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginVertical: 6,
+  },
+  kpiChange: {
+    fontSize: 11,
+    color: '#888',
+  },
+  kpiChangeGood: {
+    color: '#4CAF50',
+  },
+  kpiChangeBad: {
+    color: '#ff4444',
+  },
+  chartCard: {
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 12,
+    paddingVertical: 16,
+    paddingHorizontal: 8,
+  },
+  chartHint: {
+    fontSize: 12,
+    color: '#888',
+    textAlign: 'center',
+    marginTop: 10,
+  },
+  drillDown: {
+    marginTop: 12,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 12,
+    padding: 14,
+  },
+  drillDownTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  drillDownSummary: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+    marginBottom: 8,
+  },
+  drillDownItem: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  drillDownItemLeft: {
+    flex: 1,
+    marginRight: 12,
+  },
+  drillDownItemTitle: {
+    fontSize: 14,
+    color: '#333',
+  },
+  drillDownItemSubtitle: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+  drillDownItemAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4CAF50',
+  },
+  drillDownExpense: {
+    color: '#ff4444',
+  },
   actionButton: {
     padding: 8,
     marginLeft: 10,
@@ -704,6 +1061,15 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#f0f0f0',
   },
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  exportButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
   driversList: {
   },
   driverItem: {
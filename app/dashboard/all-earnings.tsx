@@ -15,8 +15,15 @@ import { StatusBar } from 'expo-status-bar';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
+import { useCan } from '@/hooks/useCan';
+import { getHomeRoute } from '@/services/permissions';
 import { useToast } from '@/contexts/ToastContext';
 import { getAllEarnings, deleteEarning } from '@/services/earning.service';
+import { assertPeriodOpen, PeriodLockedError } from '@/services/settlement.service';
+import { restoreFromTrash } from '@/services/trash.service';
+import { generateEarningsPDF } from '@/services/pdf.service';
+import { ExportFormat, exportTransactions, withKind } from '@/services/export.service';
+import { ExportButton } from '@/components/ExportButton';
 
 // Define data types
 type EarningType = {
@@ -24,7 +31,7 @@ type EarningType = {
   amount: number;
   note?: string;
   type: 'Online' | 'Cash' | 'Pocket Slipt';
-  accountName: 'Personal Account' | 'Limousine Account';
+  accountName?: string;
   driverId: string;
   date: string;
   createdAt: string;
@@ -38,6 +45,7 @@ type EarningType = {
 
 export default function AllEarningsScreen() {
   const { user } = useAuth();
+  const can = useCan();
   const toast = useToast();
   const router = useRouter();
   
@@ -55,17 +63,8 @@ export default function AllEarningsScreen() {
   const clickTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const clickCountRef = useRef(0);
   
-  // Role-based protection - only Driver can access this screen
-  useEffect(() => {
-    if (user && user.role !== 'Driver') {
-      // Redirect non-driver users to their respective dashboards
-      if (user.role === 'Admin') {
-        router.replace('/dashboard/admin');
-      } else if (user.role === 'Viewer') {
-        router.replace('/dashboard/viewer');
-      }
-    }
-  }, [user, router]);
+  // Admins and viewers see every driver's earnings
+  const showAllDrivers = can('fleet:read');
 
   // Fetch all earnings
   const fetchEarnings = async (filter: string | null = null) => {
@@ -75,7 +74,8 @@ export default function AllEarningsScreen() {
     setError(null);
     
     try {
-      const filters: any = {
+      // Drivers only see their own earnings
+      const filters: any = showAllDrivers ? {} : {
         driverId: user.id,
       };
       
@@ -143,8 +143,9 @@ export default function AllEarningsScreen() {
     });
   };
   
-  // Handle double click on an earning item
+  // Single click edits an earning, double click deletes it
   const handleEarningPress = (earning: EarningType) => {
+    if (!can('earnings:write') && !can('earnings:delete')) return;
     clickCountRef.current += 1;
     
     if (clickCountRef.current === 1) {
@@ -152,7 +153,9 @@ export default function AllEarningsScreen() {
       clickTimeoutRef.current = setTimeout(() => {
         // Reset if not double clicked within 300ms
         clickCountRef.current = 0;
-        // Handle single click here if needed
+        if (can('earnings:write')) {
+          router.push({ pathname: '/dashboard/add-earning', params: { id: earning.id } } as any);
+        }
       }, 300);
     } else if (clickCountRef.current === 2) {
       // Double click
@@ -160,6 +163,7 @@ export default function AllEarningsScreen() {
         clearTimeout(clickTimeoutRef.current);
       }
       clickCountRef.current = 0;
+      if (!can('earnings:delete')) return;
       
       // Show delete confirmation modal
       setSelectedEarning(earning);
@@ -167,6 +171,18 @@ export default function AllEarningsScreen() {
     }
   };
 
+  // Undo a delete from the toast
+  const handleRestoreEarning = async (earningId: string) => {
+    try {
+      await restoreFromTrash('earning', earningId);
+      toast.showToast('success', 'Restored', 'Earning restored');
+      fetchEarnings(selectedFilter);
+    } catch (error: any) {
+      console.error('Error restoring earning:', error);
+      toast.showToast('error', 'Error', error.message || 'Failed to restore earning');
+    }
+  };
+
   // Handle delete earning
   const handleDeleteEarning = async () => {
     if (!selectedEarning || !user?.id) return;
@@ -174,6 +190,9 @@ export default function AllEarningsScreen() {
     try {
       setIsDeletingEarning(true);
       
+      // Settled months can't be changed
+      await assertPeriodOpen(selectedEarning.driverId, selectedEarning.date);
+      
       // Call the delete API
       await deleteEarning(selectedEarning.id);
       
@@ -181,19 +200,33 @@ export default function AllEarningsScreen() {
       setEarnings(prev => prev.filter(e => e.id !== selectedEarning.id));
       
       // Show success toast
-      toast.showToast('success', 'Success', 'Earning deleted successfully');
+      const deletedId = selectedEarning.id;
+      toast.showToast('success', 'Deleted', 'Earning moved to trash', {
+        label: 'Undo',
+        onPress: () => handleRestoreEarning(deletedId),
+      });
       
       // Close the modal
       setShowDeleteModal(false);
       setSelectedEarning(null);
     } catch (error) {
       console.error('Error deleting earning:', error);
-      toast.showToast('error', 'Error', 'Failed to delete earning. Please try again.');
+      toast.showToast('error', 'Error', error instanceof PeriodLockedError ? error.message : 'Failed to delete earning. Please try again.');
     } finally {
       setIsDeletingEarning(false);
     }
   };
   
+  // Export the listed earnings as a statement or spreadsheet
+  const handleExportPdf = () =>
+    generateEarningsPDF(earnings, showAllDrivers ? { id: 'All', name: 'All Drivers' } : user);
+
+  const handleExport = (format: ExportFormat) =>
+    exportTransactions(withKind(earnings, 'Earning'), format, {
+      kind: 'Earnings',
+      driverName: showAllDrivers ? undefined : user?.name,
+    });
+
   // Render each earning item
   const renderEarningItem = ({ item }: { item: EarningType }) => (
     <TouchableOpacity 
@@ -216,6 +249,7 @@ export default function AllEarningsScreen() {
           {item.type} Payment
         </Text>
         <Text style={styles.earningDate}>{formatDate(item.date)}</Text>
+        {showAllDrivers && item.driver?.name && <Text style={styles.earningNote}>{item.driver.name}</Text>}
         {item.note && <Text style={styles.earningNote}>{item.note}</Text>}
       </View>
       <Text style={styles.earningAmount}>{formatCurrency(item.amount)}</Text>
@@ -263,12 +297,17 @@ export default function AllEarningsScreen() {
       <View style={styles.header}>
         <TouchableOpacity 
           style={styles.backButton}
-          onPress={() => router.push('/dashboard/driver' as any)}
+          onPress={() => router.push(getHomeRoute(user?.role) as any)}
         >
           <Ionicons name="chevron-back" size={24} color="black" />
         </TouchableOpacity>
         <Text style={styles.title}>All Earnings</Text>
-        <View style={styles.rightPlaceholder} />
+        <ExportButton
+          style={styles.rightPlaceholder}
+          disabled={earnings.length === 0}
+          onExportPdf={handleExportPdf}
+          onExport={handleExport}
+        />
       </View>
       
       {/* Filter section */}
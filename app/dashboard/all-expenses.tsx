@@ -15,8 +15,18 @@ import { StatusBar } from 'expo-status-bar';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
+import { useCan } from '@/hooks/useCan';
+import { getHomeRoute } from '@/services/permissions';
 import { useToast } from '@/contexts/ToastContext';
 import { getAllExpenses, deleteExpense } from '@/services/expense.service';
+import { assertPeriodOpen } from '@/services/settlement.service';
+import { restoreFromTrash } from '@/services/trash.service';
+import { generateExpensesPDF } from '@/services/pdf.service';
+import { ExportFormat, exportTransactions, withKind } from '@/services/export.service';
+import { ExportButton } from '@/components/ExportButton';
+import { ReceiptGallery } from '@/components/ReceiptGallery';
+import { ExpenseStatusBadge } from '@/components/ExpenseStatusBadge';
+import type { ExpenseStatus } from '@/services/api.types';
 
 // Define data types
 type ExpenseType = {
@@ -24,6 +34,9 @@ type ExpenseType = {
   amount: number;
   note: string;
   category: 'Fuel' | 'Maintenance' | 'Insurance' | 'Parking' | 'Other';
+  receipts?: string[];
+  status?: ExpenseStatus;
+  rejectionReason?: string;
   driverId: string;
   date: string;
   createdAt: string;
@@ -37,6 +50,7 @@ type ExpenseType = {
 
 export default function AllExpensesScreen() {
   const { user } = useAuth();
+  const can = useCan();
   const router = useRouter();
   const toast = useToast();
   
@@ -52,18 +66,11 @@ export default function AllExpensesScreen() {
   
   // Double click detection
   const lastTapRef = useRef<{ id: string; time: number } | null>(null);
+  // Pending single tap, cancelled if a second tap follows
+  const tapTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   
-  // Role-based protection - only Driver can access this screen
-  useEffect(() => {
-    if (user && user.role !== 'Driver') {
-      // Redirect non-driver users to their respective dashboards
-      if (user.role === 'Admin') {
-        router.replace('/dashboard/admin');
-      } else if (user.role === 'Viewer') {
-        router.replace('/dashboard/viewer');
-      }
-    }
-  }, [user, router]);
+  // Admins and viewers see every driver's expenses
+  const showAllDrivers = can('fleet:read');
 
   // Fetch all expenses
   const fetchExpenses = async (filter: string | null = null) => {
@@ -73,7 +80,8 @@ export default function AllExpensesScreen() {
     setError(null);
     
     try {
-      const filters: any = {
+      // Drivers only see their own expenses
+      const filters: any = showAllDrivers ? {} : {
         driverId: user.id,
       };
       
@@ -160,13 +168,18 @@ export default function AllExpensesScreen() {
   
   // Handle back button
   const handleBackButton = () => {
-    // Navigate to driver dashboard instead of using router.back()
-    router.push('/dashboard/driver' as any);
+    // Navigate to the user's dashboard instead of using router.back()
+    router.push(getHomeRoute(user?.role) as any);
   };
   
-  // Handle expense item press for double-click detection
+  // Single tap edits an expense, double tap deletes it
   const handleExpensePress = (expense: ExpenseType) => {
+    if (!can('expenses:write') && !can('expenses:delete')) return;
     const now = Date.now();
+    if (tapTimeoutRef.current) {
+      clearTimeout(tapTimeoutRef.current);
+      tapTimeoutRef.current = null;
+    }
     
     // Check if this is a double tap (within 300ms of the last tap on the same item)
     if (
@@ -175,12 +188,31 @@ export default function AllExpensesScreen() {
       now - lastTapRef.current.time < 300
     ) {
       // Double-tap detected - show delete confirmation
+      lastTapRef.current = null;
+      if (!can('expenses:delete')) return;
       setSelectedExpense(expense);
       setShowDeleteModal(true);
-      lastTapRef.current = null;
     } else {
-      // First tap - record it
+      // First tap - record it, and open the editor unless a second tap follows
       lastTapRef.current = { id: expense.id, time: now };
+      if (can('expenses:write')) {
+        tapTimeoutRef.current = setTimeout(() => {
+          tapTimeoutRef.current = null;
+          router.push({ pathname: '/dashboard/add-expense', params: { id: expense.id } } as any);
+        }, 300);
+      }
+    }
+  };
+  
+  // Undo a delete from the toast
+  const handleRestoreExpense = async (expenseId: string) => {
+    try {
+      await restoreFromTrash('expense', expenseId);
+      toast.showToast('success', 'Restored', 'Expense restored');
+      fetchExpenses(selectedFilter);
+    } catch (error: any) {
+      console.error('Error restoring expense:', error);
+      toast.showToast('error', 'Error', error.message || 'Failed to restore expense');
     }
   };
   
@@ -191,6 +223,8 @@ export default function AllExpensesScreen() {
     setIsDeleting(true);
     
     try {
+      // Settled months can't be changed
+      await assertPeriodOpen(selectedExpense.driverId, selectedExpense.date);
       await deleteExpense(selectedExpense.id);
       
       // Update the local state to remove the deleted expense
@@ -199,7 +233,11 @@ export default function AllExpensesScreen() {
       );
       
       // Show success toast message
-      toast.showToast('success', 'Success', 'Expense deleted successfully');
+      const deletedId = selectedExpense.id;
+      toast.showToast('success', 'Deleted', 'Expense moved to trash', {
+        label: 'Undo',
+        onPress: () => handleRestoreExpense(deletedId),
+      });
     } catch (error) {
       console.error('Error deleting expense:', error);
       
@@ -218,6 +256,16 @@ export default function AllExpensesScreen() {
     }
   };
   
+  // Export the listed expenses as a statement or spreadsheet
+  const handleExportPdf = () =>
+    generateExpensesPDF(expenses, showAllDrivers ? { id: 'All', name: 'All Drivers' } : user);
+
+  const handleExport = (format: ExportFormat) =>
+    exportTransactions(withKind(expenses, 'Expense'), format, {
+      kind: 'Expenses',
+      driverName: showAllDrivers ? undefined : user?.name,
+    });
+
   // Render each expense item
   const renderExpenseItem = ({ item }: { item: ExpenseType }) => (
     <TouchableOpacity 
@@ -237,7 +285,10 @@ export default function AllExpensesScreen() {
           {item.category} Expense
         </Text>
         <Text style={styles.expenseDate}>{formatDate(item.date)}</Text>
+        {showAllDrivers && item.driver?.name && <Text style={styles.expenseNote}>{item.driver.name}</Text>}
         <Text style={styles.expenseNote}>{item.note}</Text>
+        <ReceiptGallery receipts={item.receipts} />
+        <ExpenseStatusBadge status={item.status} rejectionReason={item.rejectionReason} />
       </View>
       <Text style={styles.expenseAmount}>{formatCurrency(item.amount)}</Text>
     </TouchableOpacity>
@@ -288,13 +339,23 @@ export default function AllExpensesScreen() {
         >
           <Ionicons name="chevron-back" size={24} color="black" />
         </TouchableOpacity>
-        <Text style={styles.title}>My Expenses</Text>
-        <TouchableOpacity 
-          style={styles.addButton}
-          onPress={() => router.push('/dashboard/add-expense' as any)}
-        >
-          <Ionicons name="add-circle-outline" size={24} color="#000" />
-        </TouchableOpacity>
+        <Text style={styles.title}>{showAllDrivers ? 'All Expenses' : 'My Expenses'}</Text>
+        <View style={styles.headerActions}>
+          <ExportButton
+            style={styles.addButton}
+            disabled={expenses.length === 0}
+            onExportPdf={handleExportPdf}
+            onExport={handleExport}
+          />
+          {can('expenses:write') && (
+            <TouchableOpacity 
+              style={styles.addButton}
+              onPress={() => router.push('/dashboard/add-expense' as any)}
+            >
+              <Ionicons name="add-circle-outline" size={24} color="#000" />
+            </TouchableOpacity>
+          )}
+        </View>
       </View>
       
       {/* Filter section */}
@@ -417,6 +478,10 @@ const styles = StyleSheet.create({
     fontSize: 20,
     fontWeight: 'bold',
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   addButton: {
     padding: 4,
   },
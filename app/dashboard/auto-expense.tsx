@@ -17,6 +17,13 @@ import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/contexts/ToastContext';
 import { getAllAutoExpenses, deleteAutoExpense } from '@/services/autoExpense.service';
+import { assertPeriodOpen } from '@/services/settlement.service';
+import { restoreFromTrash } from '@/services/trash.service';
+import { ExportFormat, exportTransactions, withKind } from '@/services/export.service';
+import { ExportButton } from '@/components/ExportButton';
+import { ReceiptGallery } from '@/components/ReceiptGallery';
+import { ExpenseStatusBadge } from '@/components/ExpenseStatusBadge';
+import type { ExpenseStatus } from '@/services/api.types';
 
 // Define the category type
 type AutoExpenseCategory = 'Petrol' | 'Car Accident' | 'Maintenance' | 'Insurance' | 'Other';
@@ -27,6 +34,9 @@ type AutoExpenseType = {
   amount: number | string | null;
   note: string;
   category: AutoExpenseCategory;
+  receipts?: string[];
+  status?: ExpenseStatus;
+  rejectionReason?: string;
   date: string;
   driver?: {
     id: string;
@@ -50,6 +60,8 @@ export default function AutoExpenseScreen() {
   
   // Double click detection
   const lastTapRef = useRef<{ id: string; time: number } | null>(null);
+  // Pending single tap, cancelled if a second tap follows
+  const tapTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   
   // Fetch auto expenses data on component mount
   useEffect(() => {
@@ -184,9 +196,13 @@ export default function AutoExpenseScreen() {
     router.push('/dashboard/add-auto-expense');
   };
   
-  // Handle auto expense item press for double-click detection
+  // Single tap edits an auto expense, double tap deletes it
   const handleExpensePress = (expense: AutoExpenseType) => {
     const now = Date.now();
+    if (tapTimeoutRef.current) {
+      clearTimeout(tapTimeoutRef.current);
+      tapTimeoutRef.current = null;
+    }
     
     // Check if this is a double tap (within 300ms of the last tap on the same item)
     if (
@@ -199,8 +215,24 @@ export default function AutoExpenseScreen() {
       setShowDeleteModal(true);
       lastTapRef.current = null;
     } else {
-      // First tap - record it
+      // First tap - record it, and open the editor unless a second tap follows
       lastTapRef.current = { id: expense.id, time: now };
+      tapTimeoutRef.current = setTimeout(() => {
+        tapTimeoutRef.current = null;
+        router.push({ pathname: '/dashboard/add-auto-expense', params: { id: expense.id } } as any);
+      }, 300);
+    }
+  };
+  
+  // Undo a delete from the toast
+  const handleRestoreExpense = async (expenseId: string) => {
+    try {
+      await restoreFromTrash('autoExpense', expenseId, token);
+      toast.showToast('success', 'Restored', 'Auto expense restored');
+      fetchAutoExpenses();
+    } catch (error: any) {
+      console.error('Error restoring auto expense:', error);
+      toast.showToast('error', 'Error', error.message || 'Failed to restore auto expense');
     }
   };
   
@@ -211,6 +243,8 @@ export default function AutoExpenseScreen() {
     setIsDeleting(true);
     
     try {
+      // Settled months can't be changed
+      await assertPeriodOpen(selectedExpense.driver?.id || user?.id, selectedExpense.date, token);
       await deleteAutoExpense(selectedExpense.id, token as any);
       
       // Update the local state to remove the deleted expense
@@ -219,7 +253,11 @@ export default function AutoExpenseScreen() {
       );
       
       // Show success toast message
-      toast.showToast('success', 'Success', 'Auto expense deleted successfully');
+      const deletedId = selectedExpense.id;
+      toast.showToast('success', 'Deleted', 'Auto expense moved to trash', {
+        label: 'Undo',
+        onPress: () => handleRestoreExpense(deletedId),
+      });
     } catch (error) {
       console.error('Error deleting auto expense:', error);
       
@@ -240,6 +278,13 @@ export default function AutoExpenseScreen() {
   
   const categories: AutoExpenseCategory[] = ['Petrol', 'Car Accident', 'Maintenance', 'Insurance', 'Other'];
   
+  // Export the listed auto expenses as a spreadsheet
+  const handleExport = (format: ExportFormat) =>
+    exportTransactions(withKind(autoExpenses, 'Auto Expense'), format, {
+      kind: 'Auto Expenses',
+      driverName: user?.role === 'Driver' ? user.name : undefined,
+    });
+
   return (
     <SafeAreaView style={styles.container}>
       <StatusBar style="dark" />
@@ -253,12 +298,19 @@ export default function AutoExpenseScreen() {
           <Ionicons name="arrow-back" size={24} color="black" />
         </TouchableOpacity>
         <Text style={styles.headerTitle}>Auto Expenses</Text>
-        <TouchableOpacity 
-          style={styles.addButton}
-          onPress={navigateToAddAutoExpense}
-        >
-          <Ionicons name="add-circle-outline" size={24} color="black" />
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          <ExportButton
+            style={styles.addButton}
+            disabled={autoExpenses.length === 0}
+            onExport={handleExport}
+          />
+          <TouchableOpacity 
+            style={styles.addButton}
+            onPress={navigateToAddAutoExpense}
+          >
+            <Ionicons name="add-circle-outline" size={24} color="black" />
+          </TouchableOpacity>
+        </View>
       </View>
       
       {loading ? (
@@ -364,6 +416,8 @@ export default function AutoExpenseScreen() {
                     <Text style={styles.expenseNote} numberOfLines={1} ellipsizeMode="tail">
                       {item.note || 'No description'}
                     </Text>
+                    <ReceiptGallery receipts={item.receipts} />
+                    <ExpenseStatusBadge status={item.status} rejectionReason={item.rejectionReason} />
                   </View>
                   <Text style={styles.expenseAmount}>{formatAmount(item.amount)}</Text>
                 </TouchableOpacity>
@@ -460,6 +514,10 @@ const styles = StyleSheet.create({
     fontSize: 20,
     fontWeight: 'bold',
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   addButton: {
     padding: 5,
   },
@@ -13,7 +13,10 @@ import { StatusBar } from 'expo-status-bar';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
+import { useAccounts } from '@/hooks/useAccounts';
 import { getAllEarnings } from '@/services/earning.service';
+import { AccountEarnings, groupEarningsByAccount } from '@/services/account.service';
+import { UNASSIGNED_ACCOUNT } from '@/services/salary.service';
 import { getDriverById } from '@/services/driver.service';
 
 const { width } = Dimensions.get('window');
@@ -24,7 +27,7 @@ type EarningType = {
   amount: number;
   note?: string;
   type: 'Online' | 'Cash' | 'Pocket Slipt';
-  accountName: 'Personal Account' | 'Limousine Account';
+  accountName?: string;
   driverId: string;
   date: string;
   createdAt: string;
@@ -46,7 +49,7 @@ type Driver = {
 };
 
 export default function DriverAccountsScreen() {
-  const { user, authToken } = useAuth();
+  const { authToken } = useAuth();
   const router = useRouter();
   const params = useLocalSearchParams();
   
@@ -55,23 +58,11 @@ export default function DriverAccountsScreen() {
   
   // States
   const [driver, setDriver] = useState<Driver | null>(null);
-  const [personalAccountTotal, setPersonalAccountTotal] = useState(0);
-  const [limousineAccountTotal, setLimousineAccountTotal] = useState(0);
+  const [earnings, setEarnings] = useState<EarningType[]>([]);
+  const { accounts } = useAccounts();
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   
-  // Role-based protection - only Admin can access this screen
-  useEffect(() => {
-    if (user && user.role !== 'Admin') {
-      // Redirect non-admin users to their respective dashboards
-      if (user.role === 'Driver') {
-        router.replace('/dashboard/driver');
-      } else if (user.role === 'Viewer') {
-        router.replace('/dashboard/viewer');
-      }
-    }
-  }, [user, router]);
-
   // Fetch driver details
   useEffect(() => {
     const fetchDriverDetails = async () => {
@@ -89,7 +80,7 @@ export default function DriverAccountsScreen() {
     fetchDriverDetails();
   }, [driverId, authToken]);
 
-  // Fetch earnings for both accounts
+  // Fetch the driver's earnings
   useEffect(() => {
     const fetchEarnings = async () => {
       if (!driverId || !authToken) return;
@@ -112,29 +103,7 @@ export default function DriverAccountsScreen() {
           return !isNaN(amount) && amount > 0;
         });
         
-        console.log('Valid earnings after filtering:', validEarnings);
-        console.log('Personal Account entries:', validEarnings.filter((e: EarningType) => e.accountName === 'Personal Account').length);
-        console.log('Limousine Account entries:', validEarnings.filter((e: EarningType) => e.accountName === 'Limousine Account').length);
-        
-        // Calculate totals for each account, ensuring parsing of string amounts
-        let personalTotal = 0;
-        let limousineTotal = 0;
-        
-        validEarnings.forEach((earning: EarningType) => {
-          const amount = parseFloat(String(earning.amount));
-          
-          if (earning.accountName === 'Personal Account') {
-            personalTotal += amount;
-          } else if (earning.accountName === 'Limousine Account') {
-            limousineTotal += amount;
-          }
-        });
-        
-        console.log('Final Personal Account total:', personalTotal);
-        console.log('Final Limousine Account total:', limousineTotal);
-        
-        setPersonalAccountTotal(personalTotal);
-        setLimousineAccountTotal(limousineTotal);
+        setEarnings(validEarnings);
       } catch (err) {
         console.error('Error fetching earnings data:', err);
         setError('Failed to load account earnings. Please try again later.');
@@ -151,6 +120,55 @@ export default function DriverAccountsScreen() {
     return `AED ${parseFloat(amount.toString()).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
   };
 
+  // Render an account card
+  const renderAccountCard = (account: AccountEarnings<EarningType>) => (
+    <TouchableOpacity 
+      key={account.name}
+      style={styles.accountCard}
+      onPress={() => router.push({
+        pathname: '/dashboard/account-detail',
+        params: {
+          accountName: account.name,
+          totalAmount: account.total.toString(),
+          driverId: driverId
+        }
+      } as any)}
+    >
+      <View style={styles.cardHeader}>
+        <Ionicons
+          name={account.name === UNASSIGNED_ACCOUNT ? 'help-circle-outline' : 'wallet-outline'}
+          size={36}
+          color="#ffffff"
+        />
+        <View style={styles.cardTitleContainer}>
+          <Text style={styles.cardTitle}>{account.name}</Text>
+          <Text style={styles.cardSubtitle}>
+            {account.earnings.length} {account.earnings.length === 1 ? 'Payment' : 'Payments'}
+            {account.account?.isArchived ? ' - Archived' : ''}
+          </Text>
+        </View>
+      </View>
+      
+      <View style={styles.cardBody}>
+        <Text style={styles.cardAmount}>
+          {formatCurrency(account.total)}
+        </Text>
+        <Text style={styles.cardLabel}>Total Earnings</Text>
+      </View>
+      
+      <View style={styles.cardFooter}>
+        <Text style={styles.viewDetailsText}>
+          View Transactions
+        </Text>
+        <Ionicons 
+          name="chevron-forward" 
+          size={16} 
+          color="#ffffff" 
+        />
+      </View>
+    </TouchableOpacity>
+  );
+
   return (
     <SafeAreaView style={styles.container}>
       <StatusBar style="dark" />
@@ -181,83 +199,7 @@ export default function DriverAccountsScreen() {
         <ScrollView style={styles.scrollView} contentContainerStyle={styles.contentContainer}>
           {/* Account Cards */}
           <View style={styles.accountCardsContainer}>
-            {/* Personal Account Card */}
-            <TouchableOpacity 
-              style={styles.accountCard}
-              onPress={() => router.push({
-                pathname: '/dashboard/account-detail',
-                params: {
-                  accountName: 'Personal Account',
-                  totalAmount: personalAccountTotal.toString(),
-                  driverId: driverId
-                }
-              } as any)}
-            >
-              <View style={styles.cardHeader}>
-                <Ionicons name="wallet-outline" size={36} color="#ffffff" />
-                <View style={styles.cardTitleContainer}>
-                  <Text style={styles.cardTitle}>Personal Account</Text>
-                  <Text style={styles.cardSubtitle}>Individual Earnings</Text>
-                </View>
-              </View>
-              
-              <View style={styles.cardBody}>
-                <Text style={styles.cardAmount}>
-                  {formatCurrency(personalAccountTotal)}
-                </Text>
-                <Text style={styles.cardLabel}>Total Earnings</Text>
-              </View>
-              
-              <View style={styles.cardFooter}>
-                <Text style={styles.viewDetailsText}>
-                  View Transactions
-                </Text>
-                <Ionicons 
-                  name="chevron-forward" 
-                  size={16} 
-                  color="#ffffff" 
-                />
-              </View>
-            </TouchableOpacity>
-            
-            {/* Limousine Account Card */}
-            <TouchableOpacity 
-              style={[styles.accountCard, styles.limousineCard]}
-              onPress={() => router.push({
-                pathname: '/dashboard/account-detail',
-                params: {
-                  accountName: 'Limousine Account',
-                  totalAmount: limousineAccountTotal.toString(),
-                  driverId: driverId
-                }
-              } as any)}
-            >
-              <View style={styles.cardHeader}>
-                <Ionicons name="car-outline" size={36} color="#ffffff" />
-                <View style={styles.cardTitleContainer}>
-                  <Text style={styles.cardTitle}>Limousine Account</Text>
-                  <Text style={styles.cardSubtitle}>Vehicle Related Earnings</Text>
-                </View>
-              </View>
-              
-              <View style={styles.cardBody}>
-                <Text style={styles.cardAmount}>
-                  {formatCurrency(limousineAccountTotal)}
-                </Text>
-                <Text style={styles.cardLabel}>Total Earnings</Text>
-              </View>
-              
-              <View style={styles.cardFooter}>
-                <Text style={styles.viewDetailsText}>
-                  View Transactions
-                </Text>
-                <Ionicons 
-                  name="chevron-forward" 
-                  size={16} 
-                  color="#ffffff" 
-                />
-              </View>
-            </TouchableOpacity>
+            {groupEarningsByAccount(earnings, accounts).map(renderAccountCard)}
           </View>
         </ScrollView>
       )}
@@ -332,10 +274,6 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#000000',
   },
-  limousineCard: {
-    backgroundColor: '#000000',
-    borderColor: '#000000',
-  },
   cardHeader: {
     flexDirection: 'row',
     alignItems: 'center',
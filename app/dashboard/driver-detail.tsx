@@ -14,9 +14,18 @@ import { StatusBar } from 'expo-status-bar';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
+import { useCan } from '@/hooks/useCan';
+import { useQuery } from '@/hooks/useQuery';
+import { ProfitLossStatement } from '@/components/ProfitLossStatement';
+import { ExportButton } from '@/components/ExportButton';
+import { ExportFormat, exportTransactions, withKind } from '@/services/export.service';
 import { getAllEarnings } from '@/services/earning.service';
 import { getAllExpenses } from '@/services/expense.service';
 import { getAllAutoExpenses } from '@/services/autoExpense.service';
+import { AUDIT_ENTITY_LABELS, describeChange, getAuditLog } from '@/services/audit.service';
+import { ENDPOINTS } from '@/services/api.config';
+import { queryKey } from '@/services/query.cache';
+import type { AuditEntry } from '@/services/api.types';
 
 // Define data types
 type EarningType = {
@@ -25,6 +34,7 @@ type EarningType = {
   description?: string;
   note?: string;
   type?: string;
+  accountName?: string;
   driverId: string;
   date: string;
   createdAt: string;
@@ -35,6 +45,7 @@ type ExpenseType = {
   id: string;
   amount: number;
   description?: string;
+  note?: string;
   category?: string;
   driverId: string;
   date: string;
@@ -65,6 +76,7 @@ type TransactionType = {
 
 export default function DriverDetailScreen() {
   const { authToken } = useAuth();
+  const can = useCan();
   const params = useLocalSearchParams();
   const driverId = params.id as string;
   const driverName = params.name as string;
@@ -77,6 +89,7 @@ export default function DriverDetailScreen() {
   const [isLoading, setIsLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [showProfitLoss, setShowProfitLoss] = useState(false);
   
   // Initialize activeTab based on filter parameter from URL
   const getInitialTab = () => {
@@ -86,12 +99,20 @@ export default function DriverDetailScreen() {
       if (filterValue === 'earnings') return 'earnings';
       if (filterValue === 'expenses') return 'expenses';
       if (filterValue === 'autoExpenses') return 'autoExpenses';
+      if (filterValue === 'history') return 'history';
       if (filterValue === 'all') return 'all';
     }
     return 'all'; // default
   };
   
-  const [activeTab, setActiveTab] = useState<'all' | 'earnings' | 'expenses' | 'autoExpenses'>(getInitialTab());
+  const [activeTab, setActiveTab] = useState<'all' | 'earnings' | 'expenses' | 'autoExpenses' | 'history'>(getInitialTab());
+
+  // Who changed which transaction, refreshed whenever a transaction is edited
+  const auditQuery = useQuery(
+    driverId && authToken ? queryKey(ENDPOINTS.AUDIT_LOG.GET_ALL, { query: { driverId } }) : null,
+    () => getAuditLog({ driverId }, authToken)
+  );
+  const auditLog = auditQuery.data || [];
   
   // Fetch data
   const fetchData = async () => {
@@ -251,16 +272,53 @@ export default function DriverDetailScreen() {
     </View>
   );
 
+  // Render a change history entry
+  const renderAuditItem = ({ item }: { item: AuditEntry }) => (
+    <View style={styles.transactionItem}>
+      <View style={[
+        styles.transactionIconContainer,
+        item.entityType === 'expense' && styles.expenseIconContainer,
+        item.entityType === 'autoExpense' && styles.autoExpenseIconContainer
+      ]}>
+        <Ionicons name="create-outline" size={24} color="#666" />
+      </View>
+      <View style={styles.transactionInfo}>
+        <Text style={styles.transactionTitle}>
+          {AUDIT_ENTITY_LABELS[item.entityType] || 'Transaction'} edited
+        </Text>
+        <Text style={styles.transactionDate}>
+          {item.changedBy?.name ? `${item.changedBy.name} · ` : ''}{formatDate(item.createdAt)}
+        </Text>
+        {item.changes.map(change => (
+          <Text key={change.field} style={styles.auditChange}>{describeChange(change)}</Text>
+        ))}
+      </View>
+    </View>
+  );
+
   // Get the filtered transactions based on the active tab
   const getFilteredTransactions = () => {
     if (activeTab === 'all') return transactions;
     if (activeTab === 'earnings') return transactions.filter(t => t.type === 'earning');
     if (activeTab === 'expenses') return transactions.filter(t => t.type === 'expense');
+    if (activeTab === 'history') return [];
     return transactions.filter(t => t.type === 'autoExpense');
   };
 
+  // Export the transactions on the selected tab as a spreadsheet
+  const handleExport = (format: ExportFormat) => {
+    const includes = (tab: typeof activeTab) => activeTab === 'all' || activeTab === tab;
+    const records = [
+      ...(includes('earnings') ? withKind(earnings, 'Earning') : []),
+      ...(includes('expenses') ? withKind(expenses, 'Expense') : []),
+      ...(includes('autoExpenses') ? withKind(autoExpenses, 'Auto Expense') : []),
+    ].sort((a, b) => new Date(b.record.date).getTime() - new Date(a.record.date).getTime());
+
+    return exportTransactions(records, format, { kind: 'Transactions', driverName });
+  };
+
   // Filter options for rendering
-  const filterOptions = ['all', 'earnings', 'expenses', 'autoExpenses'];
+  const filterOptions = ['all', 'earnings', 'expenses', 'autoExpenses', 'history'];
 
   return (
     <SafeAreaView style={styles.container}>
@@ -275,7 +333,21 @@ export default function DriverDetailScreen() {
           <Ionicons name="arrow-back" size={24} color="black" />
         </TouchableOpacity>
         <Text style={styles.headerTitle}>Transaction</Text>
-        <View style={styles.headerRight} />
+        <View style={styles.headerActions}>
+          <ExportButton
+            style={styles.backButton}
+            disabled={getFilteredTransactions().length === 0}
+            onExport={handleExport}
+          />
+          {can('reports:export') && (
+            <TouchableOpacity 
+              style={styles.backButton}
+              onPress={() => setShowProfitLoss(true)}
+            >
+              <Ionicons name="document-text-outline" size={24} color="black" />
+            </TouchableOpacity>
+          )}
+        </View>
       </View>
       
       {/* Filter Section */}
@@ -308,8 +380,48 @@ export default function DriverDetailScreen() {
         </ScrollView>
       </View>
       
-      {/* Transaction list */}
-      {isLoading && !refreshing ? (
+      {/* Change history */}
+      {activeTab === 'history' ? (
+        auditQuery.isLoading && auditLog.length === 0 ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#000000" />
+            <Text style={styles.loadingText}>Loading change history...</Text>
+          </View>
+        ) : auditQuery.error && auditLog.length === 0 ? (
+          <View style={styles.errorContainer}>
+            <Ionicons name="alert-circle-outline" size={48} color="#FF3B30" />
+            <Text style={styles.errorText}>Failed to load change history. Please try again.</Text>
+            <TouchableOpacity 
+              style={styles.retryButton}
+              onPress={() => auditQuery.refetch()}
+            >
+              <Text style={styles.retryButtonText}>Retry</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <FlatList
+            data={auditLog}
+            renderItem={renderAuditItem}
+            keyExtractor={(item) => item.id}
+            contentContainerStyle={styles.transactionList}
+            refreshControl={
+              <RefreshControl 
+                refreshing={auditQuery.isRefreshing} 
+                onRefresh={() => auditQuery.refetch()}
+                colors={["#000"]} 
+              />
+            }
+            ListEmptyComponent={() => (
+              <View style={styles.emptyStateContainer}>
+                <Ionicons name="time-outline" size={48} color="#ccc" />
+                <Text style={styles.emptyStateText}>
+                  No edits recorded for this driver
+                </Text>
+              </View>
+            )}
+          />
+        )
+      ) : isLoading && !refreshing ? (
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color="#000000" />
           <Text style={styles.loadingText}>Loading transactions...</Text>
@@ -356,6 +468,12 @@ export default function DriverDetailScreen() {
           )}
         />
       )}
+
+      <ProfitLossStatement
+        visible={showProfitLoss}
+        driver={{ id: driverId, name: driverName || 'Driver' }}
+        onClose={() => setShowProfitLoss(false)}
+      />
     </SafeAreaView>
   );
 }
@@ -383,8 +501,9 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     flex: 1,
   },
-  headerRight: {
-    width: 24, // To balance the header
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
   },
   filterSection: {
     marginBottom: 10,
@@ -492,6 +611,11 @@ const styles = StyleSheet.create({
     fontSize: 13,
     color: '#666',
   },
+  auditChange: {
+    fontSize: 12,
+    color: '#333',
+    marginTop: 2,
+  },
   transactionCategory: {
     fontSize: 12,
     color: '#757575',
@@ -13,11 +13,21 @@ import { StatusBar } from 'expo-status-bar';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
+import { useCan } from '@/hooks/useCan';
 import { getDriverById } from '@/services/driver.service';
 import { getEarningsSummary } from '@/services/earning.service';
-import { getExpensesSummary } from '@/services/expense.service';
 import { getDriverVehicles } from '@/services/vehicle.service';
-import { getAutoExpensesSummary } from '@/services/autoExpense.service';
+import { getAllAutoExpenses } from '@/services/autoExpense.service';
+import { getAllEarnings } from '@/services/earning.service';
+import { getAllExpenses } from '@/services/expense.service';
+import { calculateSalary, getSalaryRule } from '@/services/salary.service';
+import { sumByStatus } from '@/services/review.service';
+import { getMonthRange } from '@/utils/date';
+import { ENDPOINTS } from '@/services/api.config';
+import { queryKey } from '@/services/query.cache';
+import { useQuery } from '@/hooks/useQuery';
+import { SalaryBreakdownCard } from '@/components/SalaryBreakdownCard';
+import { ProfitLossStatement } from '@/components/ProfitLossStatement';
 
 const { width } = Dimensions.get('window');
 
@@ -43,6 +53,7 @@ type Vehicle = {
 
 export default function DriverStatistics() {
   const { authToken } = useAuth();
+  const can = useCan();
   const params = useLocalSearchParams();
   const driverId = params.id as string;
   const driverName = params.name as string;
@@ -50,10 +61,9 @@ export default function DriverStatistics() {
   const [driver, setDriver] = useState<Driver | null>(null);
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
   const [totalEarnings, setTotalEarnings] = useState(0);
-  const [totalExpenses, setTotalExpenses] = useState(0);
-  const [totalAutoExpenses, setTotalAutoExpenses] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
+  const [showProfitLoss, setShowProfitLoss] = useState(false);
 
   // Debug helper for better console logging
   const logDriverData = (data: any) => {
@@ -156,8 +166,8 @@ export default function DriverStatistics() {
           setVehicles([]);
         }
         
-        // Fetch earnings, expenses, and auto expenses summaries
-        console.log('Fetching earnings, expenses, and auto expenses for driver ID:', driverId);
+        // Fetch the earnings summary
+        console.log('Fetching earnings for driver ID:', driverId);
         
         try {
           const earningsSummary = await getEarningsSummary(driverId, 'monthly');
@@ -182,53 +192,6 @@ export default function DriverStatistics() {
           setTotalEarnings(0);
         }
         
-        try {
-          const expensesSummary = await getExpensesSummary(driverId, 'monthly');
-          console.log('Expenses summary:', expensesSummary);
-          
-          // Check different possible response structures and extract total expenses
-          if (expensesSummary) {
-            let expenses = 0;
-            if (typeof expensesSummary.totalExpenses === 'number') {
-              expenses = expensesSummary.totalExpenses;
-            } else if (expensesSummary.data && typeof expensesSummary.data.totalExpenses === 'number') {
-              expenses = expensesSummary.data.totalExpenses;
-            }
-            console.log('Setting total expenses to:', expenses);
-            setTotalExpenses(expenses);
-          } else {
-            console.warn('Expenses summary is null or undefined');
-            setTotalExpenses(0);
-          }
-        } catch (expErr) {
-          console.error('Error fetching expenses:', expErr);
-          setTotalExpenses(0);
-        }
-        
-        // New: Fetch auto expenses summary
-        try {
-          const autoExpensesSummary = await getAutoExpensesSummary(driverId, 'monthly');
-          console.log('Auto expenses summary:', autoExpensesSummary);
-          
-          // Check different possible response structures and extract total auto expenses
-          if (autoExpensesSummary) {
-            let autoExpenses = 0;
-            if (typeof autoExpensesSummary.totalAutoExpenses === 'number') {
-              autoExpenses = autoExpensesSummary.totalAutoExpenses;
-            } else if (autoExpensesSummary.data && typeof autoExpensesSummary.data.totalAutoExpenses === 'number') {
-              autoExpenses = autoExpensesSummary.data.totalAutoExpenses;
-            }
-            console.log('Setting total auto expenses to:', autoExpenses);
-            setTotalAutoExpenses(autoExpenses);
-          } else {
-            console.warn('Auto expenses summary is null or undefined');
-            setTotalAutoExpenses(0);
-          }
-        } catch (autoExpErr) {
-          console.error('Error fetching auto expenses:', autoExpErr);
-          setTotalAutoExpenses(0);
-        }
-        
       } catch (err) {
         console.error('Error fetching driver data:', err);
         setError('Failed to load driver information');
@@ -240,6 +203,48 @@ export default function DriverStatistics() {
     fetchDriverData();
   }, [driverId, authToken]);
 
+  // This month's records and the driver's salary rule
+  const { startDate, endDate } = getMonthRange();
+  const monthFilters = { driverId, startDate, endDate };
+  const toList = (response: any, field: string) =>
+    Array.isArray(response) ? response : (response && (response.data || response[field])) || [];
+
+  const monthlyEarningsQuery = useQuery(
+    driverId ? queryKey(ENDPOINTS.EARNING.GET_ALL, { query: monthFilters }) : null,
+    () => getAllEarnings(monthFilters, authToken)
+  );
+  const monthlyExpensesQuery = useQuery(
+    driverId ? queryKey(ENDPOINTS.EXPENSE.GET_ALL, { query: monthFilters }) : null,
+    () => getAllExpenses(monthFilters, authToken)
+  );
+  const monthlyAutoExpensesQuery = useQuery(
+    driverId ? queryKey(ENDPOINTS.AUTO_EXPENSE.GET_ALL, { query: monthFilters }) : null,
+    () => getAllAutoExpenses(monthFilters, authToken)
+  );
+  const salaryRuleQuery = useQuery(
+    driverId ? queryKey(ENDPOINTS.SALARY_RULE.GET, { params: { driverId } }) : null,
+    () => getSalaryRule(driverId, authToken)
+  );
+
+  const salaryLoading = monthlyEarningsQuery.isLoading || monthlyExpensesQuery.isLoading ||
+    monthlyAutoExpensesQuery.isLoading || salaryRuleQuery.isLoading;
+  const salary = salaryRuleQuery.data && !salaryLoading
+    ? calculateSalary(salaryRuleQuery.data, {
+        earnings: toList(monthlyEarningsQuery.data, 'earnings'),
+        expenses: toList(monthlyExpensesQuery.data, 'expenses'),
+        autoExpenses: toList(monthlyAutoExpensesQuery.data, 'autoExpenses'),
+        startDate,
+        endDate,
+      })
+    : null;
+  const monthlySalary = salary?.amount || 0;
+
+  // Approved expenses count now; pending ones are shown beside them until reviewed
+  const expenseTotals = sumByStatus(toList(monthlyExpensesQuery.data, 'expenses'));
+  const autoExpenseTotals = sumByStatus(toList(monthlyAutoExpensesQuery.data, 'autoExpenses'));
+  const totalExpenses = expenseTotals.approved;
+  const totalAutoExpenses = autoExpenseTotals.approved;
+
   const goBack = () => {
     router.back();
   };
@@ -317,6 +322,11 @@ export default function DriverStatistics() {
                 <Text style={styles.dashboardCardAmount}>
                   AED {totalExpenses.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
                 </Text>
+                {expenseTotals.pending > 0 && (
+                  <Text style={styles.dashboardCardPending}>
+                    + AED {expenseTotals.pending.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} pending review
+                  </Text>
+                )}
                 <Text style={styles.dashboardCardDriver}>{driver?.name || driverName || 'Driver'}</Text>
               </View>
             </TouchableOpacity>
@@ -341,6 +351,11 @@ export default function DriverStatistics() {
                 <Text style={styles.dashboardCardAmount}>
                   AED {totalAutoExpenses.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
                 </Text>
+                {autoExpenseTotals.pending > 0 && (
+                  <Text style={styles.dashboardCardPending}>
+                    + AED {autoExpenseTotals.pending.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} pending review
+                  </Text>
+                )}
                 <Text style={styles.dashboardCardDriver}>{driver?.name || driverName || 'Driver'}</Text>
               </View>
             </TouchableOpacity>
@@ -359,20 +374,67 @@ export default function DriverStatistics() {
             >
               <View style={styles.dashboardCardContent}>
                 <View style={styles.dashboardCardHeader}>
-                  <Text style={styles.dashboardCardLabel}>This Month Income</Text>
+                  <Text style={styles.dashboardCardLabel}>This Month Salary</Text>
                   <Ionicons 
-                    name={((totalEarnings * 0.3) - totalExpenses) >= 0 ? "trending-up" : "trending-down"} 
+                    name={monthlySalary >= 0 ? "trending-up" : "trending-down"} 
                     size={20} 
-                    color={((totalEarnings * 0.3) - totalExpenses) >= 0 ? "#4CAF50" : "#ff4444"} 
+                    color={monthlySalary >= 0 ? "#4CAF50" : "#ff4444"} 
                   />
                 </View>
-                <Text style={[styles.dashboardCardAmount, { color: ((totalEarnings * 0.3) - totalExpenses) >= 0 ? '#ffffff' : '#ff4444' }]}>
-                  AED {((totalEarnings * 0.3) - totalExpenses).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                <Text style={[styles.dashboardCardAmount, { color: monthlySalary >= 0 ? '#ffffff' : '#ff4444' }]}>
+                  {salaryLoading ? 'Loading...' : `AED ${monthlySalary.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`}
                 </Text>
                 <Text style={styles.dashboardCardDriver}>{driver?.name || driverName || 'Driver'}</Text>
               </View>
             </TouchableOpacity>
             
+            <SalaryBreakdownCard title="This Month's Salary" breakdown={salary} isLoading={salaryLoading} />
+
+            {/* Edit Salary Rule Button */}
+            {can('salary:write') && (
+              <TouchableOpacity 
+                style={styles.viewAccountsButton}
+                onPress={() => router.push({
+                  pathname: '/dashboard/salary-rule',
+                  params: { id: driverId, name: driver?.name || driverName || 'Driver' }
+                } as any)}
+              >
+                <View style={styles.viewAccountsButtonContent}>
+                  <Text style={styles.viewAccountsButtonText}>Edit Salary Rule</Text>
+                  <Ionicons name="calculator-outline" size={20} color="black" />
+                </View>
+              </TouchableOpacity>
+            )}
+
+            {/* Monthly Settlement Button */}
+            {can('settlements:write') && (
+              <TouchableOpacity 
+                style={styles.viewAccountsButton}
+                onPress={() => router.push({
+                  pathname: '/dashboard/settlement',
+                  params: { id: driverId, name: driver?.name || driverName || 'Driver' }
+                } as any)}
+              >
+                <View style={styles.viewAccountsButtonContent}>
+                  <Text style={styles.viewAccountsButtonText}>Monthly Settlement</Text>
+                  <Ionicons name="document-text-outline" size={20} color="black" />
+                </View>
+              </TouchableOpacity>
+            )}
+
+            {/* Profit & Loss Statement Button */}
+            {can('reports:export') && (
+              <TouchableOpacity 
+                style={styles.viewAccountsButton}
+                onPress={() => setShowProfitLoss(true)}
+              >
+                <View style={styles.viewAccountsButtonContent}>
+                  <Text style={styles.viewAccountsButtonText}>Profit & Loss Statement</Text>
+                  <Ionicons name="download-outline" size={20} color="black" />
+                </View>
+              </TouchableOpacity>
+            )}
+
             {/* View Accounts Button */}
             <TouchableOpacity 
               style={styles.viewAccountsButton}
@@ -389,6 +451,12 @@ export default function DriverStatistics() {
           </View>
         </ScrollView>
       )}
+
+      <ProfitLossStatement
+        visible={showProfitLoss}
+        driver={{ id: driverId, name: driver?.name || driverName || 'Driver' }}
+        onClose={() => setShowProfitLoss(false)}
+      />
     </SafeAreaView>
   );
 }
@@ -627,6 +695,13 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     marginBottom: 14,
   },
+  dashboardCardPending: {
+    color: '#FF9800',
+    fontSize: 14,
+    fontWeight: '500',
+    marginTop: -8,
+    marginBottom: 14,
+  },
   dashboardCardDriver: {
     color: '#aaa',
     fontSize: 14,
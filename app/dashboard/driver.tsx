@@ -19,13 +19,23 @@ import { StatusBar } from 'expo-status-bar';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
+import { useOutbox } from '@/contexts/OutboxContext';
+import { OutboxEntry } from '@/services/outbox.service';
 import { LinearGradient } from 'expo-linear-gradient';
+import { useQuery } from '@/hooks/useQuery';
+import { ENDPOINTS } from '@/services/api.config';
+import { invalidateQueries, queryKey } from '@/services/query.cache';
 import { getEarningsSummary } from '@/services/earning.service';
 import { getExpensesSummary, getAllExpenses } from '@/services/expense.service';
 import { getProfile } from '@/services/auth.service';
 import { getDriverVehicles } from '@/services/vehicle.service';
 import { getAllEarnings } from '@/services/earning.service';
-import { getAutoExpensesSummary } from '@/services/autoExpense.service';
+import { getAllAutoExpenses } from '@/services/autoExpense.service';
+import { calculateSalary, getSalaryRule } from '@/services/salary.service';
+import { sumByStatus } from '@/services/review.service';
+import { getMonthRange } from '@/utils/date';
+import { SalaryBreakdownCard } from '@/components/SalaryBreakdownCard';
+import { ProfitLossStatement } from '@/components/ProfitLossStatement';
 
 const screenWidth = Dimensions.get('window').width - 40;
 const screenHeight = Dimensions.get('window').height;
@@ -78,25 +88,15 @@ type Expense = {
 
 export default function DriverDashboard() {
   const { logout, user, refreshUser, authToken } = useAuth();
+  const { pendingEntries, syncing, syncNow, discard } = useOutbox();
   const [selectedPeriod, setSelectedPeriod] = useState('Monthly');
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [showProfitLoss, setShowProfitLoss] = useState(false);
   const [transactionFilter, setTransactionFilter] = useState('All');
   const [showTransactionFilterDropdown, setShowTransactionFilterDropdown] = useState(false);
   const router = useRouter();
   const pathname = usePathname();
-  const [totalEarnings, setTotalEarnings] = useState(0);
-  const [totalExpenses, setTotalExpenses] = useState(0);
-  const [totalAutoExpenses, setTotalAutoExpenses] = useState(0);
-  const [isLoading, setIsLoading] = useState(true);
   const [userData, setUserData] = useState(user);
-  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
-  const [vehiclesLoading, setVehiclesLoading] = useState(true);
-  const [todayEarnings, setTodayEarnings] = useState<Earning[]>([]);
-  const [todayExpenses, setTodayExpenses] = useState<Expense[]>([]);
-  const [todayTransactionsLoading, setTodayTransactionsLoading] = useState(true);
-  const [lastRefreshed, setLastRefreshed] = useState(Date.now());
-  const [monthlyEarnings, setMonthlyEarnings] = useState(0);
-  const [monthlySalary, setMonthlySalary] = useState(0);
 
   // Refresh user data when component loads
   useEffect(() => {
@@ -128,89 +128,119 @@ export default function DriverDashboard() {
     loadUserData();
   }, [user?.id]);
 
-  // Role-based protection - only Driver can access this dashboard
-  useEffect(() => {
-    if (user && user.role !== 'Driver') {
-      // Redirect non-driver users to their respective dashboards
-      if (user.role === 'Admin') {
-        router.replace('/dashboard/admin');
-      } else if (user.role === 'Viewer') {
-        router.replace('/dashboard/viewer');
-      }
-    }
-  }, [user, router]);
+  // Date range for this month's salary
+  const { startDate: startOfMonth, endDate: endOfMonth } = getMonthRange();
 
-  // Fetch driver's earnings and expenses
-  useEffect(() => {
-    const fetchDriverData = async () => {
-      try {
-        setIsLoading(true);
-        
-        // Fetch all data without period restriction for cards
-        const [allEarningsResp, allExpensesResp, allAutoExpensesResp] = await Promise.all([
-          getAllEarnings({ driverId: user?.id }),
-          getAllExpenses({ driverId: user?.id }),
-          getAutoExpensesSummary(user?.id, 'all') // Use 'all' to get all data
-        ]);
-        
-        // Calculate totals from all data
-        let allEarnings = Array.isArray(allEarningsResp) ? allEarningsResp : (allEarningsResp.earnings || []);
-        let allExpenses = Array.isArray(allExpensesResp) ? allExpensesResp : (allExpensesResp.expenses || []);
-        
-        const totalEarningsAmount = allEarnings.reduce((sum: number, e: any) => sum + parseFloat(e.amount), 0);
-        const totalExpensesAmount = allExpenses.reduce((sum: number, e: any) => sum + parseFloat(e.amount), 0);
-        
-        setTotalEarnings(totalEarningsAmount);
-        setTotalExpenses(totalExpensesAmount);
-        setTotalAutoExpenses(allAutoExpensesResp.totalAutoExpenses || 0);
+  // Today's date parts - built by hand to avoid timezone off-by-one errors
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const tomorrow = new Date(today);
+  tomorrow.setDate(tomorrow.getDate() + 1);
+  const year = today.getFullYear();
+  const month = String(today.getMonth() + 1).padStart(2, '0');
+  const day = String(today.getDate()).padStart(2, '0');
+  const todayDate = `${year}-${month}-${day}`;
+  const tomorrowDate = `${tomorrow.getFullYear()}-${String(tomorrow.getMonth() + 1).padStart(2, '0')}-${String(tomorrow.getDate()).padStart(2, '0')}`;
 
-        // Calculate monthly earnings and salary (keep this for the income card)
-        const now = new Date();
-        const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-        const endOfMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0);
-        const startDate = startOfMonth.toISOString().split('T')[0];
-        const endDate = endOfMonth.toISOString().split('T')[0];
-        const monthlyEarningsResp = await getAllEarnings({ driverId: user?.id, startDate, endDate });
-        let earningsArr = Array.isArray(monthlyEarningsResp) ? monthlyEarningsResp : (monthlyEarningsResp.earnings || []);
-        const totalMonth = earningsArr.reduce((sum: number, e: any) => sum + parseFloat(e.amount), 0);
-        setMonthlyEarnings(totalMonth);
-        setMonthlySalary(totalMonth * 0.3);
-      } catch (error) {
-        console.error('Error fetching data:', error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
+  const driverId = user?.id;
+  const todayFilters = { driverId, startDate: todayDate, endDate: tomorrowDate };
+  const monthFilters = { driverId, startDate: startOfMonth, endDate: endOfMonth };
 
-    if (user?.id) {
-      fetchDriverData();
-    }
-  }, [user]); // Remove selectedPeriod dependency
+  // Cached queries - render the last known data instantly and refresh in the background
+  const allEarningsQuery = useQuery(
+    driverId ? queryKey(ENDPOINTS.EARNING.GET_ALL, { query: { driverId } }) : null,
+    () => getAllEarnings({ driverId })
+  );
+  const allExpensesQuery = useQuery(
+    driverId ? queryKey(ENDPOINTS.EXPENSE.GET_ALL, { query: { driverId } }) : null,
+    () => getAllExpenses({ driverId })
+  );
+  const allAutoExpensesQuery = useQuery(
+    driverId ? queryKey(ENDPOINTS.AUTO_EXPENSE.GET_ALL, { query: { driverId } }) : null,
+    () => getAllAutoExpenses({ driverId })
+  );
+  const monthlyEarningsQuery = useQuery(
+    driverId ? queryKey(ENDPOINTS.EARNING.GET_ALL, { query: monthFilters }) : null,
+    () => getAllEarnings(monthFilters)
+  );
+  const monthlyExpensesQuery = useQuery(
+    driverId ? queryKey(ENDPOINTS.EXPENSE.GET_ALL, { query: monthFilters }) : null,
+    () => getAllExpenses(monthFilters)
+  );
+  const monthlyAutoExpensesQuery = useQuery(
+    driverId ? queryKey(ENDPOINTS.AUTO_EXPENSE.GET_ALL, { query: monthFilters }) : null,
+    () => getAllAutoExpenses(monthFilters)
+  );
+  const salaryRuleQuery = useQuery(
+    driverId ? queryKey(ENDPOINTS.SALARY_RULE.GET, { params: { driverId } }) : null,
+    () => getSalaryRule(driverId as string)
+  );
+  const vehiclesQuery = useQuery(
+    driverId && authToken ? queryKey(ENDPOINTS.VEHICLE.GET_ALL, { query: { driverId } }) : null,
+    () => getDriverVehicles(driverId as string, authToken)
+  );
+  const todayEarningsQuery = useQuery(
+    driverId && authToken ? queryKey(ENDPOINTS.EARNING.GET_ALL, { query: todayFilters }) : null,
+    () => getAllEarnings(todayFilters)
+  );
+  const todayExpensesQuery = useQuery(
+    driverId && authToken ? queryKey(ENDPOINTS.EXPENSE.GET_ALL, { query: todayFilters }) : null,
+    () => getAllExpenses(todayFilters)
+  );
 
-  // Fetch driver's vehicles
-  useEffect(() => {
-    const fetchVehicles = async () => {
-      try {
-        setVehiclesLoading(true);
-        if (!user?.id || !authToken) return;
-        
-        const response = await getDriverVehicles(user.id, authToken);
-        if (response && response.vehicles) {
-          setVehicles(response.vehicles);
-        }
-      } catch (error) {
-        console.error('Error fetching vehicles:', error);
-      } finally {
-        setVehiclesLoading(false);
-      }
-    };
+  // Responses are either arrays or wrapped in an object
+  const toList = (response: any, field: string) =>
+    Array.isArray(response) ? response : (response && response[field]) || [];
 
-    fetchVehicles();
-  }, [user?.id, authToken]);
+  const sumAmounts = (items: any[]) =>
+    items.reduce((sum: number, e: any) => sum + parseFloat(e.amount), 0);
+
+  // Calculate totals from all data
+  const isLoading = allEarningsQuery.isLoading || allExpensesQuery.isLoading || allAutoExpensesQuery.isLoading;
+  const totalEarnings = sumAmounts(toList(allEarningsQuery.data, 'earnings'));
+  // Pending expenses are shown apart until an admin approves them
+  const expenseTotals = sumByStatus(toList(allExpensesQuery.data, 'expenses'));
+  const autoExpenseTotals = sumByStatus(toList(allAutoExpensesQuery.data, 'autoExpenses'));
+  const totalExpenses = expenseTotals.approved;
+  const totalAutoExpenses = autoExpenseTotals.approved;
+
+  // This month's salary under the driver's own rule
+  const salaryLoading = monthlyEarningsQuery.isLoading || monthlyExpensesQuery.isLoading ||
+    monthlyAutoExpensesQuery.isLoading || salaryRuleQuery.isLoading;
+  const salary = salaryRuleQuery.data && !salaryLoading
+    ? calculateSalary(salaryRuleQuery.data, {
+        earnings: toList(monthlyEarningsQuery.data, 'earnings'),
+        expenses: toList(monthlyExpensesQuery.data, 'expenses'),
+        autoExpenses: toList(monthlyAutoExpensesQuery.data, 'autoExpenses'),
+        startDate: startOfMonth,
+        endDate: endOfMonth,
+      })
+    : null;
+  const monthlySalary = salary?.amount || 0;
+
+  const vehicles: Vehicle[] = vehiclesQuery.data?.vehicles || [];
+  const vehiclesLoading = vehiclesQuery.isLoading;
+
+  // Keep only entries dated today - compare date parts directly to avoid timezone issues
+  const isToday = (dateString: string) => {
+    if (!dateString) return false;
+    const date = new Date(dateString);
+    return (
+      date.getFullYear() === year &&
+      date.getMonth() + 1 === parseInt(month) &&
+      date.getDate() === parseInt(day)
+    );
+  };
+
+  const todayEarnings: Earning[] = toList(todayEarningsQuery.data, 'earnings').filter((earning: Earning) => isToday(earning.date));
+  const todayExpenses: Expense[] = toList(todayExpensesQuery.data, 'expenses').filter((expense: Expense) => isToday(expense.date));
+  const todayTransactionsLoading = todayEarningsQuery.isLoading || todayExpensesQuery.isLoading;
 
   // Function to refresh today's transactions data
   const refreshTodayTransactions = () => {
-    setLastRefreshed(Date.now());
+    invalidateQueries(ENDPOINTS.EARNING.GET_ALL);
+    invalidateQueries(ENDPOINTS.EXPENSE.GET_ALL);
+    invalidateQueries(ENDPOINTS.AUTO_EXPENSE.GET_ALL);
   };
 
   // Make refreshTodayTransactions globally available for other components
@@ -225,138 +255,6 @@ export default function DriverDashboard() {
     };
   }, []);
 
-  // Fetch today's transactions (earnings and expenses)
-  useEffect(() => {
-    const fetchTodayTransactions = async () => {
-      try {
-        setTodayTransactionsLoading(true);
-        if (!user?.id || !authToken) return;
-        
-        // Get today's date in YYYY-MM-DD format
-        const today = new Date();
-        today.setHours(0, 0, 0, 0); // Set to start of today
-        
-        const tomorrow = new Date(today);
-        tomorrow.setDate(tomorrow.getDate() + 1);
-        
-        // Format with timezone adjustment to avoid off-by-one errors
-        const year = today.getFullYear();
-        const month = String(today.getMonth() + 1).padStart(2, '0');
-        const day = String(today.getDate()).padStart(2, '0');
-        
-        const todayDate = `${year}-${month}-${day}`;
-        const tomorrowDate = `${tomorrow.getFullYear()}-${String(tomorrow.getMonth() + 1).padStart(2, '0')}-${String(tomorrow.getDate()).padStart(2, '0')}`;
-        
-        console.log('Today date for filtering:', todayDate, 'Today timestamp:', today.getTime());
-        console.log('Tomorrow date for filtering:', tomorrowDate);
-        
-        // Fetch earnings and expenses for today - we'll try with and without date filters
-        console.log('Fetching earnings without date filters to check returned format');
-        const allEarningsResponse = await getAllEarnings({ driverId: user.id });
-        console.log('All earnings response:', allEarningsResponse);
-        
-        // Now fetch with date filters
-        console.log('Fetching earnings with date filters');
-        const [earningsResponse, expensesResponse] = await Promise.all([
-          getAllEarnings({ 
-            driverId: user.id,
-            startDate: todayDate,
-            endDate: tomorrowDate
-          }),
-          getAllExpenses({
-            driverId: user.id,
-            startDate: todayDate,
-            endDate: tomorrowDate
-          })
-        ]);
-        
-        console.log('Earnings response structure:', earningsResponse);
-        
-        // Handle earnings - check if it's an array or has an 'earnings' property
-        let allEarnings = Array.isArray(earningsResponse) 
-          ? earningsResponse 
-          : (earningsResponse && earningsResponse.earnings 
-              ? earningsResponse.earnings 
-              : []);
-        
-        console.log('All earnings for processing:', allEarnings.length);
-        
-        // Filter earnings for today's date - more flexible date checking
-        const todaysEarnings = allEarnings.filter((earning: Earning) => {
-          if (!earning.date) return false;
-          
-          // Check if date matches today (accounting for different date formats)
-          const earningDate = new Date(earning.date);
-          
-          // For better date comparison, use the date string parts to avoid timezone issues
-          const earningYear = earningDate.getFullYear();
-          const earningMonth = earningDate.getMonth() + 1;
-          const earningDay = earningDate.getDate();
-          
-          // Compare date components directly
-          const isSameDay = 
-            earningYear === year && 
-            earningMonth === parseInt(month) && 
-            earningDay === parseInt(day);
-          
-          console.log('Earning date check:', earning.id, earning.date, 
-                      'Year:', earningYear, 'Month:', earningMonth, 'Day:', earningDay,
-                      'Is today:', isSameDay);
-          
-          return isSameDay;
-        });
-        
-        console.log('Today\'s earnings:', todaysEarnings.length);
-        setTodayEarnings(todaysEarnings);
-        
-        console.log('Expenses response structure:', expensesResponse);
-        
-        // Handle expenses - check if it's an array or has an 'expenses' property
-        let allExpenses = Array.isArray(expensesResponse) 
-          ? expensesResponse 
-          : (expensesResponse && expensesResponse.expenses 
-              ? expensesResponse.expenses 
-              : []);
-        
-        console.log('All expenses for processing:', allExpenses.length);
-        
-        // Filter expenses for today's date - more flexible date checking
-        const todaysExpenses = allExpenses.filter((expense: Expense) => {
-          if (!expense.date) return false;
-          
-          // Check if date matches today (accounting for different date formats)
-          const expenseDate = new Date(expense.date);
-          
-          // For better date comparison, use the date string parts to avoid timezone issues
-          const expenseYear = expenseDate.getFullYear();
-          const expenseMonth = expenseDate.getMonth() + 1;
-          const expenseDay = expenseDate.getDate();
-          
-          // Compare date components directly
-          const isSameDay = 
-            expenseYear === year && 
-            expenseMonth === parseInt(month) && 
-            expenseDay === parseInt(day);
-          
-          console.log('Expense date check:', expense.id, expense.date, 
-                     'Year:', expenseYear, 'Month:', expenseMonth, 'Day:', expenseDay,
-                     'Is today:', isSameDay);
-          
-          return isSameDay;
-        });
-        
-        console.log('Today\'s expenses:', todaysExpenses.length);
-        setTodayExpenses(todaysExpenses);
-      } catch (error) {
-        console.error('Error fetching today\'s transactions:', error);
-      } finally {
-        setTodayTransactionsLoading(false);
-      }
-    };
-
-    fetchTodayTransactions();
-  }, [user?.id, authToken, lastRefreshed]);
-
   // Animation value for sidebar
   const sidebarAnim = useRef(new Animated.Value(-SIDEBAR_WIDTH)).current;
   const overlayAnim = useRef(new Animated.Value(0)).current;
@@ -463,6 +361,19 @@ export default function DriverDashboard() {
     return `${new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', year: 'numeric' }).format(date)}, ${timeString}`;
   };
 
+  // Label for a transaction waiting in the offline outbox
+  const getPendingEntryTitle = (entry: OutboxEntry) => {
+    const payload = entry.payload as any;
+    switch (entry.kind) {
+      case 'earning':
+        return `${payload.type || 'Earning'} Earning`;
+      case 'expense':
+        return payload.category || 'Expense';
+      case 'autoExpense':
+        return `Auto ${payload.category || 'Expense'}`;
+    }
+  };
+
   return (
     <SafeAreaView style={styles.container}>
       <StatusBar style="dark" />
@@ -631,7 +542,14 @@ export default function DriverDashboard() {
                 {isLoading ? (
                   <Text style={styles.amount}>Loading...</Text>
                 ) : (
-                  <Text style={styles.amount}>AED {totalExpenses.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</Text>
+                  <>
+                    <Text style={styles.amount}>AED {totalExpenses.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</Text>
+                    {expenseTotals.pending > 0 && (
+                      <Text style={styles.pendingAmount}>
+                        + AED {expenseTotals.pending.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} pending review
+                      </Text>
+                    )}
+                  </>
                 )}
               </View>
               <Text style={styles.driverName}>{userData?.name || user?.name || 'Loading...'}</Text>
@@ -658,7 +576,14 @@ export default function DriverDashboard() {
                 {isLoading ? (
                   <Text style={styles.amount}>Loading...</Text>
                 ) : (
-                  <Text style={styles.amount}>AED {totalAutoExpenses.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</Text>
+                  <>
+                    <Text style={styles.amount}>AED {totalAutoExpenses.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</Text>
+                    {autoExpenseTotals.pending > 0 && (
+                      <Text style={styles.pendingAmount}>
+                        + AED {autoExpenseTotals.pending.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} pending review
+                      </Text>
+                    )}
+                  </>
                 )}
               </View>
               <Text style={styles.driverName}>{userData?.name || user?.name || 'Loading...'}</Text>
@@ -675,18 +600,18 @@ export default function DriverDashboard() {
             >
               <View style={[styles.cardContent, { justifyContent: 'flex-start', marginTop: 8 }]}>
                 <View style={styles.cardHeaderRow}>
-                <Text style={styles.amountLabel}>This Month Income</Text>
+                  <Text style={styles.amountLabel}>This Month Salary</Text>
                   <Ionicons 
-                    name={((totalEarnings * 0.3) - totalExpenses) >= 0 ? "trending-up" : "trending-down"} 
+                    name={monthlySalary >= 0 ? "trending-up" : "trending-down"} 
                     size={20} 
-                    color={((totalEarnings * 0.3) - totalExpenses) >= 0 ? "#4CAF50" : "#ff4444"} 
+                    color={monthlySalary >= 0 ? "#4CAF50" : "#ff4444"} 
                   />
                 </View>
-                {isLoading ? (
+                {salaryLoading ? (
                   <Text style={styles.amount}>Loading...</Text>
                 ) : (
-                  <Text style={[styles.amount, { color: ((totalEarnings * 0.3) - totalExpenses) >= 0 ? '#ffffff' : '#ff4444' }]}>
-                    AED {((totalEarnings * 0.3) - totalExpenses).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                  <Text style={[styles.amount, { color: monthlySalary >= 0 ? '#ffffff' : '#ff4444' }]}>
+                    AED {monthlySalary.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
                   </Text>
                 )}
               </View>
@@ -695,6 +620,80 @@ export default function DriverDashboard() {
           </View>
         </ScrollView>
 
+        {/* How this month's salary was calculated */}
+        <View style={styles.transactionsSection}>
+          <SalaryBreakdownCard title="This Month's Salary" breakdown={salary} isLoading={salaryLoading} />
+          <TouchableOpacity
+            style={[styles.filterButton, styles.profitLossButton]}
+            onPress={() => setShowProfitLoss(true)}
+          >
+            <Text style={styles.filterText}>Profit & Loss Statement</Text>
+            <Ionicons name="download-outline" size={14} color="#000" />
+          </TouchableOpacity>
+        </View>
+
+        {/* Pending Sync */}
+        {pendingEntries.length > 0 && (
+          <View style={styles.transactionsSection}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Pending Sync ({pendingEntries.length})</Text>
+              <TouchableOpacity
+                style={styles.filterButton}
+                onPress={syncNow}
+                disabled={syncing}
+              >
+                {syncing ? (
+                  <ActivityIndicator size="small" color="#000" />
+                ) : (
+                  <>
+                    <Text style={styles.filterText}>Sync now</Text>
+                    <Ionicons name="sync-outline" size={14} color="#000" />
+                  </>
+                )}
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.transactionsContainer}>
+              <View style={styles.transactionSection}>
+                {pendingEntries.map((entry, index) => (
+                  <React.Fragment key={entry.id}>
+                    <View style={styles.transactionItem}>
+                      <View style={styles.transactionLeft}>
+                        <View style={[styles.transactionIconContainer, styles.pendingIconContainer]}>
+                          <Ionicons
+                            name={entry.status === 'failed' ? 'alert-circle-outline' : 'cloud-upload-outline'}
+                            size={20}
+                            color={entry.status === 'failed' ? '#F44336' : '#FF9800'}
+                          />
+                        </View>
+                        <View style={styles.transactionDetails}>
+                          <Text style={styles.transactionTitle}>{getPendingEntryTitle(entry)}</Text>
+                          <Text style={styles.transactionSubtitle}>
+                            {entry.status === 'failed'
+                              ? `Rejected: ${entry.lastError || 'Unknown error'}`
+                              : `Waiting to sync · ${formatTransactionDate(entry.createdAt)}`}
+                          </Text>
+                        </View>
+                      </View>
+                      <View style={styles.pendingEntryRight}>
+                        <Text style={[styles.transactionAmount, entry.kind !== 'earning' && styles.expenseAmount]}>
+                          {entry.kind === 'earning' ? '' : '-'}AED {Number(entry.payload.amount).toFixed(2)}
+                        </Text>
+                        {entry.status === 'failed' && (
+                          <TouchableOpacity onPress={() => discard(entry.id)}>
+                            <Text style={styles.discardText}>Discard</Text>
+                          </TouchableOpacity>
+                        )}
+                      </View>
+                    </View>
+                    {index < pendingEntries.length - 1 && <View style={styles.divider} />}
+                  </React.Fragment>
+                ))}
+              </View>
+            </View>
+          </View>
+        )}
+
         {/* Vehicle information */}
         <View style={styles.vehicleSection}>
           <Text style={styles.sectionTitle}>My Vehicles</Text>
@@ -912,6 +911,14 @@ export default function DriverDashboard() {
           )}
     </View>
       </ScrollView>
+
+      {user && (
+        <ProfitLossStatement
+          visible={showProfitLoss}
+          driver={{ id: user.id, name: userData?.name || user.name }}
+          onClose={() => setShowProfitLoss(false)}
+        />
+      )}
     </SafeAreaView>
   );
 }
@@ -1289,6 +1296,17 @@ const styles = StyleSheet.create({
   expenseAmount: {
     color: '#F44336',
   },
+  pendingIconContainer: {
+    backgroundColor: '#fff3e0',
+  },
+  pendingEntryRight: {
+    alignItems: 'flex-end',
+  },
+  discardText: {
+    fontSize: 13,
+    color: '#F44336',
+    marginTop: 4,
+  },
   noTransactionsText: {
     fontSize: 14,
     color: '#777',
@@ -1349,6 +1367,12 @@ const styles = StyleSheet.create({
     fontSize: 36,
     fontWeight: 'bold',
   },
+  pendingAmount: {
+    color: '#FF9800',
+    fontSize: 14,
+    fontWeight: '500',
+    marginTop: 4,
+  },
   driverName: {
     color: '#ffffff',
     fontSize: 16,
@@ -1383,6 +1407,10 @@ const styles = StyleSheet.create({
     color: '#000',
     marginRight: 4,
   },
+  profitLossButton: {
+    alignSelf: 'flex-end',
+    marginTop: 6,
+  },
   filterDropdown: {
     position: 'absolute',
     top: 40,
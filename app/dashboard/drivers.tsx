@@ -105,20 +105,6 @@ export default function DriversListScreen() {
                          (selectedFilter === 'Inactive' && !driver.isActive);
     return matchesSearch && matchesFilter;
   });
-
-  // Protect route - check if user is authenticated and admin
-  useEffect(() => {
-    if (!user) {
-      router.replace('/auth/login');
-    } else if (user.role !== 'Admin') {
-      // If user is not admin, redirect to their role-specific dashboard
-      if (user.role === 'Driver') {
-        router.replace('/dashboard/driver');
-      } else if (user.role === 'Viewer') {
-        router.replace('/dashboard/viewer');
-      }
-    }
-  }, [user]);
   
   // Animate sidebar when sidebarOpen changes
   useEffect(() => {
@@ -19,8 +19,13 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/contexts/ToastContext';
+import { useAccounts } from '@/hooks/useAccounts';
 import { getEarningsSummary, getAllEarnings, deleteEarning } from '@/services/earning.service';
+import { assertPeriodOpen, PeriodLockedError } from '@/services/settlement.service';
+import { restoreFromTrash } from '@/services/trash.service';
 import { generateEarningsPDF } from '@/services/pdf.service';
+import type { StatementFilters } from '@/services/statement.template';
+import { StatementBuilder } from '@/components/StatementBuilder';
 
 const { width } = Dimensions.get('window');
 
@@ -56,6 +61,7 @@ type EarningsSummary = {
 
 export default function EarningsScreen() {
   const { logout, user } = useAuth();
+  const { accounts } = useAccounts();
   const toast = useToast();
   const [selectedPeriod, setSelectedPeriod] = useState('weekly');
   const router = useRouter();
@@ -67,24 +73,13 @@ export default function EarningsScreen() {
   const [recentEarnings, setRecentEarnings] = useState<EarningType[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [isDownloading, setIsDownloading] = useState(false);
+  const [showStatementBuilder, setShowStatementBuilder] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [selectedEarning, setSelectedEarning] = useState<EarningType | null>(null);
   const [isDeletingEarning, setIsDeletingEarning] = useState(false);
   const clickTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const clickCountRef = useRef(0);
 
-  // Role-based protection - only Driver can access this screen
-  useEffect(() => {
-    if (user && user.role !== 'Driver') {
-      // Redirect non-driver users to their respective dashboards
-      if (user.role === 'Admin') {
-        router.replace('/dashboard/admin');
-      } else if (user.role === 'Viewer') {
-        router.replace('/dashboard/viewer');
-      }
-    }
-  }, [user, router]);
-
   // Initial fetch
   useEffect(() => {
     fetchEarningsData();
@@ -187,8 +182,8 @@ export default function EarningsScreen() {
   const { data, labels } = getChartData();
   const maxValue = Math.max(...data, 1); // Ensure at least 1 to avoid division by zero
 
-  // Handle PDF download
-  const handleDownloadStatement = async () => {
+  // Handle PDF download for the period and filters picked in the statement builder
+  const handleDownloadStatement = async (filters: StatementFilters) => {
     try {
       setIsDownloading(true);
       
@@ -214,7 +209,8 @@ export default function EarningsScreen() {
         recentEarnings : 
         await fetchAllData();
       
-      await generateEarningsPDF(earningsData, user, 'fleetx-earnings-statement.pdf');
+      await generateEarningsPDF(earningsData, user, { filters });
+      setShowStatementBuilder(false);
       
       toast.showToast('success', 'Success', 'Earnings statement has been generated and is ready to share.');
     } catch (error) {
@@ -225,7 +221,7 @@ export default function EarningsScreen() {
     }
   };
 
-  // Handle double click on an earning item
+  // Single click edits an earning, double click deletes it
   const handleEarningPress = (earning: EarningType) => {
     clickCountRef.current += 1;
     
@@ -234,7 +230,7 @@ export default function EarningsScreen() {
       clickTimeoutRef.current = setTimeout(() => {
         // Reset if not double clicked within 300ms
         clickCountRef.current = 0;
-        // Handle single click here if needed
+        router.push({ pathname: '/dashboard/add-earning', params: { id: earning.id } } as any);
       }, 300) as unknown as NodeJS.Timeout;
     } else if (clickCountRef.current === 2) {
       // Double click
@@ -249,6 +245,18 @@ export default function EarningsScreen() {
     }
   };
 
+  // Undo a delete from the toast
+  const handleRestoreEarning = async (earningId: string) => {
+    try {
+      await restoreFromTrash('earning', earningId);
+      toast.showToast('success', 'Restored', 'Earning restored');
+      fetchEarningsData();
+    } catch (error: any) {
+      console.error('Error restoring earning:', error);
+      toast.showToast('error', 'Error', error.message || 'Failed to restore earning');
+    }
+  };
+
   // Handle delete earning
   const handleDeleteEarning = async () => {
     if (!selectedEarning || !user?.id) return;
@@ -256,6 +264,9 @@ export default function EarningsScreen() {
     try {
       setIsDeletingEarning(true);
       
+      // Settled months can't be changed
+      await assertPeriodOpen(selectedEarning.driverId, selectedEarning.date);
+      
       // Call the delete API
       await deleteEarning(selectedEarning.id);
       
@@ -263,7 +274,11 @@ export default function EarningsScreen() {
       setRecentEarnings(prev => prev.filter(e => e.id !== selectedEarning.id));
       
       // Show success toast
-      toast.showToast('success', 'Success', 'Earning deleted successfully');
+      const deletedId = selectedEarning.id;
+      toast.showToast('success', 'Deleted', 'Earning moved to trash', {
+        label: 'Undo',
+        onPress: () => handleRestoreEarning(deletedId),
+      });
       
       // Close the modal
       setShowDeleteModal(false);
@@ -273,7 +288,7 @@ export default function EarningsScreen() {
       fetchEarningsData();
     } catch (error) {
       console.error('Error deleting earning:', error);
-      toast.showToast('error', 'Error', 'Failed to delete earning. Please try again.');
+      toast.showToast('error', 'Error', error instanceof PeriodLockedError ? error.message : 'Failed to delete earning. Please try again.');
     } finally {
       setIsDeletingEarning(false);
     }
@@ -438,7 +453,7 @@ export default function EarningsScreen() {
                 styles.downloadButton,
                 isDownloading && styles.disabledButton
               ]}
-              onPress={handleDownloadStatement}
+              onPress={() => setShowStatementBuilder(true)}
               disabled={isDownloading}
             >
               {isDownloading ? (
@@ -465,6 +480,17 @@ export default function EarningsScreen() {
         </ScrollView>
       )}
       
+      <StatementBuilder
+        visible={showStatementBuilder}
+        title="Earnings Statement"
+        categoryLabel="Payment Type"
+        categories={['Online', 'Cash', 'Pocket Slipt']}
+        accounts={accounts.map(account => account.name)}
+        isGenerating={isDownloading}
+        onClose={() => setShowStatementBuilder(false)}
+        onGenerate={handleDownloadStatement}
+      />
+
       {/* Delete Confirmation Modal */}
       <Modal
         visible={showDeleteModal}
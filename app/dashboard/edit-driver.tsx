@@ -18,7 +18,7 @@ import * as driverService from '@/services/driver.service';
 import { Switch } from 'react-native';
 
 export default function EditDriverScreen() {
-  const { token, user } = useAuth();
+  const { token } = useAuth();
   const { id } = useLocalSearchParams();
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -29,20 +29,6 @@ export default function EditDriverScreen() {
     isActive: true
   });
   
-  // Protect route - only Admin can access this page
-  useEffect(() => {
-    if (!user) {
-      router.replace('/auth/login');
-    } else if (user.role !== 'Admin') {
-      // Redirect non-admin users to their respective dashboards
-      if (user.role === 'Driver') {
-        router.replace('/dashboard/driver');
-      } else if (user.role === 'Viewer') {
-        router.replace('/dashboard/viewer');
-      }
-    }
-  }, [user]);
-
   // Fetch driver data
   useEffect(() => {
     const fetchDriver = async () => {
@@ -0,0 +1,524 @@
+import React, { useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  FlatList,
+  ActivityIndicator,
+  RefreshControl,
+  Modal,
+  TextInput,
+} from 'react-native';
+import { router } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import { useQuery } from '@/hooks/useQuery';
+import { ReceiptGallery } from '@/components/ReceiptGallery';
+import { ENDPOINTS } from '@/services/api.config';
+import { queryKey } from '@/services/query.cache';
+import { getAllExpenses, reviewExpenses } from '@/services/expense.service';
+import { getAllAutoExpenses, reviewAutoExpenses } from '@/services/autoExpense.service';
+import { isPending } from '@/services/review.service';
+import type { AutoExpense, Expense, ExpenseReview } from '@/services/api.types';
+
+type ReviewKind = 'expenses' | 'autoExpenses';
+
+const KINDS: { id: ReviewKind; label: string }[] = [
+  { id: 'expenses', label: 'Expenses' },
+  { id: 'autoExpenses', label: 'Auto Expenses' },
+];
+
+const PENDING_FILTERS = { status: 'pending' as const };
+
+// Responses are either arrays or wrapped in an object
+const toList = (response: any, field: string) =>
+  Array.isArray(response) ? response : (response && (response.data || response[field])) || [];
+
+export default function ExpenseReviewScreen() {
+  const { authToken } = useAuth();
+  const { showToast } = useToast();
+
+  const [kind, setKind] = useState<ReviewKind>('expenses');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [rejectIds, setRejectIds] = useState<string[] | null>(null);
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const expensesQuery = useQuery(
+    authToken ? queryKey(ENDPOINTS.EXPENSE.GET_ALL, { query: PENDING_FILTERS }) : null,
+    () => getAllExpenses(PENDING_FILTERS, authToken)
+  );
+  const autoExpensesQuery = useQuery(
+    authToken ? queryKey(ENDPOINTS.AUTO_EXPENSE.GET_ALL, { query: PENDING_FILTERS }) : null,
+    () => getAllAutoExpenses(PENDING_FILTERS, authToken)
+  );
+
+  // The server may not filter by status, so keep only what is still waiting
+  const pending: Record<ReviewKind, (Expense | AutoExpense)[]> = {
+    expenses: toList(expensesQuery.data, 'expenses').filter(isPending),
+    autoExpenses: toList(autoExpensesQuery.data, 'autoExpenses').filter(isPending),
+  };
+  const query = kind === 'expenses' ? expensesQuery : autoExpensesQuery;
+  const items = pending[kind];
+  const allSelected = items.length > 0 && items.every(item => selectedIds.includes(item.id));
+
+  const handleKindChange = (next: ReviewKind) => {
+    setKind(next);
+    setSelectedIds([]);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(ids => (ids.includes(id) ? ids.filter(selected => selected !== id) : [...ids, id]));
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? [] : items.map(item => item.id));
+  };
+
+  const submitReview = async (ids: string[], review: ExpenseReview) => {
+    if (ids.length === 0) return;
+
+    setIsSubmitting(true);
+    try {
+      const send = kind === 'expenses' ? reviewExpenses : reviewAutoExpenses;
+      await send(ids, review, authToken);
+
+      const noun = ids.length === 1 ? 'expense' : 'expenses';
+      showToast('success', 'Success', `${ids.length} ${noun} ${review.status}`);
+      setSelectedIds(selected => selected.filter(id => !ids.includes(id)));
+      setRejectIds(null);
+      setReason('');
+    } catch (error: any) {
+      console.error('Error reviewing expenses:', error);
+      showToast('error', 'Error', error.message || 'Failed to review expenses');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const openReject = (ids: string[]) => {
+    setReason('');
+    setRejectIds(ids);
+  };
+
+  const handleReject = () => {
+    if (!rejectIds) return;
+    if (!reason.trim()) {
+      showToast('error', 'Error', 'Please give a reason so the driver knows what to fix');
+      return;
+    }
+    submitReview(rejectIds, { status: 'rejected', reason: reason.trim() });
+  };
+
+  const formatCurrency = (amount: number | string) =>
+    `AED ${(parseFloat(String(amount)) || 0).toFixed(2)}`;
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+  const renderItem = ({ item }: { item: Expense | AutoExpense }) => {
+    const isSelected = selectedIds.includes(item.id);
+
+    return (
+      <TouchableOpacity
+        style={[styles.item, isSelected && styles.selectedItem]}
+        onPress={() => toggleSelected(item.id)}
+        activeOpacity={0.7}
+      >
+        <Ionicons name={isSelected ? 'checkbox' : 'square-outline'} size={22} color="#000" style={styles.checkbox} />
+        <View style={styles.itemInfo}>
+          <View style={styles.itemHeader}>
+            <Text style={styles.itemTitle}>{item.category || 'Other'} Expense</Text>
+            <Text style={styles.itemAmount}>{formatCurrency(item.amount)}</Text>
+          </View>
+          <Text style={styles.itemMeta}>
+            {item.driver?.name || 'Unknown driver'} - {formatDate(item.date)}
+          </Text>
+          {!!item.note && <Text style={styles.itemNote}>{item.note}</Text>}
+          <ReceiptGallery receipts={item.receipts} />
+          <View style={styles.itemActions}>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.rejectButton]}
+              onPress={() => openReject([item.id])}
+              disabled={isSubmitting}
+            >
+              <Ionicons name="close" size={16} color="#FF3B30" />
+              <Text style={styles.rejectText}>Reject</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.approveButton]}
+              onPress={() => submitReview([item.id], { status: 'approved' })}
+              disabled={isSubmitting}
+            >
+              <Ionicons name="checkmark" size={16} color="#fff" />
+              <Text style={styles.approveText}>Approve</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="dark" />
+
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color="#000" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Expense Review</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <View style={styles.tabs}>
+        {KINDS.map(item => (
+          <TouchableOpacity
+            key={item.id}
+            style={[styles.tab, kind === item.id && styles.activeTab]}
+            onPress={() => handleKindChange(item.id)}
+          >
+            <Text style={[styles.tabText, kind === item.id && styles.activeTabText]}>
+              {item.label} ({pending[item.id].length})
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {items.length > 0 && (
+        <View style={styles.bulkBar}>
+          <TouchableOpacity style={styles.selectAll} onPress={toggleAll}>
+            <Ionicons name={allSelected ? 'checkbox' : 'square-outline'} size={20} color="#000" />
+            <Text style={styles.selectAllText}>
+              {selectedIds.length > 0 ? `${selectedIds.length} selected` : 'Select all'}
+            </Text>
+          </TouchableOpacity>
+          <View style={styles.bulkActions}>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.rejectButton, selectedIds.length === 0 && styles.disabledButton]}
+              onPress={() => openReject(selectedIds)}
+              disabled={selectedIds.length === 0 || isSubmitting}
+            >
+              <Text style={styles.rejectText}>Reject</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.approveButton, selectedIds.length === 0 && styles.disabledButton]}
+              onPress={() => submitReview(selectedIds, { status: 'approved' })}
+              disabled={selectedIds.length === 0 || isSubmitting}
+            >
+              {isSubmitting && !rejectIds ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={styles.approveText}>Approve</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {query.isLoading && items.length === 0 ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#000" />
+          <Text style={styles.mutedText}>Loading pending expenses...</Text>
+        </View>
+      ) : query.error && items.length === 0 ? (
+        <View style={styles.centered}>
+          <Ionicons name="alert-circle-outline" size={48} color="#FF3B30" />
+          <Text style={styles.mutedText}>Failed to load pending expenses</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={() => query.refetch()}>
+            <Text style={styles.retryButtonText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <FlatList
+          data={items}
+          renderItem={renderItem}
+          keyExtractor={item => item.id}
+          contentContainerStyle={styles.list}
+          refreshControl={
+            <RefreshControl refreshing={false} onRefresh={() => query.refetch()} colors={['#000']} />
+          }
+          ListEmptyComponent={() => (
+            <View style={styles.centered}>
+              <Ionicons name="checkmark-done-outline" size={48} color="#ccc" />
+              <Text style={styles.mutedText}>Nothing waiting for review</Text>
+            </View>
+          )}
+        />
+      )}
+
+      {/* Rejection reason */}
+      <Modal
+        visible={rejectIds !== null}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setRejectIds(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContainer}>
+            <Text style={styles.modalTitle}>
+              Reject {rejectIds && rejectIds.length > 1 ? `${rejectIds.length} expenses` : 'expense'}
+            </Text>
+            <TextInput
+              style={styles.reasonInput}
+              placeholder="Reason, shown to the driver"
+              value={reason}
+              onChangeText={setReason}
+              multiline
+              autoFocus
+            />
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={styles.modalCancel}
+                onPress={() => setRejectIds(null)}
+                disabled={isSubmitting}
+              >
+                <Text style={styles.modalCancelText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.modalConfirm} onPress={handleReject} disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <Text style={styles.modalConfirmText}>Reject</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0'
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  placeholder: {
+    width: 24,
+  },
+  tabs: {
+    flexDirection: 'row',
+    backgroundColor: '#f0f0f0',
+    borderRadius: 12,
+    padding: 4,
+    margin: 16,
+    marginBottom: 8,
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  activeTab: {
+    backgroundColor: '#000',
+  },
+  tabText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#666',
+  },
+  activeTabText: {
+    color: '#fff',
+  },
+  bulkBar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  selectAll: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  selectAllText: {
+    marginLeft: 8,
+    fontSize: 14,
+    color: '#333',
+  },
+  bulkActions: {
+    flexDirection: 'row',
+  },
+  list: {
+    paddingBottom: 40,
+    flexGrow: 1,
+  },
+  item: {
+    flexDirection: 'row',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  selectedItem: {
+    backgroundColor: '#f7f7f7',
+  },
+  checkbox: {
+    marginRight: 12,
+    marginTop: 2,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  itemTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  itemAmount: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#000',
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  itemNote: {
+    fontSize: 12,
+    color: '#888',
+    fontStyle: 'italic',
+    marginTop: 2,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    marginLeft: 8,
+  },
+  approveButton: {
+    backgroundColor: '#000',
+  },
+  rejectButton: {
+    borderWidth: 1,
+    borderColor: '#FF3B30',
+  },
+  disabledButton: {
+    opacity: 0.4,
+  },
+  approveText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+    marginLeft: 2,
+  },
+  rejectText: {
+    color: '#FF3B30',
+    fontSize: 13,
+    fontWeight: '600',
+    marginLeft: 2,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+  },
+  mutedText: {
+    marginTop: 10,
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+  },
+  retryButton: {
+    backgroundColor: '#000',
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 8,
+    marginTop: 20,
+  },
+  retryButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContainer: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    width: '85%',
+    maxWidth: 360,
+    padding: 20,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  reasonInput: {
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    padding: 12,
+    minHeight: 80,
+    textAlignVertical: 'top',
+    fontSize: 15,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 16,
+  },
+  modalCancel: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+  },
+  modalCancelText: {
+    fontSize: 16,
+    color: '#333',
+  },
+  modalConfirm: {
+    backgroundColor: '#FF3B30',
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 8,
+    marginLeft: 8,
+  },
+  modalConfirmText: {
+    fontSize: 16,
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
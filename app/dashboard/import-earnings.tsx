@@ -0,0 +1,558 @@
+import React, { useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Switch,
+} from 'react-native';
+import { router } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCan } from '@/hooks/useCan';
+import { useToast } from '@/contexts/ToastContext';
+import { useOutbox } from '@/contexts/OutboxContext';
+import { useQuery } from '@/hooks/useQuery';
+import { useAccounts } from '@/hooks/useAccounts';
+import { ColumnMapper } from '@/components/ColumnMapper';
+import { AccountPicker } from '@/components/AccountPicker';
+import { ENDPOINTS } from '@/services/api.config';
+import { queryKey } from '@/services/query.cache';
+import { getAllDrivers } from '@/services/driver.service';
+import { getAllEarnings } from '@/services/earning.service';
+import { CsvFile, pickCsvFile } from '@/services/csv.reader';
+import {
+  ColumnMapping,
+  EARNING_IMPORT_FIELDS,
+  EarningImportField,
+  EarningInput,
+  ImportRow,
+  PAYMENT_TYPES,
+  buildEarningImport,
+  getImportRange,
+  getMissingFields,
+  guessColumnMapping,
+  runImport,
+} from '@/services/import.service';
+import type { DriverRef, EarningPaymentType } from '@/services/api.types';
+import { addDays, parseDate, toDateString } from '@/utils/date';
+
+// Rows shown in the preview; the import itself covers the whole file
+const PREVIEW_LIMIT = 200;
+
+// Responses are either arrays or wrapped in an object
+const toList = (response: any, field: string) =>
+  Array.isArray(response) ? response : (response && (response.data || response[field])) || [];
+
+export default function ImportEarningsScreen() {
+  const { token, user } = useAuth();
+  const can = useCan();
+  const { showToast } = useToast();
+  const { submit } = useOutbox();
+  const [file, setFile] = useState<CsvFile | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping<EarningImportField>>({});
+  const [driverId, setDriverId] = useState('');
+  const [defaultType, setDefaultType] = useState<EarningPaymentType>('Online');
+  const [defaultAccount, setDefaultAccount] = useState<string | undefined>(undefined);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [isPicking, setIsPicking] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  // Lines already sent in this session, and why the others failed
+  const [importedLines, setImportedLines] = useState<number[]>([]);
+  const [failures, setFailures] = useState<Record<number, string>>({});
+
+  const canPickDriver = can('drivers:read');
+
+  // Drivers always import their own earnings
+  useEffect(() => {
+    if (user && can('earnings:own')) {
+      setDriverId(user.id);
+    }
+  }, [user, can]);
+
+  const driversQuery = useQuery(
+    token && canPickDriver ? queryKey(ENDPOINTS.DRIVER.GET_ALL) : null,
+    () => getAllDrivers(token)
+  );
+  const drivers: DriverRef[] = toList(driversQuery.data, 'drivers');
+
+  const { activeAccounts } = useAccounts();
+  const buildOptions = { driverId, defaultType, defaultAccount, accounts: activeAccounts.map(account => account.name) };
+
+  // Dates covered by the file, to load the earnings it may duplicate
+  const range = file ? getImportRange(buildEarningImport(file.rows, mapping, buildOptions)) : null;
+  const existingFilters = range && driverId
+    ? {
+        driverId,
+        startDate: range.startDate,
+        // The day after, so earnings on the last day are included
+        endDate: toDateString(addDays(parseDate(range.endDate), 1)),
+      }
+    : null;
+
+  const existingQuery = useQuery(
+    token && existingFilters ? queryKey(ENDPOINTS.EARNING.GET_ALL, { query: existingFilters }) : null,
+    () => getAllEarnings(existingFilters || undefined, token)
+  );
+
+  const rows = file && driverId
+    ? buildEarningImport(file.rows, mapping, { ...buildOptions, existing: toList(existingQuery.data, 'earnings') })
+    : [];
+
+  const missingFields = getMissingFields(EARNING_IMPORT_FIELDS, mapping);
+  const isImported = (row: ImportRow<EarningInput>) => importedLines.includes(row.line);
+  const selectedRows = rows.filter(row =>
+    row.value && !isImported(row) && (!row.duplicate || includeDuplicates)
+  );
+  const counts = {
+    ready: rows.filter(row => row.value && !row.duplicate && !isImported(row)).length,
+    duplicates: rows.filter(row => row.duplicate && !isImported(row)).length,
+    invalid: rows.filter(row => !row.value).length,
+    imported: importedLines.length,
+  };
+  const isImporting = progress !== null;
+  const isChecking = existingQuery.isLoading;
+  const canImport = selectedRows.length > 0 && missingFields.length === 0 && !isImporting && !isChecking;
+
+  const handlePickFile = async () => {
+    try {
+      setIsPicking(true);
+      const picked = await pickCsvFile();
+      if (!picked) return;
+
+      setFile(picked);
+      setMapping(guessColumnMapping(picked.header, EARNING_IMPORT_FIELDS));
+      setImportedLines([]);
+      setFailures({});
+    } catch (error: any) {
+      showToast('error', 'Error', error.message || 'Failed to read the selected file');
+    } finally {
+      setIsPicking(false);
+    }
+  };
+
+  const handleMappingChange = (key: EarningImportField, column: number | undefined) => {
+    setMapping(prev => ({ ...prev, [key]: column }));
+  };
+
+  const handleImport = async () => {
+    if (!canImport) return;
+
+    let queued = 0;
+    setProgress({ done: 0, total: selectedRows.length });
+
+    const result = await runImport(
+      selectedRows,
+      async value => {
+        const response = await submit('earning', value);
+        if (response.status === 'queued') queued += 1;
+      },
+      done => setProgress({ done, total: selectedRows.length })
+    );
+
+    const failedLines = result.failed.map(item => item.line);
+    setImportedLines(prev => [
+      ...prev,
+      ...selectedRows.map(row => row.line).filter(line => !failedLines.includes(line)),
+    ]);
+    setFailures(Object.fromEntries(result.failed.map(item => [item.line, item.message])));
+    setProgress(null);
+
+    // Let the driver dashboard pick up the new records
+    if (global && (global as any).refreshDriverDashboard) {
+      (global as any).refreshDriverDashboard();
+    }
+
+    if (result.failed.length > 0) {
+      showToast(
+        'error',
+        'Import Incomplete',
+        `${result.created} imported, ${result.failed.length} failed. Check the highlighted rows.`
+      );
+    } else if (queued > 0) {
+      showToast('info', 'Saved Offline', `${queued} ${queued === 1 ? 'earning' : 'earnings'} will sync when you are back online`);
+    } else {
+      showToast('success', 'Success', `${result.created} ${result.created === 1 ? 'earning was' : 'earnings were'} imported`);
+    }
+  };
+
+  const renderChip = (label: string, isActive: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, isActive && styles.activeChip]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, isActive && styles.activeChipText]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderStatus = (row: ImportRow<EarningInput>) => {
+    if (isImported(row)) return <Text style={[styles.status, styles.importedStatus]}>Imported</Text>;
+    if (failures[row.line]) return <Text style={[styles.status, styles.invalidStatus]}>Failed</Text>;
+    if (!row.value) return <Text style={[styles.status, styles.invalidStatus]}>Invalid</Text>;
+    if (row.duplicate) return <Text style={[styles.status, styles.duplicateStatus]}>Duplicate</Text>;
+    return <Text style={[styles.status, styles.readyStatus]}>Ready</Text>;
+  };
+
+  const renderRow = (row: ImportRow<EarningInput>) => {
+    const message = failures[row.line] || row.errors.join(', ');
+    return (
+      <View key={row.line} style={styles.row}>
+        <View style={styles.rowMain}>
+          <Text style={styles.rowTitle}>
+            {row.value ? `${row.value.date} · ${row.value.type}` : `Line ${row.line}`}
+          </Text>
+          {row.value && (
+            <Text style={styles.rowSubtitle} numberOfLines={1}>
+              {[row.value.accountName, row.value.note].filter(Boolean).join(' · ') || `Line ${row.line}`}
+            </Text>
+          )}
+          {!!message && !isImported(row) && <Text style={styles.rowError}>{message}</Text>}
+        </View>
+        <View style={styles.rowSide}>
+          {row.value && <Text style={styles.rowAmount}>{row.value.amount.toFixed(2)}</Text>}
+          {renderStatus(row)}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="dark" />
+
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color="#000" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Import Earnings</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}
+        showsVerticalScrollIndicator={false}
+      >
+        {/* File */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Statement File</Text>
+          <Text style={styles.infoText}>
+            Choose a CSV exported from your ride-hailing or limousine platform.
+          </Text>
+          <TouchableOpacity style={styles.fileButton} onPress={handlePickFile} disabled={isPicking || isImporting}>
+            {isPicking ? (
+              <ActivityIndicator size="small" color="#000" />
+            ) : (
+              <>
+                <Ionicons name={file ? 'document-text' : 'cloud-upload-outline'} size={22} color="#000" />
+                <View style={styles.fileInfo}>
+                  <Text style={styles.fileName} numberOfLines={1}>{file ? file.name : 'Choose CSV File'}</Text>
+                  {file && <Text style={styles.fileMeta}>{file.rows.length} rows · tap to change</Text>}
+                </View>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        {file && (
+          <>
+            {/* Driver (Admin only) */}
+            {canPickDriver && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Driver</Text>
+                {driversQuery.isLoading ? (
+                  <ActivityIndicator size="small" color="#000" style={styles.inlineLoader} />
+                ) : (
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                    {drivers.map(driver => renderChip(driver.name, driverId === driver.id, () => setDriverId(driver.id)))}
+                  </ScrollView>
+                )}
+              </View>
+            )}
+
+            {/* Columns */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Columns</Text>
+              <ColumnMapper
+                header={file.header}
+                fields={EARNING_IMPORT_FIELDS}
+                mapping={mapping}
+                onChange={handleMappingChange}
+              />
+            </View>
+
+            {/* Defaults */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Defaults</Text>
+              <Text style={styles.infoText}>Used when a row has no payment type or account, or one that is not recognised.</Text>
+              <Text style={styles.label}>Payment Type</Text>
+              <View style={styles.chips}>
+                {PAYMENT_TYPES.map(type => renderChip(type, defaultType === type, () => setDefaultType(type)))}
+              </View>
+              <Text style={styles.label}>Account</Text>
+              <AccountPicker value={defaultAccount} onChange={setDefaultAccount} autoSelect />
+            </View>
+
+            {/* Preview */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Preview</Text>
+              {missingFields.length > 0 ? (
+                <Text style={styles.warningText}>
+                  Choose a column for {missingFields.map(field => field.label).join(' and ')}.
+                </Text>
+              ) : !driverId ? (
+                <Text style={styles.warningText}>Choose the driver these earnings belong to.</Text>
+              ) : (
+                <>
+                  <Text style={styles.summaryText}>
+                    {counts.ready} ready · {counts.duplicates} duplicates · {counts.invalid} invalid
+                    {counts.imported > 0 ? ` · ${counts.imported} imported` : ''}
+                  </Text>
+                  {isChecking && <Text style={styles.infoText}>Checking for duplicates...</Text>}
+                  {existingQuery.error && (
+                    <Text style={styles.warningText}>Could not load existing earnings to check for duplicates.</Text>
+                  )}
+                  {counts.duplicates > 0 && (
+                    <View style={styles.switchRow}>
+                      <Text style={styles.switchLabel}>Import duplicates too</Text>
+                      <Switch value={includeDuplicates} onValueChange={setIncludeDuplicates} />
+                    </View>
+                  )}
+                  {rows.slice(0, PREVIEW_LIMIT).map(renderRow)}
+                  {rows.length > PREVIEW_LIMIT && (
+                    <Text style={styles.infoText}>and {rows.length - PREVIEW_LIMIT} more rows</Text>
+                  )}
+                </>
+              )}
+            </View>
+
+            <TouchableOpacity
+              style={[
+                styles.submitButton,
+                !canImport && styles.disabledButton,
+              ]}
+              onPress={handleImport}
+              disabled={!canImport}
+            >
+              {progress ? (
+                <>
+                  <ActivityIndicator size="small" color="#fff" />
+                  <Text style={[styles.submitButtonText, styles.progressText]}>
+                    Importing {progress.done} of {progress.total}
+                  </Text>
+                </>
+              ) : (
+                <Text style={styles.submitButtonText}>
+                  Import {selectedRows.length} {selectedRows.length === 1 ? 'Earning' : 'Earnings'}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0'
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  placeholder: {
+    width: 24,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+    marginTop: 8,
+    marginBottom: 6,
+  },
+  infoText: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 8,
+  },
+  warningText: {
+    fontSize: 13,
+    color: '#ff9500',
+    marginBottom: 8,
+  },
+  summaryText: {
+    fontSize: 14,
+    color: '#333',
+    marginBottom: 8,
+  },
+  inlineLoader: {
+    alignSelf: 'flex-start',
+  },
+  fileButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderStyle: 'dashed',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    height: 64,
+  },
+  fileInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  fileName: {
+    fontSize: 16,
+    color: '#333',
+  },
+  fileMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  activeChip: {
+    backgroundColor: '#000',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  activeChipText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  switchLabel: {
+    fontSize: 14,
+    color: '#333',
+  },
+  row: {
+    flexDirection: 'row',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  rowMain: {
+    flex: 1,
+    marginRight: 12,
+  },
+  rowTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+  },
+  rowSubtitle: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  rowError: {
+    fontSize: 12,
+    color: '#ff3b30',
+    marginTop: 2,
+  },
+  rowSide: {
+    alignItems: 'flex-end',
+  },
+  rowAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  status: {
+    fontSize: 11,
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  readyStatus: {
+    color: '#34c759',
+  },
+  importedStatus: {
+    color: '#666',
+  },
+  duplicateStatus: {
+    color: '#ff9500',
+  },
+  invalidStatus: {
+    color: '#ff3b30',
+  },
+  submitButton: {
+    flexDirection: 'row',
+    backgroundColor: '#000',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  disabledButton: {
+    opacity: 0.7,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  progressText: {
+    marginLeft: 10,
+  },
+});
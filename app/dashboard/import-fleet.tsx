@@ -0,0 +1,596 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCan } from '@/hooks/useCan';
+import { useToast } from '@/contexts/ToastContext';
+import { useQuery } from '@/hooks/useQuery';
+import { ColumnMapper } from '@/components/ColumnMapper';
+import { ENDPOINTS } from '@/services/api.config';
+import { queryKey } from '@/services/query.cache';
+import { createDriver, getAllDrivers } from '@/services/driver.service';
+import { createVehicle, getAllVehicles } from '@/services/vehicle.service';
+import { CsvFile, pickCsvFile } from '@/services/csv.reader';
+import { deleteCsv } from '@/services/csv.writer';
+import {
+  ColumnMapping,
+  DRIVER_IMPORT_FIELDS,
+  DriverImport,
+  ImportField,
+  ImportReportEntry,
+  ImportRow,
+  VEHICLE_IMPORT_FIELDS,
+  VehicleImport,
+  buildDriverImport,
+  buildVehicleImport,
+  getMissingFields,
+  guessColumnMapping,
+  runImport,
+  shareImportReport,
+} from '@/services/import.service';
+
+type FleetKind = 'drivers' | 'vehicles';
+
+const KINDS: { id: FleetKind; label: string; singular: string }[] = [
+  { id: 'drivers', label: 'Drivers', singular: 'Driver' },
+  { id: 'vehicles', label: 'Vehicles', singular: 'Vehicle' },
+];
+
+// Rows shown in the preview; the import itself covers the whole file
+const PREVIEW_LIMIT = 200;
+
+// Responses are either arrays or wrapped in an object
+const toList = (response: any, field: string) =>
+  Array.isArray(response) ? response : (response && (response.data || response[field])) || [];
+
+const isDriverImport = (value: DriverImport | VehicleImport): value is DriverImport => 'email' in value;
+
+export default function ImportFleetScreen() {
+  const params = useLocalSearchParams();
+  const { authToken } = useAuth();
+  const can = useCan();
+  const { showToast } = useToast();
+  const kinds = KINDS.filter(item => can(item.id === 'drivers' ? 'drivers:write' : 'vehicles:write'));
+  const [kind, setKind] = useState<FleetKind>(params.kind === 'vehicles' ? 'vehicles' : 'drivers');
+  const [file, setFile] = useState<CsvFile | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [isPicking, setIsPicking] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  // Lines already created in this session, why the others failed, and the
+  // generated passwords that were sent
+  const [importedLines, setImportedLines] = useState<number[]>([]);
+  const [failures, setFailures] = useState<Record<number, string>>({});
+  const [passwords, setPasswords] = useState<Record<number, string>>({});
+  const [isSharing, setIsSharing] = useState(false);
+  // Last shared report; it lists initial passwords, so it is deleted on the
+  // next import and when the screen closes rather than right after sharing
+  const reportUri = useRef<string | null>(null);
+
+  const discardReport = () => {
+    if (reportUri.current) {
+      deleteCsv(reportUri.current);
+      reportUri.current = null;
+    }
+  };
+
+  useEffect(() => discardReport, []);
+
+  const driversQuery = useQuery(
+    authToken ? queryKey(ENDPOINTS.DRIVER.GET_ALL) : null,
+    () => getAllDrivers(authToken)
+  );
+  const vehiclesQuery = useQuery(
+    authToken && kind === 'vehicles' ? queryKey(ENDPOINTS.VEHICLE.GET_ALL) : null,
+    () => getAllVehicles(authToken)
+  );
+  const drivers = toList(driversQuery.data, 'drivers');
+  const vehicles = toList(vehiclesQuery.data, 'vehicles');
+
+  const fields: ImportField[] = kind === 'drivers' ? DRIVER_IMPORT_FIELDS : VEHICLE_IMPORT_FIELDS;
+  const singular = KINDS.find(item => item.id === kind)?.singular || '';
+
+  const rows: ImportRow<DriverImport | VehicleImport>[] = !file
+    ? []
+    : kind === 'drivers'
+      ? buildDriverImport(file.rows, mapping, drivers)
+      : buildVehicleImport(file.rows, mapping, { drivers, existing: vehicles });
+
+  const missingFields = getMissingFields(fields, mapping);
+  const isImported = (row: ImportRow<unknown>) => importedLines.includes(row.line);
+  const selectedRows = rows.filter(row => row.value && !isImported(row));
+  const counts = {
+    valid: selectedRows.length,
+    invalid: rows.filter(row => !row.value && !isImported(row)).length,
+    imported: importedLines.length,
+  };
+  const isImporting = progress !== null;
+  // Both lists are needed to check for existing records
+  const isChecking = driversQuery.isLoading || vehiclesQuery.isLoading;
+  const canImport = selectedRows.length > 0 && missingFields.length === 0 && !isImporting && !isChecking;
+
+  const resetImport = () => {
+    discardReport();
+    setImportedLines([]);
+    setFailures({});
+    setPasswords({});
+  };
+
+  const handleKindChange = (next: FleetKind) => {
+    if (next === kind || isImporting) return;
+    setKind(next);
+    setFile(null);
+    setMapping({});
+    resetImport();
+  };
+
+  const handlePickFile = async () => {
+    try {
+      setIsPicking(true);
+      const picked = await pickCsvFile();
+      if (!picked) return;
+
+      setFile(picked);
+      setMapping(guessColumnMapping(picked.header, fields));
+      resetImport();
+    } catch (error: any) {
+      showToast('error', 'Error', error.message || 'Failed to read the selected file');
+    } finally {
+      setIsPicking(false);
+    }
+  };
+
+  const handleMappingChange = (key: string, column: number | undefined) => {
+    setMapping(prev => ({ ...prev, [key]: column }));
+  };
+
+  const create = async (value: DriverImport | VehicleImport) => {
+    if (isDriverImport(value)) {
+      const { generatedPassword, ...driver } = value;
+      const response = await createDriver(driver, authToken);
+      if (response && response.success === false) {
+        throw new Error(response.message || 'Failed to create driver');
+      }
+    } else {
+      const { driverEmails, ...vehicle } = value;
+      await createVehicle(vehicle, null, authToken);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!canImport) return;
+
+    const sentPasswords: Record<number, string> = {};
+    const rowByValue = new Map(selectedRows.map(row => [row.value, row.line]));
+    setProgress({ done: 0, total: selectedRows.length });
+
+    const result = await runImport(
+      selectedRows,
+      async value => {
+        await create(value);
+        if (isDriverImport(value) && value.generatedPassword) {
+          sentPasswords[rowByValue.get(value) as number] = value.password;
+        }
+      },
+      done => setProgress({ done, total: selectedRows.length })
+    );
+
+    const failedLines = result.failed.map(item => item.line);
+    setImportedLines(prev => [
+      ...prev,
+      ...selectedRows.map(row => row.line).filter(line => !failedLines.includes(line)),
+    ]);
+    setFailures(Object.fromEntries(result.failed.map(item => [item.line, item.message])));
+    setPasswords(prev => ({ ...prev, ...sentPasswords }));
+    setProgress(null);
+
+    const label = `${result.created} ${result.created === 1 ? singular.toLowerCase() : kind}`;
+    if (result.failed.length > 0) {
+      showToast('error', 'Import Incomplete', `${label} imported, ${result.failed.length} failed. Check the highlighted rows.`);
+    } else if (Object.keys(sentPasswords).length > 0) {
+      showToast('success', 'Success', `${label} imported. Share the report to hand out the initial passwords.`);
+    } else {
+      showToast('success', 'Success', `${label} imported`);
+    }
+  };
+
+  const describeRow = (row: ImportRow<DriverImport | VehicleImport>) => {
+    const cells = file?.rows[row.line - 2] || [];
+    if (!row.value) {
+      return { title: `Line ${row.line}`, subtitle: cells.filter(Boolean).join(' · ') };
+    }
+    if (isDriverImport(row.value)) {
+      return {
+        title: row.value.name,
+        subtitle: [
+          row.value.email,
+          row.value.phoneNumber,
+          row.value.generatedPassword ? 'password will be generated' : 'password set',
+        ].filter(Boolean).join(' · '),
+      };
+    }
+    return {
+      title: `${row.value.name} · ${row.value.plate}`,
+      subtitle: [
+        row.value.type,
+        row.value.model,
+        row.value.color,
+        row.value.status,
+        row.value.driverEmails.join(', '),
+      ].filter(Boolean).join(' · '),
+    };
+  };
+
+  const handleShareReport = async () => {
+    const entries: ImportReportEntry[] = rows.map(row => {
+      const { title } = describeRow(row);
+      if (isImported(row)) {
+        return { line: row.line, record: title, status: 'Imported', password: passwords[row.line] };
+      }
+      if (failures[row.line]) {
+        return { line: row.line, record: title, status: 'Failed', message: failures[row.line] };
+      }
+      if (!row.value) {
+        return { line: row.line, record: title, status: 'Invalid', message: row.errors.join('; ') };
+      }
+      return { line: row.line, record: title, status: 'Skipped' };
+    });
+
+    try {
+      setIsSharing(true);
+      discardReport();
+      reportUri.current = await shareImportReport(kind, entries);
+    } catch (error: any) {
+      showToast('error', 'Error', error.message || 'Failed to share import report');
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const renderStatus = (row: ImportRow<unknown>) => {
+    if (isImported(row)) return <Text style={[styles.status, styles.importedStatus]}>Imported</Text>;
+    if (failures[row.line]) return <Text style={[styles.status, styles.invalidStatus]}>Failed</Text>;
+    if (!row.value) return <Text style={[styles.status, styles.invalidStatus]}>Invalid</Text>;
+    return <Text style={[styles.status, styles.readyStatus]}>Ready</Text>;
+  };
+
+  const renderRow = (row: ImportRow<DriverImport | VehicleImport>) => {
+    const { title, subtitle } = describeRow(row);
+    const message = failures[row.line] || row.errors.join(', ');
+    return (
+      <View key={row.line} style={styles.row}>
+        <View style={styles.rowMain}>
+          <Text style={styles.rowTitle} numberOfLines={1}>{title}</Text>
+          {!!subtitle && <Text style={styles.rowSubtitle} numberOfLines={1}>{subtitle}</Text>}
+          {!!message && !isImported(row) && <Text style={styles.rowError}>{message}</Text>}
+        </View>
+        {renderStatus(row)}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="dark" />
+
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color="#000" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Import {KINDS.find(item => item.id === kind)?.label}</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}
+        showsVerticalScrollIndicator={false}
+      >
+        {kinds.length > 1 && (
+          <View style={styles.tabs}>
+            {kinds.map(item => (
+              <TouchableOpacity
+                key={item.id}
+                style={[styles.tab, kind === item.id && styles.activeTab]}
+                onPress={() => handleKindChange(item.id)}
+              >
+                <Text style={[styles.tabText, kind === item.id && styles.activeTabText]}>{item.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {/* File */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>CSV File</Text>
+          <Text style={styles.infoText}>
+            One {singular.toLowerCase()} per row with a header row. Expected columns:{' '}
+            {fields.map(field => field.label).join(', ')}.
+          </Text>
+          <TouchableOpacity style={styles.fileButton} onPress={handlePickFile} disabled={isPicking || isImporting}>
+            {isPicking ? (
+              <ActivityIndicator size="small" color="#000" />
+            ) : (
+              <>
+                <Ionicons name={file ? 'document-text' : 'cloud-upload-outline'} size={22} color="#000" />
+                <View style={styles.fileInfo}>
+                  <Text style={styles.fileName} numberOfLines={1}>{file ? file.name : 'Choose CSV File'}</Text>
+                  {file && <Text style={styles.fileMeta}>{file.rows.length} rows · tap to change</Text>}
+                </View>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        {file && (
+          <>
+            {/* Columns */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Columns</Text>
+              <ColumnMapper
+                header={file.header}
+                fields={fields}
+                mapping={mapping}
+                onChange={handleMappingChange}
+              />
+            </View>
+
+            {/* Preview */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Preview</Text>
+              {missingFields.length > 0 ? (
+                <Text style={styles.warningText}>
+                  Choose a column for {missingFields.map(field => field.label).join(' and ')}.
+                </Text>
+              ) : (
+                <>
+                  <Text style={styles.summaryText}>
+                    {counts.valid} ready · {counts.invalid} with errors
+                    {counts.imported > 0 ? ` · ${counts.imported} imported` : ''}
+                  </Text>
+                  <Text style={styles.infoText}>
+                    Nothing is created until you import. Rows with errors are skipped.
+                  </Text>
+                  {isChecking && <Text style={styles.infoText}>Checking for existing records...</Text>}
+                  {rows.slice(0, PREVIEW_LIMIT).map(renderRow)}
+                  {rows.length > PREVIEW_LIMIT && (
+                    <Text style={styles.infoText}>and {rows.length - PREVIEW_LIMIT} more rows</Text>
+                  )}
+                </>
+              )}
+            </View>
+
+            <TouchableOpacity
+              style={[styles.submitButton, !canImport && styles.disabledButton]}
+              onPress={handleImport}
+              disabled={!canImport}
+            >
+              {progress ? (
+                <>
+                  <ActivityIndicator size="small" color="#fff" />
+                  <Text style={[styles.submitButtonText, styles.progressText]}>
+                    Importing {progress.done} of {progress.total}
+                  </Text>
+                </>
+              ) : (
+                <Text style={styles.submitButtonText}>
+                  Import {selectedRows.length} {selectedRows.length === 1 ? singular : KINDS.find(item => item.id === kind)?.label}
+                </Text>
+              )}
+            </TouchableOpacity>
+
+            {(counts.invalid > 0 || counts.imported > 0) && (
+              <TouchableOpacity
+                style={styles.reportButton}
+                onPress={handleShareReport}
+                disabled={isSharing || isImporting}
+              >
+                {isSharing ? (
+                  <ActivityIndicator size="small" color="#000" />
+                ) : (
+                  <>
+                    <Ionicons name="share-outline" size={20} color="#000" />
+                    <Text style={styles.reportButtonText}>Share Import Report</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0'
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  placeholder: {
+    width: 24,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  tabs: {
+    flexDirection: 'row',
+    backgroundColor: '#f0f0f0',
+    borderRadius: 12,
+    padding: 4,
+    marginBottom: 24,
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  activeTab: {
+    backgroundColor: '#000',
+  },
+  tabText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#666',
+  },
+  activeTabText: {
+    color: '#fff',
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  infoText: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 8,
+  },
+  warningText: {
+    fontSize: 13,
+    color: '#ff9500',
+    marginBottom: 8,
+  },
+  summaryText: {
+    fontSize: 14,
+    color: '#333',
+    marginBottom: 8,
+  },
+  fileButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderStyle: 'dashed',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    height: 64,
+  },
+  fileInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  fileName: {
+    fontSize: 16,
+    color: '#333',
+  },
+  fileMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  rowMain: {
+    flex: 1,
+    marginRight: 12,
+  },
+  rowTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+  },
+  rowSubtitle: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  rowError: {
+    fontSize: 12,
+    color: '#ff3b30',
+    marginTop: 2,
+  },
+  status: {
+    fontSize: 11,
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  readyStatus: {
+    color: '#34c759',
+  },
+  importedStatus: {
+    color: '#666',
+  },
+  invalidStatus: {
+    color: '#ff3b30',
+  },
+  submitButton: {
+    flexDirection: 'row',
+    backgroundColor: '#000',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  disabledButton: {
+    opacity: 0.7,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  progressText: {
+    marginLeft: 10,
+  },
+  reportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 12,
+    paddingVertical: 14,
+    marginTop: 12,
+    backgroundColor: '#f0f0f0',
+  },
+  reportButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+    marginLeft: 8,
+  },
+});
@@ -0,0 +1,514 @@
+import React, { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  Switch
+} from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAccounts } from '@/hooks/useAccounts';
+import { SALARY_RULE_LABELS, getSalaryRule, saveSalaryRule } from '@/services/salary.service';
+import type { SalaryRuleInput, SalaryRuleType } from '@/services/api.types';
+
+const RULE_TYPES = Object.keys(SALARY_RULE_LABELS) as SalaryRuleType[];
+
+type TierForm = { upTo: string; rate: string };
+
+type FormData = {
+  type: SalaryRuleType;
+  rate: string;
+  amount: string;
+  tiers: TierForm[];
+  includeAutoExpenses: boolean;
+  accountRates: Record<string, string>;
+  defaultRate: string;
+  deductExpenses: boolean;
+};
+
+const toForm = (rule: SalaryRuleInput): FormData => ({
+  type: rule.type,
+  rate: 'rate' in rule ? String(rule.rate) : '30',
+  amount: rule.type === 'flat' ? String(rule.amount) : '',
+  tiers: rule.type === 'tiered'
+    ? rule.tiers.map(tier => ({ upTo: tier.upTo === null ? '' : String(tier.upTo), rate: String(tier.rate) }))
+    : [{ upTo: '5000', rate: '25' }, { upTo: '', rate: '35' }],
+  includeAutoExpenses: rule.type === 'percentageAfterExpenses' ? rule.includeAutoExpenses : false,
+  accountRates: rule.type === 'perAccount'
+    ? Object.keys(rule.rates).reduce<Record<string, string>>((rates, account) => {
+        rates[account] = String(rule.rates[account]);
+        return rates;
+      }, {})
+    : {},
+  defaultRate: rule.type === 'perAccount' ? String(rule.defaultRate) : '30',
+  deductExpenses: rule.deductExpenses,
+});
+
+const isValidNumber = (value: string) => value.trim() !== '' && !isNaN(Number(value)) && Number(value) >= 0;
+
+export default function SalaryRuleScreen() {
+  const { token } = useAuth();
+  const { id, name } = useLocalSearchParams();
+  const driverId = id as string;
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState<FormData | null>(null);
+  const { activeAccounts } = useAccounts();
+
+  // Active accounts, plus archived ones that still have a rate so it can be cleared
+  const rateAccounts = Array.from(new Set([
+    ...activeAccounts.map(account => account.name),
+    ...Object.keys(formData?.accountRates || {}),
+  ]));
+
+  // Fetch the current rule
+  useEffect(() => {
+    const fetchRule = async () => {
+      if (!driverId) {
+        Alert.alert('Error', 'Driver ID is required');
+        router.back();
+        return;
+      }
+
+      try {
+        setLoading(true);
+        const rule = await getSalaryRule(driverId, token);
+        setFormData(toForm(rule));
+      } catch (error) {
+        console.error('Error fetching salary rule:', error);
+        Alert.alert('Error', 'Failed to load salary rule');
+        router.back();
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchRule();
+  }, [driverId, token]);
+
+  const handleInputChange = (field: keyof FormData, value: any) => {
+    setFormData(prev => prev && ({
+      ...prev,
+      [field]: value
+    }));
+  };
+
+  const handleTierChange = (index: number, field: keyof TierForm, value: string) => {
+    if (!formData) return;
+    handleInputChange('tiers', formData.tiers.map((tier, i) => (i === index ? { ...tier, [field]: value } : tier)));
+  };
+
+  const addTier = () => {
+    if (!formData) return;
+    // New bands are inserted above the open-ended top band
+    const tiers = [...formData.tiers];
+    tiers.splice(tiers.length - 1, 0, { upTo: '', rate: '' });
+    handleInputChange('tiers', tiers);
+  };
+
+  const removeTier = (index: number) => {
+    if (!formData) return;
+    handleInputChange('tiers', formData.tiers.filter((_, i) => i !== index));
+  };
+
+  // Build the rule from the form, or return an error message
+  const buildRule = (form: FormData): SalaryRuleInput | string => {
+    const deductExpenses = form.deductExpenses;
+
+    switch (form.type) {
+      case 'percentage':
+        if (!isValidNumber(form.rate)) return 'Please enter a valid percentage';
+        return { type: 'percentage', rate: Number(form.rate), deductExpenses };
+
+      case 'flat':
+        if (!isValidNumber(form.amount)) return 'Please enter a valid monthly amount';
+        return { type: 'flat', amount: Number(form.amount), deductExpenses };
+
+      case 'tiered': {
+        if (form.tiers.length === 0) return 'Please add at least one tier';
+        const tiers = form.tiers.map((tier, index) => ({
+          upTo: index === form.tiers.length - 1 ? null : Number(tier.upTo),
+          rate: Number(tier.rate),
+        }));
+        const invalid = form.tiers.some((tier, index) =>
+          !isValidNumber(tier.rate) || (index < form.tiers.length - 1 && !isValidNumber(tier.upTo))
+        );
+        if (invalid) return 'Please enter a limit and percentage for every tier';
+        const ascending = tiers.every((tier, index) => index === 0 || tier.upTo === null || tier.upTo > (tiers[index - 1].upTo as number));
+        if (!ascending) return 'Tier limits must increase from one tier to the next';
+        return { type: 'tiered', tiers, deductExpenses };
+      }
+
+      case 'percentageAfterExpenses':
+        if (!isValidNumber(form.rate)) return 'Please enter a valid percentage';
+        return {
+          type: 'percentageAfterExpenses',
+          rate: Number(form.rate),
+          includeAutoExpenses: form.includeAutoExpenses,
+          deductExpenses: false,
+        };
+
+      case 'perAccount': {
+        if (!isValidNumber(form.defaultRate)) return 'Please enter a valid default percentage';
+        const rates: Record<string, number> = {};
+        for (const account of rateAccounts) {
+          const value = form.accountRates[account] || '';
+          if (value.trim() === '') continue;
+          if (!isValidNumber(value)) return `Please enter a valid percentage for ${account}`;
+          rates[account] = Number(value);
+        }
+        return { type: 'perAccount', rates, defaultRate: Number(form.defaultRate), deductExpenses };
+      }
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!formData) return;
+
+    const rule = buildRule(formData);
+    if (typeof rule === 'string') {
+      Alert.alert('Error', rule);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await saveSalaryRule(driverId, rule, token);
+      Alert.alert(
+        'Success',
+        'Salary rule saved successfully',
+        [{ text: 'OK', onPress: () => router.back() }]
+      );
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to save salary rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading || !formData) {
+    return (
+      <SafeAreaView style={[styles.container, styles.loadingContainer]}>
+        <ActivityIndicator size="large" color="#000" />
+        <Text style={styles.loadingText}>Loading salary rule...</Text>
+      </SafeAreaView>
+    );
+  }
+
+  const renderPercentInput = (label: string, value: string, onChange: (value: string) => void, placeholder = 'e.g. 30') => (
+    <View style={styles.formGroup}>
+      <Text style={styles.label}>{label}</Text>
+      <TextInput
+        style={styles.input}
+        placeholder={placeholder}
+        keyboardType="decimal-pad"
+        value={value}
+        onChangeText={onChange}
+      />
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="dark" />
+
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <Ionicons name="arrow-back" size={24} color="black" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Salary Rule</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}
+        showsVerticalScrollIndicator={false}
+      >
+        <Text style={styles.driverName}>{(name as string) || 'Driver'}</Text>
+
+        <View style={styles.formGroup}>
+          <Text style={styles.label}>Rule Type</Text>
+          {RULE_TYPES.map(type => (
+            <TouchableOpacity
+              key={type}
+              style={[styles.option, formData.type === type && styles.optionSelected]}
+              onPress={() => handleInputChange('type', type)}
+            >
+              <Text style={[styles.optionText, formData.type === type && styles.optionTextSelected]}>
+                {SALARY_RULE_LABELS[type]}
+              </Text>
+              {formData.type === type && <Ionicons name="checkmark" size={18} color="#fff" />}
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {(formData.type === 'percentage' || formData.type === 'percentageAfterExpenses') &&
+          renderPercentInput('Percentage (%)', formData.rate, value => handleInputChange('rate', value))}
+
+        {formData.type === 'flat' && (
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>Monthly Amount (AED)</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="e.g. 3000"
+              keyboardType="decimal-pad"
+              value={formData.amount}
+              onChangeText={(value) => handleInputChange('amount', value)}
+            />
+          </View>
+        )}
+
+        {formData.type === 'tiered' && (
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>Tiers</Text>
+            <Text style={styles.hint}>Each band of monthly earnings is paid at its own percentage.</Text>
+            {formData.tiers.map((tier, index) => {
+              const isTopTier = index === formData.tiers.length - 1;
+              return (
+                <View key={index} style={styles.tierRow}>
+                  <TextInput
+                    style={[styles.input, styles.tierInput, isTopTier && styles.disabledInput]}
+                    placeholder={isTopTier ? 'No limit' : 'Up to (AED)'}
+                    keyboardType="decimal-pad"
+                    value={isTopTier ? '' : tier.upTo}
+                    onChangeText={(value) => handleTierChange(index, 'upTo', value)}
+                    editable={!isTopTier}
+                  />
+                  <TextInput
+                    style={[styles.input, styles.tierInput]}
+                    placeholder="%"
+                    keyboardType="decimal-pad"
+                    value={tier.rate}
+                    onChangeText={(value) => handleTierChange(index, 'rate', value)}
+                  />
+                  <TouchableOpacity
+                    style={styles.tierRemove}
+                    onPress={() => removeTier(index)}
+                    disabled={formData.tiers.length === 1}
+                  >
+                    <Ionicons name="close-circle-outline" size={22} color={formData.tiers.length === 1 ? '#ccc' : '#ff4444'} />
+                  </TouchableOpacity>
+                </View>
+              );
+            })}
+            <TouchableOpacity style={styles.addTierButton} onPress={addTier}>
+              <Ionicons name="add" size={18} color="#000" />
+              <Text style={styles.addTierText}>Add Tier</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {formData.type === 'perAccount' && (
+          <>
+            {rateAccounts.map(account => (
+              <React.Fragment key={account}>
+                {renderPercentInput(
+                  `${account} (%)`,
+                  formData.accountRates[account] || '',
+                  value => handleInputChange('accountRates', { ...formData.accountRates, [account]: value }),
+                  'Default rate'
+                )}
+              </React.Fragment>
+            ))}
+            {renderPercentInput('Default Percentage (%)', formData.defaultRate, value => handleInputChange('defaultRate', value))}
+          </>
+        )}
+
+        {formData.type === 'percentageAfterExpenses' ? (
+          <View style={styles.switchContainer}>
+            <Text style={styles.label}>Also deduct auto expenses</Text>
+            <View style={styles.switchRow}>
+              <Switch
+                value={formData.includeAutoExpenses}
+                onValueChange={(value) => handleInputChange('includeAutoExpenses', value)}
+                trackColor={{ false: '#e0e0e0', true: '#c8e6c9' }}
+                thumbColor={formData.includeAutoExpenses ? '#4caf50' : '#f5f5f5'}
+              />
+            </View>
+          </View>
+        ) : (
+          <View style={styles.switchContainer}>
+            <Text style={styles.label}>Deduct driver expenses from salary</Text>
+            <View style={styles.switchRow}>
+              <Switch
+                value={formData.deductExpenses}
+                onValueChange={(value) => handleInputChange('deductExpenses', value)}
+                trackColor={{ false: '#e0e0e0', true: '#c8e6c9' }}
+                thumbColor={formData.deductExpenses ? '#4caf50' : '#f5f5f5'}
+              />
+            </View>
+          </View>
+        )}
+
+        <TouchableOpacity
+          style={[
+            styles.submitButton,
+            saving && styles.disabledButton
+          ]}
+          onPress={handleSubmit}
+          disabled={saving}
+        >
+          {saving ? (
+            <ActivityIndicator color="#fff" size="small" />
+          ) : (
+            <Text style={styles.submitButtonText}>Save Salary Rule</Text>
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  loadingContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 10,
+    fontSize: 16,
+    color: '#666',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0'
+  },
+  backButton: {
+    padding: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 20,
+  },
+  driverName: {
+    fontSize: 20,
+    fontWeight: '600',
+    marginBottom: 20,
+    color: '#000',
+  },
+  formGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginBottom: 8,
+    color: '#333',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#888',
+    marginBottom: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    backgroundColor: '#f9f9f9',
+  },
+  disabledInput: {
+    backgroundColor: '#f5f5f5',
+    color: '#999',
+  },
+  option: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginBottom: 8,
+  },
+  optionSelected: {
+    backgroundColor: '#000',
+    borderColor: '#000',
+  },
+  optionText: {
+    fontSize: 15,
+    color: '#333',
+  },
+  optionTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  tierRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  tierInput: {
+    flex: 1,
+    marginRight: 8,
+  },
+  tierRemove: {
+    padding: 4,
+  },
+  addTierButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    paddingVertical: 8,
+  },
+  addTierText: {
+    marginLeft: 4,
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#000',
+  },
+  switchContainer: {
+    marginBottom: 20,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  submitButton: {
+    backgroundColor: '#000',
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 30,
+  },
+  disabledButton: {
+    opacity: 0.7,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,598 @@
+import React, { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+  Alert
+} from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import { useQuery } from '@/hooks/useQuery';
+import { ENDPOINTS } from '@/services/api.config';
+import { queryKey } from '@/services/query.cache';
+import { getAllEarnings } from '@/services/earning.service';
+import { getAllExpenses } from '@/services/expense.service';
+import { getAllAutoExpenses } from '@/services/autoExpense.service';
+import { getSalaryRule } from '@/services/salary.service';
+import {
+  buildSettlement,
+  createSettlement,
+  formatMonth,
+  getMonthKey,
+  getSettlementRange,
+  getSettlements,
+  reopenSettlement,
+  shiftMonth
+} from '@/services/settlement.service';
+import { generatePayslipPDF } from '@/services/pdf.service';
+import { SalaryBreakdownCard } from '@/components/SalaryBreakdownCard';
+import type { Settlement, SettlementInput } from '@/services/api.types';
+
+const formatAmount = (value: number) =>
+  `${value < 0 ? '-' : ''}AED ${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// Responses are either arrays or wrapped in an object
+const toList = (response: any, field: string) =>
+  Array.isArray(response) ? response : (response && (response.data || response[field])) || [];
+
+export default function SettlementScreen() {
+  const { token } = useAuth();
+  const { showToast } = useToast();
+  const params = useLocalSearchParams();
+  const driverId = params.id as string;
+  const driverName = (params.name as string) || 'Driver';
+
+  // Default to the last full month
+  const [month, setMonth] = useState(() => shiftMonth(getMonthKey(), -1));
+  const [advances, setAdvances] = useState('');
+  const [cashHeld, setCashHeld] = useState('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [generating, setGenerating] = useState(false);
+
+  // Adjustments belong to the month being settled
+  useEffect(() => {
+    setAdvances('');
+    setCashHeld('');
+    setNote('');
+  }, [month]);
+
+  const { startDate, endDate } = getSettlementRange(month);
+  const monthFilters = { driverId, startDate, endDate };
+  const isMonthOver = month < getMonthKey();
+
+  const settlementsQuery = useQuery(
+    driverId ? queryKey(ENDPOINTS.SETTLEMENT.GET_ALL, { query: { driverId } }) : null,
+    () => getSettlements({ driverId }, token)
+  );
+  const earningsQuery = useQuery(
+    driverId ? queryKey(ENDPOINTS.EARNING.GET_ALL, { query: monthFilters }) : null,
+    () => getAllEarnings(monthFilters, token)
+  );
+  const expensesQuery = useQuery(
+    driverId ? queryKey(ENDPOINTS.EXPENSE.GET_ALL, { query: monthFilters }) : null,
+    () => getAllExpenses(monthFilters, token)
+  );
+  const autoExpensesQuery = useQuery(
+    driverId ? queryKey(ENDPOINTS.AUTO_EXPENSE.GET_ALL, { query: monthFilters }) : null,
+    () => getAllAutoExpenses(monthFilters, token)
+  );
+  const salaryRuleQuery = useQuery(
+    driverId ? queryKey(ENDPOINTS.SALARY_RULE.GET, { params: { driverId } }) : null,
+    () => getSalaryRule(driverId, token)
+  );
+
+  const settlement: Settlement | undefined = (settlementsQuery.data || []).find(item => item.month === month);
+  const isLoading = settlementsQuery.isLoading || earningsQuery.isLoading || expensesQuery.isLoading ||
+    autoExpensesQuery.isLoading || salaryRuleQuery.isLoading;
+  const loadError = settlementsQuery.error || earningsQuery.error || expensesQuery.error ||
+    autoExpensesQuery.error || salaryRuleQuery.error;
+
+  // Preview of the open month, recalculated as the adjustments change
+  const preview: SettlementInput | null = !settlement && !isLoading && salaryRuleQuery.data
+    ? buildSettlement(
+        driverId,
+        month,
+        {
+          earnings: toList(earningsQuery.data, 'earnings'),
+          expenses: toList(expensesQuery.data, 'expenses'),
+          autoExpenses: toList(autoExpensesQuery.data, 'autoExpenses'),
+        },
+        salaryRuleQuery.data,
+        {
+          advances: parseFloat(advances) || 0,
+          cashHeld: cashHeld.trim() === '' ? undefined : parseFloat(cashHeld) || 0,
+          note: note.trim() || undefined,
+        }
+      )
+    : null;
+
+  const current = settlement || preview;
+
+  const handleClose = () => {
+    if (!preview) return;
+
+    Alert.alert(
+      'Close Month',
+      `Settle ${formatMonth(month)} for ${driverName}? Earnings and expenses in this month will be locked.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Close Month',
+          onPress: async () => {
+            try {
+              setSaving(true);
+              await createSettlement(preview, token);
+              showToast('success', 'Month Closed', `${formatMonth(month)} has been settled`);
+            } catch (error: any) {
+              showToast('error', 'Error', error.message || 'Failed to settle month');
+            } finally {
+              setSaving(false);
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const handleReopen = () => {
+    if (!settlement) return;
+
+    Alert.alert(
+      'Reopen Month',
+      `Reopen ${formatMonth(month)}? Its records will be editable again and the payslip will need to be regenerated.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reopen',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              setSaving(true);
+              await reopenSettlement(settlement.id, token);
+              showToast('success', 'Month Reopened', `${formatMonth(month)} can be edited again`);
+            } catch (error: any) {
+              showToast('error', 'Error', error.message || 'Failed to reopen month');
+            } finally {
+              setSaving(false);
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const handlePayslip = async () => {
+    if (!settlement) return;
+
+    try {
+      setGenerating(true);
+      await generatePayslipPDF(settlement, { id: driverId, name: driverName });
+    } catch (error: any) {
+      showToast('error', 'Error', error.message || 'Failed to generate payslip');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const renderGroup = (title: string, groups: Record<string, number>) => (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>{title}</Text>
+      {Object.keys(groups).length === 0 ? (
+        <Text style={styles.emptyText}>No earnings in this month</Text>
+      ) : (
+        Object.keys(groups).map(key => (
+          <View key={key} style={styles.row}>
+            <Text style={styles.rowLabel}>{key}</Text>
+            <Text style={styles.rowValue}>{formatAmount(groups[key])}</Text>
+          </View>
+        ))
+      )}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="dark" />
+
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <Ionicons name="arrow-back" size={24} color="black" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Monthly Settlement</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}
+        showsVerticalScrollIndicator={false}
+      >
+        <Text style={styles.driverName}>{driverName}</Text>
+
+        {/* Month selector */}
+        <View style={styles.monthSelector}>
+          <TouchableOpacity onPress={() => setMonth(shiftMonth(month, -1))} style={styles.monthButton}>
+            <Ionicons name="chevron-back" size={22} color="#000" />
+          </TouchableOpacity>
+          <View style={styles.monthLabelContainer}>
+            <Text style={styles.monthLabel}>{formatMonth(month)}</Text>
+            <View style={[styles.statusBadge, settlement ? styles.closedBadge : styles.openBadge]}>
+              <Ionicons name={settlement ? 'lock-closed' : 'lock-open-outline'} size={12} color={settlement ? '#fff' : '#000'} />
+              <Text style={[styles.statusText, settlement && styles.closedStatusText]}>
+                {settlement ? 'Settled' : 'Open'}
+              </Text>
+            </View>
+          </View>
+          <TouchableOpacity
+            onPress={() => setMonth(shiftMonth(month, 1))}
+            style={styles.monthButton}
+            disabled={!isMonthOver}
+          >
+            <Ionicons name="chevron-forward" size={22} color={isMonthOver ? '#000' : '#ccc'} />
+          </TouchableOpacity>
+        </View>
+
+        {isLoading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#000" />
+            <Text style={styles.loadingText}>Loading month...</Text>
+          </View>
+        ) : !current ? (
+          <View style={styles.loadingContainer}>
+            <Ionicons name="alert-circle-outline" size={40} color="#FF3B30" />
+            <Text style={styles.errorText}>{loadError?.message || 'Failed to load month'}</Text>
+          </View>
+        ) : (
+          <>
+            {settlement && (
+              <Text style={styles.settledText}>
+                Settled on {new Date(settlement.createdAt).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })}
+              </Text>
+            )}
+
+            {renderGroup('Earnings by Payment Type', current.earningsByType)}
+            {renderGroup('Earnings by Account', current.earningsByAccount)}
+
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Fleet Income</Text>
+              <View style={styles.row}>
+                <Text style={styles.rowLabel}>Total Earnings</Text>
+                <Text style={styles.rowValue}>{formatAmount(current.totalEarnings)}</Text>
+              </View>
+              <View style={styles.row}>
+                <Text style={styles.rowLabel}>Expenses</Text>
+                <Text style={[styles.rowValue, styles.negative]}>{formatAmount(-current.totalExpenses)}</Text>
+              </View>
+              <View style={styles.row}>
+                <Text style={styles.rowLabel}>Auto Expenses</Text>
+                <Text style={[styles.rowValue, styles.negative]}>{formatAmount(-current.totalAutoExpenses)}</Text>
+              </View>
+              <View style={[styles.row, styles.totalRow]}>
+                <Text style={styles.totalLabel}>Net</Text>
+                <Text style={styles.totalValue}>
+                  {formatAmount(current.totalEarnings - current.totalExpenses - current.totalAutoExpenses)}
+                </Text>
+              </View>
+            </View>
+
+            <SalaryBreakdownCard
+              title="Driver Share"
+              breakdown={{
+                rule: current.salaryRule,
+                totalEarnings: current.totalEarnings,
+                totalExpenses: current.totalExpenses,
+                totalAutoExpenses: current.totalAutoExpenses,
+                lines: current.salaryLines,
+                amount: current.driverShare,
+              }}
+            />
+
+            {/* Advances and cash are only editable until the month is closed */}
+            {!settlement && (
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>Adjustments</Text>
+                <Text style={styles.label}>Advances Paid (AED)</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="0.00"
+                  keyboardType="decimal-pad"
+                  value={advances}
+                  onChangeText={setAdvances}
+                />
+                <Text style={styles.label}>Cash Held by Driver (AED)</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder={(current.earningsByType.Cash || 0).toFixed(2)}
+                  keyboardType="decimal-pad"
+                  value={cashHeld}
+                  onChangeText={setCashHeld}
+                />
+                <Text style={styles.hint}>Defaults to the cash fares recorded this month.</Text>
+                <Text style={styles.label}>Note</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Optional"
+                  value={note}
+                  onChangeText={setNote}
+                />
+              </View>
+            )}
+
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Settlement</Text>
+              <View style={styles.row}>
+                <Text style={styles.rowLabel}>Driver Share</Text>
+                <Text style={styles.rowValue}>{formatAmount(current.driverShare)}</Text>
+              </View>
+              <View style={styles.row}>
+                <Text style={styles.rowLabel}>Less advances paid</Text>
+                <Text style={[styles.rowValue, styles.negative]}>{formatAmount(-current.advances)}</Text>
+              </View>
+              <View style={styles.row}>
+                <Text style={styles.rowLabel}>Less cash held by driver</Text>
+                <Text style={[styles.rowValue, styles.negative]}>{formatAmount(-current.cashHeld)}</Text>
+              </View>
+              <View style={[styles.row, styles.totalRow]}>
+                <Text style={styles.totalLabel}>
+                  {current.netPayable >= 0 ? 'Payable to Driver' : 'Due from Driver'}
+                </Text>
+                <Text style={[styles.totalValue, current.netPayable < 0 && styles.negative]}>
+                  {formatAmount(Math.abs(current.netPayable))}
+                </Text>
+              </View>
+              {settlement?.note ? <Text style={styles.hint}>Note: {settlement.note}</Text> : null}
+            </View>
+
+            {settlement ? (
+              <>
+                <TouchableOpacity
+                  style={[styles.submitButton, generating && styles.disabledButton]}
+                  onPress={handlePayslip}
+                  disabled={generating}
+                >
+                  {generating ? (
+                    <ActivityIndicator color="#fff" size="small" />
+                  ) : (
+                    <Text style={styles.submitButtonText}>Download Payslip</Text>
+                  )}
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.secondaryButton, saving && styles.disabledButton]}
+                  onPress={handleReopen}
+                  disabled={saving}
+                >
+                  <Text style={styles.secondaryButtonText}>Reopen Month</Text>
+                </TouchableOpacity>
+              </>
+            ) : (
+              <>
+                <TouchableOpacity
+                  style={[styles.submitButton, (saving || !isMonthOver) && styles.disabledButton]}
+                  onPress={handleClose}
+                  disabled={saving || !isMonthOver}
+                >
+                  {saving ? (
+                    <ActivityIndicator color="#fff" size="small" />
+                  ) : (
+                    <Text style={styles.submitButtonText}>Close Month</Text>
+                  )}
+                </TouchableOpacity>
+                {!isMonthOver && (
+                  <Text style={styles.hint}>The current month can be settled once it has ended.</Text>
+                )}
+              </>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0'
+  },
+  backButton: {
+    padding: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 20,
+  },
+  driverName: {
+    fontSize: 20,
+    fontWeight: '600',
+    marginBottom: 16,
+    color: '#000',
+  },
+  monthSelector: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  monthButton: {
+    padding: 8,
+  },
+  monthLabelContainer: {
+    alignItems: 'center',
+  },
+  monthLabel: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#000',
+  },
+  statusBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    marginTop: 4,
+  },
+  openBadge: {
+    backgroundColor: '#f0f0f0',
+  },
+  closedBadge: {
+    backgroundColor: '#000',
+  },
+  statusText: {
+    fontSize: 12,
+    marginLeft: 4,
+    color: '#000',
+  },
+  closedStatusText: {
+    color: '#fff',
+  },
+  settledText: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  loadingContainer: {
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  loadingText: {
+    marginTop: 10,
+    fontSize: 16,
+    color: '#666',
+  },
+  errorText: {
+    marginTop: 10,
+    fontSize: 16,
+    color: '#FF3B30',
+    textAlign: 'center',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    padding: 16,
+    marginBottom: 16,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    paddingVertical: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+  },
+  rowLabel: {
+    fontSize: 14,
+    color: '#333',
+  },
+  rowValue: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+  },
+  negative: {
+    color: '#ff4444',
+  },
+  totalRow: {
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+    marginTop: 4,
+    paddingTop: 12,
+  },
+  totalLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#000',
+  },
+  totalValue: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#000',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    marginTop: 8,
+    marginBottom: 8,
+    color: '#333',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    backgroundColor: '#f9f9f9',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#888',
+    marginTop: 8,
+  },
+  submitButton: {
+    backgroundColor: '#000',
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: '#000',
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  secondaryButtonText: {
+    color: '#000',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
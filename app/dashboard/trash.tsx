@@ -0,0 +1,509 @@
+import React, { useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  FlatList,
+  ScrollView,
+  ActivityIndicator,
+  RefreshControl,
+  Modal,
+} from 'react-native';
+import { router } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import { useQuery } from '@/hooks/useQuery';
+import { queryKey } from '@/services/query.cache';
+import { assertPeriodOpen } from '@/services/settlement.service';
+import {
+  TRASH_ENDPOINTS,
+  TRASH_ENTITY_LABELS,
+  TRASH_ENTITY_TYPES,
+  TRASH_RETENTION_DAYS,
+  getDaysUntilPurge,
+  getTrash,
+  purgeExpired,
+  purgeFromTrash,
+  restoreFromTrash,
+} from '@/services/trash.service';
+import type { TrashEntityType } from '@/services/api.types';
+
+type TrashItem = Awaited<ReturnType<typeof getTrash>>[number];
+
+const isTransaction = (kind: TrashEntityType) => kind === 'earning' || kind === 'expense' || kind === 'autoExpense';
+
+export default function TrashScreen() {
+  const { authToken } = useAuth();
+  const { showToast } = useToast();
+
+  const [kind, setKind] = useState<TrashEntityType>('earning');
+  // Item whose restore or purge is in progress
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [purgeItem, setPurgeItem] = useState<TrashItem | null>(null);
+  const [confirmPurgeExpired, setConfirmPurgeExpired] = useState(false);
+
+  const query = useQuery(
+    authToken ? queryKey(TRASH_ENDPOINTS[kind].TRASH) : null,
+    () => getTrash(kind, authToken)
+  );
+  const trash = query.data || [];
+  // Expired items can no longer be restored; an admin deletes them below
+  const items = trash.filter(item => getDaysUntilPurge(kind, item.deletedAt) > 0);
+  const expiredCount = trash.length - items.length;
+
+  const handleRestore = async (item: TrashItem) => {
+    setBusyId(item.id);
+    try {
+      // Settled months can't be changed, including by bringing records back
+      if (isTransaction(kind)) {
+        await assertPeriodOpen(item.driverId, item.date, authToken);
+      }
+      await restoreFromTrash(kind, item.id, authToken);
+      showToast('success', 'Restored', `${describeItem(item).title} restored`);
+    } catch (error: any) {
+      console.error('Error restoring item:', error);
+      showToast('error', 'Error', error.message || 'Failed to restore item');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async () => {
+    if (!purgeItem) return;
+
+    setBusyId(purgeItem.id);
+    try {
+      await purgeFromTrash(kind, purgeItem.id, authToken);
+      showToast('success', 'Deleted', `${describeItem(purgeItem).title} deleted permanently`);
+      setPurgeItem(null);
+    } catch (error: any) {
+      console.error('Error purging item:', error);
+      showToast('error', 'Error', error.message || 'Failed to delete item permanently');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurgeExpired = async () => {
+    setBusyId('expired');
+    try {
+      const count = await purgeExpired(kind, trash, authToken);
+      showToast('success', 'Trash Emptied', `${count} expired ${count === 1 ? 'item' : 'items'} deleted permanently`);
+      setConfirmPurgeExpired(false);
+    } catch (error: any) {
+      console.error('Error purging expired items:', error);
+      showToast('error', 'Error', error.message || 'Failed to delete expired items');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const closeConfirm = () => {
+    setPurgeItem(null);
+    setConfirmPurgeExpired(false);
+  };
+
+  const formatCurrency = (amount: number | string) =>
+    `AED ${(parseFloat(String(amount)) || 0).toFixed(2)}`;
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+  // Title and detail line for an item of the current kind
+  const describeItem = (item: TrashItem) => {
+    switch (kind) {
+      case 'earning':
+        return {
+          title: `${item.type || 'Earning'} Earning`,
+          amount: formatCurrency(item.amount),
+          detail: `${item.driver?.name || 'Unknown driver'} - ${formatDate(item.date)}`,
+        };
+      case 'expense':
+      case 'autoExpense':
+        return {
+          title: `${item.category || 'Other'} ${kind === 'expense' ? 'Expense' : 'Auto Expense'}`,
+          amount: formatCurrency(item.amount),
+          detail: `${item.driver?.name || 'Unknown driver'} - ${formatDate(item.date)}`,
+        };
+      case 'driver':
+        return { title: item.name || 'Driver', detail: item.email || '' };
+      case 'vehicle':
+        return { title: item.name || 'Vehicle', detail: [item.plate, item.model].filter(Boolean).join(' - ') };
+    }
+  };
+
+  const renderItem = ({ item }: { item: TrashItem }) => {
+    const { title, amount, detail } = describeItem(item);
+    const daysLeft = getDaysUntilPurge(kind, item.deletedAt);
+
+    return (
+      <View style={styles.item}>
+        <View style={styles.itemHeader}>
+          <Text style={styles.itemTitle} numberOfLines={1}>{title}</Text>
+          {amount && <Text style={styles.itemAmount}>{amount}</Text>}
+        </View>
+        {!!detail && <Text style={styles.itemMeta}>{detail}</Text>}
+        <Text style={styles.itemMeta}>
+          Deleted {formatDate(item.deletedAt)}{item.deletedBy?.name ? ` by ${item.deletedBy.name}` : ''}
+        </Text>
+        <Text style={[styles.itemMeta, daysLeft <= 3 && styles.expiringText]}>
+          Deleted permanently in {daysLeft} {daysLeft === 1 ? 'day' : 'days'}
+        </Text>
+        <View style={styles.itemActions}>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.purgeButton]}
+            onPress={() => setPurgeItem(item)}
+            disabled={busyId !== null}
+          >
+            <Ionicons name="trash-outline" size={16} color="#FF3B30" />
+            <Text style={styles.purgeText}>Delete Forever</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.restoreButton]}
+            onPress={() => handleRestore(item)}
+            disabled={busyId !== null}
+          >
+            {busyId === item.id && !purgeItem ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <>
+                <Ionicons name="arrow-undo-outline" size={16} color="#fff" />
+                <Text style={styles.restoreText}>Restore</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="dark" />
+
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color="#000" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Trash</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <View>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.tabs}>
+          {TRASH_ENTITY_TYPES.map(item => (
+            <TouchableOpacity
+              key={item}
+              style={[styles.tab, kind === item && styles.activeTab]}
+              onPress={() => setKind(item)}
+            >
+              <Text style={[styles.tabText, kind === item && styles.activeTabText]}>{TRASH_ENTITY_LABELS[item]}</Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      </View>
+
+      <Text style={styles.infoText}>
+        Deleted {TRASH_ENTITY_LABELS[kind].toLowerCase()} are kept for {TRASH_RETENTION_DAYS[kind]} days, then deleted permanently.
+      </Text>
+
+      {expiredCount > 0 && (
+        <View style={styles.expiredBanner}>
+          <Text style={styles.expiredText}>
+            {expiredCount} {expiredCount === 1 ? 'item is' : 'items are'} past the retention period
+          </Text>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.purgeButton]}
+            onPress={() => setConfirmPurgeExpired(true)}
+            disabled={busyId !== null}
+          >
+            <Ionicons name="trash-outline" size={16} color="#FF3B30" />
+            <Text style={styles.purgeText}>Delete Now</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {query.isLoading && items.length === 0 ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#000" />
+          <Text style={styles.mutedText}>Loading trash...</Text>
+        </View>
+      ) : query.error && items.length === 0 ? (
+        <View style={styles.centered}>
+          <Ionicons name="alert-circle-outline" size={48} color="#FF3B30" />
+          <Text style={styles.mutedText}>Failed to load trash</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={() => query.refetch()}>
+            <Text style={styles.retryButtonText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <FlatList
+          data={items}
+          renderItem={renderItem}
+          keyExtractor={item => item.id}
+          contentContainerStyle={styles.list}
+          refreshControl={
+            <RefreshControl refreshing={query.isRefreshing} onRefresh={() => query.refetch()} colors={['#000']} />
+          }
+          ListEmptyComponent={() => (
+            <View style={styles.centered}>
+              <Ionicons name="trash-outline" size={48} color="#ccc" />
+              <Text style={styles.mutedText}>No deleted {TRASH_ENTITY_LABELS[kind].toLowerCase()}</Text>
+            </View>
+          )}
+        />
+      )}
+
+      {/* Permanent delete confirmation */}
+      <Modal
+        visible={purgeItem !== null || confirmPurgeExpired}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={closeConfirm}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContainer}>
+            <Text style={styles.modalTitle}>Delete Forever</Text>
+            <Text style={styles.modalText}>
+              {purgeItem
+                ? `${describeItem(purgeItem).title} will be deleted permanently.`
+                : `${expiredCount} expired ${expiredCount === 1 ? 'item' : 'items'} will be deleted permanently.`}
+              {' '}This cannot be undone.
+            </Text>
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={styles.modalCancel}
+                onPress={closeConfirm}
+                disabled={busyId !== null}
+              >
+                <Text style={styles.modalCancelText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.modalConfirm}
+                onPress={purgeItem ? handlePurge : handlePurgeExpired}
+                disabled={busyId !== null}
+              >
+                {busyId !== null ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <Text style={styles.modalConfirmText}>Delete</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0'
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  placeholder: {
+    width: 24,
+  },
+  tabs: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 8,
+  },
+  tab: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+  },
+  activeTab: {
+    backgroundColor: '#000',
+  },
+  tabText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#666',
+  },
+  activeTabText: {
+    color: '#fff',
+  },
+  infoText: {
+    fontSize: 12,
+    color: '#666',
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  expiredBanner: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: 'rgba(255, 59, 48, 0.08)',
+  },
+  expiredText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#FF3B30',
+  },
+  list: {
+    paddingBottom: 40,
+    flexGrow: 1,
+  },
+  item: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  itemTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '500',
+    marginRight: 8,
+  },
+  itemAmount: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#000',
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  expiringText: {
+    color: '#FF3B30',
+  },
+  itemActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    marginLeft: 8,
+  },
+  restoreButton: {
+    backgroundColor: '#000',
+  },
+  purgeButton: {
+    borderWidth: 1,
+    borderColor: '#FF3B30',
+  },
+  restoreText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
+  purgeText: {
+    color: '#FF3B30',
+    fontSize: 13,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+  },
+  mutedText: {
+    marginTop: 10,
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+  },
+  retryButton: {
+    backgroundColor: '#000',
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 8,
+    marginTop: 20,
+  },
+  retryButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContainer: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    width: '85%',
+    maxWidth: 360,
+    padding: 20,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  modalText: {
+    fontSize: 15,
+    color: '#333',
+  },
+  modalActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 16,
+  },
+  modalCancel: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+  },
+  modalCancelText: {
+    fontSize: 16,
+    color: '#333',
+  },
+  modalConfirm: {
+    backgroundColor: '#FF3B30',
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 8,
+    marginLeft: 8,
+  },
+  modalConfirmText: {
+    fontSize: 16,
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
@@ -15,6 +15,7 @@ import { StatusBar } from 'expo-status-bar';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
+import { useCan } from '@/hooks/useCan';
 import { getUserById, updateUserStatus } from '@/services/user.service';
 
 // Define user type
@@ -29,7 +30,8 @@ type User = {
 };
 
 export default function UserDetailScreen() {
-  const { authToken, user: currentUser } = useAuth();
+  const { authToken } = useAuth();
+  const can = useCan();
   const params = useLocalSearchParams();
   const userId = params.id as string;
   
@@ -38,14 +40,6 @@ export default function UserDetailScreen() {
   const [isUpdating, setIsUpdating] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // Role-based protection
-  useEffect(() => {
-    if (currentUser && currentUser.role !== 'Admin') {
-      // Redirect non-admin users
-      router.replace('/dashboard/admin');
-    }
-  }, [currentUser]);
-
   // Fetch user data
   useEffect(() => {
     fetchUserData();
@@ -233,34 +227,36 @@ export default function UserDetailScreen() {
           </View>
           
           {/* Actions Card */}
-          <View style={styles.actionsCard}>
-            <Text style={styles.actionsTitle}>Account Status</Text>
-            <View style={styles.actionRow}>
-              <View>
-                <Text style={styles.actionLabel}>
-                  {user.isActive ? 'Deactivate Account' : 'Activate Account'}
-                </Text>
-                <Text style={styles.actionDescription}>
-                  {user.isActive 
-                    ? 'User will not be able to log in when deactivated.' 
-                    : 'Activate to allow user to log in again.'}
-                </Text>
+          {can('users:activate') && (
+            <View style={styles.actionsCard}>
+              <Text style={styles.actionsTitle}>Account Status</Text>
+              <View style={styles.actionRow}>
+                <View>
+                  <Text style={styles.actionLabel}>
+                    {user.isActive ? 'Deactivate Account' : 'Activate Account'}
+                  </Text>
+                  <Text style={styles.actionDescription}>
+                    {user.isActive 
+                      ? 'User will not be able to log in when deactivated.' 
+                      : 'Activate to allow user to log in again.'}
+                  </Text>
+                </View>
+                <Switch
+                  value={user.isActive}
+                  onValueChange={toggleUserStatus}
+                  disabled={isUpdating}
+                  trackColor={{ false: '#d0d0d0', true: '#d0d0d0' }}
+                  thumbColor={user.isActive ? '#4CAF50' : '#FF5252'}
+                />
               </View>
-              <Switch
-                value={user.isActive}
-                onValueChange={toggleUserStatus}
-                disabled={isUpdating}
-                trackColor={{ false: '#d0d0d0', true: '#d0d0d0' }}
-                thumbColor={user.isActive ? '#4CAF50' : '#FF5252'}
-              />
+              {isUpdating && (
+                <View style={styles.updatingContainer}>
+                  <ActivityIndicator size="small" color="#000" />
+                  <Text style={styles.updatingText}>Updating status...</Text>
+                </View>
+              )}
             </View>
-            {isUpdating && (
-              <View style={styles.updatingContainer}>
-                <ActivityIndicator size="small" color="#000" />
-                <Text style={styles.updatingText}>Updating status...</Text>
-              </View>
-            )}
-          </View>
+          )}
           
           {/* Danger Zone */}
           <View style={styles.dangerCard}>
@@ -27,25 +27,13 @@ type User = {
 };
 
 export default function UsersScreen() {
-  const { authToken, user } = useAuth();
+  const { authToken } = useAuth();
   const [users, setUsers] = useState<User[]>([]);
   const [filteredUsers, setFilteredUsers] = useState<User[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [activeFilter, setActiveFilter] = useState<'all' | 'active' | 'inactive'>('all');
 
-  // Role-based protection
-  useEffect(() => {
-    if (user && user.role !== 'Admin') {
-      // Redirect non-admin users to their respective dashboards
-      if (user.role === 'Driver') {
-        router.replace('/dashboard/driver');
-      } else if (user.role === 'Viewer') {
-        router.replace('/dashboard/viewer');
-      }
-    }
-  }, [user]);
-
   // Fetch users
   useEffect(() => {
     fetchUsers();
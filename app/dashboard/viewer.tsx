@@ -1,25 +1,39 @@
-import React, { useEffect } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, ActivityIndicator, RefreshControl } from 'react-native';
 import { useRouter } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
+import { useQuery } from '@/hooks/useQuery';
+import { ENDPOINTS } from '@/services/api.config';
+import { queryKey } from '@/services/query.cache';
+import { getAllDrivers } from '@/services/driver.service';
+import { getAllEarnings } from '@/services/earning.service';
+import { getAllExpenses } from '@/services/expense.service';
+import { getAllAutoExpenses } from '@/services/autoExpense.service';
+import { getMonthRange } from '@/utils/date';
 
+type Driver = {
+  id: string;
+  name: string;
+  email: string;
+};
+
+type DriverSummary = {
+  earnings: number;
+  expenses: number;
+};
+
+type FleetRecord = {
+  amount: number | string;
+  driverId?: string;
+  driver?: { id: string };
+};
+
+// Read-only fleet overview; every write is also refused by the API client for this role
 export default function ViewerDashboard() {
   const router = useRouter();
-  const { logout, user } = useAuth();
-  
-  // Check user role - allow only Viewer role
-  useEffect(() => {
-    if (user && user.role !== 'Viewer') {
-      // Redirect non-viewers to their respective dashboards
-      if (user.role === 'Admin') {
-        router.replace('/dashboard/admin');
-      } else if (user.role === 'Driver') {
-        router.replace('/dashboard/driver');
-      }
-    }
-  }, [user, router]);
+  const { logout, user, authToken } = useAuth();
 
   const handleLogout = async () => {
     try {
@@ -30,6 +44,79 @@ export default function ViewerDashboard() {
     }
   };
 
+  // Fleet-wide records for the current month
+  const monthFilters = getMonthRange();
+
+  const driversQuery = useQuery(
+    authToken ? queryKey(ENDPOINTS.DRIVER.GET_ALL) : null,
+    () => getAllDrivers(authToken)
+  );
+  const earningsQuery = useQuery(
+    authToken ? queryKey(ENDPOINTS.EARNING.GET_ALL, { query: monthFilters }) : null,
+    () => getAllEarnings(monthFilters, authToken)
+  );
+  const expensesQuery = useQuery(
+    authToken ? queryKey(ENDPOINTS.EXPENSE.GET_ALL, { query: monthFilters }) : null,
+    () => getAllExpenses(monthFilters, authToken)
+  );
+  const autoExpensesQuery = useQuery(
+    authToken ? queryKey(ENDPOINTS.AUTO_EXPENSE.GET_ALL, { query: monthFilters }) : null,
+    () => getAllAutoExpenses(monthFilters, authToken)
+  );
+
+  // Responses are either arrays or wrapped in an object
+  const toList = (response: any, field: string) =>
+    Array.isArray(response) ? response : (response && (response.data || response[field])) || [];
+
+  const drivers: Driver[] = toList(driversQuery.data, 'drivers');
+  const earnings: FleetRecord[] = toList(earningsQuery.data, 'earnings');
+  const expenses: FleetRecord[] = toList(expensesQuery.data, 'expenses');
+  const autoExpenses: FleetRecord[] = toList(autoExpensesQuery.data, 'autoExpenses');
+
+  const isLoading = driversQuery.isLoading || earningsQuery.isLoading || expensesQuery.isLoading ||
+    autoExpensesQuery.isLoading;
+  const isRefreshing = driversQuery.isRefreshing;
+
+  const handleRefresh = () => {
+    driversQuery.refetch();
+    earningsQuery.refetch();
+    expensesQuery.refetch();
+    autoExpensesQuery.refetch();
+  };
+
+  const sum = (items: FleetRecord[]) =>
+    items.reduce((total, item) => total + (parseFloat(String(item.amount)) || 0), 0);
+
+  const totalEarnings = sum(earnings);
+  const totalExpenses = sum(expenses);
+  const totalAutoExpenses = sum(autoExpenses);
+
+  // Per-driver totals for the month
+  const driverSummaries = drivers.reduce<Record<string, DriverSummary>>((summaries, driver) => {
+    const ofDriver = (item: FleetRecord) => (item.driverId || item.driver?.id) === driver.id;
+    summaries[driver.id] = {
+      earnings: sum(earnings.filter(ofDriver)),
+      expenses: sum(expenses.filter(ofDriver)),
+    };
+    return summaries;
+  }, {});
+
+  const formatAmount = (value: number) =>
+    `AED ${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  const kpis = [
+    { label: 'Earnings', value: totalEarnings },
+    { label: 'Expenses', value: totalExpenses },
+    { label: 'Auto Expenses', value: totalAutoExpenses },
+    { label: 'Net Income', value: totalEarnings - totalExpenses - totalAutoExpenses },
+  ];
+
+  const links = [
+    { icon: 'car-outline' as const, label: 'Vehicles', route: '/vehicles' },
+    { icon: 'cash-outline' as const, label: 'All Earnings', route: '/dashboard/all-earnings' },
+    { icon: 'receipt-outline' as const, label: 'All Expenses', route: '/dashboard/all-expenses' },
+  ];
+
   return (
     <View style={styles.container}>
       <StatusBar style="light" />
@@ -39,11 +126,74 @@ export default function ViewerDashboard() {
           <Ionicons name="log-out-outline" size={24} color="#fff" />
         </TouchableOpacity>
       </View>
-      
-      <View style={styles.content}>
-        <Text style={styles.welcomeText}>Welcome to Viewer Dashboard</Text>
-        <Text style={styles.infoText}>View and monitor fleet information here</Text>
-      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />}
+      >
+        <Text style={styles.welcomeText}>Welcome, {user?.name || 'Viewer'}</Text>
+        <Text style={styles.infoText}>Fleet overview for this month (read-only)</Text>
+
+        {isLoading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#000" />
+            <Text style={styles.loadingText}>Loading fleet data...</Text>
+          </View>
+        ) : (
+          <>
+            <View style={styles.kpiGrid}>
+              {kpis.map(kpi => (
+                <View key={kpi.label} style={styles.kpiCard}>
+                  <Text style={styles.kpiLabel}>{kpi.label}</Text>
+                  <Text style={styles.kpiValue}>{formatAmount(kpi.value)}</Text>
+                </View>
+              ))}
+            </View>
+
+            <View style={styles.links}>
+              {links.map(link => (
+                <TouchableOpacity
+                  key={link.route}
+                  style={styles.linkButton}
+                  onPress={() => router.push(link.route as any)}
+                >
+                  <Ionicons name={link.icon} size={22} color="#000" />
+                  <Text style={styles.linkText}>{link.label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.sectionTitle}>Drivers</Text>
+            {drivers.length === 0 ? (
+              <View style={styles.noDataContainer}>
+                <Text style={styles.noDataText}>No drivers found</Text>
+              </View>
+            ) : (
+              drivers.map(driver => (
+                <TouchableOpacity
+                  key={driver.id}
+                  style={styles.driverItem}
+                  onPress={() => router.push({
+                    pathname: '/dashboard/driver-statistics',
+                    params: { id: driver.id, name: driver.name }
+                  })}
+                >
+                  <View style={styles.driverAvatar}>
+                    <Text style={styles.avatarText}>{driver.name.charAt(0).toUpperCase()}</Text>
+                  </View>
+                  <View style={styles.driverInfo}>
+                    <Text style={styles.driverName}>{driver.name}</Text>
+                    <Text style={styles.driverSummary}>
+                      Earned {formatAmount(driverSummaries[driver.id]?.earnings || 0)} · Spent {formatAmount(driverSummaries[driver.id]?.expenses || 0)}
+                    </Text>
+                  </View>
+                  <Ionicons name="chevron-forward" size={20} color="#888" />
+                </TouchableOpacity>
+              ))
+            )}
+          </>
+        )}
+      </ScrollView>
     </View>
   );
 }
@@ -71,19 +221,119 @@ const styles = StyleSheet.create({
     padding: 5,
   },
   content: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-    paddingHorizontal: 20,
+    padding: 20,
   },
   welcomeText: {
     fontSize: 24,
     fontWeight: 'bold',
-    marginBottom: 10,
+    marginBottom: 6,
   },
   infoText: {
     fontSize: 16,
     color: '#666',
-    textAlign: 'center',
+    marginBottom: 20,
+  },
+  loadingContainer: {
+    height: 160,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 10,
+    fontSize: 14,
+    color: '#666',
+  },
+  kpiGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+  },
+  kpiCard: {
+    width: '48%',
+    backgroundColor: '#000',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 12,
+  },
+  kpiLabel: {
+    fontSize: 12,
+    color: '#aaa',
+  },
+  kpiValue: {
+    fontSize: 17,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginTop: 6,
+  },
+  links: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 8,
+    marginBottom: 20,
+  },
+  linkButton: {
+    flex: 1,
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    paddingVertical: 14,
+    marginHorizontal: 4,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  linkText: {
+    marginTop: 6,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 10,
+  },
+  noDataContainer: {
+    height: 120,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 15,
+  },
+  noDataText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  driverItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 10,
+  },
+  driverAvatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#000',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  avatarText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  driverInfo: {
+    flex: 1,
+  },
+  driverName: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  driverSummary: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
   },
-}); 
\ No newline at end of file
+});
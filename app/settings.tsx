@@ -16,6 +16,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
 import { API_BASE_URL } from '@/services/api.config';
 import { getProfile, getToken } from '@/services/auth.service';
+import { getHomeRoute } from '@/services/permissions';
 
 // Define the user profile type
 type UserProfile = {
@@ -153,23 +154,7 @@ export default function SettingsScreen() {
   
   // Navigate back safely to the appropriate dashboard
   const handleBackButton = () => {
-    if (user && user.role) {
-      switch (user.role) {
-        case 'Admin':
-          router.replace('/dashboard/admin');
-          break;
-        case 'Driver':
-          router.replace('/dashboard/driver');
-          break;
-        case 'Viewer':
-          router.replace('/dashboard/viewer');
-          break;
-        default:
-          router.replace('/auth/login');
-      }
-    } else {
-      router.replace('/auth/login');
-    }
+    router.replace(getHomeRoute(user?.role) as any);
   };
   
   if (isLoading) {
@@ -260,7 +245,7 @@ export default function SettingsScreen() {
           {/* Password Change Option */}
           <TouchableOpacity 
             style={styles.settingItem}
-            onPress={() => Alert.alert('Coming Soon', 'Password changing will be available in a future update.')}
+            onPress={() => router.push('/change-password' as any)}
           >
             <View style={styles.settingIcon}>
               <Ionicons name="key-outline" size={22} color="#FF9500" />
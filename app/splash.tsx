@@ -3,6 +3,7 @@ import { StyleSheet, View, Image, Dimensions } from 'react-native';
 import { useRouter } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
 import { checkHasSeenWelcome } from '@/utils/storage';
+import { getHomeRoute } from '@/services/permissions';
 
 const { width, height } = Dimensions.get('window');
 
@@ -64,21 +65,8 @@ export default function SplashScreen() {
         router.replace('/auth/login');
       } else if (user) {
         console.log('User authenticated, redirecting to dashboard:', user.role);
-        // Route based on user role
-        switch (user.role) {
-          case 'Admin':
-            router.replace('/dashboard/admin');
-            break;
-          case 'Driver':
-            router.replace('/dashboard/driver');
-            break;
-          case 'Viewer':
-            router.replace('/dashboard/viewer');
-            break;
-          default:
-            console.log('Unknown role, redirecting to login');
-            router.replace('/auth/login');
-        }
+        // Route based on user role; unknown roles go back to login
+        router.replace(getHomeRoute(user.role) as any);
       } else {
         console.log('User object empty, redirecting to login');
         router.replace('/auth/login');
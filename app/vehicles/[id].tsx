@@ -14,6 +14,7 @@ import { StatusBar } from 'expo-status-bar';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
+import { useCan } from '@/hooks/useCan';
 import { getVehicleById } from '@/services/vehicle.service';
 
 // Define the vehicle type
@@ -47,7 +48,8 @@ type Vehicle = {
 
 export default function VehicleDetailsScreen() {
   const { id } = useLocalSearchParams();
-  const { authToken, user } = useAuth();
+  const { authToken } = useAuth();
+  const can = useCan();
   const [isLoading, setIsLoading] = useState(true);
   const [vehicle, setVehicle] = useState<Vehicle | null>(null);
 
@@ -120,7 +122,7 @@ export default function VehicleDetailsScreen() {
           <Ionicons name="arrow-back-outline" size={24} color="black" />
         </TouchableOpacity>
         <Text style={styles.headerTitle}>Vehicle Details</Text>
-        {user?.role === 'Admin' && (
+        {can('vehicles:write') && (
           <TouchableOpacity onPress={handleEditVehicle}>
             <Ionicons name="create-outline" size={24} color="black" />
           </TouchableOpacity>
@@ -219,13 +221,15 @@ export default function VehicleDetailsScreen() {
               </View>
             </View>
             
-            <TouchableOpacity 
-              style={styles.editButton}
-              onPress={handleEditVehicle}
-            >
-              <Text style={styles.editButtonText}>Edit Details</Text>
-              <Ionicons name="create-outline" size={20} color="#fff" />
-            </TouchableOpacity>
+            {can('vehicles:write') && (
+              <TouchableOpacity 
+                style={styles.editButton}
+                onPress={handleEditVehicle}
+              >
+                <Text style={styles.editButtonText}>Edit Details</Text>
+                <Ionicons name="create-outline" size={20} color="#fff" />
+              </TouchableOpacity>
+            )}
           </View>
         ) : (
           <View style={styles.errorContainer}>
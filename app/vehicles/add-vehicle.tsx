@@ -214,7 +214,12 @@ export default function AddVehicleScreen() {
           <Ionicons name="arrow-back-outline" size={24} color="black" />
         </TouchableOpacity>
         <Text style={styles.headerTitle}>Add Vehicle</Text>
-        <View style={{ width: 24 }} />
+        <TouchableOpacity
+          onPress={() => router.push({ pathname: '/dashboard/import-fleet', params: { kind: 'vehicles' } } as any)}
+          style={styles.backButton}
+        >
+          <Ionicons name="cloud-upload-outline" size={24} color="#000" />
+        </TouchableOpacity>
       </View>
 
       <KeyboardAvoidingView 
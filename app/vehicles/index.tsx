@@ -16,8 +16,11 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { ThemedText } from '@/components/ThemedText';
 import { useAuth } from '@/contexts/AuthContext';
+import { useCan } from '@/hooks/useCan';
+import { getHomeRoute } from '@/services/permissions';
 import { useToast } from '@/contexts/ToastContext';
 import { getAllVehicles, deleteVehicle } from '@/services/vehicle.service';
+import { restoreFromTrash } from '@/services/trash.service';
 
 // Define the vehicle type
 type Vehicle = {
@@ -45,6 +48,7 @@ type Vehicle = {
 
 export default function VehicleListScreen() {
   const { user, authToken } = useAuth();
+  const can = useCan();
   const toast = useToast();
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
@@ -101,9 +105,21 @@ export default function VehicleListScreen() {
   };
 
   const handleBackNavigation = () => {
-    // Always navigate back to admin dashboard
-    console.log('Navigating back to admin dashboard');
-    router.replace('/dashboard/admin');
+    // Navigate back to the user's dashboard
+    console.log('Navigating back to dashboard');
+    router.replace(getHomeRoute(user?.role) as any);
+  };
+
+  // Undo a delete from the toast
+  const handleRestoreVehicle = async (vehicleId: string) => {
+    try {
+      await restoreFromTrash('vehicle', vehicleId, authToken);
+      toast.showToast('success', 'Restored', 'Vehicle restored');
+      fetchVehicles(false);
+    } catch (error: any) {
+      console.error('Restore error:', error);
+      toast.showToast('error', 'Error', error.message || 'Failed to restore vehicle');
+    }
   };
 
   const handleDeleteVehicle = async (vehicleId: string) => {
@@ -129,7 +145,10 @@ export default function VehicleListScreen() {
                 setVehicles(prevVehicles => 
                   prevVehicles.filter(v => v.id !== vehicleId)
                 );
-                toast.showToast('success', 'Success', 'Vehicle deleted successfully');
+                toast.showToast('success', 'Deleted', 'Vehicle moved to trash', {
+                  label: 'Undo',
+                  onPress: () => handleRestoreVehicle(vehicleId),
+                });
               } catch (error) {
                 console.error('Delete error:', error);
                 toast.showToast('error', 'Error', 'Failed to delete vehicle. Please try again.');
@@ -160,9 +179,13 @@ export default function VehicleListScreen() {
           <Ionicons name="arrow-back" size={24} color="black" />
         </TouchableOpacity>
         <Text style={styles.headerTitle}>Vehicles</Text>
-        <TouchableOpacity onPress={handleAddVehicle}>
-          <Ionicons name="add" size={24} color="black" />
-        </TouchableOpacity>
+        {can('vehicles:write') ? (
+          <TouchableOpacity onPress={handleAddVehicle}>
+            <Ionicons name="add" size={24} color="black" />
+          </TouchableOpacity>
+        ) : (
+          <View style={{ width: 24 }} />
+        )}
       </View>
 
       <ScrollView 
@@ -184,7 +207,7 @@ export default function VehicleListScreen() {
           <View style={styles.emptyContainer}>
             <Ionicons name="car-outline" size={60} color="#ccc" />
             <Text style={styles.emptyText}>No vehicles found</Text>
-            {user?.role === 'Admin' && (
+            {can('vehicles:write') && (
               <TouchableOpacity 
                 style={styles.emptyButton} 
                 onPress={handleAddVehicle}
@@ -199,7 +222,7 @@ export default function VehicleListScreen() {
               <VehicleCard 
                 key={vehicle.id} 
                 vehicle={vehicle} 
-                onDelete={user?.role === 'Admin' ? handleDeleteVehicle : undefined}
+                onDelete={can('vehicles:delete') ? handleDeleteVehicle : undefined}
                 onViewDetails={handleViewDetails}
               />
             ))}
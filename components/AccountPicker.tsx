@@ -0,0 +1,92 @@
+import React, { useEffect } from 'react';
+import { StyleSheet, Text, TouchableOpacity, ScrollView, ActivityIndicator } from 'react-native';
+import { useAccounts } from '@/hooks/useAccounts';
+
+type AccountPickerProps = {
+  value?: string;
+  onChange: (accountName: string) => void;
+  disabled?: boolean;
+  // Pick the first active account while nothing is selected. Leave off when
+  // editing, so records without an account are assigned on purpose.
+  autoSelect?: boolean;
+};
+
+// Pick the account an earning is booked against; archived accounts are only shown when already selected
+export function AccountPicker({ value, onChange, disabled, autoSelect = false }: AccountPickerProps) {
+  const { activeAccounts, isLoading } = useAccounts();
+  const names = activeAccounts.map(account => account.name);
+  if (value && !names.includes(value)) {
+    names.push(value);
+  }
+
+  const firstName = names[0];
+  useEffect(() => {
+    if (autoSelect && !value && firstName) {
+      onChange(firstName);
+    }
+  }, [autoSelect, value, firstName, onChange]);
+
+  const renderChip = (label: string, isActive: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, isActive && styles.activeChip]}
+      onPress={onPress}
+      disabled={disabled}
+    >
+      <Text style={[styles.chipText, isActive && styles.activeChipText]} numberOfLines={1}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  if (isLoading && names.length === 0) {
+    return <ActivityIndicator size="small" color="#000" style={styles.loading} />;
+  }
+
+  if (names.length === 0) {
+    return <Text style={styles.emptyText}>No active accounts. An admin needs to add one first.</Text>;
+  }
+
+  return (
+    <>
+      {!value && <Text style={styles.promptText}>Choose the account this earning is booked against</Text>}
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        {names.map(name => renderChip(name, value === name, () => onChange(name)))}
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  loading: {
+    alignSelf: 'flex-start',
+    marginVertical: 8,
+  },
+  promptText: {
+    fontSize: 13,
+    color: '#FF9800',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#E53935',
+    marginVertical: 8,
+  },
+  chip: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 20,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+    maxWidth: 200,
+  },
+  activeChip: {
+    backgroundColor: '#000',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  activeChipText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
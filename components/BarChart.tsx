@@ -0,0 +1,121 @@
+import React from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, ScrollView } from 'react-native';
+
+type BarChartSeries = {
+  label: string;
+  color: string;
+};
+
+type BarChartProps = {
+  labels: string[];
+  // One array per series, each with a value per label
+  values: number[][];
+  series: BarChartSeries[];
+  selectedIndex?: number | null;
+  onSelect?: (index: number) => void;
+  height?: number;
+};
+
+const BAR_GROUP_WIDTH = 44;
+
+// Grouped bar chart drawn with plain views; tap a group to select it
+export function BarChart({ labels, values, series, selectedIndex, onSelect, height = 160 }: BarChartProps) {
+  const maxValue = Math.max(1, ...values.flat());
+
+  return (
+    <View>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chart}>
+        {labels.map((label, index) => (
+          <TouchableOpacity
+            key={`${label}-${index}`}
+            style={[styles.group, selectedIndex === index && styles.selectedGroup]}
+            onPress={() => onSelect?.(index)}
+            activeOpacity={0.7}
+          >
+            <View style={[styles.bars, { height }]}>
+              {series.map((item, seriesIndex) => (
+                <View
+                  key={item.label}
+                  style={[
+                    styles.bar,
+                    {
+                      height: Math.max((values[seriesIndex][index] / maxValue) * height, 2),
+                      backgroundColor: item.color,
+                    },
+                  ]}
+                />
+              ))}
+            </View>
+            <Text style={[styles.label, selectedIndex === index && styles.selectedLabel]} numberOfLines={1}>
+              {label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      <View style={styles.legend}>
+        {series.map(item => (
+          <View key={item.label} style={styles.legendItem}>
+            <View style={[styles.legendDot, { backgroundColor: item.color }]} />
+            <Text style={styles.legendText}>{item.label}</Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chart: {
+    alignItems: 'flex-end',
+    paddingHorizontal: 4,
+  },
+  group: {
+    width: BAR_GROUP_WIDTH,
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  selectedGroup: {
+    backgroundColor: '#f0f0f0',
+  },
+  bars: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+  },
+  bar: {
+    width: 10,
+    marginHorizontal: 1,
+    borderTopLeftRadius: 3,
+    borderTopRightRadius: 3,
+  },
+  label: {
+    marginTop: 6,
+    fontSize: 11,
+    color: '#888',
+  },
+  selectedLabel: {
+    color: '#000',
+    fontWeight: '600',
+  },
+  legend: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginTop: 12,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 8,
+  },
+  legendDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 4,
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#666',
+  },
+});
@@ -0,0 +1,77 @@
+import React from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, ScrollView } from 'react-native';
+import type { ColumnMapping, ImportField } from '@/services/import.service';
+
+type ColumnMapperProps<K extends string> = {
+  header: string[];
+  fields: ImportField<K>[];
+  mapping: ColumnMapping<K>;
+  onChange: (key: K, column: number | undefined) => void;
+};
+
+// Pick the CSV column for each field of an import
+export function ColumnMapper<K extends string>({ header, fields, mapping, onChange }: ColumnMapperProps<K>) {
+  const renderChip = (label: string, isActive: boolean, onPress: () => void, key: string) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, isActive && styles.activeChip]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, isActive && styles.activeChipText]} numberOfLines={1}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View>
+      {fields.map(field => (
+        <View key={field.key} style={styles.field}>
+          <Text style={styles.fieldLabel}>
+            {field.label}
+            {field.required && <Text style={styles.required}> *</Text>}
+          </Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            {!field.required &&
+              renderChip('None', mapping[field.key] === undefined, () => onChange(field.key, undefined), 'none')}
+            {header.map((name, index) =>
+              renderChip(name || `Column ${index + 1}`, mapping[field.key] === index, () => onChange(field.key, index), String(index))
+            )}
+          </ScrollView>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  field: {
+    marginBottom: 12,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 6,
+  },
+  required: {
+    color: '#ff3b30',
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+    maxWidth: 180,
+  },
+  activeChip: {
+    backgroundColor: '#000',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  activeChipText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,47 @@
+import React from 'react';
+import { StyleSheet, View, Text } from 'react-native';
+import type { ExpenseStatus } from '@/services/api.types';
+import { EXPENSE_STATUS_COLORS, EXPENSE_STATUS_LABELS, getExpenseStatus } from '@/services/review.service';
+
+type ExpenseStatusBadgeProps = {
+  status?: ExpenseStatus | string;
+  rejectionReason?: string;
+};
+
+// Where an expense is in review, with the reason when it was rejected
+export function ExpenseStatusBadge({ status, rejectionReason }: ExpenseStatusBadgeProps) {
+  const current = getExpenseStatus({ status });
+  const color = EXPENSE_STATUS_COLORS[current];
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.badge, { backgroundColor: `${color}1A` }]}>
+        <Text style={[styles.badgeText, { color }]}>{EXPENSE_STATUS_LABELS[current]}</Text>
+      </View>
+      {current === 'rejected' && !!rejectionReason && (
+        <Text style={styles.reason} numberOfLines={2}>{rejectionReason}</Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 4,
+  },
+  badge: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  badgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  reason: {
+    fontSize: 12,
+    color: '#FF3B30',
+    marginTop: 2,
+  },
+});
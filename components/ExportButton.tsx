@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, Modal, ActivityIndicator, StyleProp, ViewStyle } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useToast } from '@/contexts/ToastContext';
+import { EXPORT_FORMAT_LABELS, ExportFormat } from '@/services/export.service';
+
+type ExportOption = ExportFormat | 'pdf';
+
+type ExportButtonProps = {
+  style?: StyleProp<ViewStyle>;
+  disabled?: boolean;
+  // Offer the PDF statement alongside the spreadsheet formats
+  onExportPdf?: () => Promise<void>;
+  onExport: (format: ExportFormat) => Promise<void>;
+};
+
+const OPTIONS: { format: ExportOption; label: string; icon: React.ComponentProps<typeof Ionicons>['name'] }[] = [
+  { format: 'pdf', label: 'PDF Statement', icon: 'document-text-outline' },
+  { format: 'csv', label: EXPORT_FORMAT_LABELS.csv, icon: 'document-outline' },
+  { format: 'xlsx', label: EXPORT_FORMAT_LABELS.xlsx, icon: 'grid-outline' },
+];
+
+// Header button that asks for a format, then exports the rows on screen
+export function ExportButton({ style, disabled = false, onExportPdf, onExport }: ExportButtonProps) {
+  const { showToast } = useToast();
+  const [showOptions, setShowOptions] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const options = OPTIONS.filter(option => option.format !== 'pdf' || onExportPdf);
+
+  const handleSelect = async (format: ExportOption) => {
+    setShowOptions(false);
+    try {
+      setIsExporting(true);
+      if (format === 'pdf') {
+        await onExportPdf?.();
+      } else {
+        await onExport(format);
+      }
+    } catch (error: any) {
+      showToast('error', 'Export Failed', error.message || 'Failed to export. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <TouchableOpacity
+        style={style}
+        onPress={() => setShowOptions(true)}
+        disabled={disabled || isExporting}
+      >
+        {isExporting ? (
+          <ActivityIndicator size="small" color="#000" />
+        ) : (
+          <Ionicons name="download-outline" size={24} color={disabled ? '#ccc' : '#000'} />
+        )}
+      </TouchableOpacity>
+
+      <Modal
+        visible={showOptions}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setShowOptions(false)}
+      >
+        <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={() => setShowOptions(false)}>
+          <View style={styles.menu}>
+            <Text style={styles.title}>Export as</Text>
+            {options.map(option => (
+              <TouchableOpacity key={option.format} style={styles.option} onPress={() => handleSelect(option.format)}>
+                <Ionicons name={option.icon} size={20} color="#000" />
+                <Text style={styles.optionText}>{option.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </TouchableOpacity>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  menu: {
+    width: '80%',
+    backgroundColor: '#fff',
+    borderRadius: 15,
+    paddingVertical: 10,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  optionText: {
+    fontSize: 16,
+    marginLeft: 12,
+  },
+});
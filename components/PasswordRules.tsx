@@ -0,0 +1,44 @@
+import React from 'react';
+import { StyleSheet, View, Text } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { PASSWORD_RULES } from '@/utils/password';
+
+// Checklist of the password strength rules, ticked off as they are met
+export function PasswordRules({ password }: { password: string }) {
+  return (
+    <View style={styles.container}>
+      {PASSWORD_RULES.map(rule => {
+        const isMet = rule.test(password);
+        return (
+          <View key={rule.label} style={styles.rule}>
+            <Ionicons
+              name={isMet ? 'checkmark-circle' : 'ellipse-outline'}
+              size={16}
+              color={isMet ? '#4CAF50' : '#999'}
+            />
+            <Text style={[styles.ruleText, isMet && styles.metText]}>{rule.label}</Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  rule: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  ruleText: {
+    marginLeft: 8,
+    fontSize: 13,
+    color: '#666',
+  },
+  metText: {
+    color: '#333',
+  },
+});
@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import { getSalaryRule } from '@/services/salary.service';
+import { getPeriodRecords } from '@/services/report.service';
+import { buildProfitLoss } from '@/services/settlement.service';
+import { generateProfitLossPDF } from '@/services/pdf.service';
+import type { StatementFilters } from '@/services/statement.template';
+import { StatementBuilder } from './StatementBuilder';
+
+type ProfitLossStatementProps = {
+  visible: boolean;
+  driver: { id: string; name: string };
+  onClose: () => void;
+};
+
+// Pick a period, then build and share the driver's profit-and-loss PDF
+export function ProfitLossStatement({ visible, driver, onClose }: ProfitLossStatementProps) {
+  const { authToken } = useAuth();
+  const { showToast } = useToast();
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const handleGenerate = async ({ startDate, endDate }: StatementFilters) => {
+    const range = { startDate, endDate };
+
+    try {
+      setIsGenerating(true);
+      const [records, rule] = await Promise.all([
+        getPeriodRecords(range, driver.id, authToken),
+        getSalaryRule(driver.id, authToken),
+      ]);
+
+      const profitLoss = buildProfitLoss(range, records, rule);
+
+      await generateProfitLossPDF(profitLoss, driver);
+      onClose();
+      showToast('success', 'Success', 'Profit and loss statement has been generated and is ready to share.');
+    } catch (error: any) {
+      showToast('error', 'Error', error.message || 'Failed to generate profit and loss statement');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <StatementBuilder
+      visible={visible}
+      title="Profit & Loss Statement"
+      isGenerating={isGenerating}
+      onClose={onClose}
+      onGenerate={handleGenerate}
+    />
+  );
+}
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { StyleSheet, View, TouchableOpacity, Image, Modal, ScrollView, Dimensions, StyleProp, ViewStyle } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+type ReceiptGalleryProps = {
+  receipts?: string[];
+  // Thumbnail width and height
+  size?: number;
+  style?: StyleProp<ViewStyle>;
+};
+
+// Receipt thumbnails; tapping one opens the photos full screen
+export function ReceiptGallery({ receipts, size = 40, style }: ReceiptGalleryProps) {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const { width, height } = Dimensions.get('window');
+
+  if (!receipts || receipts.length === 0) return null;
+
+  return (
+    <>
+      <View style={[styles.row, style]}>
+        {receipts.map((uri, index) => (
+          <TouchableOpacity key={uri} onPress={() => setOpenIndex(index)}>
+            <Image source={{ uri }} style={[styles.thumbnail, { width: size, height: size }]} />
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Modal
+        visible={openIndex !== null}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setOpenIndex(null)}
+      >
+        <View style={styles.viewer}>
+          <ScrollView
+            horizontal
+            pagingEnabled
+            showsHorizontalScrollIndicator={false}
+            contentOffset={{ x: (openIndex || 0) * width, y: 0 }}
+          >
+            {receipts.map(uri => (
+              <Image
+                key={uri}
+                source={{ uri }}
+                style={{ width, height: height * 0.8 }}
+                resizeMode="contain"
+              />
+            ))}
+          </ScrollView>
+          <TouchableOpacity style={styles.closeButton} onPress={() => setOpenIndex(null)}>
+            <Ionicons name="close" size={28} color="#fff" />
+          </TouchableOpacity>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  thumbnail: {
+    borderRadius: 6,
+    marginRight: 6,
+    marginTop: 6,
+    backgroundColor: '#f0f0f0',
+  },
+  viewer: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.9)',
+    justifyContent: 'center',
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 50,
+    right: 20,
+    padding: 8,
+  },
+});
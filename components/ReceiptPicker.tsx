@@ -0,0 +1,94 @@
+import React from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, ScrollView, Image } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useToast } from '@/contexts/ToastContext';
+import { ReceiptSource, pickReceipts } from '@/services/receipt.service';
+
+type ReceiptPickerProps = {
+  receipts: string[];
+  onChange: (receipts: string[]) => void;
+  disabled?: boolean;
+};
+
+const THUMBNAIL_SIZE = 72;
+
+// Attach receipt photos to a new expense from the camera or library
+export function ReceiptPicker({ receipts, onChange, disabled = false }: ReceiptPickerProps) {
+  const { showToast } = useToast();
+
+  const handleAdd = async (source: ReceiptSource) => {
+    try {
+      const picked = await pickReceipts(source);
+      if (picked.length > 0) {
+        onChange([...receipts, ...picked]);
+      }
+    } catch (error: any) {
+      showToast('error', 'Permission Required', error.message || 'Failed to attach receipt');
+    }
+  };
+
+  const handleRemove = (uri: string) => {
+    onChange(receipts.filter(item => item !== uri));
+  };
+
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.container}>
+      {receipts.map(uri => (
+        <View key={uri} style={styles.thumbnail}>
+          <Image source={{ uri }} style={styles.image} />
+          <TouchableOpacity style={styles.removeButton} onPress={() => handleRemove(uri)} disabled={disabled}>
+            <Ionicons name="close-circle" size={22} color="#ff3b30" />
+          </TouchableOpacity>
+        </View>
+      ))}
+      <TouchableOpacity style={styles.addButton} onPress={() => handleAdd('camera')} disabled={disabled}>
+        <Ionicons name="camera-outline" size={24} color="#666" />
+        <Text style={styles.addText}>Camera</Text>
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.addButton} onPress={() => handleAdd('library')} disabled={disabled}>
+        <Ionicons name="images-outline" size={24} color="#666" />
+        <Text style={styles.addText}>Library</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingTop: 8,
+  },
+  thumbnail: {
+    width: THUMBNAIL_SIZE,
+    height: THUMBNAIL_SIZE,
+    marginRight: 10,
+  },
+  image: {
+    width: '100%',
+    height: '100%',
+    borderRadius: 10,
+    backgroundColor: '#f0f0f0',
+  },
+  removeButton: {
+    position: 'absolute',
+    top: -8,
+    right: -8,
+    backgroundColor: '#fff',
+    borderRadius: 11,
+  },
+  addButton: {
+    width: THUMBNAIL_SIZE,
+    height: THUMBNAIL_SIZE,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderStyle: 'dashed',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 10,
+  },
+  addText: {
+    fontSize: 11,
+    color: '#666',
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,51 @@
+import React, { useEffect } from 'react';
+import { router, usePathname } from 'expo-router';
+import { View, ActivityIndicator, Text, StyleSheet } from 'react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { canAccessRoute, getHomeRoute } from '@/services/permissions';
+
+type RouteGuardProps = {
+  children: React.ReactNode;
+};
+
+// Sends signed-out users to login and users without the route's permission to their dashboard
+export function RouteGuard({ children }: RouteGuardProps) {
+  const { user, loading, isAuthenticated } = useAuth();
+  const pathname = usePathname();
+  const isAllowed = !user || canAccessRoute(user.role, pathname);
+
+  useEffect(() => {
+    if (loading) return;
+
+    if (!isAuthenticated) {
+      router.replace('/auth/login');
+    } else if (!isAllowed) {
+      router.replace(getHomeRoute(user?.role) as any);
+    }
+  }, [loading, isAuthenticated, isAllowed, user?.role]);
+
+  if (loading || !isAuthenticated || !isAllowed) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#000" />
+        <Text style={styles.loadingText}>{loading ? 'Loading...' : 'Redirecting...'}</Text>
+      </View>
+    );
+  }
+
+  return <>{children}</>;
+}
+
+const styles = StyleSheet.create({
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#000',
+  },
+});
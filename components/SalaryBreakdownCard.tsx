@@ -0,0 +1,125 @@
+import React from 'react';
+import { StyleSheet, View, Text, ActivityIndicator } from 'react-native';
+import { SalaryBreakdown, describeSalaryRule } from '@/services/salary.service';
+
+type SalaryBreakdownCardProps = {
+  title?: string;
+  breakdown: SalaryBreakdown | null;
+  isLoading?: boolean;
+};
+
+const formatAmount = (value: number) =>
+  `${value < 0 ? '-' : ''}AED ${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// Line-by-line explanation of how a driver's salary was calculated
+export function SalaryBreakdownCard({ title = 'Salary Breakdown', breakdown, isLoading }: SalaryBreakdownCardProps) {
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>{title}</Text>
+
+      {isLoading ? (
+        <ActivityIndicator size="small" color="#000" style={styles.loader} />
+      ) : !breakdown ? (
+        <Text style={styles.empty}>Salary could not be calculated</Text>
+      ) : (
+        <>
+          <Text style={styles.rule}>{describeSalaryRule(breakdown.rule)}</Text>
+
+          {breakdown.lines.length === 0 ? (
+            <Text style={styles.empty}>No earnings in this period</Text>
+          ) : (
+            breakdown.lines.map((line, index) => (
+              <View key={`${line.label}-${index}`} style={styles.row}>
+                <View style={styles.rowLabel}>
+                  <Text style={styles.label}>{line.label}</Text>
+                  {line.detail ? <Text style={styles.detail}>{line.detail}</Text> : null}
+                </View>
+                <Text style={[styles.amount, line.amount < 0 && styles.negative]}>{formatAmount(line.amount)}</Text>
+              </View>
+            ))
+          )}
+
+          <View style={[styles.row, styles.totalRow]}>
+            <Text style={styles.totalLabel}>Salary</Text>
+            <Text style={[styles.totalAmount, breakdown.amount < 0 && styles.negative]}>
+              {formatAmount(breakdown.amount)}
+            </Text>
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    padding: 16,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  rule: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  loader: {
+    marginVertical: 16,
+  },
+  empty: {
+    fontSize: 14,
+    color: '#999',
+    paddingVertical: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    paddingVertical: 8,
+  },
+  rowLabel: {
+    flex: 1,
+    marginRight: 12,
+  },
+  label: {
+    fontSize: 14,
+    color: '#333',
+  },
+  detail: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+  amount: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+  },
+  negative: {
+    color: '#ff4444',
+  },
+  totalRow: {
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+    marginTop: 4,
+    paddingTop: 12,
+  },
+  totalLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#000',
+  },
+  totalAmount: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#000',
+  },
+});
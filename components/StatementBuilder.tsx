@@ -0,0 +1,285 @@
+import React, { useState } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, TextInput, Modal, ScrollView, ActivityIndicator } from 'react-native';
+import type { StatementFilters } from '@/services/statement.template';
+import { getMonthRange, toDateString } from '@/utils/date';
+
+type PeriodPreset = 'this-month' | 'last-month' | 'last-3-months' | 'this-year' | 'custom';
+
+type StatementBuilderProps = {
+  visible: boolean;
+  title: string;
+  // e.g. "Category" or "Payment Type"; leave out for statements that can't be filtered by category
+  categoryLabel?: string;
+  categories?: string[];
+  // Leave out for statements that can't be filtered by account
+  accounts?: string[];
+  isGenerating?: boolean;
+  onClose: () => void;
+  onGenerate: (filters: StatementFilters) => void;
+};
+
+const PRESETS: { id: PeriodPreset; label: string }[] = [
+  { id: 'this-month', label: 'This Month' },
+  { id: 'last-month', label: 'Last Month' },
+  { id: 'last-3-months', label: 'Last 3 Months' },
+  { id: 'this-year', label: 'This Year' },
+  { id: 'custom', label: 'Custom' },
+];
+
+const getPresetRange = (preset: Exclude<PeriodPreset, 'custom'>) => {
+  const today = new Date();
+  switch (preset) {
+    case 'last-month':
+      return getMonthRange(new Date(today.getFullYear(), today.getMonth() - 1, 1));
+    case 'last-3-months':
+      return {
+        startDate: toDateString(new Date(today.getFullYear(), today.getMonth() - 2, 1)),
+        endDate: getMonthRange(today).endDate,
+      };
+    case 'this-year':
+      return {
+        startDate: toDateString(new Date(today.getFullYear(), 0, 1)),
+        endDate: toDateString(new Date(today.getFullYear(), 11, 31)),
+      };
+    default:
+      return getMonthRange(today);
+  }
+};
+
+const isDateString = (value: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime());
+
+// Modal for choosing the period, categories and account a statement covers
+export function StatementBuilder({
+  visible,
+  title,
+  categoryLabel,
+  categories,
+  accounts,
+  isGenerating = false,
+  onClose,
+  onGenerate,
+}: StatementBuilderProps) {
+  const [preset, setPreset] = useState<PeriodPreset>('this-month');
+  const [customRange, setCustomRange] = useState(getMonthRange());
+  const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
+  const [account, setAccount] = useState<string | undefined>(undefined);
+
+  const range = preset === 'custom' ? customRange : getPresetRange(preset);
+  const rangeError = !isDateString(range.startDate) || !isDateString(range.endDate)
+    ? 'Enter dates as YYYY-MM-DD'
+    : range.startDate > range.endDate
+      ? 'Start date must be before end date'
+      : null;
+
+  const toggleCategory = (category: string) => {
+    setSelectedCategories(prev =>
+      prev.includes(category) ? prev.filter(item => item !== category) : [...prev, category]
+    );
+  };
+
+  const handleGenerate = () => {
+    if (rangeError) return;
+    onGenerate({ ...range, categories: selectedCategories, account });
+  };
+
+  const renderChip = (label: string, isActive: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, isActive && styles.activeChip]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, isActive && styles.activeChipText]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <Text style={styles.title}>{title}</Text>
+
+          <ScrollView showsVerticalScrollIndicator={false}>
+            <Text style={styles.sectionLabel}>Period</Text>
+            <View style={styles.chips}>
+              {PRESETS.map(item => renderChip(item.label, preset === item.id, () => setPreset(item.id)))}
+            </View>
+
+            {preset === 'custom' ? (
+              <View style={styles.dateRow}>
+                <TextInput
+                  style={styles.dateInput}
+                  value={customRange.startDate}
+                  onChangeText={startDate => setCustomRange(prev => ({ ...prev, startDate }))}
+                  placeholder="YYYY-MM-DD"
+                  placeholderTextColor="#999"
+                />
+                <Text style={styles.dateSeparator}>to</Text>
+                <TextInput
+                  style={styles.dateInput}
+                  value={customRange.endDate}
+                  onChangeText={endDate => setCustomRange(prev => ({ ...prev, endDate }))}
+                  placeholder="YYYY-MM-DD"
+                  placeholderTextColor="#999"
+                />
+              </View>
+            ) : (
+              <Text style={styles.rangeText}>{range.startDate} to {range.endDate}</Text>
+            )}
+            {rangeError && <Text style={styles.errorText}>{rangeError}</Text>}
+
+            {categories && (
+              <>
+                <Text style={styles.sectionLabel}>{categoryLabel || 'Category'}</Text>
+                <View style={styles.chips}>
+                  {renderChip('All', selectedCategories.length === 0, () => setSelectedCategories([]))}
+                  {categories.map(category =>
+                    renderChip(category, selectedCategories.includes(category), () => toggleCategory(category))
+                  )}
+                </View>
+              </>
+            )}
+
+            {accounts && (
+              <>
+                <Text style={styles.sectionLabel}>Account</Text>
+                <View style={styles.chips}>
+                  {renderChip('All', !account, () => setAccount(undefined))}
+                  {accounts.map(item => renderChip(item, account === item, () => setAccount(item)))}
+                </View>
+              </>
+            )}
+          </ScrollView>
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose} disabled={isGenerating}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.generateButton, (isGenerating || !!rangeError) && styles.disabledButton]}
+              onPress={handleGenerate}
+              disabled={isGenerating || !!rangeError}
+            >
+              {isGenerating ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={styles.generateText}>Generate PDF</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    maxHeight: '85%',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 10,
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  activeChip: {
+    backgroundColor: '#000',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  activeChipText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  rangeText: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 4,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  dateInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+  },
+  dateSeparator: {
+    marginHorizontal: 10,
+    color: '#666',
+  },
+  errorText: {
+    color: '#ff3b30',
+    fontSize: 12,
+    marginTop: 6,
+  },
+  actions: {
+    flexDirection: 'row',
+    marginTop: 20,
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: '#f0f0f0',
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  cancelText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  generateButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: '#000',
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  generateText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+});
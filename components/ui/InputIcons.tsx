@@ -25,6 +25,8 @@ function getIconName(name: string): MaterialIconName {
       return 'mail-outline';
     case 'lock.fill':
       return 'lock-outline';
+    case 'key.fill':
+      return 'vpn-key';
     case 'eye.fill':
       return 'visibility';
     case 'eye.slash.fill':
@@ -1,11 +1,10 @@
-import React, { createContext, useState, useContext, useEffect } from 'react';
-import { router } from 'expo-router';
+import React, { createContext, useState, useContext, useEffect, useRef } from 'react';
+import { router, useGlobalSearchParams, usePathname } from 'expo-router';
 import { login, signup, logout, getCurrentUser, isLoggedIn, getProfile } from '@/services/auth.service';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-
-// Constants
-const TOKEN_KEY = 'fleetx_auth_token';
-const USER_KEY = 'fleetx_user';
+import { onSessionExpired } from '@/services/api.client';
+import { clearQueryCache } from '@/services/query.cache';
+import { getAccessToken, onAccessTokenChange, saveUser } from '@/services/token.store';
+import { useToast } from '@/contexts/ToastContext';
 
 // Types
 type User = {
@@ -25,6 +24,13 @@ type SignupData = {
   role?: string;
 };
 
+// Screen to return to after logging in again following a session expiry
+type ReturnTo = {
+  userId: string;
+  pathname: string;
+  params: Record<string, string | string[]>;
+};
+
 type AuthContextType = {
   user: User | null;
   loading: boolean;
@@ -61,6 +67,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [loading, setLoading] = useState(true);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [token, setToken] = useState<string | null>(null);
+  const returnToRef = useRef<ReturnTo | null>(null);
+  const { showToast } = useToast();
+  const pathname = usePathname();
+  const searchParams = useGlobalSearchParams();
 
   // Navigate to appropriate dashboard based on user role
   const navigateByRole = () => {
@@ -76,7 +86,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const refreshUser = async () => {
     try {
       // Get the latest token
-      const currentToken = await AsyncStorage.getItem(TOKEN_KEY);
+      const currentToken = await getAccessToken();
       if (!currentToken) {
         setIsAuthenticated(false);
         setUser(null);
@@ -87,8 +97,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       const profileData = await getProfile();
       
       if (profileData && profileData.user) {
-        // Update local storage
-        await AsyncStorage.setItem(USER_KEY, JSON.stringify(profileData.user));
+        // Update the stored session
+        await saveUser(profileData.user);
         
         // Update state
         setUser(profileData.user);
@@ -99,6 +109,35 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  // Sign out locally when the API rejects the stored token
+  useEffect(() => {
+    return onSessionExpired(() => {
+      // Remember where the user was so they land there again after logging in
+      if (user && !pathname.startsWith('/auth')) {
+        returnToRef.current = {
+          userId: user.id,
+          pathname,
+          params: searchParams as Record<string, string | string[]>,
+        };
+      }
+
+      setUser(null);
+      setToken(null);
+      setIsAuthenticated(false);
+      clearQueryCache();
+
+      showToast('error', 'Session expired', 'Please log in again to continue.');
+      router.replace('/auth/login');
+    });
+  }, [user, pathname, searchParams, showToast]);
+
+  // Keep the token in step with refreshes done by the API client
+  useEffect(() => {
+    return onAccessTokenChange(accessToken => {
+      if (accessToken) setToken(accessToken);
+    });
+  }, []);
+
   // Load user and token on mount
   useEffect(() => {
     const loadUser = async () => {
@@ -108,7 +147,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         
         if (authStatus) {
           const userData = await getCurrentUser();
-          const storedToken = await AsyncStorage.getItem(TOKEN_KEY);
+          const storedToken = await getAccessToken();
           
           // Check if the user is active before authenticating
           if (userData && userData.isActive === false) {
@@ -166,8 +205,16 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       setToken(response.token);
       setIsAuthenticated(true);
       
-      // Only navigate if auth was successful
-      router.replace('/(tabs)');
+      // Only navigate if auth was successful, returning to the screen the
+      // same user was on when their previous session expired
+      const returnTo = returnToRef.current;
+      returnToRef.current = null;
+
+      if (returnTo && returnTo.userId === response.user.id) {
+        router.replace({ pathname: returnTo.pathname, params: returnTo.params } as any);
+      } else {
+        router.replace('/(tabs)');
+      }
     } catch (error) {
       // Clear any partial auth state
       setUser(null);
@@ -202,6 +249,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     try {
       setLoading(true);
       await logout();
+      returnToRef.current = null;
       setUser(null);
       setToken(null);
       setIsAuthenticated(false);
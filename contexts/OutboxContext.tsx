@@ -0,0 +1,140 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import {
+  OutboxEntry,
+  OutboxKind,
+  SubmitResult,
+  discardOutboxEntry,
+  flushOutbox,
+  getNextRetryAt,
+  getUserOutboxEntries,
+  onOutboxChange,
+  submitTransaction,
+} from '@/services/outbox.service';
+import { assertPeriodOpen } from '@/services/settlement.service';
+
+// Types
+type OutboxContextType = {
+  // Entries captured by the current user that have not reached the server
+  pendingEntries: OutboxEntry[];
+  syncing: boolean;
+  submit: (kind: OutboxKind, payload: any) => Promise<SubmitResult>;
+  syncNow: () => Promise<void>;
+  discard: (id: string) => Promise<void>;
+};
+
+const OutboxContext = createContext<OutboxContextType | undefined>(undefined);
+
+// Provider component
+export const OutboxProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user, token, isAuthenticated } = useAuth();
+  const { showToast } = useToast();
+  const [pendingEntries, setPendingEntries] = useState<OutboxEntry[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const retryTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const userId = isAuthenticated && user ? user.id : null;
+
+  // Replay queued entries and report what was delivered
+  const sync = useCallback(async (force = false) => {
+    if (!userId) return;
+
+    try {
+      setSyncing(true);
+      const result = await flushOutbox(userId, { force });
+
+      if (result.sent > 0) {
+        showToast('success', 'Synced', `${result.sent} offline ${result.sent === 1 ? 'entry was' : 'entries were'} uploaded`);
+        // Let the driver dashboard pick up the new records
+        if (global && (global as any).refreshDriverDashboard) {
+          (global as any).refreshDriverDashboard();
+        }
+      }
+      if (result.failed > 0) {
+        showToast('error', 'Sync failed', `${result.failed} offline ${result.failed === 1 ? 'entry was' : 'entries were'} rejected by the server`);
+      }
+    } catch (error) {
+      console.error('Error syncing outbox:', error);
+    } finally {
+      setSyncing(false);
+    }
+  }, [userId, showToast]);
+
+  // Keep the pending list in sync with storage and schedule the next retry
+  useEffect(() => {
+    if (!userId) {
+      setPendingEntries([]);
+      return;
+    }
+
+    const schedule = (entries: OutboxEntry[]) => {
+      setPendingEntries(entries.filter(entry => entry.userId === userId));
+
+      if (retryTimer.current) {
+        clearTimeout(retryTimer.current);
+        retryTimer.current = null;
+      }
+
+      const nextRetryAt = getNextRetryAt(entries, userId);
+      if (nextRetryAt !== null) {
+        retryTimer.current = setTimeout(() => sync(), Math.max(nextRetryAt - Date.now(), 1000));
+      }
+    };
+
+    const unsubscribe = onOutboxChange(schedule);
+    getUserOutboxEntries(userId).then(schedule);
+
+    // Anything left over from a previous session goes out straight away
+    sync(true);
+
+    return () => {
+      unsubscribe();
+      if (retryTimer.current) {
+        clearTimeout(retryTimer.current);
+        retryTimer.current = null;
+      }
+    };
+  }, [userId, sync]);
+
+  // Retry whenever the app comes back to the foreground
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        sync(true);
+      }
+    });
+    return () => subscription.remove();
+  }, [sync]);
+
+  const submit = async (kind: OutboxKind, payload: any) => {
+    if (!userId) {
+      throw new Error('Authentication required');
+    }
+    // Settled months are locked; fail before anything is queued
+    await assertPeriodOpen(payload.driverId || userId, payload.date, token);
+    return submitTransaction(kind, payload, userId, token);
+  };
+
+  const value = {
+    pendingEntries,
+    syncing,
+    submit,
+    syncNow: () => sync(true),
+    discard: discardOutboxEntry,
+  };
+
+  return <OutboxContext.Provider value={value}>{children}</OutboxContext.Provider>;
+};
+
+// Hook to use the outbox context
+export const useOutbox = () => {
+  const context = useContext(OutboxContext);
+
+  if (context === undefined) {
+    throw new Error('useOutbox must be used within an OutboxProvider');
+  }
+
+  return context;
+};
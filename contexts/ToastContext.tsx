@@ -1,19 +1,53 @@
-import React, { createContext, useContext } from 'react';
-import Toast, { BaseToast, ErrorToast } from 'react-native-toast-message';
-import { StyleSheet } from 'react-native';
+import React, { createContext, useCallback, useContext } from 'react';
+import Toast, { BaseToast, ErrorToast, ToastConfigParams } from 'react-native-toast-message';
+import { StyleSheet, Text, TouchableOpacity } from 'react-native';
 
 // Types
 type ToastType = 'success' | 'error' | 'info';
 
+// A button shown on the toast, e.g. Undo after a delete
+export type ToastAction = {
+  label: string;
+  onPress: () => void;
+};
+
 type ToastContextType = {
-  showToast: (type: ToastType, text1: string, text2?: string) => void;
+  showToast: (type: ToastType, text1: string, text2?: string, action?: ToastAction) => void;
+};
+
+// Data passed to the custom toasts through Toast.show({ props })
+type ToastProps = {
+  action?: ToastAction;
+};
+
+// The toast's action button, e.g. Undo after a delete
+const ToastActionButton = ({ action }: { action: ToastAction }) => (
+  <TouchableOpacity
+    style={styles.actionButton}
+    onPress={() => {
+      Toast.hide();
+      action.onPress();
+    }}
+  >
+    <Text style={styles.actionText}>{action.label}</Text>
+  </TouchableOpacity>
+);
+
+// Trailing icon renderer for toasts that carry an action
+const renderAction = ({ props }: ToastConfigParams<ToastProps>) => {
+  const action = props?.action;
+  if (!action) return undefined;
+  return function ToastActionIcon() {
+    return <ToastActionButton action={action} />;
+  };
 };
 
 // Custom toast config
 const toastConfig = {
-  success: (props: any) => (
+  success: (props: ToastConfigParams<ToastProps>) => (
     <BaseToast
       {...props}
+      renderTrailingIcon={renderAction(props)}
       style={{ borderLeftColor: '#2ecc71', backgroundColor: '#fff' }}
       contentContainerStyle={{ paddingHorizontal: 15 }}
       text1Style={{
@@ -25,9 +59,10 @@ const toastConfig = {
       }}
     />
   ),
-  error: (props: any) => (
+  error: (props: ToastConfigParams<ToastProps>) => (
     <ErrorToast
       {...props}
+      renderTrailingIcon={renderAction(props)}
       style={{ borderLeftColor: '#e74c3c', backgroundColor: '#fff' }}
       contentContainerStyle={{ paddingHorizontal: 15 }}
       text1Style={{
@@ -39,9 +74,10 @@ const toastConfig = {
       }}
     />
   ),
-  info: (props: any) => (
+  info: (props: ToastConfigParams<ToastProps>) => (
     <BaseToast
       {...props}
+      renderTrailingIcon={renderAction(props)}
       style={{ borderLeftColor: '#3498db', backgroundColor: '#fff' }}
       contentContainerStyle={{ paddingHorizontal: 15 }}
       text1Style={{
@@ -61,17 +97,19 @@ const ToastContext = createContext<ToastContextType | undefined>(undefined);
 // Provider component
 export const ToastProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   // Show toast notification
-  const showToast = (type: ToastType, text1: string, text2?: string) => {
+  const showToast = useCallback((type: ToastType, text1: string, text2?: string, action?: ToastAction) => {
     Toast.show({
       type,
       text1,
       text2,
+      props: { action },
       position: 'top',
-      visibilityTime: 4000,
+      // Leave time to reach the action button
+      visibilityTime: action ? 6000 : 4000,
       autoHide: true,
       topOffset: 50,
     });
-  };
+  }, []);
 
   return (
     <ToastContext.Provider value={{ showToast }}>
@@ -90,4 +128,16 @@ export const useToast = () => {
   }
   
   return context;
-}; 
\ No newline at end of file
+}; 
+const styles = StyleSheet.create({
+  actionButton: {
+    alignSelf: 'center',
+    paddingHorizontal: 15,
+    paddingVertical: 8,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#3498db',
+  },
+});
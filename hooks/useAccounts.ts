@@ -0,0 +1,20 @@
+import { useAuth } from '@/contexts/AuthContext';
+import { useQuery } from '@/hooks/useQuery';
+import { ENDPOINTS } from '@/services/api.config';
+import { queryKey } from '@/services/query.cache';
+import { getAccounts, getActiveAccounts } from '@/services/account.service';
+
+/**
+ * Earning accounts, shared through the query cache. `activeAccounts` are the
+ * ones that can be picked for new earnings.
+ */
+export function useAccounts() {
+  const { authToken } = useAuth();
+  const query = useQuery(
+    authToken ? queryKey(ENDPOINTS.ACCOUNT.GET_ALL) : null,
+    () => getAccounts(authToken)
+  );
+  const accounts = query.data || [];
+
+  return { ...query, accounts, activeAccounts: getActiveAccounts(accounts) };
+}
@@ -0,0 +1,14 @@
+import { useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Permission, can } from '@/services/permissions';
+
+/**
+ * Permission check for the signed-in user, e.g. `const can = useCan();`
+ * then `{can('vehicles:delete') && <DeleteButton />}`.
+ */
+export function useCan() {
+  const { user } = useAuth();
+  const role = user?.role;
+
+  return useCallback((permission: Permission) => can(role, permission), [role]);
+}
@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  DEFAULT_STALE_TIME,
+  QueryEntry,
+  fetchQuery,
+  getQueryEntry,
+  hydrateQueryCache,
+  subscribeQuery,
+} from '@/services/query.cache';
+
+/**
+ * Stale-while-revalidate data hook. Cached data (including data persisted
+ * from a previous launch) is returned immediately and refreshed in the
+ * background once it is older than `staleTime` or has been invalidated.
+ * Pass a null key to skip the query, e.g. while the user is still loading.
+ */
+export function useQuery<T = any>(
+  key: string | null,
+  fetcher: () => Promise<T>,
+  options: { staleTime?: number } = {}
+) {
+  const staleTime = options.staleTime ?? DEFAULT_STALE_TIME;
+  const [entry, setEntry] = useState<QueryEntry<T> | undefined>(() => (key ? getQueryEntry<T>(key) : undefined));
+  const [isFetching, setIsFetching] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  // Always call the latest fetcher without re-subscribing on every render
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  const revalidate = useCallback(async (force = false) => {
+    if (!key) return;
+
+    try {
+      setIsFetching(true);
+      await fetchQuery<T>(key, () => fetcherRef.current(), { staleTime, force });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      setIsFetching(false);
+    }
+  }, [key, staleTime]);
+
+  useEffect(() => {
+    if (!key) {
+      setEntry(undefined);
+      return;
+    }
+
+    let active = true;
+    setEntry(getQueryEntry<T>(key));
+
+    const unsubscribe = subscribeQuery(key, next => {
+      if (!active) return;
+      setEntry(next);
+      if (next?.invalidated) {
+        revalidate();
+      }
+    });
+
+    // Show persisted data first, then refresh it if needed
+    hydrateQueryCache().then(() => {
+      if (!active) return;
+      setEntry(getQueryEntry<T>(key));
+      revalidate();
+    });
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [key, revalidate]);
+
+  return {
+    data: entry?.data,
+    error,
+    // No data yet for this key
+    isLoading: !!key && entry === undefined && !error,
+    // Cached data is on screen while a newer copy is fetched
+    isRefreshing: entry !== undefined && isFetching,
+    updatedAt: entry?.updatedAt,
+    refetch: () => revalidate(true),
+  };
+}
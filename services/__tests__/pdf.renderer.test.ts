@@ -0,0 +1,104 @@
+import { PdfDocument, renderPdfBase64 } from '../pdf.renderer';
+
+jest.mock('react-native-html-to-pdf', () => ({}));
+
+const statement = (rowCount: number): PdfDocument => ({
+  title: 'Earnings Statement',
+  info: [
+    { label: 'Driver', value: 'John Doe' },
+    { label: 'Period', value: '2024-05-01 to 2024-05-31' },
+  ],
+  tables: [
+    {
+      title: 'Earnings',
+      columns: [
+        { label: 'Date', width: 0.3 },
+        { label: 'Type', width: 0.4 },
+        { label: 'Amount', width: 0.3, align: 'right' },
+      ],
+      rows: Array.from({ length: rowCount }, (_, index) => ({
+        cells: ['2024-05-01', `Row ${index + 1}`, '100.00'],
+      })),
+    },
+  ],
+});
+
+const decode = (base64: string) => Buffer.from(base64, 'base64').toString('latin1');
+
+// Content stream of each page, in page order
+const pageStreams = (pdf: string) =>
+  Array.from(pdf.matchAll(/<< \/Length (\d+) >>\nstream\n([\s\S]*?)\nendstream/g), match => match[2]);
+
+// Table rows drawn on a page, by their "Row n" cell
+const rowsOn = (stream: string) =>
+  Array.from(stream.matchAll(/\(Row (\d+)\) Tj/g), match => Number(match[1]));
+
+describe('renderPdfBase64', () => {
+  it('fits a short statement on one page', () => {
+    const pdf = decode(renderPdfBase64(statement(5)));
+    const pages = pageStreams(pdf);
+
+    expect(pdf).toContain('/Count 1 ');
+    expect(pages).toHaveLength(1);
+    expect(rowsOn(pages[0])).toEqual([1, 2, 3, 4, 5]);
+    expect(pages[0]).toContain('(Page 1 of 1) Tj');
+  });
+
+  it('breaks long tables across pages without losing or repeating rows', () => {
+    const pdf = decode(renderPdfBase64(statement(120)));
+    const pages = pageStreams(pdf);
+
+    expect(pages.length).toBeGreaterThan(2);
+    expect(pdf).toContain(`/Count ${pages.length} `);
+    expect(pages.flatMap(rowsOn)).toEqual(Array.from({ length: 120 }, (_, index) => index + 1));
+    pages.forEach((stream, index) => {
+      expect(rowsOn(stream).length).toBeGreaterThan(0);
+      expect(stream).toContain(`(Page ${index + 1} of ${pages.length}) Tj`);
+    });
+  });
+
+  it('repeats the table header above the rows on every page', () => {
+    const pages = pageStreams(decode(renderPdfBase64(statement(120))));
+
+    pages.forEach((stream, index) => {
+      const header = stream.search(/\/F2 9 Tf [^\n]*\(Date\) Tj/);
+      const firstRow = stream.search(/\(Row \d+\) Tj/);
+      expect(header).toBeGreaterThan(-1);
+      expect(header).toBeLessThan(firstRow);
+      expect(stream).toMatch(/\(Amount\) Tj/);
+      expect(stream.includes('(Earnings \\(continued\\)) Tj')).toBe(index > 0);
+    });
+  });
+
+  it('writes a cross-reference table that points at every object', () => {
+    const pdf = decode(renderPdfBase64(statement(120)));
+
+    expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(pdf.endsWith('%%EOF')).toBe(true);
+
+    const startXref = Number(pdf.match(/startxref\n(\d+)\n%%EOF$/)?.[1]);
+    expect(pdf.slice(startXref, startXref + 5)).toBe('xref\n');
+
+    const [, first, count] = pdf.slice(startXref).match(/^xref\n(\d+) (\d+)\n/) || [];
+    expect(Number(first)).toBe(0);
+
+    const entries = pdf.slice(startXref).match(/^\d{10} \d{5} [fn] \n/gm) || [];
+    expect(entries).toHaveLength(Number(count));
+    expect(entries[0]).toBe('0000000000 65535 f \n');
+    entries.slice(1).forEach((entry, index) => {
+      const offset = Number(entry.slice(0, 10));
+      expect(pdf.slice(offset, offset + 20)).toMatch(new RegExp(`^${index + 1} 0 obj\\n`));
+    });
+
+    expect(pdf).toMatch(new RegExp(`trailer\\n<< /Size ${count} /Root 1 0 R >>`));
+    expect(Number(count) - 1).toBe((pdf.match(/^\d+ 0 obj$/gm) || []).length);
+  });
+
+  it('declares the real length of every content stream', () => {
+    const pdf = decode(renderPdfBase64(statement(60)));
+
+    Array.from(pdf.matchAll(/<< \/Length (\d+) >>\nstream\n([\s\S]*?)\nendstream/g)).forEach(match => {
+      expect(match[2].length).toBe(Number(match[1]));
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { ENDPOINTS } from './api.config';
+import { apiClient, isApiError } from './api.client';
+import { invalidateQueries } from './query.cache';
+import { UNASSIGNED_ACCOUNT } from './salary.service';
+import type { EarningAccount, EarningAccountInput } from './api.types';
+
+// The accounts every fleet started with, used until the server manages its own
+export const DEFAULT_ACCOUNTS: EarningAccount[] = [
+  { id: 'personal', name: 'Personal Account', isArchived: false },
+  { id: 'limousine', name: 'Limousine Account', isArchived: false },
+];
+
+// Earnings on one account, as shown on the account cards
+export type AccountEarnings<T> = {
+  name: string;
+  // Missing for earnings under a name that isn't a managed account
+  account?: EarningAccount;
+  total: number;
+  earnings: T[];
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Responses are either arrays or wrapped in an object
+const toList = (response: any): EarningAccount[] =>
+  Array.isArray(response) ? response : (response && (response.data || response.accounts)) || [];
+
+/**
+ * Get every earning account, archived ones included. Servers without
+ * account management get the default accounts.
+ * @param token
+ */
+export const getAccounts = async (token: string | null = null): Promise<EarningAccount[]> => {
+  try {
+    const response = await apiClient.get(ENDPOINTS.ACCOUNT.GET_ALL, {
+      token,
+      errorMessage: 'Failed to fetch accounts',
+    });
+    return toList(response);
+  } catch (error) {
+    if (isApiError(error) && error.status === 404) {
+      return DEFAULT_ACCOUNTS;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Add an account earnings can be booked against
+ * @param account
+ * @param token
+ */
+export const createAccount = async (account: EarningAccountInput, token: string | null = null): Promise<EarningAccount> => {
+  const response = await apiClient.post(ENDPOINTS.ACCOUNT.CREATE, account, {
+    token,
+    errorMessage: 'Failed to create account',
+  });
+  invalidateQueries(ENDPOINTS.ACCOUNT.GET_ALL);
+  return (response && response.data) || response;
+};
+
+/**
+ * Rename an account, or archive and restore it
+ * @param id
+ * @param account
+ * @param token
+ */
+export const updateAccount = async (
+  id: string,
+  account: Partial<EarningAccountInput>,
+  token: string | null = null
+): Promise<EarningAccount> => {
+  const response = await apiClient.put(ENDPOINTS.ACCOUNT.UPDATE, account, {
+    params: { id },
+    token,
+    errorMessage: 'Failed to update account',
+  });
+  invalidateQueries(ENDPOINTS.ACCOUNT.GET_ALL);
+  return (response && response.data) || response;
+};
+
+// Accounts that can be picked for new earnings
+export const getActiveAccounts = (accounts: EarningAccount[]) =>
+  accounts.filter(account => !account.isArchived);
+
+/**
+ * Split earnings by account. Every active account gets an entry, even when
+ * empty; archived or unknown accounts only when they hold earnings, and
+ * earnings with no account go under Unassigned at the end.
+ */
+export const groupEarningsByAccount = <T extends { amount: number | string; accountName?: string }>(
+  earnings: T[],
+  accounts: EarningAccount[]
+): AccountEarnings<T>[] => {
+  const groups = new Map<string, AccountEarnings<T>>();
+  getActiveAccounts(accounts).forEach(account => {
+    groups.set(account.name, { name: account.name, account, total: 0, earnings: [] });
+  });
+
+  earnings.forEach(earning => {
+    const name = earning.accountName || UNASSIGNED_ACCOUNT;
+    let group = groups.get(name);
+    if (!group) {
+      group = { name, account: accounts.find(account => account.name === name), total: 0, earnings: [] };
+      groups.set(name, group);
+    }
+    group.total = round(group.total + (parseFloat(String(earning.amount)) || 0));
+    group.earnings.push(earning);
+  });
+
+  const unassigned = groups.get(UNASSIGNED_ACCOUNT);
+  groups.delete(UNASSIGNED_ACCOUNT);
+  return unassigned ? [...groups.values(), unassigned] : [...groups.values()];
+};
+
+/**
+ * Whether an earning belongs to the named account, with Unassigned
+ * matching earnings that have none
+ */
+export const isOnAccount = (earning: { accountName?: string }, name: string) =>
+  (earning.accountName || UNASSIGNED_ACCOUNT) === name;
@@ -0,0 +1,220 @@
+import { addDays, countDays, parseDate, toDateKey, toDateString } from '../utils/date';
+import type { AutoExpense, Earning, Expense } from './api.types';
+import { isApproved } from './review.service';
+
+// Types
+export type AnalyticsPeriod = 'Daily' | 'Weekly' | 'Monthly' | 'Yearly' | 'Custom';
+
+export const ANALYTICS_PERIODS: AnalyticsPeriod[] = ['Daily', 'Weekly', 'Monthly', 'Yearly', 'Custom'];
+
+type Granularity = 'day' | 'week' | 'month' | 'year';
+
+export type DateRange = {
+  startDate: string;
+  endDate: string;
+};
+
+export type AnalyticsTotals = {
+  earnings: number;
+  expenses: number;
+  autoExpenses: number;
+  net: number;
+};
+
+export type AnalyticsBucket = DateRange & AnalyticsTotals & {
+  label: string;
+};
+
+export type AnalyticsRecords = {
+  earnings: Earning[];
+  expenses: Expense[];
+  autoExpenses: AutoExpense[];
+};
+
+export type AnalyticsTransaction = {
+  id: string;
+  kind: 'earning' | 'expense' | 'autoExpense';
+  amount: number;
+  date: string;
+  title: string;
+  driverName?: string;
+};
+
+export type Analytics = {
+  range: DateRange;
+  previousRange: DateRange;
+  buckets: AnalyticsBucket[];
+  totals: AnalyticsTotals;
+  previousTotals: AnalyticsTotals;
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const toAmount = (value: number | string) => parseFloat(String(value)) || 0;
+
+// Monday of the week containing `date`
+const startOfWeek = (date: Date) => addDays(date, -((date.getDay() + 6) % 7));
+
+/**
+ * Date range and bar size for a period. Each period ends today:
+ * Daily is the last 7 days, Weekly the last 8 weeks, Monthly the last 12
+ * months and Yearly the last 5 years. Custom ranges pick a bar size that
+ * keeps the chart readable.
+ */
+export const getPeriodRange = (
+  period: AnalyticsPeriod,
+  custom?: DateRange,
+  today = new Date()
+): { range: DateRange; granularity: Granularity } => {
+  const endDate = toDateString(today);
+
+  switch (period) {
+    case 'Daily':
+      return { range: { startDate: toDateString(addDays(today, -6)), endDate }, granularity: 'day' };
+    case 'Weekly':
+      return { range: { startDate: toDateString(addDays(startOfWeek(today), -7 * 7)), endDate }, granularity: 'week' };
+    case 'Monthly':
+      return { range: { startDate: toDateString(new Date(today.getFullYear(), today.getMonth() - 11, 1)), endDate }, granularity: 'month' };
+    case 'Yearly':
+      return { range: { startDate: toDateString(new Date(today.getFullYear() - 4, 0, 1)), endDate }, granularity: 'year' };
+    case 'Custom': {
+      const range = custom || { startDate: endDate, endDate };
+      const days = countDays(range.startDate, range.endDate);
+      const granularity: Granularity = days <= 31 ? 'day' : days <= 26 * 7 ? 'week' : days <= 731 ? 'month' : 'year';
+      return { range, granularity };
+    }
+  }
+};
+
+// The window of the same length immediately before `range`
+export const getPreviousRange = (range: DateRange): DateRange => {
+  const days = countDays(range.startDate, range.endDate);
+  const start = parseDate(range.startDate);
+  return {
+    startDate: toDateString(addDays(start, -days)),
+    endDate: toDateString(addDays(start, -1)),
+  };
+};
+
+const nextBucketStart = (date: Date, granularity: Granularity) => {
+  switch (granularity) {
+    case 'day':
+      return addDays(date, 1);
+    case 'week':
+      return addDays(startOfWeek(date), 7);
+    case 'month':
+      return new Date(date.getFullYear(), date.getMonth() + 1, 1);
+    case 'year':
+      return new Date(date.getFullYear() + 1, 0, 1);
+  }
+};
+
+const bucketLabel = (date: Date, granularity: Granularity, dayCount: number) => {
+  switch (granularity) {
+    case 'day':
+      return dayCount <= 7
+        ? date.toLocaleDateString('en-US', { weekday: 'short' })
+        : String(date.getDate());
+    case 'week':
+      return date.toLocaleDateString('en-US', { day: 'numeric', month: 'short' });
+    case 'month':
+      return date.toLocaleDateString('en-US', { month: 'short' });
+    case 'year':
+      return String(date.getFullYear());
+  }
+};
+
+const emptyTotals = (): AnalyticsTotals => ({ earnings: 0, expenses: 0, autoExpenses: 0, net: 0 });
+
+const inRange = (date: string, range: DateRange) => date >= range.startDate && date <= range.endDate;
+
+// Split a range into consecutive bars; the first and last may be partial
+const createBuckets = (range: DateRange, granularity: Granularity): AnalyticsBucket[] => {
+  const buckets: AnalyticsBucket[] = [];
+  const end = parseDate(range.endDate);
+  const dayCount = countDays(range.startDate, range.endDate);
+  let cursor = parseDate(range.startDate);
+
+  while (cursor <= end) {
+    const next = nextBucketStart(cursor, granularity);
+    const bucketEnd = addDays(next, -1) < end ? addDays(next, -1) : end;
+    buckets.push({
+      label: bucketLabel(cursor, granularity, dayCount),
+      startDate: toDateString(cursor),
+      endDate: toDateString(bucketEnd),
+      ...emptyTotals(),
+    });
+    cursor = next;
+  }
+
+  return buckets;
+};
+
+const sumRecords = (records: AnalyticsRecords, range: DateRange): AnalyticsTotals => {
+  const total = (items: { amount: number | string; date: string }[]) =>
+    round(items.filter(item => inRange(toDateKey(item.date), range)).reduce((sum, item) => sum + toAmount(item.amount), 0));
+
+  // Pending and rejected expenses don't count, as in salaries and settlements
+  const earnings = total(records.earnings);
+  const expenses = total(records.expenses.filter(isApproved));
+  const autoExpenses = total(records.autoExpenses.filter(isApproved));
+  return { earnings, expenses, autoExpenses, net: round(earnings - expenses - autoExpenses) };
+};
+
+/**
+ * Aggregate earnings, expenses and auto expenses across all drivers into
+ * chart bars, with totals for the period and the one before it. `records`
+ * should cover both periods.
+ */
+export const buildAnalytics = (
+  records: AnalyticsRecords,
+  period: AnalyticsPeriod,
+  custom?: DateRange,
+  today = new Date()
+): Analytics => {
+  const { range, granularity } = getPeriodRange(period, custom, today);
+  const previousRange = getPreviousRange(range);
+  const buckets = createBuckets(range, granularity).map(bucket => ({
+    ...bucket,
+    ...sumRecords(records, bucket),
+  }));
+
+  return {
+    range,
+    previousRange,
+    buckets,
+    totals: sumRecords(records, range),
+    previousTotals: sumRecords(records, previousRange),
+  };
+};
+
+// Percentage change from the previous period, or null when there is nothing to compare with
+export const getChange = (current: number, previous: number) => {
+  if (previous === 0) return null;
+  return round(((current - previous) / Math.abs(previous)) * 100);
+};
+
+// Every record behind a bar, newest first
+export const getBucketTransactions = (records: AnalyticsRecords, range: DateRange): AnalyticsTransaction[] => {
+  const pick = <T extends { id: string; amount: number | string; date: string; driver?: { name: string } }>(
+    items: T[],
+    kind: AnalyticsTransaction['kind'],
+    getTitle: (item: T) => string
+  ) =>
+    items
+      .filter(item => inRange(toDateKey(item.date), range))
+      .map(item => ({
+        id: item.id,
+        kind,
+        amount: toAmount(item.amount),
+        date: item.date,
+        title: getTitle(item),
+        driverName: item.driver?.name,
+      }));
+
+  return [
+    ...pick(records.earnings, 'earning', item => item.accountName ? `${item.type} · ${item.accountName}` : item.type),
+    ...pick(records.expenses.filter(isApproved), 'expense', item => item.category || 'Expense'),
+    ...pick(records.autoExpenses.filter(isApproved), 'autoExpense', item => item.category || 'Auto Expense'),
+  ].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+};
@@ -0,0 +1,261 @@
+import { API_BASE_URL, ENDPOINTS, getHeaders } from './api.config';
+import type { ApiErrorBody } from './api.types';
+import { isReadOnlyRole } from './permissions';
+import { clearSession, getAccessToken, getRefreshToken, getStoredUser, saveTokens } from './token.store';
+
+// Types
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+export type QueryValue = string | number | boolean | null | undefined;
+
+export type RequestOptions = {
+  method?: HttpMethod;
+  // Values for `:name` placeholders in the endpoint
+  params?: Record<string, string | number>;
+  // Query string values; null, undefined and empty strings are skipped
+  query?: Record<string, QueryValue>;
+  // JSON-serialised unless it is a FormData instance
+  body?: unknown;
+  // Explicit token; falls back to the stored session token
+  token?: string | null;
+  // Set to false for public endpoints such as login and signup
+  auth?: boolean;
+  // Let read-only accounts make the request, e.g. to change their own password
+  allowReadOnly?: boolean;
+  // Extra headers, e.g. Idempotency-Key
+  headers?: Record<string, string>;
+  // Message used when the server does not provide one
+  errorMessage?: string;
+};
+
+/**
+ * Error thrown for every failed API call. `status` is the HTTP status code,
+ * or 0 when the request never reached the server.
+ */
+export class ApiError extends Error {
+  status: number;
+  data: ApiErrorBody | null;
+
+  constructor(message: string, status: number, data: ApiErrorBody | null = null) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.data = data;
+  }
+
+  get isNetworkError() {
+    return this.status === 0;
+  }
+
+  get isUnauthorized() {
+    return this.status === 401 || this.status === 403;
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError => error instanceof ApiError;
+
+// Session expiry subscribers (see AuthContext)
+type SessionExpiredListener = (error: ApiError) => void;
+
+const sessionExpiredListeners = new Set<SessionExpiredListener>();
+let expiredToken: string | null = null;
+
+/**
+ * Subscribe to session expiry. Called once per rejected token after the
+ * stored session has been cleared. Returns an unsubscribe function.
+ */
+export const onSessionExpired = (listener: SessionExpiredListener) => {
+  sessionExpiredListeners.add(listener);
+  return () => {
+    sessionExpiredListeners.delete(listener);
+  };
+};
+
+// Clear the stored session and notify subscribers that the token was rejected
+const expireSession = async (token: string, error: ApiError) => {
+  // Parallel requests fail with the same token; only handle the first one
+  if (expiredToken === token) return;
+  expiredToken = token;
+
+  // A newer session may already have replaced the rejected token
+  const storedToken = await getAccessToken();
+  if (storedToken !== token) return;
+
+  try {
+    await clearSession();
+  } catch (storageError) {
+    console.error('Error clearing expired session:', storageError);
+  }
+
+  sessionExpiredListeners.forEach(listener => listener(error));
+};
+
+// Replace `:name` placeholders in an endpoint
+export const replaceParams = (url: string, params: Record<string, string | number> = {}) => {
+  let result = url;
+  Object.keys(params).forEach(key => {
+    result = result.replace(`:${key}`, encodeURIComponent(String(params[key])));
+  });
+  return result;
+};
+
+// Build a `?a=b` query string, skipping empty values
+export const buildQueryString = (query: Record<string, QueryValue> = {}) => {
+  const queryParams = new URLSearchParams();
+  Object.keys(query).forEach(key => {
+    const value = query[key];
+    if (value !== null && value !== undefined && value !== '') {
+      queryParams.append(key, String(value));
+    }
+  });
+  const queryString = queryParams.toString();
+  return queryString ? `?${queryString}` : '';
+};
+
+// Generate a random (v4-style) key the server uses to drop duplicate submissions
+export const createIdempotencyKey = () =>
+  'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+    const random = (Math.random() * 16) | 0;
+    const value = char === 'x' ? random : (random & 0x3) | 0x8;
+    return value.toString(16);
+  });
+
+// Parse a response body; empty bodies become {} and invalid JSON becomes undefined
+const parseBody = async (response: Response): Promise<any> => {
+  try {
+    const text = await response.text();
+    return text.length ? JSON.parse(text) : {};
+  } catch (error) {
+    return undefined;
+  }
+};
+
+let refreshing: Promise<string | null> | null = null;
+
+/**
+ * Get a new access token after `rejectedToken` got a 401. Concurrent callers
+ * share one refresh call. Resolves to null when the session can't be renewed;
+ * network errors are rethrown so an offline device keeps its session.
+ */
+const refreshAccessToken = (rejectedToken: string) => {
+  if (!refreshing) {
+    refreshing = (async () => {
+      // Another request may have refreshed it already
+      const current = await getAccessToken();
+      if (current && current !== rejectedToken) return current;
+
+      const refreshToken = await getRefreshToken();
+      if (!refreshToken) return null;
+
+      try {
+        const data = await send<{ token?: string; refreshToken?: string }>(
+          ENDPOINTS.AUTH.REFRESH,
+          { method: 'POST', body: { refreshToken }, auth: false, errorMessage: 'Failed to refresh session' },
+          false
+        );
+        if (!data.token) return null;
+        await saveTokens(data.token, data.refreshToken);
+        return data.token;
+      } catch (error) {
+        if (isApiError(error) && error.isNetworkError) throw error;
+        return null;
+      }
+    })().finally(() => {
+      refreshing = null;
+    });
+  }
+  return refreshing;
+};
+
+/**
+ * Perform a request against the FleetX API and return the parsed JSON body.
+ * An expired access token is refreshed and the request retried once.
+ * Throws an ApiError carrying the HTTP status and server message on failure.
+ */
+export const request = <T = any>(endpoint: string, options: RequestOptions = {}): Promise<T> =>
+  send<T>(endpoint, options, true);
+
+const send = async <T = any>(endpoint: string, options: RequestOptions, canRefresh: boolean): Promise<T> => {
+  const {
+    method = 'GET',
+    params,
+    query,
+    body,
+    headers,
+    auth = true,
+    allowReadOnly = false,
+    errorMessage = 'Request failed',
+  } = options;
+
+  let token = options.token || null;
+  if (auth && !token) {
+    token = await getAccessToken();
+    if (!token) {
+      throw new ApiError('Authentication required', 401);
+    }
+  }
+
+  // Read-only accounts are refused before anything reaches the server
+  if (auth && method !== 'GET' && !allowReadOnly) {
+    const user = await getStoredUser();
+    if (isReadOnlyRole(user?.role)) {
+      throw new ApiError('Your account has read-only access', 403, { code: 'READ_ONLY' });
+    }
+  }
+
+  const isMultipart = typeof FormData !== 'undefined' && body instanceof FormData;
+  const url = `${API_BASE_URL}${replaceParams(endpoint, params)}${buildQueryString(query)}`;
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method,
+      headers: { ...getHeaders(token, isMultipart), ...headers },
+      body: body === undefined ? undefined : isMultipart ? (body as FormData) : JSON.stringify(body),
+    });
+  } catch (error) {
+    console.error(`${method} ${endpoint} failed:`, error);
+    throw new ApiError('Unable to reach the server. Please check your connection.', 0);
+  }
+
+  const data = await parseBody(response);
+
+  if (!response.ok) {
+    const message = (data && (data.message || data.error)) || `${errorMessage} (${response.status})`;
+    console.error(`${method} ${endpoint} failed:`, response.status, message);
+    const error = new ApiError(message, response.status, data || null);
+
+    if (token && response.status === 401 && canRefresh) {
+      const freshToken = await refreshAccessToken(token);
+      if (freshToken) {
+        return send<T>(endpoint, { ...options, token: freshToken }, false);
+      }
+    }
+
+    if (token && error.isUnauthorized) {
+      await expireSession(token, error);
+    }
+
+    throw error;
+  }
+
+  if (data === undefined) {
+    throw new ApiError('Invalid response from server. Please check if the backend is running.', response.status);
+  }
+
+  return data as T;
+};
+
+export const apiClient = {
+  request,
+  get: <T = any>(endpoint: string, options: Omit<RequestOptions, 'method' | 'body'> = {}) =>
+    request<T>(endpoint, { ...options, method: 'GET' }),
+  post: <T = any>(endpoint: string, body?: unknown, options: Omit<RequestOptions, 'method' | 'body'> = {}) =>
+    request<T>(endpoint, { ...options, method: 'POST', body }),
+  put: <T = any>(endpoint: string, body?: unknown, options: Omit<RequestOptions, 'method' | 'body'> = {}) =>
+    request<T>(endpoint, { ...options, method: 'PUT', body }),
+  delete: <T = any>(endpoint: string, options: Omit<RequestOptions, 'method' | 'body'> = {}) =>
+    request<T>(endpoint, { ...options, method: 'DELETE' }),
+};
+
+export default apiClient;
@@ -17,12 +17,24 @@ const getBaseUrl = () => {
 
 export const API_BASE_URL = getBaseUrl();
 
+// Keys for the authenticated session, kept in secure storage by token.store
+export const STORAGE_KEYS = {
+  TOKEN: 'fleetx_auth_token',
+  REFRESH_TOKEN: 'fleetx_refresh_token',
+  USER: 'fleetx_user',
+};
+
 // Endpoints
 export const ENDPOINTS = {
   AUTH: {
     SIGNUP: '/auth/signup',
     LOGIN: '/auth/login',
+    REFRESH: '/auth/refresh',
+    LOGOUT: '/auth/logout',
     PROFILE: '/auth/profile',
+    CHANGE_PASSWORD: '/auth/change-password',
+    FORGOT_PASSWORD: '/auth/forgot-password',
+    RESET_PASSWORD: '/auth/reset-password',
   },
   DRIVER: {
     GET_ALL: '/drivers',
@@ -30,6 +42,9 @@ export const ENDPOINTS = {
     CREATE: '/drivers',
     UPDATE: '/drivers/:id',
     DELETE: '/drivers/:id',
+    TRASH: '/drivers/trash',
+    RESTORE: '/drivers/:id/restore',
+    PURGE: '/drivers/:id/purge',
   },
   EARNING: {
     GET_ALL: '/earnings',
@@ -38,6 +53,9 @@ export const ENDPOINTS = {
     CREATE: '/earnings',
     UPDATE: '/earnings/:id',
     DELETE: '/earnings/:id',
+    TRASH: '/earnings/trash',
+    RESTORE: '/earnings/:id/restore',
+    PURGE: '/earnings/:id/purge',
   },
   EXPENSE: {
     GET_ALL: '/expenses',
@@ -46,6 +64,10 @@ export const ENDPOINTS = {
     CREATE: '/expenses',
     UPDATE: '/expenses/:id',
     DELETE: '/expenses/:id',
+    TRASH: '/expenses/trash',
+    RESTORE: '/expenses/:id/restore',
+    PURGE: '/expenses/:id/purge',
+    REVIEW: '/expenses/review',
   },
   AUTO_EXPENSE: {
     GET_ALL: '/auto-expenses',
@@ -54,6 +76,18 @@ export const ENDPOINTS = {
     CREATE: '/auto-expenses',
     UPDATE: '/auto-expenses/:id',
     DELETE: '/auto-expenses/:id',
+    TRASH: '/auto-expenses/trash',
+    RESTORE: '/auto-expenses/:id/restore',
+    PURGE: '/auto-expenses/:id/purge',
+    REVIEW: '/auto-expenses/review',
+  },
+  ACCOUNT: {
+    GET_ALL: '/accounts',
+    CREATE: '/accounts',
+    UPDATE: '/accounts/:id',
+  },
+  AUDIT_LOG: {
+    GET_ALL: '/audit-logs',
   },
   VEHICLE: {
     GET_ALL: '/vehicles',
@@ -61,12 +95,31 @@ export const ENDPOINTS = {
     CREATE: '/vehicles',
     UPDATE: '/vehicles/:id',
     DELETE: '/vehicles/:id',
+    TRASH: '/vehicles/trash',
+    RESTORE: '/vehicles/:id/restore',
+    PURGE: '/vehicles/:id/purge',
     GET_AVAILABLE_DRIVERS: '/vehicles/drivers/available'
+  },
+  SALARY_RULE: {
+    GET: '/drivers/:driverId/salary-rule',
+    UPDATE: '/drivers/:driverId/salary-rule',
+  },
+  SETTLEMENT: {
+    GET_ALL: '/settlements',
+    GET_ONE: '/settlements/:id',
+    CREATE: '/settlements',
+    DELETE: '/settlements/:id',
   }
 };
 
 // Request headers
+/**
+ * @param {string | null} [token]
+ * @param {boolean} [isMultipart]
+ * @returns {Record<string, string>}
+ */
 export const getHeaders = (token = null, isMultipart = false) => {
+  /** @type {Record<string, string>} */
   const headers = {};
   
   if (!isMultipart) {
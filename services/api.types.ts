@@ -0,0 +1,278 @@
+// Shared request/response models for the FleetX API
+
+export type UserRole = 'Admin' | 'Driver' | 'Viewer';
+
+export type User = {
+  id: string;
+  name: string;
+  email: string;
+  phoneNumber: string;
+  role: UserRole | string;
+  isActive: boolean;
+};
+
+export type DriverRef = {
+  id: string;
+  name: string;
+  email: string;
+};
+
+export type EarningPaymentType = 'Online' | 'Cash' | 'Pocket Slipt';
+
+// A company or platform earnings are booked against, managed by admins
+export type EarningAccount = {
+  id: string;
+  name: string;
+  // Archived accounts keep their earnings but can't be picked for new ones
+  isArchived: boolean;
+  createdAt?: string;
+};
+
+export type Earning = {
+  id: string;
+  amount: number;
+  note?: string;
+  type: EarningPaymentType;
+  accountName?: string;
+  driverId: string;
+  date: string;
+  createdAt: string;
+  updatedAt: string;
+  driver?: DriverRef;
+};
+
+// Expenses wait for an admin before they count against a driver
+export type ExpenseStatus = 'pending' | 'approved' | 'rejected';
+
+export type ExpenseReview = {
+  status: Exclude<ExpenseStatus, 'pending'>;
+  // Required when rejecting
+  reason?: string;
+};
+
+export type Expense = {
+  id: string;
+  amount: number;
+  note?: string;
+  description?: string;
+  category?: string;
+  // Receipt photo URLs
+  receipts?: string[];
+  // Missing on records created before reviews, which count as approved
+  status?: ExpenseStatus;
+  rejectionReason?: string;
+  reviewedAt?: string;
+  driverId: string;
+  date: string;
+  createdAt: string;
+  updatedAt: string;
+  driver?: DriverRef;
+};
+
+export type AutoExpense = {
+  id: string;
+  amount: number;
+  note?: string;
+  category?: string;
+  // Receipt photo URLs
+  receipts?: string[];
+  // Missing on records created before reviews, which count as approved
+  status?: ExpenseStatus;
+  rejectionReason?: string;
+  reviewedAt?: string;
+  driverId: string;
+  date: string;
+  createdAt: string;
+  updatedAt: string;
+  driver?: DriverRef;
+};
+
+// Change history the server records whenever a transaction is edited
+export type AuditEntityType = 'earning' | 'expense' | 'autoExpense';
+
+export type AuditChange = {
+  field: string;
+  from: unknown;
+  to: unknown;
+};
+
+export type AuditEntry = {
+  id: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  driverId: string;
+  action: 'update' | string;
+  changes: AuditChange[];
+  changedBy?: { id: string; name: string };
+  createdAt: string;
+};
+
+// Deleted transactions, drivers and vehicles wait in a per-entity trash
+// until they're restored or purged
+export type TrashEntityType = 'earning' | 'expense' | 'autoExpense' | 'driver' | 'vehicle';
+
+export type Trashed<T> = T & {
+  deletedAt: string;
+  deletedBy?: { id: string; name: string };
+};
+
+export type VehicleDriver = DriverRef & {
+  phoneNumber: string;
+  assignment?: {
+    isPrimary: boolean;
+  };
+};
+
+export type Vehicle = {
+  id: string;
+  name: string;
+  plate: string;
+  status: string;
+  type: string;
+  model: string;
+  color: string;
+  ownership: string;
+  image?: string;
+  location?: string;
+  lastUpdated?: string;
+  drivers?: VehicleDriver[];
+};
+
+// Driver pay rules. Rates are percentages, e.g. 30 for 30%.
+export type SalaryTier = {
+  // Upper bound of the band in AED; null for the top band
+  upTo: number | null;
+  rate: number;
+};
+
+export type SalaryRuleConfig =
+  | { type: 'percentage'; rate: number }
+  | { type: 'flat'; amount: number }
+  | { type: 'tiered'; tiers: SalaryTier[] }
+  | { type: 'percentageAfterExpenses'; rate: number; includeAutoExpenses: boolean }
+  | { type: 'perAccount'; rates: Record<string, number>; defaultRate: number };
+
+export type SalaryRuleType = SalaryRuleConfig['type'];
+
+export type SalaryRule = SalaryRuleConfig & {
+  driverId: string;
+  // Subtract the driver's own expenses from the payout
+  deductExpenses: boolean;
+  updatedAt?: string;
+};
+
+export type SalaryLine = {
+  label: string;
+  detail?: string;
+  amount: number;
+};
+
+// A closed payroll month. Totals are a snapshot taken when the month was settled.
+export type Settlement = {
+  id: string;
+  driverId: string;
+  // YYYY-MM
+  month: string;
+  startDate: string;
+  endDate: string;
+  earningsByType: Record<string, number>;
+  earningsByAccount: Record<string, number>;
+  totalEarnings: number;
+  totalExpenses: number;
+  totalAutoExpenses: number;
+  salaryRule: SalaryRuleInput;
+  salaryLines: SalaryLine[];
+  driverShare: number;
+  // Paid to the driver during the month
+  advances: number;
+  // Cash fares the driver collected and kept
+  cashHeld: number;
+  // What the company owes the driver; negative when the driver owes the company
+  netPayable: number;
+  note?: string;
+  createdAt: string;
+  driver?: DriverRef;
+};
+
+// Input payloads
+export type EarningInput = {
+  amount: number;
+  type: EarningPaymentType | string;
+  accountName?: string;
+  note?: string;
+  date: string;
+  driverId?: string;
+};
+
+export type ExpenseInput = {
+  amount: number;
+  category: string;
+  note?: string;
+  date: string;
+  driverId?: string;
+  // Local URIs of receipt photos to upload
+  receipts?: string[];
+};
+
+export type AutoExpenseInput = ExpenseInput;
+
+export type EarningAccountInput = {
+  name: string;
+  isArchived?: boolean;
+};
+
+export type SalaryRuleInput = SalaryRuleConfig & {
+  deductExpenses: boolean;
+};
+
+export type SettlementInput = Omit<Settlement, 'id' | 'createdAt' | 'driver'>;
+
+export type DriverInput = {
+  name: string;
+  email: string;
+  phoneNumber: string;
+  password?: string;
+  isActive?: boolean;
+};
+
+export type VehicleInput = {
+  id?: string;
+  name: string;
+  plate: string;
+  type: string;
+  model: string;
+  color: string;
+  ownership: string;
+  status: string;
+  driverIds?: string[];
+};
+
+// Query filters
+export type TransactionFilters = {
+  driverId?: string;
+  type?: string;
+  category?: string;
+  status?: ExpenseStatus;
+  startDate?: string;
+  endDate?: string;
+};
+
+export type AuditFilters = {
+  driverId?: string;
+  entityType?: AuditEntityType;
+  entityId?: string;
+};
+
+export type SettlementFilters = {
+  driverId?: string;
+  month?: string;
+};
+
+export type SummaryPeriod = 'daily' | 'weekly' | 'monthly' | 'yearly' | string;
+
+// Error body returned by the backend on failed requests
+export type ApiErrorBody = {
+  message?: string;
+  error?: string;
+  [key: string]: unknown;
+};
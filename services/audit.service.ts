@@ -0,0 +1,49 @@
+import { ENDPOINTS } from './api.config';
+import { apiClient } from './api.client';
+import { formatAmount, formatDate } from './statement.template';
+import type { AuditChange, AuditEntityType, AuditEntry, AuditFilters } from './api.types';
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  earning: 'Earning',
+  expense: 'Expense',
+  autoExpense: 'Auto Expense',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  amount: 'Amount',
+  date: 'Date',
+  category: 'Category',
+  type: 'Payment type',
+  accountName: 'Account',
+  description: 'Description',
+  note: 'Note',
+};
+
+// Responses are either arrays or wrapped in an object
+const toList = (response: any): AuditEntry[] =>
+  Array.isArray(response) ? response : (response && (response.data || response.auditLogs)) || [];
+
+/**
+ * Get the change history of transactions, newest first
+ * @param filters
+ * @param token
+ */
+export const getAuditLog = async (filters: AuditFilters = {}, token: string | null = null): Promise<AuditEntry[]> => {
+  const response = await apiClient.get(ENDPOINTS.AUDIT_LOG.GET_ALL, {
+    query: filters,
+    token,
+    errorMessage: 'Failed to fetch change history',
+  });
+  return toList(response).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+};
+
+const formatValue = (field: string, value: unknown) => {
+  if (value === null || value === undefined || value === '') return 'none';
+  if (field === 'amount') return formatAmount(parseFloat(String(value)) || 0);
+  if (field === 'date') return formatDate(String(value));
+  return String(value);
+};
+
+// e.g. "Amount: AED 120.00 → AED 150.00"
+export const describeChange = (change: AuditChange) =>
+  `${FIELD_LABELS[change.field] || change.field}: ${formatValue(change.field, change.from)} → ${formatValue(change.field, change.to)}`;
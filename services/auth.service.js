@@ -1,96 +1,102 @@
-import { API_BASE_URL, ENDPOINTS, getHeaders } from './api.config';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-
-// Storage keys
-const TOKEN_KEY = 'fleetx_auth_token';
-const USER_KEY = 'fleetx_user';
-
-// Login user
+import { ENDPOINTS } from './api.config';
+import { apiClient } from './api.client';
+import { clearQueryCache } from './query.cache';
+import { clearSession, getAccessToken, getRefreshToken, getStoredUser, saveSession } from './token.store';
+
+/**
+ * Login user
+ * @param {string} email
+ * @param {string} password
+ */
 export const login = async (email, password) => {
-  try {
-    const response = await fetch(`${API_BASE_URL}${ENDPOINTS.AUTH.LOGIN}`, {
-      method: 'POST',
-      headers: getHeaders(),
-      body: JSON.stringify({ email, password }),
-    });
-
-    const data = await response.json();
-    
-    if (!response.ok) {
-      throw new Error(data.message || 'Login failed');
-    }
-    
-    // Check for inactive accounts before storing anything
-    if (data.user && data.user.isActive === false) {
-      throw new Error('Your account is deactivated. Please contact admin for activation.');
-    }
+  const data = await apiClient.post(ENDPOINTS.AUTH.LOGIN, { email, password }, {
+    auth: false,
+    errorMessage: 'Login failed',
+  });
+
+  // Check for inactive accounts before storing anything
+  if (data.user && data.user.isActive === false) {
+    throw new Error('Your account is deactivated. Please contact admin for activation.');
+  }
 
-    // Only save auth data if user is active
-    await AsyncStorage.setItem(TOKEN_KEY, data.token);
-    await AsyncStorage.setItem(USER_KEY, JSON.stringify(data.user));
+  // Only save auth data if user is active
+  await saveSession({
+    accessToken: data.token,
+    refreshToken: data.refreshToken || null,
+    user: data.user,
+  });
 
-    return data;
-  } catch (error) {
-    throw error;
-  }
+  return data;
 };
 
-// Register user
+/**
+ * Register user
+ * @param {object} userData
+ */
 export const signup = async (userData) => {
-  try {
-    const response = await fetch(`${API_BASE_URL}${ENDPOINTS.AUTH.SIGNUP}`, {
-      method: 'POST',
-      headers: getHeaders(),
-      body: JSON.stringify(userData),
-    });
-
-    const data = await response.json();
-    
-    if (!response.ok) {
-      throw new Error(data.message || 'Registration failed');
-    }
-
-    // We no longer store token and user data for new registrations
-    // User will need to login after registration
-    
-    return data;
-  } catch (error) {
-    throw error;
-  }
+  // We no longer store token and user data for new registrations
+  // User will need to login after registration
+  return apiClient.post(ENDPOINTS.AUTH.SIGNUP, userData, {
+    auth: false,
+    errorMessage: 'Registration failed',
+  });
 };
 
 // Get user profile
 export const getProfile = async () => {
-  try {
-    const token = await AsyncStorage.getItem(TOKEN_KEY);
-    
-    if (!token) {
-      throw new Error('Authentication required');
-    }
+  return apiClient.get(ENDPOINTS.AUTH.PROFILE, {
+    errorMessage: 'Failed to get profile',
+  });
+};
 
-    const response = await fetch(`${API_BASE_URL}${ENDPOINTS.AUTH.PROFILE}`, {
-      method: 'GET',
-      headers: getHeaders(token),
-    });
+/**
+ * Change the signed-in user's password. The server answers a wrong current
+ * password with 400 rather than 401, so the session is kept.
+ * @param {string} currentPassword
+ * @param {string} newPassword
+ */
+export const changePassword = async (currentPassword, newPassword) => {
+  return apiClient.post(ENDPOINTS.AUTH.CHANGE_PASSWORD, { currentPassword, newPassword }, {
+    allowReadOnly: true,
+    errorMessage: 'Failed to change password',
+  });
+};
 
-    const data = await response.json();
-    
-    if (!response.ok) {
-      throw new Error(data.message || 'Failed to get profile');
-    }
+/**
+ * Email a one-time code for resetting a forgotten password
+ * @param {string} email
+ */
+export const requestPasswordReset = async (email) => {
+  return apiClient.post(ENDPOINTS.AUTH.FORGOT_PASSWORD, { email }, {
+    auth: false,
+    errorMessage: 'Failed to send reset code',
+  });
+};
 
-    return data;
-  } catch (error) {
-    console.error('Get profile error:', error);
-    throw error;
-  }
+/**
+ * Set a new password using the code from the reset email
+ * @param {string} email
+ * @param {string} code
+ * @param {string} newPassword
+ */
+export const resetPassword = async (email, code, newPassword) => {
+  return apiClient.post(ENDPOINTS.AUTH.RESET_PASSWORD, { email, code, newPassword }, {
+    auth: false,
+    errorMessage: 'Failed to reset password',
+  });
 };
 
 // Logout user
 export const logout = async () => {
   try {
-    await AsyncStorage.removeItem(TOKEN_KEY);
-    await AsyncStorage.removeItem(USER_KEY);
+    const refreshToken = await getRefreshToken();
+    if (refreshToken) {
+      // Revoke the refresh token; the local session is cleared even if this fails
+      apiClient.post(ENDPOINTS.AUTH.LOGOUT, { refreshToken }, { auth: false }).catch(() => {});
+    }
+    await clearSession();
+    // Cached responses belong to this user only
+    await clearQueryCache();
     return true;
   } catch (error) {
     console.error('Logout error:', error);
@@ -100,31 +106,16 @@ export const logout = async () => {
 
 // Check if user is logged in
 export const isLoggedIn = async () => {
-  try {
-    const token = await AsyncStorage.getItem(TOKEN_KEY);
-    return !!token;
-  } catch (error) {
-    return false;
-  }
+  const token = await getAccessToken();
+  return !!token;
 };
 
 // Get current user
 export const getCurrentUser = async () => {
-  try {
-    const userJson = await AsyncStorage.getItem(USER_KEY);
-    const user = userJson ? JSON.parse(userJson) : null;
-    return user;
-  } catch (error) {
-    return null;
-  }
+  return getStoredUser();
 };
 
 // Get auth token
 export const getToken = async () => {
-  try {
-    const token = await AsyncStorage.getItem(TOKEN_KEY);
-    return token;
-  } catch (error) {
-    return null;
-  }
-}; 
\ No newline at end of file
+  return getAccessToken();
+};
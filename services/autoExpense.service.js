@@ -1,193 +1,111 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { API_BASE_URL, ENDPOINTS, getHeaders } from './api.config';
-
-// Helper function to replace URL parameters
-const replaceParams = (url, params) => {
-  let result = url;
-  Object.keys(params).forEach(key => {
-    result = result.replace(`:${key}`, params[key]);
-  });
-  return result;
-};
-
-// Helper function to safely parse JSON response
-const safeJsonParse = async (response) => {
-  try {
-    const text = await response.text();
-    return text.length ? JSON.parse(text) : {};
-  } catch (error) {
-    console.error('Error parsing JSON:', error);
-    throw new Error('Invalid response format');
-  }
-};
-
-// Get all auto expenses with optional filters
+import { ENDPOINTS } from './api.config';
+import { apiClient, createIdempotencyKey } from './api.client';
+import { invalidateQueries } from './query.cache';
+import { withReceipts } from './receipt.service';
+
+/** @typedef {import('./api.types').TransactionFilters} TransactionFilters */
+/** @typedef {import('./api.types').AutoExpenseInput} AutoExpenseInput */
+
+/**
+ * Get all auto expenses with optional filters
+ * @param {TransactionFilters} [filters]
+ * @param {string | null} [token]
+ */
 export const getAllAutoExpenses = async (filters = {}, token = null) => {
-  try {
-    // Get token if not provided
-    if (!token) {
-      token = await AsyncStorage.getItem('fleetx_auth_token');
-    }
-
-    // Build query string from filters
-    const queryParams = new URLSearchParams();
-    Object.keys(filters).forEach(key => {
-      if (filters[key] !== null && filters[key] !== undefined) {
-        queryParams.append(key, filters[key]);
-      }
-    });
-
-    // Append query string to URL if we have filters
-    const queryString = queryParams.toString() ? `?${queryParams.toString()}` : '';
-    
-    // Make API call
-    const response = await fetch(
-      `${API_BASE_URL}${ENDPOINTS.AUTO_EXPENSE.GET_ALL}${queryString}`,
-      {
-        method: 'GET',
-        headers: getHeaders(token),
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error(`Error fetching auto expenses: ${response.status}`);
-    }
-
-    return await safeJsonParse(response);
-  } catch (error) {
-    console.error('Error in getAllAutoExpenses:', error);
-    throw error;
-  }
+  return apiClient.get(ENDPOINTS.AUTO_EXPENSE.GET_ALL, {
+    query: filters,
+    token,
+    errorMessage: 'Failed to fetch auto expenses',
+  });
 };
 
-// Get auto expense by ID
+/**
+ * Get auto expense by ID
+ * @param {string} id
+ * @param {string | null} [token]
+ */
 export const getAutoExpenseById = async (id, token = null) => {
-  try {
-    // Get token if not provided
-    if (!token) {
-      token = await AsyncStorage.getItem('fleetx_auth_token');
-    }
-
-    const endpoint = replaceParams(ENDPOINTS.AUTO_EXPENSE.GET_ONE, { id });
-    
-    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
-      method: 'GET',
-      headers: getHeaders(token),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Error fetching auto expense: ${response.status}`);
-    }
-
-    return await safeJsonParse(response);
-  } catch (error) {
-    console.error('Error in getAutoExpenseById:', error);
-    throw error;
-  }
+  return apiClient.get(ENDPOINTS.AUTO_EXPENSE.GET_ONE, {
+    params: { id },
+    token,
+    errorMessage: 'Failed to fetch auto expense',
+  });
 };
 
-// Get auto expense summary for a driver
+/**
+ * Get auto expense summary for a driver
+ * @param {string | undefined} driverId
+ * @param {import('./api.types').SummaryPeriod} [period]
+ * @param {string | null} [token]
+ */
 export const getAutoExpensesSummary = async (driverId, period = 'monthly', token = null) => {
-  try {
-    // Get token if not provided
-    if (!token) {
-      token = await AsyncStorage.getItem('fleetx_auth_token');
-    }
-
-    const endpoint = replaceParams(ENDPOINTS.AUTO_EXPENSE.GET_SUMMARY, { driverId });
-    
-    const response = await fetch(`${API_BASE_URL}${endpoint}?period=${period}`, {
-      method: 'GET',
-      headers: getHeaders(token),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Error fetching auto expense summary: ${response.status}`);
-    }
-
-    return await safeJsonParse(response);
-  } catch (error) {
-    console.error('Error in getAutoExpensesSummary:', error);
-    throw error;
-  }
+  return apiClient.get(ENDPOINTS.AUTO_EXPENSE.GET_SUMMARY, {
+    params: { driverId },
+    query: { period },
+    token,
+    errorMessage: 'Failed to fetch auto expense summary',
+  });
 };
 
-// Create a new auto expense
-export const createAutoExpense = async (autoExpenseData, token = null) => {
-  try {
-    // Get token if not provided
-    if (!token) {
-      token = await AsyncStorage.getItem('fleetx_auth_token');
-    }
-
-    const response = await fetch(`${API_BASE_URL}${ENDPOINTS.AUTO_EXPENSE.CREATE}`, {
-      method: 'POST',
-      headers: getHeaders(token),
-      body: JSON.stringify(autoExpenseData),
-    });
-
-    if (!response.ok) {
-      const errorData = await safeJsonParse(response);
-      throw new Error(errorData.message || `Error creating auto expense: ${response.status}`);
-    }
-
-    return await safeJsonParse(response);
-  } catch (error) {
-    console.error('Error in createAutoExpense:', error);
-    throw error;
-  }
+/**
+ * Create a new auto expense
+ * @param {AutoExpenseInput} autoExpenseData
+ * @param {string | null} [token]
+ * @param {string} [idempotencyKey] Lets the server drop replays of the same submission
+ */
+export const createAutoExpense = async (autoExpenseData, token = null, idempotencyKey = createIdempotencyKey()) => {
+  const data = await apiClient.post(ENDPOINTS.AUTO_EXPENSE.CREATE, withReceipts(autoExpenseData), {
+    token,
+    headers: { 'Idempotency-Key': idempotencyKey },
+    errorMessage: 'Failed to create auto expense',
+  });
+  invalidateQueries(ENDPOINTS.AUTO_EXPENSE.GET_ALL);
+  return data;
 };
 
-// Update an existing auto expense
+/**
+ * Update an existing auto expense
+ * @param {string} id
+ * @param {Partial<AutoExpenseInput>} autoExpenseData
+ * @param {string | null} [token]
+ */
 export const updateAutoExpense = async (id, autoExpenseData, token = null) => {
-  try {
-    // Get token if not provided
-    if (!token) {
-      token = await AsyncStorage.getItem('fleetx_auth_token');
-    }
-
-    const endpoint = replaceParams(ENDPOINTS.AUTO_EXPENSE.UPDATE, { id });
-    
-    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
-      method: 'PUT',
-      headers: getHeaders(token),
-      body: JSON.stringify(autoExpenseData),
-    });
-
-    if (!response.ok) {
-      const errorData = await safeJsonParse(response);
-      throw new Error(errorData.message || `Error updating auto expense: ${response.status}`);
-    }
-
-    return await safeJsonParse(response);
-  } catch (error) {
-    console.error('Error in updateAutoExpense:', error);
-    throw error;
-  }
+  const data = await apiClient.put(ENDPOINTS.AUTO_EXPENSE.UPDATE, autoExpenseData, {
+    params: { id },
+    token,
+    errorMessage: 'Failed to update auto expense',
+  });
+  invalidateQueries(ENDPOINTS.AUTO_EXPENSE.GET_ALL);
+  invalidateQueries(ENDPOINTS.AUDIT_LOG.GET_ALL);
+  return data;
 };
 
-// Delete an auto expense
+/**
+ * Move an auto expense to the trash
+ * @param {string} id
+ * @param {string | null} [token]
+ */
 export const deleteAutoExpense = async (id, token = null) => {
-  try {
-    // Get token if not provided
-    if (!token) {
-      token = await AsyncStorage.getItem('fleetx_auth_token');
-    }
-
-    const endpoint = replaceParams(ENDPOINTS.AUTO_EXPENSE.DELETE, { id });
-    
-    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
-      method: 'DELETE',
-      headers: getHeaders(token),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Error deleting auto expense: ${response.status}`);
-    }
+  const data = await apiClient.delete(ENDPOINTS.AUTO_EXPENSE.DELETE, {
+    params: { id },
+    token,
+    errorMessage: 'Failed to delete auto expense',
+  });
+  invalidateQueries(ENDPOINTS.AUTO_EXPENSE.GET_ALL);
+  return data;
+};
 
-    return await safeJsonParse(response);
-  } catch (error) {
-    console.error('Error in deleteAutoExpense:', error);
-    throw error;
-  }
-}; 
\ No newline at end of file
+/**
+ * Approve or reject auto expenses in one go
+ * @param {string[]} ids
+ * @param {import('./api.types').ExpenseReview} review
+ * @param {string | null} [token]
+ */
+export const reviewAutoExpenses = async (ids, review, token = null) => {
+  const data = await apiClient.post(ENDPOINTS.AUTO_EXPENSE.REVIEW, { ids, ...review }, {
+    token,
+    errorMessage: 'Failed to review auto expenses',
+  });
+  invalidateQueries(ENDPOINTS.AUTO_EXPENSE.GET_ALL);
+  return data;
+};
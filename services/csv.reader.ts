@@ -0,0 +1,89 @@
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+
+export type CsvFile = {
+  name: string;
+  header: string[];
+  rows: string[][];
+};
+
+// Spreadsheets exported with a European locale use semicolons, some platforms use tabs
+const detectDelimiter = (firstLine: string) => {
+  const counts = [',', ';', '\t'].map(delimiter => ({
+    delimiter,
+    count: firstLine.split(delimiter).length,
+  }));
+  return counts.reduce((best, item) => (item.count > best.count ? item : best)).delimiter;
+};
+
+/**
+ * Parse CSV text into rows of trimmed cells (RFC 4180: quoted values may hold
+ * delimiters, doubled quotes and line breaks). Blank lines are dropped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(source.split(/\r?\n/)[0] || '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell.trim());
+    if (row.some(value => value !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  endRow();
+
+  return rows;
+};
+
+/**
+ * Let the user pick a CSV file and parse it. The first row is the header.
+ * Resolves to null when the picker is dismissed.
+ */
+export const pickCsvFile = async (): Promise<CsvFile | null> => {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['text/csv', 'text/comma-separated-values', 'text/plain', 'application/vnd.ms-excel'],
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || !result.assets?.length) return null;
+
+  const asset = result.assets[0];
+  const text = await FileSystem.readAsStringAsync(asset.uri, {
+    encoding: FileSystem.EncodingType.UTF8,
+  });
+  const [header = [], ...rows] = parseCsv(text);
+
+  if (header.length === 0) {
+    throw new Error('The selected file is empty');
+  }
+
+  return { name: asset.name, header, rows };
+};
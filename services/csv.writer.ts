@@ -0,0 +1,56 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+export type CsvValue = string | number | null | undefined;
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const NUMBER = /^-?\d+(\.\d+)?$/;
+
+// Neutralise formulas in free text with a leading apostrophe, then quote
+// values containing separators, quotes or line breaks (RFC 4180)
+const escapeCsv = (value: CsvValue) => {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (FORMULA_PREFIX.test(text) && !NUMBER.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: CsvValue[][]) =>
+  rows.map(row => row.map(escapeCsv).join(',')).join('\r\n');
+
+/**
+ * Write rows to a CSV file in the documents directory and return its URI.
+ * Files that are only shared, not kept, go to the cache directory instead.
+ * A byte order mark is added so Excel reads the file as UTF-8.
+ */
+export const writeCsv = async (
+  rows: CsvValue[][],
+  fileName: string,
+  { temporary = false }: { temporary?: boolean } = {}
+): Promise<string> => {
+  const directory = temporary ? FileSystem.cacheDirectory : FileSystem.documentDirectory;
+  const uri = `${directory}${fileName.replace(/\.csv$/i, '')}.csv`;
+  await FileSystem.writeAsStringAsync(uri, `\uFEFF${toCsv(rows)}`, {
+    encoding: FileSystem.EncodingType.UTF8,
+  });
+  return uri;
+};
+
+export const shareCsv = async (uri: string, dialogTitle: string) => {
+  await Sharing.shareAsync(uri, {
+    mimeType: 'text/csv',
+    UTI: 'public.comma-separated-values-text',
+    dialogTitle,
+  });
+};
+
+// Remove a written CSV; a file that is already gone is not an error
+export const deleteCsv = async (uri: string) => {
+  try {
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+  } catch (error) {
+    console.error('Error deleting CSV file:', error);
+  }
+};
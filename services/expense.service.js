@@ -1,191 +1,111 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { API_BASE_URL, ENDPOINTS, getHeaders } from './api.config';
-
-// Helper function to replace URL parameters
-const replaceParams = (url, params) => {
-  let result = url;
-  Object.keys(params).forEach(key => {
-    result = result.replace(`:${key}`, params[key]);
-  });
-  return result;
-};
-
-// Helper function to safely parse JSON response
-const safeJsonParse = async (response) => {
-  try {
-    const text = await response.text();
-    return text.length ? JSON.parse(text) : {};
-  } catch (error) {
-    console.error('Error parsing JSON:', error);
-    throw new Error('Invalid response format');
-  }
-};
-
-// Get all expenses with optional filters
+import { ENDPOINTS } from './api.config';
+import { apiClient, createIdempotencyKey } from './api.client';
+import { invalidateQueries } from './query.cache';
+import { withReceipts } from './receipt.service';
+
+/** @typedef {import('./api.types').TransactionFilters} TransactionFilters */
+/** @typedef {import('./api.types').ExpenseInput} ExpenseInput */
+
+/**
+ * Get all expenses with optional filters
+ * @param {TransactionFilters} [filters]
+ * @param {string | null} [token]
+ */
 export const getAllExpenses = async (filters = {}, token = null) => {
-  try {
-    // Get token if not provided
-    if (!token) {
-      token = await AsyncStorage.getItem('fleetx_auth_token');
-    }
-
-    // Build query string from filters
-    const queryParams = new URLSearchParams();
-    Object.keys(filters).forEach(key => {
-      if (filters[key] !== null && filters[key] !== undefined) {
-        queryParams.append(key, filters[key]);
-      }
-    });
-
-    // Append query string to URL if we have filters
-    const queryString = queryParams.toString() ? `?${queryParams.toString()}` : '';
-    
-    // Make API call
-    const response = await fetch(
-      `${API_BASE_URL}${ENDPOINTS.EXPENSE.GET_ALL}${queryString}`,
-      {
-        method: 'GET',
-        headers: getHeaders(token),
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error(`Error fetching expenses: ${response.status}`);
-    }
-
-    return await safeJsonParse(response);
-  } catch (error) {
-    console.error('Error in getAllExpenses:', error);
-    throw error;
-  }
+  return apiClient.get(ENDPOINTS.EXPENSE.GET_ALL, {
+    query: filters,
+    token,
+    errorMessage: 'Failed to fetch expenses',
+  });
 };
 
-// Get expense by ID
+/**
+ * Get expense by ID
+ * @param {string} id
+ * @param {string | null} [token]
+ */
 export const getExpenseById = async (id, token = null) => {
-  try {
-    // Get token if not provided
-    if (!token) {
-      token = await AsyncStorage.getItem('fleetx_auth_token');
-    }
-
-    const endpoint = replaceParams(ENDPOINTS.EXPENSE.GET_ONE, { id });
-    
-    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
-      method: 'GET',
-      headers: getHeaders(token),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Error fetching expense: ${response.status}`);
-    }
-
-    return await safeJsonParse(response);
-  } catch (error) {
-    console.error('Error in getExpenseById:', error);
-    throw error;
-  }
+  return apiClient.get(ENDPOINTS.EXPENSE.GET_ONE, {
+    params: { id },
+    token,
+    errorMessage: 'Failed to fetch expense',
+  });
 };
 
-// Get expense summary for a driver
+/**
+ * Get expense summary for a driver
+ * @param {string | undefined} driverId
+ * @param {import('./api.types').SummaryPeriod} [period]
+ * @param {string | null} [token]
+ */
 export const getExpensesSummary = async (driverId, period = 'monthly', token = null) => {
-  try {
-    // Get token if not provided
-    if (!token) {
-      token = await AsyncStorage.getItem('fleetx_auth_token');
-    }
-
-    const endpoint = replaceParams(ENDPOINTS.EXPENSE.GET_SUMMARY, { driverId });
-    
-    const response = await fetch(`${API_BASE_URL}${endpoint}?period=${period}`, {
-      method: 'GET',
-      headers: getHeaders(token),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Error fetching expense summary: ${response.status}`);
-    }
-
-    return await safeJsonParse(response);
-  } catch (error) {
-    console.error('Error in getExpensesSummary:', error);
-    throw error;
-  }
+  return apiClient.get(ENDPOINTS.EXPENSE.GET_SUMMARY, {
+    params: { driverId },
+    query: { period },
+    token,
+    errorMessage: 'Failed to fetch expense summary',
+  });
 };
 
-// Create a new expense
-export const createExpense = async (expenseData, token = null) => {
-  try {
-    // Get token if not provided
-    if (!token) {
-      token = await AsyncStorage.getItem('fleetx_auth_token');
-    }
-
-    const response = await fetch(`${API_BASE_URL}${ENDPOINTS.EXPENSE.CREATE}`, {
-      method: 'POST',
-      headers: getHeaders(token),
-      body: JSON.stringify(expenseData),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Error creating expense: ${response.status}`);
-    }
-
-    return await safeJsonParse(response);
-  } catch (error) {
-    console.error('Error in createExpense:', error);
-    throw error;
-  }
+/**
+ * Create a new expense
+ * @param {ExpenseInput} expenseData
+ * @param {string | null} [token]
+ * @param {string} [idempotencyKey] Lets the server drop replays of the same submission
+ */
+export const createExpense = async (expenseData, token = null, idempotencyKey = createIdempotencyKey()) => {
+  const data = await apiClient.post(ENDPOINTS.EXPENSE.CREATE, withReceipts(expenseData), {
+    token,
+    headers: { 'Idempotency-Key': idempotencyKey },
+    errorMessage: 'Failed to create expense',
+  });
+  invalidateQueries(ENDPOINTS.EXPENSE.GET_ALL);
+  return data;
 };
 
-// Update an existing expense
+/**
+ * Update an existing expense
+ * @param {string} id
+ * @param {Partial<ExpenseInput>} expenseData
+ * @param {string | null} [token]
+ */
 export const updateExpense = async (id, expenseData, token = null) => {
-  try {
-    // Get token if not provided
-    if (!token) {
-      token = await AsyncStorage.getItem('fleetx_auth_token');
-    }
-
-    const endpoint = replaceParams(ENDPOINTS.EXPENSE.UPDATE, { id });
-    
-    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
-      method: 'PUT',
-      headers: getHeaders(token),
-      body: JSON.stringify(expenseData),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Error updating expense: ${response.status}`);
-    }
-
-    return await safeJsonParse(response);
-  } catch (error) {
-    console.error('Error in updateExpense:', error);
-    throw error;
-  }
+  const data = await apiClient.put(ENDPOINTS.EXPENSE.UPDATE, expenseData, {
+    params: { id },
+    token,
+    errorMessage: 'Failed to update expense',
+  });
+  invalidateQueries(ENDPOINTS.EXPENSE.GET_ALL);
+  invalidateQueries(ENDPOINTS.AUDIT_LOG.GET_ALL);
+  return data;
 };
 
-// Delete an expense
+/**
+ * Move an expense to the trash
+ * @param {string} id
+ * @param {string | null} [token]
+ */
 export const deleteExpense = async (id, token = null) => {
-  try {
-    // Get token if not provided
-    if (!token) {
-      token = await AsyncStorage.getItem('fleetx_auth_token');
-    }
-
-    const endpoint = replaceParams(ENDPOINTS.EXPENSE.DELETE, { id });
-    
-    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
-      method: 'DELETE',
-      headers: getHeaders(token),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Error deleting expense: ${response.status}`);
-    }
+  const data = await apiClient.delete(ENDPOINTS.EXPENSE.DELETE, {
+    params: { id },
+    token,
+    errorMessage: 'Failed to delete expense',
+  });
+  invalidateQueries(ENDPOINTS.EXPENSE.GET_ALL);
+  return data;
+};
 
-    return await safeJsonParse(response);
-  } catch (error) {
-    console.error('Error in deleteExpense:', error);
-    throw error;
-  }
-}; 
\ No newline at end of file
+/**
+ * Approve or reject expenses in one go
+ * @param {string[]} ids
+ * @param {import('./api.types').ExpenseReview} review
+ * @param {string | null} [token]
+ */
+export const reviewExpenses = async (ids, review, token = null) => {
+  const data = await apiClient.post(ENDPOINTS.EXPENSE.REVIEW, { ids, ...review }, {
+    token,
+    errorMessage: 'Failed to review expenses',
+  });
+  invalidateQueries(ENDPOINTS.EXPENSE.GET_ALL);
+  return data;
+};
@@ -0,0 +1,81 @@
+import { getStatementFileName } from './pdf.renderer';
+import { CsvValue, shareCsv, writeCsv } from './csv.writer';
+import { shareXlsx, writeXlsx } from './xlsx.writer';
+import { getRecordsPeriod } from './statement.template';
+import { toDateKey } from '../utils/date';
+
+// Types
+export type ExportFormat = 'csv' | 'xlsx';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel',
+};
+
+// Any earning, expense or auto expense as returned by the API
+type TransactionRecord = {
+  id: string;
+  amount: number | string | null;
+  date: string;
+  note?: string;
+  description?: string;
+  type?: string;
+  category?: string;
+  accountName?: string;
+  driverId?: string;
+  driver?: { id: string; name: string };
+};
+
+export type TransactionKind = 'Earning' | 'Expense' | 'Auto Expense';
+
+const HEADER = ['Date', 'Driver', 'Driver ID', 'Kind', 'Type / Category', 'Account', 'Amount', 'Note', 'ID'];
+
+const toRow = (record: TransactionRecord, kind: TransactionKind, driverName?: string): CsvValue[] => [
+  toDateKey(record.date),
+  record.driver?.name || driverName || '',
+  record.driver?.id || record.driverId || '',
+  kind,
+  record.type || record.category || '',
+  record.accountName || '',
+  parseFloat(String(record.amount)) || 0,
+  record.note || record.description || '',
+  record.id,
+];
+
+/**
+ * Write transactions to a CSV or Excel file with every field our bookkeeping
+ * import needs, and open the share sheet
+ * @param records Rows as shown on screen, each with its kind
+ * @param format
+ * @param options `driverName` fills the driver column for records that don't
+ *   carry their driver, and names the file; `kind` names the file
+ */
+export const exportTransactions = async (
+  records: { record: TransactionRecord; kind: TransactionKind }[],
+  format: ExportFormat,
+  options: { kind: string; driverName?: string }
+): Promise<void> => {
+  try {
+    const rows = [
+      HEADER,
+      ...records.map(({ record, kind }) => toRow(record, kind, options.driverName)),
+    ];
+    const period = getRecordsPeriod(records.map(({ record }) => record));
+    const fileName = getStatementFileName(options.kind, options.driverName, period, format);
+
+    if (format === 'xlsx') {
+      const uri = await writeXlsx(rows, fileName, options.kind);
+      await shareXlsx(uri, `Export ${options.kind}`);
+    } else {
+      const uri = await writeCsv(rows, fileName);
+      await shareCsv(uri, `Export ${options.kind}`);
+    }
+  } catch (error) {
+    console.error('Error exporting transactions:', error);
+    throw new Error(`Failed to export ${EXPORT_FORMAT_LABELS[format]} file`);
+  }
+};
+
+// Tag records of a single kind for exportTransactions
+export const withKind = <T extends TransactionRecord>(records: T[], kind: TransactionKind) =>
+  records.map(record => ({ record, kind }));
@@ -0,0 +1,523 @@
+import { getRandomBytes } from 'expo-crypto';
+import { CsvValue, deleteCsv, shareCsv, writeCsv } from './csv.writer';
+import { parseDate, toDateKey, toDateString } from '../utils/date';
+import { PASSWORD_RULES, isStrongPassword } from '../utils/password';
+import type { DateRange } from './analytics.service';
+import type { DriverInput, DriverRef, Earning, EarningPaymentType, VehicleInput } from './api.types';
+
+// Types
+export type ImportField<K extends string = string> = {
+  key: K;
+  label: string;
+  required?: boolean;
+  // Header names this field is recognised by, lower case
+  aliases: string[];
+};
+
+// Column index for each field; fields left out are not imported
+export type ColumnMapping<K extends string = string> = Partial<Record<K, number>>;
+
+export type ImportRow<T> = {
+  // Line in the file, counting the header as line 1
+  line: number;
+  value?: T;
+  errors: string[];
+  // Already recorded, either on the server or earlier in the file
+  duplicate: boolean;
+};
+
+export type ImportResult = {
+  created: number;
+  failed: { line: number; message: string }[];
+};
+
+export type EarningImportField = 'amount' | 'date' | 'type' | 'accountName' | 'note';
+
+export type EarningInput = {
+  driverId: string;
+  amount: number;
+  date: string;
+  type: EarningPaymentType;
+  accountName?: string;
+  note: string;
+};
+
+export type DriverImportField = 'name' | 'email' | 'phoneNumber' | 'password';
+
+export type DriverImport = DriverInput & {
+  password: string;
+  // No password in the file, so one was made up and has to be passed on
+  generatedPassword: boolean;
+};
+
+export type VehicleImportField = 'name' | 'plate' | 'type' | 'model' | 'color' | 'ownership' | 'status' | 'drivers';
+
+export type VehicleImport = VehicleInput & {
+  driverEmails: string[];
+};
+
+// One line of the report shared after an import
+export type ImportReportEntry = {
+  line: number;
+  record: string;
+  status: 'Imported' | 'Failed' | 'Invalid' | 'Skipped';
+  message?: string;
+  password?: string;
+};
+
+export const PAYMENT_TYPES: EarningPaymentType[] = ['Online', 'Cash', 'Pocket Slipt'];
+
+export const EARNING_IMPORT_FIELDS: ImportField<EarningImportField>[] = [
+  { key: 'amount', label: 'Amount', required: true, aliases: ['amount', 'fare', 'total', 'earnings', 'net earnings', 'payout', 'price'] },
+  { key: 'date', label: 'Date', required: true, aliases: ['date', 'trip date', 'pickup time', 'request time', 'completed at', 'time'] },
+  { key: 'type', label: 'Payment Type', aliases: ['payment type', 'payment method', 'payment', 'type', 'method'] },
+  { key: 'accountName', label: 'Account', aliases: ['account', 'account name'] },
+  { key: 'note', label: 'Note', aliases: ['note', 'notes', 'description', 'trip id', 'booking id', 'reference'] },
+];
+
+export const DRIVER_IMPORT_FIELDS: ImportField<DriverImportField>[] = [
+  { key: 'name', label: 'Name', required: true, aliases: ['name', 'full name', 'driver name', 'driver'] },
+  { key: 'email', label: 'Email', required: true, aliases: ['email', 'email address', 'e mail'] },
+  { key: 'phoneNumber', label: 'Phone Number', aliases: ['phone number', 'phone', 'mobile', 'contact'] },
+  { key: 'password', label: 'Initial Password', aliases: ['password', 'initial password', 'temporary password'] },
+];
+
+export const VEHICLE_IMPORT_FIELDS: ImportField<VehicleImportField>[] = [
+  { key: 'name', label: 'Name', required: true, aliases: ['name', 'vehicle name', 'vehicle'] },
+  { key: 'plate', label: 'Plate', required: true, aliases: ['plate', 'plate number', 'registration', 'number plate'] },
+  { key: 'type', label: 'Type', aliases: ['type', 'vehicle type', 'category'] },
+  { key: 'model', label: 'Model', aliases: ['model', 'make'] },
+  { key: 'color', label: 'Color', aliases: ['color', 'colour'] },
+  { key: 'ownership', label: 'Ownership', aliases: ['ownership', 'owner', 'owned by'] },
+  { key: 'status', label: 'Status', aliases: ['status', 'state'] },
+  { key: 'drivers', label: 'Driver Emails', aliases: ['driver emails', 'drivers', 'driver email', 'assigned drivers'] },
+];
+
+// Values accepted for a vehicle's status, as shown on the add vehicle screen
+export const VEHICLE_STATUSES = ['active', 'maintenance', 'inactive'];
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Guess which column holds each field from the header names. Exact matches
+ * win over partial ones and a column is only used once.
+ */
+export const guessColumnMapping = <K extends string>(header: string[], fields: ImportField<K>[]): ColumnMapping<K> => {
+  const names = header.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping: ColumnMapping<K> = {};
+
+  const find = (field: ImportField<K>, matches: (name: string, alias: string) => boolean) => {
+    for (const alias of field.aliases) {
+      const index = names.findIndex((name, i) => !used.has(i) && matches(name, alias));
+      if (index !== -1) return index;
+    }
+    return -1;
+  };
+
+  for (const exact of [true, false]) {
+    fields.forEach(field => {
+      if (mapping[field.key] !== undefined) return;
+      const index = find(field, exact ? (name, alias) => name === alias : (name, alias) => name.includes(alias));
+      if (index !== -1) {
+        mapping[field.key] = index;
+        used.add(index);
+      }
+    });
+  }
+
+  return mapping;
+};
+
+// Fields marked required that have no column yet
+export const getMissingFields = <K extends string>(fields: ImportField<K>[], mapping: ColumnMapping<K>) =>
+  fields.filter(field => field.required && mapping[field.key] === undefined);
+
+const cellOf = <K extends string>(row: string[], mapping: ColumnMapping<K>, key: K) => {
+  const index = mapping[key];
+  return index === undefined ? '' : (row[index] || '').trim();
+};
+
+const NUMERIC_DATE = /^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})/;
+
+/**
+ * Whether slash dates in a column are day first (31/01/2026) rather than
+ * month first (01/31/2026). Any value that only fits one order decides it;
+ * otherwise day first, as our platforms export.
+ */
+export const isDayFirst = (values: string[]) => {
+  for (const value of values) {
+    const match = value.match(NUMERIC_DATE);
+    if (!match || match[1].length === 4) continue;
+    if (Number(match[1]) > 12) return true;
+    if (Number(match[2]) > 12) return false;
+  }
+  return true;
+};
+
+/**
+ * Read a date as YYYY-MM-DD. Accepts ISO dates and timestamps, day or month
+ * first numeric dates and anything else the JS date parser understands.
+ * @returns null when the value is not a valid date
+ */
+export const parseImportDate = (value: string, dayFirst = true): string | null => {
+  const match = value.match(NUMERIC_DATE);
+  if (match) {
+    let [year, month, day] = match[1].length === 4
+      ? [match[1], match[2], match[3]]
+      : dayFirst ? [match[3], match[2], match[1]] : [match[3], match[1], match[2]];
+    if (year.length === 2) year = `20${year}`;
+
+    const key = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+    // Reject days that roll over into the next month, e.g. 31/02
+    return /^\d{4}-\d{2}-\d{2}$/.test(key) && toDateString(parseDate(key)) === key ? key : null;
+  }
+
+  const date = new Date(value);
+  return value && !isNaN(date.getTime()) ? toDateString(date) : null;
+};
+
+/**
+ * Read an amount, ignoring currency codes, symbols and thousands separators.
+ * A comma followed by exactly two digits at the end is a decimal comma.
+ * @returns NaN when the value holds no number
+ */
+export const parseImportAmount = (value: string) => {
+  let text = value.replace(/[^\d.,-]/g, '');
+  if (/,\d{2}$/.test(text) && !/\.\d+$/.test(text)) {
+    text = text.replace(/\./g, '').replace(',', '.');
+  }
+  return parseFloat(text.replace(/,/g, ''));
+};
+
+const matchPaymentType = (value: string): EarningPaymentType | null => {
+  const text = value.toLowerCase();
+  if (!text) return null;
+  if (text.includes('pocket')) return 'Pocket Slipt';
+  if (text.includes('cash')) return 'Cash';
+  if (/online|card|app|wallet|credit|debit|pay/.test(text)) return 'Online';
+  return null;
+};
+
+// The exact name first, then a name that contains the cell or the other way round, e.g. "Limo"
+const matchAccount = (value: string, accounts: string[]) => {
+  const text = value.trim().toLowerCase();
+  if (text.length < 3) return null;
+
+  const exact = accounts.find(account => account.toLowerCase() === text);
+  if (exact) return exact;
+  return accounts.find(account => {
+    const name = account.toLowerCase().replace(/\baccount\b/, '').trim();
+    return !!name && (text.includes(name) || name.includes(text));
+  }) || null;
+};
+
+const duplicateKey = (item: { date: string; amount: number | string; type?: string }) =>
+  `${toDateKey(item.date)}|${(parseFloat(String(item.amount)) || 0).toFixed(2)}|${item.type}`;
+
+/**
+ * Validate mapped CSV rows as earnings for one driver and flag the ones that
+ * are already recorded. Matching is on date, amount and payment type, and
+ * each existing earning accounts for one row, so two identical trips on the
+ * same day are only both flagged when both are already there.
+ * @param rows Data rows, without the header
+ * @param mapping
+ * @param options `accounts` are the names rows may be booked against;
+ *   `defaultType` and `defaultAccount` fill in rows whose value is missing or
+ *   not recognised; `existing` are the driver's earnings for the period the
+ *   file covers
+ */
+export const buildEarningImport = (
+  rows: string[][],
+  mapping: ColumnMapping<EarningImportField>,
+  options: {
+    driverId: string;
+    defaultType: EarningPaymentType;
+    accounts: string[];
+    defaultAccount?: string;
+    existing?: Pick<Earning, 'date' | 'amount' | 'type'>[];
+  }
+): ImportRow<EarningInput>[] => {
+  const dayFirst = isDayFirst(rows.map(row => cellOf(row, mapping, 'date')));
+  const remaining = new Map<string, number>();
+  (options.existing || []).forEach(item => {
+    const key = duplicateKey(item);
+    remaining.set(key, (remaining.get(key) || 0) + 1);
+  });
+  const seen = new Set<string>();
+
+  return rows.map((row, index) => {
+    const errors: string[] = [];
+    const rawAmount = cellOf(row, mapping, 'amount');
+    const rawDate = cellOf(row, mapping, 'date');
+
+    const amount = parseImportAmount(rawAmount);
+    if (isNaN(amount) || amount <= 0) {
+      errors.push(rawAmount ? `Invalid amount "${rawAmount}"` : 'Missing amount');
+    } else if (Math.floor(amount).toString().length > 5) {
+      errors.push('Amount cannot exceed 5 digits');
+    }
+
+    const date = parseImportDate(rawDate, dayFirst);
+    if (!date) {
+      errors.push(rawDate ? `Invalid date "${rawDate}"` : 'Missing date');
+    }
+
+    if (errors.length > 0) {
+      return { line: index + 2, errors, duplicate: false };
+    }
+
+    const value: EarningInput = {
+      driverId: options.driverId,
+      amount: Math.round(amount * 100) / 100,
+      date: date as string,
+      type: matchPaymentType(cellOf(row, mapping, 'type')) || options.defaultType,
+      accountName: matchAccount(cellOf(row, mapping, 'accountName'), options.accounts) || options.defaultAccount,
+      note: cellOf(row, mapping, 'note'),
+    };
+
+    const key = duplicateKey(value);
+    const onServer = (remaining.get(key) || 0) > 0;
+    if (onServer) {
+      remaining.set(key, (remaining.get(key) || 0) - 1);
+    }
+    // Identical rows in one file are kept once, but only when the line is also identical
+    const rowKey = `${key}|${value.accountName}|${value.note}`;
+    const inFile = seen.has(rowKey);
+    seen.add(rowKey);
+
+    return { line: index + 2, value, errors, duplicate: onServer || inFile };
+  });
+};
+
+// First and last date of the valid rows, for loading the existing records
+export const getImportRange = (rows: ImportRow<{ date: string }>[]): DateRange | null => {
+  const dates = rows.flatMap(row => (row.value ? [row.value.date] : [])).sort();
+  return dates.length ? { startDate: dates[0], endDate: dates[dates.length - 1] } : null;
+};
+
+/**
+ * Create rows one at a time, in file order, so a failure doesn't stop the
+ * rest of the import
+ * @param rows Valid rows to create
+ * @param create Sends one row
+ * @param onProgress Called after each row with the number done so far
+ */
+export const runImport = async <T>(
+  rows: ImportRow<T>[],
+  create: (value: T) => Promise<unknown>,
+  onProgress?: (done: number) => void
+): Promise<ImportResult> => {
+  const result: ImportResult = { created: 0, failed: [] };
+
+  for (const [index, row] of rows.entries()) {
+    if (!row.value) continue;
+    try {
+      await create(row.value);
+      result.created += 1;
+    } catch (error: any) {
+      result.failed.push({ line: row.line, message: error?.message || 'Failed to import row' });
+    }
+    onProgress?.(index + 1);
+  }
+
+  return result;
+};
+
+// Same check as the add driver form
+const EMAIL_PATTERN = /^\w+([\.-]?\w+)*@\w+([\.-]?\w+)*(\.\w{2,3})+$/;
+
+// Letters and digits that can't be mistaken for one another when read out.
+// Each generated password takes at least one from every set to meet PASSWORD_RULES.
+const PASSWORD_CHARACTER_SETS = ['abcdefghjkmnpqrstuvwxyz', 'ABCDEFGHJKMNPQRSTUVWXYZ', '23456789'];
+const PASSWORD_CHARACTERS = PASSWORD_CHARACTER_SETS.join('');
+
+// Unbiased random index below `max` (at most 256) from the platform's secure generator
+const randomIndex = (max: number) => {
+  const limit = 256 - (256 % max);
+  for (;;) {
+    const [byte] = getRandomBytes(1);
+    if (byte < limit) return byte % max;
+  }
+};
+
+const randomCharacter = (characters: string) => characters[randomIndex(characters.length)];
+
+export const generatePassword = (length = 10) => {
+  const characters = [
+    ...PASSWORD_CHARACTER_SETS.map(randomCharacter),
+    ...Array.from({ length: length - PASSWORD_CHARACTER_SETS.length }, () => randomCharacter(PASSWORD_CHARACTERS)),
+  ];
+  // Shuffle so the guaranteed characters aren't always first
+  for (let i = characters.length - 1; i > 0; i--) {
+    const j = randomIndex(i + 1);
+    [characters[i], characters[j]] = [characters[j], characters[i]];
+  }
+  return characters.join('');
+};
+
+/**
+ * Validate mapped CSV rows as new drivers. Emails already registered, or
+ * repeated in the file, are rejected. Rows without a password get a generated
+ * one that has to be handed to the driver.
+ * @param rows Data rows, without the header
+ * @param mapping
+ * @param existing Drivers already registered
+ */
+export const buildDriverImport = (
+  rows: string[][],
+  mapping: ColumnMapping<DriverImportField>,
+  existing: Pick<DriverRef, 'email'>[] = []
+): ImportRow<DriverImport>[] => {
+  const registered = new Set(existing.map(driver => (driver.email || '').toLowerCase()));
+  const seen = new Set<string>();
+
+  return rows.map((row, index) => {
+    const errors: string[] = [];
+    const name = cellOf(row, mapping, 'name');
+    const email = cellOf(row, mapping, 'email').toLowerCase();
+    const password = cellOf(row, mapping, 'password');
+
+    if (!name) errors.push('Missing name');
+    if (!email) {
+      errors.push('Missing email');
+    } else if (!EMAIL_PATTERN.test(email)) {
+      errors.push(`Invalid email "${email}"`);
+    } else if (registered.has(email)) {
+      errors.push('A driver with this email already exists');
+    } else if (seen.has(email)) {
+      errors.push('Email appears earlier in the file');
+    }
+    // Same rules as changing a password in the app
+    if (password && !isStrongPassword(password)) {
+      errors.push(`Password needs ${PASSWORD_RULES.map(rule => rule.label.toLowerCase()).join(', ')}`);
+    }
+    seen.add(email);
+
+    if (errors.length > 0) {
+      return { line: index + 2, errors, duplicate: false };
+    }
+
+    return {
+      line: index + 2,
+      value: {
+        name,
+        email,
+        phoneNumber: cellOf(row, mapping, 'phoneNumber'),
+        password: password || generatePassword(),
+        generatedPassword: !password,
+      },
+      errors,
+      duplicate: false,
+    };
+  });
+};
+
+/**
+ * Validate mapped CSV rows as new vehicles. Plates already registered, or
+ * repeated in the file, are rejected, and every assigned driver email has to
+ * belong to a registered driver.
+ * @param rows Data rows, without the header
+ * @param mapping
+ * @param options `drivers` to assign by email; `existing` vehicles already registered
+ */
+export const buildVehicleImport = (
+  rows: string[][],
+  mapping: ColumnMapping<VehicleImportField>,
+  options: {
+    drivers: Pick<DriverRef, 'id' | 'email'>[];
+    existing?: { plate: string }[];
+  }
+): ImportRow<VehicleImport>[] => {
+  const normalizePlate = (plate: string) => plate.toUpperCase().replace(/\s+/g, ' ');
+  const registered = new Set((options.existing || []).map(vehicle => normalizePlate(vehicle.plate || '')));
+  const driverIds = new Map(options.drivers.map(driver => [(driver.email || '').toLowerCase(), driver.id]));
+  const seen = new Set<string>();
+
+  return rows.map((row, index) => {
+    const errors: string[] = [];
+    const name = cellOf(row, mapping, 'name');
+    const plate = normalizePlate(cellOf(row, mapping, 'plate'));
+    const status = cellOf(row, mapping, 'status').toLowerCase() || 'active';
+    const driverEmails = cellOf(row, mapping, 'drivers')
+      .split(/[;,|\s]+/)
+      .map(email => email.toLowerCase())
+      .filter(Boolean);
+
+    if (!name) errors.push('Missing name');
+    if (!plate) {
+      errors.push('Missing plate');
+    } else if (registered.has(plate)) {
+      errors.push('A vehicle with this plate already exists');
+    } else if (seen.has(plate)) {
+      errors.push('Plate appears earlier in the file');
+    }
+    seen.add(plate);
+
+    if (!VEHICLE_STATUSES.includes(status)) {
+      errors.push(`Status must be one of ${VEHICLE_STATUSES.join(', ')}`);
+    }
+    const unknown = driverEmails.filter(email => !driverIds.has(email));
+    if (unknown.length > 0) {
+      errors.push(`No driver with email ${unknown.join(', ')}`);
+    }
+
+    if (errors.length > 0) {
+      return { line: index + 2, errors, duplicate: false };
+    }
+
+    return {
+      line: index + 2,
+      value: {
+        name,
+        plate,
+        type: cellOf(row, mapping, 'type'),
+        model: cellOf(row, mapping, 'model'),
+        color: cellOf(row, mapping, 'color'),
+        ownership: cellOf(row, mapping, 'ownership'),
+        status,
+        driverIds: driverEmails.map(email => driverIds.get(email) as string),
+        driverEmails,
+      },
+      errors,
+      duplicate: false,
+    };
+  });
+};
+
+/**
+ * Share what happened to each row of an import as CSV. A password column is
+ * added when any entry carries one, so the file doubles as the list of
+ * initial passwords to hand out.
+ *
+ * Returns the report's URI. Android can close the share sheet before the
+ * receiving app has read the file, so the caller deletes it with deleteCsv
+ * later, e.g. when the import screen closes.
+ * @param kind e.g. "drivers", names the file
+ * @param entries
+ */
+export const shareImportReport = async (kind: string, entries: ImportReportEntry[]): Promise<string> => {
+  try {
+    const withPasswords = entries.some(entry => entry.password);
+    const header = ['Line', 'Record', 'Status', 'Message', ...(withPasswords ? ['Initial Password'] : [])];
+    const rows: CsvValue[][] = entries.map(entry => [
+      entry.line,
+      entry.record,
+      entry.status,
+      entry.message || '',
+      ...(withPasswords ? [entry.password || ''] : []),
+    ]);
+
+    const uri = await writeCsv([header, ...rows], `${kind}-import-report-${toDateString(new Date())}`, { temporary: true });
+    try {
+      await shareCsv(uri, 'Share Import Report');
+    } catch (error) {
+      await deleteCsv(uri);
+      throw error;
+    }
+    return uri;
+  } catch (error) {
+    console.error('Error sharing import report:', error);
+    throw new Error('Failed to share import report');
+  }
+};
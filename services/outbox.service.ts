@@ -0,0 +1,235 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ApiError, createIdempotencyKey, isApiError } from './api.client';
+import { createEarning } from './earning.service';
+import { createExpense } from './expense.service';
+import { createAutoExpense } from './autoExpense.service';
+import { deleteQueuedReceipts, keepQueuedReceipts } from './receipt.service';
+import type { AutoExpenseInput, EarningInput, ExpenseInput } from './api.types';
+
+// Storage key
+const OUTBOX_KEY = 'fleetx_outbox';
+
+// Retry backoff: 15s, 30s, 1m, 2m ... capped at 15 minutes
+const BASE_RETRY_DELAY = 15 * 1000;
+const MAX_RETRY_DELAY = 15 * 60 * 1000;
+
+// Types
+export type OutboxKind = 'earning' | 'expense' | 'autoExpense';
+
+type OutboxPayloads = {
+  earning: EarningInput;
+  expense: ExpenseInput;
+  autoExpense: AutoExpenseInput;
+};
+
+export type OutboxEntry<K extends OutboxKind = OutboxKind> = {
+  // Doubles as the Idempotency-Key sent with every attempt
+  id: string;
+  kind: K;
+  payload: OutboxPayloads[K];
+  userId: string;
+  createdAt: string;
+  attempts: number;
+  nextAttemptAt: number;
+  // 'failed' entries were rejected by the server and are no longer retried
+  status: 'pending' | 'failed';
+  lastError?: string;
+};
+
+export type SubmitResult =
+  | { status: 'sent'; data: any }
+  | { status: 'queued'; entry: OutboxEntry };
+
+export type FlushResult = {
+  sent: number;
+  failed: number;
+  remaining: number;
+};
+
+// Receipt photos attached to a queued expense or auto expense
+const receiptsOf = (payload: unknown): string[] =>
+  (payload as { receipts?: string[] } | undefined)?.receipts || [];
+
+const senders: { [K in OutboxKind]: (payload: OutboxPayloads[K], token: string | null, key: string) => Promise<any> } = {
+  earning: createEarning,
+  expense: createExpense,
+  autoExpense: createAutoExpense,
+};
+
+// Change subscribers
+type OutboxListener = (entries: OutboxEntry[]) => void;
+const listeners = new Set<OutboxListener>();
+
+export const onOutboxChange = (listener: OutboxListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Read all entries, oldest first
+export const getOutboxEntries = async (): Promise<OutboxEntry[]> => {
+  try {
+    const json = await AsyncStorage.getItem(OUTBOX_KEY);
+    return json ? JSON.parse(json) : [];
+  } catch (error) {
+    console.error('Error reading outbox:', error);
+    return [];
+  }
+};
+
+const saveOutboxEntries = async (entries: OutboxEntry[]) => {
+  await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+  listeners.forEach(listener => listener(entries));
+};
+
+// Entries belonging to a single user
+export const getUserOutboxEntries = async (userId: string) => {
+  const entries = await getOutboxEntries();
+  return entries.filter(entry => entry.userId === userId);
+};
+
+export const getRetryDelay = (attempts: number) =>
+  Math.min(BASE_RETRY_DELAY * Math.pow(2, Math.max(attempts - 1, 0)), MAX_RETRY_DELAY);
+
+// Store a submission for later delivery
+export const enqueueTransaction = async <K extends OutboxKind>(
+  kind: K,
+  payload: OutboxPayloads[K],
+  userId: string,
+  id: string = createIdempotencyKey()
+): Promise<OutboxEntry<K>> => {
+  const receipts = receiptsOf(payload);
+  const entry: OutboxEntry<K> = {
+    id,
+    kind,
+    payload: receipts.length > 0 ? { ...payload, receipts: await keepQueuedReceipts(receipts, id) } : payload,
+    userId,
+    createdAt: new Date().toISOString(),
+    attempts: 1,
+    nextAttemptAt: Date.now() + getRetryDelay(1),
+    status: 'pending',
+  };
+
+  const entries = await getOutboxEntries();
+  await saveOutboxEntries([...entries, entry]);
+  return entry;
+};
+
+// Remove an entry without sending it
+export const discardOutboxEntry = async (id: string) => {
+  const entries = await getOutboxEntries();
+  const discarded = entries.find(entry => entry.id === id);
+  await saveOutboxEntries(entries.filter(entry => entry.id !== id));
+  if (discarded) await deleteQueuedReceipts(receiptsOf(discarded.payload));
+};
+
+/**
+ * Send a transaction, falling back to the outbox when the server cannot be
+ * reached. Server-side errors are thrown as usual.
+ */
+export const submitTransaction = async <K extends OutboxKind>(
+  kind: K,
+  payload: OutboxPayloads[K],
+  userId: string,
+  token: string | null = null
+): Promise<SubmitResult> => {
+  const idempotencyKey = createIdempotencyKey();
+
+  try {
+    const send = senders[kind] as (payload: OutboxPayloads[K], token: string | null, key: string) => Promise<any>;
+    const data = await send(payload, token, idempotencyKey);
+    return { status: 'sent', data };
+  } catch (error) {
+    if (isApiError(error) && error.isNetworkError) {
+      const entry = await enqueueTransaction(kind, payload, userId, idempotencyKey);
+      return { status: 'queued', entry };
+    }
+    throw error;
+  }
+};
+
+let flushing: Promise<FlushResult> | null = null;
+
+/**
+ * Replay due entries for a user in the order they were captured. Stops at the
+ * first network failure and reschedules the remaining entries with backoff.
+ */
+export const flushOutbox = async (userId: string, options: { force?: boolean } = {}): Promise<FlushResult> => {
+  // Only one replay at a time so an entry is never sent twice concurrently
+  if (flushing) return flushing;
+
+  const run = async (): Promise<FlushResult> => {
+    const result: FlushResult = { sent: 0, failed: 0, remaining: 0 };
+    const entries = await getOutboxEntries();
+    const delivered = new Set<string>();
+    const updated = new Map<string, OutboxEntry>();
+    const now = Date.now();
+    let retryAt: number | null = null;
+
+    for (const entry of entries) {
+      const isDue = options.force || entry.nextAttemptAt <= now;
+      if (entry.userId !== userId || entry.status !== 'pending' || !isDue) {
+        continue;
+      }
+
+      try {
+        const send = senders[entry.kind] as (payload: any, token: string | null, key: string) => Promise<any>;
+        await send(entry.payload, null, entry.id);
+        delivered.add(entry.id);
+        result.sent += 1;
+        await deleteQueuedReceipts(receiptsOf(entry.payload));
+      } catch (error) {
+        const apiError = isApiError(error) ? error : new ApiError(String(error), 0);
+
+        if (apiError.isNetworkError) {
+          // Still offline; back off and try the rest later
+          const attempts = entry.attempts + 1;
+          retryAt = Date.now() + getRetryDelay(attempts);
+          updated.set(entry.id, { ...entry, attempts, nextAttemptAt: retryAt, lastError: apiError.message });
+          break;
+        }
+
+        if (apiError.isUnauthorized) {
+          // Session expired; keep everything for the next login
+          break;
+        }
+
+        updated.set(entry.id, { ...entry, status: 'failed', lastError: apiError.message });
+        result.failed += 1;
+      }
+    }
+
+    // Merge with the stored list in case entries were added while sending
+    const latest = await getOutboxEntries();
+    const next = latest
+      .filter(entry => !delivered.has(entry.id))
+      .map(entry => {
+        const changed = updated.get(entry.id);
+        if (changed) return changed;
+        // Entries queued behind a network failure wait for the same retry
+        if (retryAt && entry.userId === userId && entry.status === 'pending' && entry.nextAttemptAt < retryAt) {
+          return { ...entry, nextAttemptAt: retryAt };
+        }
+        return entry;
+      });
+
+    await saveOutboxEntries(next);
+    result.remaining = next.filter(entry => entry.userId === userId && entry.status === 'pending').length;
+    return result;
+  };
+
+  flushing = run();
+  try {
+    return await flushing;
+  } finally {
+    flushing = null;
+  }
+};
+
+// Earliest time a pending entry for the user should be retried, if any
+export const getNextRetryAt = (entries: OutboxEntry[], userId: string) => {
+  const pending = entries.filter(entry => entry.userId === userId && entry.status === 'pending');
+  if (pending.length === 0) return null;
+  return Math.min(...pending.map(entry => entry.nextAttemptAt));
+};
@@ -0,0 +1,535 @@
+import RNHTMLtoPDF from 'react-native-html-to-pdf';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+// Types
+export type PdfColumn = {
+  label: string;
+  // Share of the table width, e.g. 0.25
+  width: number;
+  align?: 'left' | 'right';
+};
+
+export type PdfRow = {
+  cells: string[];
+  // `group` rows head a group, `subtotal` rows close it
+  style?: 'group' | 'subtotal' | 'total';
+};
+
+export type PdfTable = {
+  title?: string;
+  columns: PdfColumn[];
+  rows: PdfRow[];
+};
+
+export type PdfBrand = {
+  name: string;
+  tagline?: string;
+};
+
+export type PdfImage = {
+  caption: string;
+  // Base64 JPEG
+  data: string;
+  // Pixels, used for the aspect ratio
+  width: number;
+  height: number;
+  grayscale?: boolean;
+};
+
+export type PdfDocument = {
+  brand?: PdfBrand;
+  // Shown under the company name, e.g. "Earnings Statement"
+  title: string;
+  info: { label: string; value: string }[];
+  tables: PdfTable[];
+  note?: string;
+  // Photos shown after everything else, e.g. receipts
+  images?: { title: string; items: PdfImage[] };
+};
+
+type Block =
+  | { kind: 'brand'; y: number }
+  | { kind: 'info'; y: number; label: string; value: string }
+  | { kind: 'tableTitle'; y: number; text: string }
+  | { kind: 'tableHeader'; y: number; table: PdfTable }
+  | { kind: 'row'; y: number; table: PdfTable; row: PdfRow; index: number }
+  | { kind: 'note'; y: number; text: string }
+  | { kind: 'caption'; y: number; text: string }
+  | { kind: 'image'; y: number; image: PdfImage; index: number; width: number; height: number };
+
+type Page = Block[];
+
+// A4 in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_HEIGHT = 36;
+const BODY_HEIGHT = PAGE_HEIGHT - MARGIN * 2 - FOOTER_HEIGHT;
+
+const HEIGHTS = {
+  brand: 56,
+  info: 15,
+  tableTitle: 30,
+  tableHeader: 20,
+  row: 18,
+  note: 14,
+  caption: 18,
+  imageGap: 12,
+};
+
+// Largest size an image is drawn at
+const MAX_IMAGE_HEIGHT = 300;
+
+const FONT_SIZE = 9;
+
+export const DEFAULT_BRAND: PdfBrand = {
+  name: 'FleetX',
+  tagline: 'Fleet Management',
+};
+
+const getFooterText = (brand: PdfBrand) =>
+  `This document was automatically generated by ${brand.name}. © ${new Date().getFullYear()} ${brand.name}.`;
+
+// Helvetica and Helvetica-Bold advance widths (1/1000 em) for ASCII 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+  556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+  260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611,
+  556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389,
+  280, 389, 584,
+];
+
+const measureText = (text: string, size: number, bold = false) => {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    total += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+  }
+  return (total * size) / 1000;
+};
+
+// Cut text to fit a width, ending with an ellipsis
+const fitText = (text: string, size: number, width: number, bold = false) => {
+  if (measureText(text, size, bold) <= width) return text;
+  let end = text.length;
+  while (end > 0 && measureText(`${text.slice(0, end)}...`, size, bold) > width) {
+    end--;
+  }
+  return `${text.slice(0, end)}...`;
+};
+
+const wrapText = (text: string, size: number, width: number) => {
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    const next = line ? `${line} ${word}` : word;
+    if (line && measureText(next, size) > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = next;
+    }
+  });
+  if (line) lines.push(line);
+  return lines.map(item => fitText(item, size, width));
+};
+
+/**
+ * Split a document into A4 pages. Tables that run over a page continue on
+ * the next one under a repeated header.
+ */
+const layoutPages = (doc: PdfDocument): Page[] => {
+  const pages: Page[] = [[]];
+  let y = 0;
+
+  const newPage = () => {
+    pages.push([]);
+    y = 0;
+  };
+
+  const place = (block: Block, height: number) => {
+    if (y + height > BODY_HEIGHT) newPage();
+    pages[pages.length - 1].push({ ...block, y });
+    y += height;
+  };
+
+  place({ kind: 'brand', y: 0 }, HEIGHTS.brand);
+  doc.info.forEach(item => place({ kind: 'info', y: 0, ...item }, HEIGHTS.info));
+
+  doc.tables.forEach(table => {
+    // Keep a table's title and header with at least its first row
+    const head = (table.title ? HEIGHTS.tableTitle : 0) + HEIGHTS.tableHeader;
+    if (y + head + HEIGHTS.row > BODY_HEIGHT) newPage();
+    if (table.title) place({ kind: 'tableTitle', y: 0, text: table.title }, HEIGHTS.tableTitle);
+    place({ kind: 'tableHeader', y: 0, table }, HEIGHTS.tableHeader);
+
+    table.rows.forEach((row, index) => {
+      if (y + HEIGHTS.row > BODY_HEIGHT) {
+        newPage();
+        if (table.title) place({ kind: 'tableTitle', y: 0, text: `${table.title} (continued)` }, HEIGHTS.tableTitle);
+        place({ kind: 'tableHeader', y: 0, table }, HEIGHTS.tableHeader);
+      }
+      place({ kind: 'row', y: 0, table, row, index }, HEIGHTS.row);
+    });
+  });
+
+  if (doc.note) {
+    y += HEIGHTS.note;
+    wrapText(`Note: ${doc.note}`, FONT_SIZE, CONTENT_WIDTH).forEach(text =>
+      place({ kind: 'note', y: 0, text }, HEIGHTS.note)
+    );
+  }
+
+  if (doc.images && doc.images.items.length > 0) {
+    if (y + HEIGHTS.tableTitle + HEIGHTS.caption + HEIGHTS.row > BODY_HEIGHT) newPage();
+    place({ kind: 'tableTitle', y: 0, text: doc.images.title }, HEIGHTS.tableTitle);
+
+    doc.images.items.forEach((image, index) => {
+      const scale = Math.min(CONTENT_WIDTH / image.width, MAX_IMAGE_HEIGHT / image.height);
+      const width = image.width * scale;
+      const height = image.height * scale;
+
+      // Keep each caption with its image
+      if (y + HEIGHTS.caption + height > BODY_HEIGHT) newPage();
+      place({ kind: 'caption', y: 0, text: image.caption }, HEIGHTS.caption);
+      place({ kind: 'image', y: 0, image, index, width, height }, height + HEIGHTS.imageGap);
+    });
+  }
+
+  return pages;
+};
+
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const htmlCells = (table: PdfTable, cells: string[]) =>
+  table.columns.map((column, index) => `
+    <div class="cell" style="width: ${column.width * 100}%; text-align: ${column.align || 'left'};">${escapeHtml(cells[index] ?? '')}</div>`
+  ).join('');
+
+const htmlBlock = (doc: PdfDocument, block: Block) => {
+  const top = `top: ${block.y}pt;`;
+  switch (block.kind) {
+    case 'brand': {
+      const brand = doc.brand || DEFAULT_BRAND;
+      return `<div class="block brand" style="${top}"><div class="logo">${escapeHtml(brand.name)}</div>${brand.tagline ? `<div class="tagline">${escapeHtml(brand.tagline)}</div>` : ''}<div>${escapeHtml(doc.title)}</div></div>`;
+    }
+    case 'info':
+      return `<div class="block info" style="${top}"><strong>${escapeHtml(block.label)}:</strong> ${escapeHtml(block.value)}</div>`;
+    case 'tableTitle':
+      return `<div class="block table-title" style="${top}">${escapeHtml(block.text)}</div>`;
+    case 'tableHeader':
+      return `<div class="block row header" style="${top}">${htmlCells(block.table, block.table.columns.map(column => column.label))}</div>`;
+    case 'row': {
+      const className = block.row.style || (block.index % 2 === 0 ? 'striped' : '');
+      return `<div class="block row ${className}" style="${top}">${htmlCells(block.table, block.row.cells)}</div>`;
+    }
+    case 'note':
+      return `<div class="block note" style="${top}">${escapeHtml(block.text)}</div>`;
+    case 'caption':
+      return `<div class="block caption" style="${top}">${escapeHtml(block.text)}</div>`;
+    case 'image':
+      return `<div class="block" style="${top}"><img src="data:image/jpeg;base64,${block.image.data}" style="width: ${block.width}pt; height: ${block.height}pt;" /></div>`;
+  }
+};
+
+// Paginated HTML for the native renderer; every page is laid out in points like the fallback
+export const renderPdfHtml = (doc: PdfDocument) => {
+  const pages = layoutPages(doc);
+
+  return `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8" />
+        <style>
+          @page { size: A4; margin: 0; }
+          * { box-sizing: border-box; }
+          body { margin: 0; font-family: 'Helvetica', Arial, sans-serif; color: #333; font-size: ${FONT_SIZE}pt; }
+          .page { position: relative; width: ${PAGE_WIDTH}pt; height: ${PAGE_HEIGHT}pt; overflow: hidden; page-break-after: always; }
+          .page:last-child { page-break-after: auto; }
+          .body { position: absolute; left: ${MARGIN}pt; top: ${MARGIN}pt; width: ${CONTENT_WIDTH}pt; height: ${BODY_HEIGHT}pt; }
+          .block { position: absolute; left: 0; width: 100%; white-space: nowrap; overflow: hidden; }
+          .brand { text-align: center; font-size: 11pt; }
+          .logo { font-size: 20pt; font-weight: bold; }
+          .tagline { font-size: 8pt; color: #888; margin-bottom: 3pt; }
+          .info { height: ${HEIGHTS.info}pt; }
+          .table-title { height: ${HEIGHTS.tableTitle}pt; padding-top: 12pt; font-size: 12pt; font-weight: bold; }
+          .row { display: flex; height: ${HEIGHTS.row}pt; line-height: ${HEIGHTS.row}pt; border-bottom: 0.5pt solid #eee; }
+          .row.header { height: ${HEIGHTS.tableHeader}pt; line-height: ${HEIGHTS.tableHeader}pt; background-color: #000; color: #fff; font-weight: bold; border: none; }
+          .row.striped { background-color: #f9f9f9; }
+          .row.group { font-weight: bold; color: #000; border-bottom: 0.5pt solid #999; }
+          .row.subtotal { background-color: #f5f5f5; font-weight: bold; }
+          .row.total { background-color: #f0f0f0; font-weight: bold; border-top: 1pt solid #000; }
+          .cell { padding: 0 6pt; overflow: hidden; text-overflow: ellipsis; }
+          .note { height: ${HEIGHTS.note}pt; }
+          .caption { height: ${HEIGHTS.caption}pt; line-height: ${HEIGHTS.caption}pt; font-weight: bold; }
+          .footer { position: absolute; left: ${MARGIN}pt; bottom: ${MARGIN / 2}pt; width: ${CONTENT_WIDTH}pt; text-align: center; font-size: 8pt; color: #666; }
+        </style>
+      </head>
+      <body>
+        ${pages.map((page, index) => `
+          <div class="page">
+            <div class="body">${page.map(block => htmlBlock(doc, block)).join('')}</div>
+            <div class="footer">${escapeHtml(getFooterText(doc.brand || DEFAULT_BRAND))}<br />Page ${index + 1} of ${pages.length}</div>
+          </div>
+        `).join('')}
+      </body>
+    </html>
+  `;
+};
+
+// PDF strings hold WinAnsi bytes; anything outside Latin-1 is approximated
+const toPdfText = (value: string) =>
+  value
+    .replace(/[–—−]/g, '-')
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[^\x20-\xFF]/g, '?')
+    .replace(/[\\()]/g, match => `\\${match}`);
+
+const pdfColor = (hex: string) =>
+  [1, 3, 5].map(index => (parseInt(hex.slice(index, index + 2), 16) / 255).toFixed(3)).join(' ');
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// Base64 of a string whose characters are all single bytes
+export const toBase64 = (binary: string) => {
+  let output = '';
+  for (let i = 0; i < binary.length; i += 3) {
+    const a = binary.charCodeAt(i);
+    const b = i + 1 < binary.length ? binary.charCodeAt(i + 1) : NaN;
+    const c = i + 2 < binary.length ? binary.charCodeAt(i + 2) : NaN;
+    const triple = (a << 16) | ((b || 0) << 8) | (c || 0);
+    output += BASE64_CHARS[(triple >> 18) & 63] + BASE64_CHARS[(triple >> 12) & 63];
+    output += isNaN(b) ? '=' : BASE64_CHARS[(triple >> 6) & 63];
+    output += isNaN(c) ? '=' : BASE64_CHARS[triple & 63];
+  }
+  return output;
+};
+
+// Bytes of a base64 string, one character per byte
+export const fromBase64 = (base64: string) => {
+  const clean = base64.replace(/[^A-Za-z0-9+/]/g, '');
+  let output = '';
+  for (let i = 0; i < clean.length; i += 4) {
+    const triple = [0, 1, 2, 3].reduce((value, offset) => {
+      const index = BASE64_CHARS.indexOf(clean[i + offset] || 'A');
+      return (value << 6) | index;
+    }, 0);
+    output += String.fromCharCode((triple >> 16) & 255);
+    if (i + 2 < clean.length) output += String.fromCharCode((triple >> 8) & 255);
+    if (i + 3 < clean.length) output += String.fromCharCode(triple & 255);
+  }
+  return output;
+};
+
+/**
+ * Fallback renderer: draws the same page layout straight into a PDF using
+ * the built-in Helvetica fonts, so statements still work where the native
+ * HTML converter is missing (e.g. Expo Go). Returns the file as base64.
+ */
+export const renderPdfBase64 = (doc: PdfDocument) => {
+  const pages = layoutPages(doc);
+  const brand = doc.brand || DEFAULT_BRAND;
+  const ops: string[][] = pages.map(() => []);
+
+  // Top-left based coordinates within the page body
+  const toPdfY = (y: number) => PAGE_HEIGHT - MARGIN - y;
+
+  const text = (page: number, value: string, x: number, y: number, size: number, options: { bold?: boolean; color?: string; align?: 'left' | 'right' | 'center'; width?: number } = {}) => {
+    const { bold = false, color = '#333333', align = 'left', width = CONTENT_WIDTH } = options;
+    const fitted = fitText(value, size, width, bold);
+    const textWidth = measureText(fitted, size, bold);
+    const offset = align === 'right' ? width - textWidth : align === 'center' ? (width - textWidth) / 2 : 0;
+    ops[page].push(`BT /${bold ? 'F2' : 'F1'} ${size} Tf ${pdfColor(color)} rg ${(x + offset).toFixed(2)} ${y.toFixed(2)} Td (${toPdfText(fitted)}) Tj ET`);
+  };
+
+  const rect = (page: number, x: number, y: number, width: number, height: number, color: string) => {
+    ops[page].push(`${pdfColor(color)} rg ${x.toFixed(2)} ${y.toFixed(2)} ${width.toFixed(2)} ${height.toFixed(2)} re f`);
+  };
+
+  const line = (page: number, y: number, width: number, color: string) => {
+    ops[page].push(`${pdfColor(color)} RG ${width} w ${MARGIN} ${y.toFixed(2)} m ${MARGIN + CONTENT_WIDTH} ${y.toFixed(2)} l S`);
+  };
+
+  const cells = (page: number, table: PdfTable, values: string[], baseline: number, bold: boolean, color: string) => {
+    let x = MARGIN;
+    table.columns.forEach((column, index) => {
+      const width = column.width * CONTENT_WIDTH;
+      text(page, values[index] ?? '', x + 6, baseline, FONT_SIZE, { bold, color, align: column.align, width: width - 12 });
+      x += width;
+    });
+  };
+
+  pages.forEach((page, pageIndex) => {
+    page.forEach(block => {
+      const top = toPdfY(block.y);
+      switch (block.kind) {
+        case 'brand':
+          text(pageIndex, brand.name, MARGIN, top - 18, 20, { bold: true, color: '#000000', align: 'center' });
+          if (brand.tagline) {
+            text(pageIndex, brand.tagline, MARGIN, top - 29, 8, { color: '#888888', align: 'center' });
+          }
+          text(pageIndex, doc.title, MARGIN, top - 43, 11, { align: 'center' });
+          break;
+        case 'info':
+          text(pageIndex, `${block.label}:`, MARGIN, top - 11, FONT_SIZE, { bold: true, width: 110 });
+          text(pageIndex, block.value, MARGIN + 110, top - 11, FONT_SIZE, { width: CONTENT_WIDTH - 110 });
+          break;
+        case 'tableTitle':
+          text(pageIndex, block.text, MARGIN, top - 24, 12, { bold: true, color: '#000000' });
+          break;
+        case 'tableHeader':
+          rect(pageIndex, MARGIN, top - HEIGHTS.tableHeader, CONTENT_WIDTH, HEIGHTS.tableHeader, '#000000');
+          cells(pageIndex, block.table, block.table.columns.map(column => column.label), top - 13.5, true, '#ffffff');
+          break;
+        case 'row': {
+          const bottom = top - HEIGHTS.row;
+          const { style } = block.row;
+          if (style === 'total') {
+            rect(pageIndex, MARGIN, bottom, CONTENT_WIDTH, HEIGHTS.row, '#f0f0f0');
+            line(pageIndex, top, 1, '#000000');
+          } else if (style === 'subtotal') {
+            rect(pageIndex, MARGIN, bottom, CONTENT_WIDTH, HEIGHTS.row, '#f5f5f5');
+          } else if (!style && block.index % 2 === 0) {
+            rect(pageIndex, MARGIN, bottom, CONTENT_WIDTH, HEIGHTS.row, '#f9f9f9');
+          }
+          line(pageIndex, bottom, 0.5, style === 'group' ? '#999999' : '#eeeeee');
+          cells(pageIndex, block.table, block.row.cells, top - 12.5, !!style, style === 'group' ? '#000000' : '#333333');
+          break;
+        }
+        case 'note':
+          text(pageIndex, block.text, MARGIN, top - 10, FONT_SIZE);
+          break;
+        case 'caption':
+          text(pageIndex, block.text, MARGIN, top - 13, FONT_SIZE, { bold: true });
+          break;
+        case 'image':
+          ops[pageIndex].push(`q ${block.width.toFixed(2)} 0 0 ${block.height.toFixed(2)} ${MARGIN} ${(top - block.height).toFixed(2)} cm /Im${block.index} Do Q`);
+          break;
+      }
+    });
+
+    text(pageIndex, getFooterText(brand), MARGIN, MARGIN / 2 + 12, 8, { color: '#666666', align: 'center' });
+    text(pageIndex, `Page ${pageIndex + 1} of ${pages.length}`, MARGIN, MARGIN / 2, 8, { color: '#666666', align: 'center' });
+  });
+
+  // Objects: 1 catalog, 2 page tree, 3-4 fonts, a page and its content stream
+  // per page, then one per image. JPEGs are embedded as they are.
+  const objects: string[] = [];
+  const pageIds = pages.map((_, index) => 5 + index * 2);
+  const images = doc.images?.items || [];
+  const imageIds = images.map((_, index) => 5 + pages.length * 2 + index);
+  const xObjects = images.length
+    ? ` /XObject << ${imageIds.map((id, index) => `/Im${index} ${id} 0 R`).join(' ')} >>`
+    : '';
+
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objects.push(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  ops.forEach((pageOps, index) => {
+    const stream = pageOps.join('\n');
+    objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >>${xObjects} >> /Contents ${pageIds[index] + 1} 0 R >>`);
+    objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+  });
+  images.forEach(image => {
+    const data = fromBase64(image.data);
+    objects.push(`<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /${image.grayscale ? 'DeviceGray' : 'DeviceRGB'} /BitsPerComponent 8 /Filter /DCTDecode /Length ${data.length} >>\nstream\n${data}\nendstream`);
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`;
+
+  return toBase64(pdf);
+};
+
+/**
+ * Render a document to a PDF file and return its URI. Uses the native HTML
+ * converter when it is available and falls back to the built-in renderer.
+ * @param doc
+ * @param fileName e.g. "fleetx-earnings-john-2024-05.pdf"
+ */
+export const writePdf = async (doc: PdfDocument, fileName: string): Promise<string> => {
+  const name = fileName.replace(/\.pdf$/i, '');
+
+  if (RNHTMLtoPDF?.convert) {
+    try {
+      const file = await RNHTMLtoPDF.convert({
+        html: renderPdfHtml(doc),
+        fileName: name,
+        directory: 'Documents',
+        width: PAGE_WIDTH,
+        height: PAGE_HEIGHT,
+        padding: 0,
+      });
+      if (file?.filePath) {
+        return file.filePath.startsWith('file://') ? file.filePath : `file://${file.filePath}`;
+      }
+    } catch (error) {
+      console.warn('Native PDF renderer failed, using built-in renderer:', error);
+    }
+  }
+
+  const uri = `${FileSystem.documentDirectory}${name}.pdf`;
+  await FileSystem.writeAsStringAsync(uri, renderPdfBase64(doc), {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  return uri;
+};
+
+export const sharePdf = async (uri: string, dialogTitle: string) => {
+  await Sharing.shareAsync(uri, {
+    mimeType: 'application/pdf',
+    UTI: 'com.adobe.pdf',
+    dialogTitle,
+  });
+};
+
+const slugify = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'all';
+
+/**
+ * File name for a statement, e.g. "fleetx-earnings-john-doe-2024-05-01-to-2024-05-31.pdf"
+ * @param kind
+ * @param driverName
+ * @param period YYYY-MM-DD range, or a label such as "2024-05"
+ * @param extension
+ */
+export const getStatementFileName = (
+  kind: string,
+  driverName: string | undefined,
+  period: { startDate: string; endDate: string } | string | null,
+  extension = 'pdf'
+) => {
+  const periodPart = !period
+    ? 'all-time'
+    : typeof period === 'string'
+      ? period
+      : period.startDate === period.endDate ? period.startDate : `${period.startDate}-to-${period.endDate}`;
+  return `fleetx-${slugify(kind)}-${slugify(driverName || 'all drivers')}-${periodPart}.${extension}`;
+};
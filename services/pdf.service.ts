@@ -1,6 +1,24 @@
-import RNHTMLtoPDF from 'react-native-html-to-pdf';
-import * as FileSystem from 'expo-file-system';
-import * as Sharing from 'expo-sharing';
+import { PdfRow, getStatementFileName, sharePdf, writePdf } from './pdf.renderer';
+import {
+  StatementFilters,
+  StatementInfo,
+  StatementTemplate,
+  applyStatementFilters,
+  buildStatement,
+  describeRecord,
+  describeStatementFilters,
+  formatAmount,
+  formatDate,
+  formatLongDate,
+  getRecordsPeriod,
+  getStatementTotal
+} from './statement.template';
+import { describeSalaryRule } from './salary.service';
+import { loadReceiptImages } from './receipt.service';
+import { formatUtilization } from './report.service';
+import type { FleetReport, FleetReportRow } from './report.service';
+import type { ProfitLoss } from './settlement.service';
+import type { Settlement } from './api.types';
 
 // Types
 type EarningType = {
@@ -8,6 +26,7 @@ type EarningType = {
   amount: number;
   note?: string;
   type: 'Online' | 'Cash' | 'Pocket Slipt';
+  accountName?: string;
   driverId: string;
   date: string;
   createdAt: string;
@@ -26,6 +45,7 @@ type ExpenseType = {
   description?: string;
   note?: string;
   category?: string;
+  receipts?: string[];
   driverId: string;
   date: string;
   createdAt: string;
@@ -42,6 +62,7 @@ type AutoExpenseType = {
   amount: number;
   note?: string;
   category?: string;
+  receipts?: string[];
   driverId: string;
   date: string;
   createdAt: string;
@@ -53,177 +74,120 @@ type AutoExpenseType = {
   };
 };
 
+export const EARNINGS_STATEMENT: StatementTemplate<EarningType> = {
+  kind: 'earnings',
+  title: 'Earnings Statement',
+  tableTitle: 'Earnings Summary',
+  columns: [
+    { label: 'Date', width: 0.18, value: earning => earning.date, format: 'date' },
+    { label: 'Payment Type', width: 0.2, value: earning => earning.type },
+    { label: 'Description', width: 0.42, value: earning => earning.note },
+    { label: 'Amount', width: 0.2, value: earning => earning.amount, format: 'amount' },
+  ],
+  groupBy: { label: 'Payment Type', value: earning => earning.type },
+  account: earning => earning.accountName,
+};
+
+export const EXPENSES_STATEMENT: StatementTemplate<ExpenseType> = {
+  kind: 'expenses',
+  title: 'Expenses Statement',
+  tableTitle: 'Expenses Summary',
+  columns: [
+    { label: 'Date', width: 0.18, value: expense => expense.date, format: 'date' },
+    { label: 'Category', width: 0.2, value: expense => expense.category || 'Other' },
+    { label: 'Description', width: 0.42, value: expense => expense.note || expense.description },
+    { label: 'Amount', width: 0.2, value: expense => expense.amount, format: 'amount' },
+  ],
+  groupBy: { label: 'Category', value: expense => expense.category || 'Other' },
+  receipts: expense => expense.receipts,
+};
+
+export const AUTO_EXPENSES_STATEMENT: StatementTemplate<AutoExpenseType> = {
+  kind: 'auto-expenses',
+  title: 'Auto Expenses Statement',
+  tableTitle: 'Auto Expenses Summary',
+  columns: [
+    { label: 'Date', width: 0.18, value: expense => expense.date, format: 'date' },
+    { label: 'Category', width: 0.2, value: expense => expense.category || 'Other' },
+    { label: 'Description', width: 0.42, value: expense => expense.note },
+    { label: 'Amount', width: 0.2, value: expense => expense.amount, format: 'amount' },
+  ],
+  groupBy: { label: 'Category', value: expense => expense.category || 'Other' },
+  receipts: expense => expense.receipts,
+};
+
+export type StatementOptions = {
+  fileName?: string;
+  // Limit the statement to a period, categories and account chosen in the statement builder
+  filters?: StatementFilters;
+};
+
 /**
- * Generate PDF statement for earnings
+ * Render records with a statement template and share the PDF. New report
+ * types only need a template. With filters, only records in the period are
+ * listed and the totals brought forward from before it are shown as the
+ * opening total.
  */
-export const generateEarningsPDF = async (
-  earnings: EarningType[],
+export const generateStatementPDF = async <T extends { date: string }>(
+  template: StatementTemplate<T>,
+  records: T[],
   userData: any,
-  fileName: string = 'earnings-statement.pdf'
-): Promise<void> => {
-  try {
-    // Calculate total earnings
-    const totalEarnings = earnings.reduce((total, earning) => {
-      return total + parseFloat(earning.amount.toString());
-    }, 0);
-
-    // Sort earnings by date (newest first)
-    const sortedEarnings = [...earnings].sort((a, b) => {
-      return new Date(b.date).getTime() - new Date(a.date).getTime();
-    });
+  { fileName, filters }: StatementOptions = {}
+) => {
+  const info: StatementInfo = [
+    { label: 'Driver', value: userData?.name || 'Driver' },
+    { label: 'Driver ID', value: userData?.id || 'N/A' },
+  ];
+  let period = getRecordsPeriod(records);
 
-    // Format earnings data for HTML
-    const earningsRows = sortedEarnings.map((earning, index) => {
-      const date = new Date(earning.date);
-      const formattedDate = date.toLocaleDateString('en-US', {
-        year: 'numeric',
-        month: 'short',
-        day: 'numeric'
-      });
+  if (filters) {
+    const { earlier, inPeriod } = applyStatementFilters(template, records, filters);
+    const openingTotal = getStatementTotal(template, earlier);
 
-      return `
-        <tr style="${index % 2 === 0 ? 'background-color: #f9f9f9;' : ''}">
-          <td style="padding: 8px 12px; border-bottom: 1px solid #eee;">${formattedDate}</td>
-          <td style="padding: 8px 12px; border-bottom: 1px solid #eee;">${earning.type}</td>
-          <td style="padding: 8px 12px; border-bottom: 1px solid #eee;">${earning.note || '-'}</td>
-          <td style="padding: 8px 12px; border-bottom: 1px solid #eee; text-align: right;">AED ${parseFloat(earning.amount.toString()).toFixed(2)}</td>
-        </tr>
-      `;
-    }).join('');
+    records = inPeriod;
+    period = { startDate: filters.startDate, endDate: filters.endDate };
+    info.push(
+      ...describeStatementFilters(template, filters),
+      { label: 'Opening total', value: formatAmount(openingTotal) },
+      { label: 'Closing total', value: formatAmount(openingTotal + getStatementTotal(template, inPeriod)) }
+    );
+  } else {
+    info.push({
+      label: 'Period',
+      value: period ? `${formatDate(period.startDate)} to ${formatDate(period.endDate)}` : 'No records',
+    });
+  }
+  info.push({ label: 'Generated on', value: formatLongDate() });
 
-    // Format currency
-    const totalFormatted = `AED ${totalEarnings.toFixed(2)}`;
+  const receipts = template.receipts
+    ? await loadReceiptImages(records.flatMap(record => {
+        const urls = template.receipts?.(record) || [];
+        return urls.map((url, index) => ({
+          url,
+          caption: urls.length > 1
+            ? `${describeRecord(template, record)} (${index + 1} of ${urls.length})`
+            : describeRecord(template, record),
+        }));
+      }))
+    : undefined;
 
-    // Current date for the report
-    const currentDate = new Date().toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
+  const doc = buildStatement(template, records, { info, receipts });
 
-    // Create HTML content
-    const htmlContent = `
-      <!DOCTYPE html>
-      <html>
-        <head>
-          <meta name="viewport" content="width=device-width, initial-scale=1.0, maximum-scale=1.0, minimum-scale=1.0, user-scalable=no" />
-          <style>
-            body {
-              font-family: 'Helvetica', Arial, sans-serif;
-              margin: 0;
-              padding: 20px;
-              color: #333;
-            }
-            .header {
-              text-align: center;
-              margin-bottom: 30px;
-            }
-            .logo {
-              font-size: 24px;
-              font-weight: bold;
-              margin-bottom: 5px;
-            }
-            .title {
-              font-size: 20px;
-              margin: 20px 0;
-            }
-            .info-section {
-              margin-bottom: 20px;
-            }
-            .info-row {
-              display: flex;
-              margin-bottom: 10px;
-            }
-            table {
-              width: 100%;
-              border-collapse: collapse;
-              margin-top: 20px;
-            }
-            th {
-              background-color: #000;
-              color: white;
-              text-align: left;
-              padding: 10px 12px;
-            }
-            .total-row {
-              font-weight: bold;
-              background-color: #f0f0f0;
-            }
-            .footer {
-              margin-top: 40px;
-              text-align: center;
-              font-size: 12px;
-              color: #666;
-            }
-          </style>
-        </head>
-        <body>
-          <div class="header">
-            <div class="logo">FleetX</div>
-            <div>Earnings Statement</div>
-          </div>
-          
-          <div class="info-section">
-            <div><strong>Driver:</strong> ${userData?.name || 'Driver'}</div>
-            <div><strong>Driver ID:</strong> ${userData?.id || 'N/A'}</div>
-            <div><strong>Generated on:</strong> ${currentDate}</div>
-          </div>
-          
-          <h2 class="title">Earnings Summary</h2>
-          
-          <table>
-            <thead>
-              <tr>
-                <th>Date</th>
-                <th>Payment Type</th>
-                <th>Description</th>
-                <th style="text-align: right;">Amount</th>
-              </tr>
-            </thead>
-            <tbody>
-              ${earningsRows}
-              <tr class="total-row">
-                <td colspan="3" style="padding: 12px; border-top: 2px solid #000; text-align: right;"><strong>Total</strong></td>
-                <td style="padding: 12px; border-top: 2px solid #000; text-align: right;"><strong>${totalFormatted}</strong></td>
-              </tr>
-            </tbody>
-          </table>
-          
-          <div class="footer">
-            <p>This document was automatically generated by FleetX. © ${new Date().getFullYear()} FleetX.</p>
-          </div>
-        </body>
-      </html>
-    `;
+  const uri = await writePdf(doc, fileName || getStatementFileName(template.kind, userData?.name, period));
+  await sharePdf(uri, `Download ${template.title}`);
+};
 
-    // Instead of using RNHTMLtoPDF directly, use Expo's FileSystem to save HTML to a temporary file
-    // Then share that file instead
-    
-    // Create a temporary HTML file
-    const htmlFileUri = FileSystem.documentDirectory + 'earnings-statement.html';
-    await FileSystem.writeAsStringAsync(htmlFileUri, htmlContent, {
-      encoding: FileSystem.EncodingType.UTF8
-    });
-    
-    // Share the HTML file
-    await Sharing.shareAsync(htmlFileUri, {
-      mimeType: 'text/html',
-      dialogTitle: 'Download Earnings Statement'
-    });
-    
+/**
+ * Generate PDF statement for earnings
+ */
+export const generateEarningsPDF = async (
+  earnings: EarningType[],
+  userData: any,
+  options?: StatementOptions
+): Promise<void> => {
+  try {
+    await generateStatementPDF(EARNINGS_STATEMENT, earnings, userData, options);
     console.log('Statement generated and shared successfully');
-    
-    // We're not using RNHTMLtoPDF.convert for now since it's causing issues
-    // const options = {
-    //   html: htmlContent,
-    //   fileName: fileName,
-    //   directory: 'Documents',
-    //   base64: true
-    // };
-    // const file = await RNHTMLtoPDF.convert(options);
-    // if (file.filePath) {
-    //   await Sharing.shareAsync(file.filePath);
-    // }
   } catch (error) {
     console.error('Error generating statement:', error);
     // Provide detailed error information
@@ -240,157 +204,11 @@ export const generateEarningsPDF = async (
 export const generateExpensesPDF = async (
   expenses: ExpenseType[],
   userData: any,
-  fileName: string = 'expenses-statement.pdf'
+  options?: StatementOptions
 ): Promise<void> => {
   try {
-    // Calculate total expenses
-    const totalExpenses = expenses.reduce((total, expense) => {
-      return total + parseFloat(expense.amount.toString());
-    }, 0);
-
-    // Sort expenses by date (newest first)
-    const sortedExpenses = [...expenses].sort((a, b) => {
-      return new Date(b.date).getTime() - new Date(a.date).getTime();
-    });
-
-    // Format expenses data for HTML
-    const expensesRows = sortedExpenses.map((expense, index) => {
-      const date = new Date(expense.date);
-      const formattedDate = date.toLocaleDateString('en-US', {
-        year: 'numeric',
-        month: 'short',
-        day: 'numeric'
-      });
-
-      return `
-        <tr style="${index % 2 === 0 ? 'background-color: #f9f9f9;' : ''}">
-          <td style="padding: 8px 12px; border-bottom: 1px solid #eee;">${formattedDate}</td>
-          <td style="padding: 8px 12px; border-bottom: 1px solid #eee;">${expense.category || 'Other'}</td>
-          <td style="padding: 8px 12px; border-bottom: 1px solid #eee;">${expense.note || expense.description || '-'}</td>
-          <td style="padding: 8px 12px; border-bottom: 1px solid #eee; text-align: right;">AED ${parseFloat(expense.amount.toString()).toFixed(2)}</td>
-        </tr>
-      `;
-    }).join('');
-
-    // Format currency
-    const totalFormatted = `AED ${totalExpenses.toFixed(2)}`;
-
-    // Current date for the report
-    const currentDate = new Date().toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
-
-    // Create HTML content
-    const htmlContent = `
-      <!DOCTYPE html>
-      <html>
-        <head>
-          <meta name="viewport" content="width=device-width, initial-scale=1.0, maximum-scale=1.0, minimum-scale=1.0, user-scalable=no" />
-          <style>
-            body {
-              font-family: 'Helvetica', Arial, sans-serif;
-              margin: 0;
-              padding: 20px;
-              color: #333;
-            }
-            .header {
-              text-align: center;
-              margin-bottom: 30px;
-            }
-            .logo {
-              font-size: 24px;
-              font-weight: bold;
-              margin-bottom: 5px;
-            }
-            .title {
-              font-size: 20px;
-              margin: 20px 0;
-            }
-            .info-section {
-              margin-bottom: 20px;
-            }
-            .info-row {
-              display: flex;
-              margin-bottom: 10px;
-            }
-            table {
-              width: 100%;
-              border-collapse: collapse;
-              margin-top: 20px;
-            }
-            th {
-              background-color: #000;
-              color: white;
-              text-align: left;
-              padding: 10px 12px;
-            }
-            .total-row {
-              font-weight: bold;
-              background-color: #f0f0f0;
-            }
-            .footer {
-              margin-top: 40px;
-              text-align: center;
-              font-size: 12px;
-              color: #666;
-            }
-          </style>
-        </head>
-        <body>
-          <div class="header">
-            <div class="logo">FleetX</div>
-            <div>Expenses Statement</div>
-          </div>
-          
-          <div class="info-section">
-            <div><strong>Driver:</strong> ${userData?.name || 'Driver'}</div>
-            <div><strong>Driver ID:</strong> ${userData?.id || 'N/A'}</div>
-            <div><strong>Generated on:</strong> ${currentDate}</div>
-          </div>
-          
-          <h2 class="title">Expenses Summary</h2>
-          
-          <table>
-            <thead>
-              <tr>
-                <th>Date</th>
-                <th>Category</th>
-                <th>Description</th>
-                <th style="text-align: right;">Amount</th>
-              </tr>
-            </thead>
-            <tbody>
-              ${expensesRows}
-              <tr class="total-row">
-                <td colspan="3" style="padding: 12px; border-top: 2px solid #000; text-align: right;"><strong>Total</strong></td>
-                <td style="padding: 12px; border-top: 2px solid #000; text-align: right;"><strong>${totalFormatted}</strong></td>
-              </tr>
-            </tbody>
-          </table>
-          
-          <div class="footer">
-            <p>This document was automatically generated by FleetX. © ${new Date().getFullYear()} FleetX.</p>
-          </div>
-        </body>
-      </html>
-    `;
-
-    // Create a temporary HTML file
-    const htmlFileUri = FileSystem.documentDirectory + 'expenses-statement.html';
-    await FileSystem.writeAsStringAsync(htmlFileUri, htmlContent, {
-      encoding: FileSystem.EncodingType.UTF8
-    });
-    
-    // Share the HTML file
-    await Sharing.shareAsync(htmlFileUri, {
-      mimeType: 'text/html',
-      dialogTitle: 'Download Expenses Statement'
-    });
-    
+    await generateStatementPDF(EXPENSES_STATEMENT, expenses, userData, options);
     console.log('Expenses statement generated and shared successfully');
-    
   } catch (error) {
     console.error('Error generating expenses statement:', error);
     if (error instanceof Error) {
@@ -406,162 +224,277 @@ export const generateExpensesPDF = async (
 export const generateAutoExpensesPDF = async (
   autoExpenses: AutoExpenseType[],
   userData: any,
-  fileName: string = 'auto-expenses-statement.pdf'
+  options?: StatementOptions
 ): Promise<void> => {
   try {
-    // Calculate total auto expenses
-    const totalAutoExpenses = autoExpenses.reduce((total, expense) => {
-      return total + parseFloat(expense.amount.toString());
-    }, 0);
+    await generateStatementPDF(AUTO_EXPENSES_STATEMENT, autoExpenses, userData, options);
+    console.log('Auto expenses statement generated and shared successfully');
+  } catch (error) {
+    console.error('Error generating auto expenses statement:', error);
+    if (error instanceof Error) {
+      console.error('Error details:', error.message, error.stack);
+    }
+    throw new Error('Failed to generate auto expenses statement PDF');
+  }
+};
+
+/**
+ * Generate a payslip for a settled month
+ */
+export const generatePayslipPDF = async (
+  settlement: Settlement,
+  userData: any,
+  fileName?: string
+): Promise<void> => {
+  try {
+    const driverName = userData?.name || settlement.driver?.name || 'Driver';
 
-    // Sort auto expenses by date (newest first)
-    const sortedAutoExpenses = [...autoExpenses].sort((a, b) => {
-      return new Date(b.date).getTime() - new Date(a.date).getTime();
+    const [year, month] = settlement.month.split('-').map(Number);
+    const period = new Date(year, month - 1, 1).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long'
     });
 
-    // Format auto expenses data for HTML
-    const autoExpensesRows = sortedAutoExpenses.map((expense, index) => {
-      const date = new Date(expense.date);
-      const formattedDate = date.toLocaleDateString('en-US', {
-        year: 'numeric',
-        month: 'short',
-        day: 'numeric'
-      });
+    const groupRows = (groups: Record<string, number>): PdfRow[] =>
+      Object.keys(groups).map(key => ({ cells: [key, formatAmount(groups[key])] }));
 
-      return `
-        <tr style="${index % 2 === 0 ? 'background-color: #f9f9f9;' : ''}">
-          <td style="padding: 8px 12px; border-bottom: 1px solid #eee;">${formattedDate}</td>
-          <td style="padding: 8px 12px; border-bottom: 1px solid #eee;">${expense.category || 'Other'}</td>
-          <td style="padding: 8px 12px; border-bottom: 1px solid #eee;">${expense.note || '-'}</td>
-          <td style="padding: 8px 12px; border-bottom: 1px solid #eee; text-align: right;">AED ${parseFloat(expense.amount.toString()).toFixed(2)}</td>
-        </tr>
-      `;
-    }).join('');
+    const twoColumns = (label: string) => [
+      { label, width: 0.7 },
+      { label: 'Amount', width: 0.3, align: 'right' as const },
+    ];
 
-    // Format currency
-    const totalFormatted = `AED ${totalAutoExpenses.toFixed(2)}`;
+    const uri = await writePdf({
+      title: 'Payslip',
+      info: [
+        { label: 'Driver', value: driverName },
+        { label: 'Driver ID', value: settlement.driverId },
+        { label: 'Period', value: `${period} (${settlement.startDate} to ${settlement.endDate})` },
+        { label: 'Settled on', value: formatLongDate(settlement.createdAt) },
+        { label: 'Generated on', value: formatLongDate() },
+      ],
+      tables: [
+        {
+          title: 'Earnings by Payment Type',
+          columns: twoColumns('Type'),
+          rows: [
+            ...groupRows(settlement.earningsByType),
+            { cells: ['Total Earnings', formatAmount(settlement.totalEarnings)], style: 'total' },
+          ],
+        },
+        {
+          title: 'Earnings by Account',
+          columns: twoColumns('Account'),
+          rows: groupRows(settlement.earningsByAccount),
+        },
+        {
+          title: 'Expenses',
+          columns: twoColumns('Item'),
+          rows: [
+            { cells: ['Expenses', formatAmount(settlement.totalExpenses)] },
+            { cells: ['Auto Expenses', formatAmount(settlement.totalAutoExpenses)] },
+            {
+              cells: ['Net Fleet Income', formatAmount(settlement.totalEarnings - settlement.totalExpenses - settlement.totalAutoExpenses)],
+              style: 'total',
+            },
+          ],
+        },
+        {
+          title: 'Driver Pay',
+          columns: [
+            { label: 'Item', width: 0.4 },
+            { label: 'Detail', width: 0.35 },
+            { label: 'Amount', width: 0.25, align: 'right' },
+          ],
+          rows: [
+            ...settlement.salaryLines.map(line => ({ cells: [line.label, line.detail || '', formatAmount(line.amount)] })),
+            { cells: ['Driver Share', '', formatAmount(settlement.driverShare)], style: 'total' },
+            { cells: ['Less advances paid', '', formatAmount(-settlement.advances)] },
+            { cells: ['Less cash held by driver', '', formatAmount(-settlement.cashHeld)] },
+            {
+              cells: [settlement.netPayable >= 0 ? 'Net Payable to Driver' : 'Net Due from Driver', '', formatAmount(Math.abs(settlement.netPayable))],
+              style: 'total',
+            },
+          ],
+        },
+      ],
+      note: settlement.note,
+    }, fileName || getStatementFileName('payslip', driverName, settlement.month));
 
-    // Current date for the report
-    const currentDate = new Date().toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
+    await sharePdf(uri, 'Download Payslip');
+    console.log('Payslip generated and shared successfully');
+  } catch (error) {
+    console.error('Error generating payslip:', error);
+    if (error instanceof Error) {
+      console.error('Error details:', error.message, error.stack);
+    }
+    throw new Error('Failed to generate payslip PDF');
+  }
+};
+
+/**
+ * Generate a profit-and-loss statement for a driver's period
+ */
+export const generateProfitLossPDF = async (
+  profitLoss: ProfitLoss,
+  userData: any,
+  fileName?: string
+): Promise<void> => {
+  try {
+    const driverName = userData?.name || 'Driver';
+    const { salary } = profitLoss;
 
-    // Create HTML content
-    const htmlContent = `
-      <!DOCTYPE html>
-      <html>
-        <head>
-          <meta name="viewport" content="width=device-width, initial-scale=1.0, maximum-scale=1.0, minimum-scale=1.0, user-scalable=no" />
-          <style>
-            body {
-              font-family: 'Helvetica', Arial, sans-serif;
-              margin: 0;
-              padding: 20px;
-              color: #333;
-            }
-            .header {
-              text-align: center;
-              margin-bottom: 30px;
-            }
-            .logo {
-              font-size: 24px;
-              font-weight: bold;
-              margin-bottom: 5px;
-            }
-            .title {
-              font-size: 20px;
-              margin: 20px 0;
-            }
-            .info-section {
-              margin-bottom: 20px;
-            }
-            .info-row {
-              display: flex;
-              margin-bottom: 10px;
-            }
-            table {
-              width: 100%;
-              border-collapse: collapse;
-              margin-top: 20px;
-            }
-            th {
-              background-color: #000;
-              color: white;
-              text-align: left;
-              padding: 10px 12px;
-            }
-            .total-row {
-              font-weight: bold;
-              background-color: #f0f0f0;
-            }
-            .footer {
-              margin-top: 40px;
-              text-align: center;
-              font-size: 12px;
-              color: #666;
-            }
-          </style>
-        </head>
-        <body>
-          <div class="header">
-            <div class="logo">FleetX</div>
-            <div>Auto Expenses Statement</div>
-          </div>
-          
-          <div class="info-section">
-            <div><strong>Driver:</strong> ${userData?.name || 'Driver'}</div>
-            <div><strong>Driver ID:</strong> ${userData?.id || 'N/A'}</div>
-            <div><strong>Generated on:</strong> ${currentDate}</div>
-          </div>
-          
-          <h2 class="title">Auto Expenses Summary</h2>
-          
-          <table>
-            <thead>
-              <tr>
-                <th>Date</th>
-                <th>Category</th>
-                <th>Description</th>
-                <th style="text-align: right;">Amount</th>
-              </tr>
-            </thead>
-            <tbody>
-              ${autoExpensesRows}
-              <tr class="total-row">
-                <td colspan="3" style="padding: 12px; border-top: 2px solid #000; text-align: right;"><strong>Total</strong></td>
-                <td style="padding: 12px; border-top: 2px solid #000; text-align: right;"><strong>${totalFormatted}</strong></td>
-              </tr>
-            </tbody>
-          </table>
-          
-          <div class="footer">
-            <p>This document was automatically generated by FleetX. © ${new Date().getFullYear()} FleetX.</p>
-          </div>
-        </body>
-      </html>
-    `;
+    const groupRows = (groups: Record<string, number>): PdfRow[] =>
+      Object.keys(groups).map(key => ({ cells: [key, formatAmount(groups[key])] }));
 
-    // Create a temporary HTML file
-    const htmlFileUri = FileSystem.documentDirectory + 'auto-expenses-statement.html';
-    await FileSystem.writeAsStringAsync(htmlFileUri, htmlContent, {
-      encoding: FileSystem.EncodingType.UTF8
-    });
-    
-    // Share the HTML file
-    await Sharing.shareAsync(htmlFileUri, {
-      mimeType: 'text/html',
-      dialogTitle: 'Download Auto Expenses Statement'
-    });
-    
-    console.log('Auto expenses statement generated and shared successfully');
-    
+    const twoColumns = (label: string) => [
+      { label, width: 0.7 },
+      { label: 'Amount', width: 0.3, align: 'right' as const },
+    ];
+
+    const uri = await writePdf({
+      title: 'Profit & Loss Statement',
+      info: [
+        { label: 'Driver', value: driverName },
+        { label: 'Driver ID', value: userData?.id || 'N/A' },
+        { label: 'Period', value: `${formatDate(profitLoss.startDate)} to ${formatDate(profitLoss.endDate)}` },
+        { label: 'Salary rule', value: describeSalaryRule(salary.rule) },
+        { label: 'Generated on', value: formatLongDate() },
+      ],
+      tables: [
+        {
+          title: 'Income',
+          columns: twoColumns('Payment Type'),
+          rows: [
+            ...groupRows(profitLoss.earningsByType),
+            { cells: ['Total Earnings', formatAmount(profitLoss.totalEarnings)], style: 'total' },
+          ],
+        },
+        {
+          title: 'Expenses',
+          columns: twoColumns('Category'),
+          rows: [
+            ...groupRows(profitLoss.expensesByCategory),
+            { cells: ['Total Expenses', formatAmount(profitLoss.totalExpenses)], style: 'subtotal' },
+          ],
+        },
+        {
+          title: 'Auto Expenses',
+          columns: twoColumns('Category'),
+          rows: [
+            ...groupRows(profitLoss.autoExpensesByCategory),
+            { cells: ['Total Auto Expenses', formatAmount(profitLoss.totalAutoExpenses)], style: 'subtotal' },
+          ],
+        },
+        {
+          title: 'Profit & Loss',
+          columns: twoColumns('Item'),
+          rows: [
+            { cells: ['Earnings', formatAmount(profitLoss.totalEarnings)] },
+            { cells: ['Less expenses', formatAmount(-profitLoss.totalExpenses)] },
+            { cells: ['Less auto expenses', formatAmount(-profitLoss.totalAutoExpenses)] },
+            { cells: [profitLoss.netProfit >= 0 ? 'Net Profit' : 'Net Loss', formatAmount(profitLoss.netProfit)], style: 'total' },
+          ],
+        },
+        {
+          title: 'Driver Share',
+          columns: [
+            { label: 'Item', width: 0.4 },
+            { label: 'Detail', width: 0.35 },
+            { label: 'Amount', width: 0.25, align: 'right' },
+          ],
+          rows: [
+            ...salary.lines.map(line => ({ cells: [line.label, line.detail || '', formatAmount(line.amount)] })),
+            { cells: ['Driver Share', '', formatAmount(salary.amount)], style: 'total' },
+            { cells: ['Company Share', 'Net profit less driver share', formatAmount(profitLoss.companyShare)] },
+            { cells: ['Less cash held by driver', '', formatAmount(-profitLoss.cashHeld)] },
+            {
+              cells: [profitLoss.netPayable >= 0 ? 'Owed to Driver' : 'Owed by Driver', '', formatAmount(Math.abs(profitLoss.netPayable))],
+              style: 'total',
+            },
+          ],
+        },
+      ],
+      note: 'Figures are before any advances paid; see the monthly payslip for settled amounts.',
+    }, fileName || getStatementFileName('profit-loss', driverName, profitLoss));
+
+    await sharePdf(uri, 'Download Profit & Loss Statement');
+    console.log('Profit and loss statement generated and shared successfully');
   } catch (error) {
-    console.error('Error generating auto expenses statement:', error);
+    console.error('Error generating profit and loss statement:', error);
     if (error instanceof Error) {
       console.error('Error details:', error.message, error.stack);
     }
-    throw new Error('Failed to generate auto expenses statement PDF');
+    throw new Error('Failed to generate profit and loss statement PDF');
   }
-}; 
\ No newline at end of file
+};
+
+/**
+ * Generate a fleet-wide report ranking every driver and vehicle for a period
+ */
+export const generateFleetReportPDF = async (report: FleetReport, fileName?: string): Promise<void> => {
+  try {
+    const { totals } = report;
+
+    const amountColumns = [
+      { label: 'Earnings', width: 0.14, align: 'right' as const },
+      { label: 'Expenses', width: 0.13, align: 'right' as const },
+      { label: 'Auto Exp.', width: 0.13, align: 'right' as const },
+      { label: 'Net', width: 0.14, align: 'right' as const },
+      { label: 'Util.', width: 0.08, align: 'right' as const },
+    ];
+    const amountCells = (row: FleetReportRow | FleetReport['totals']) => [
+      formatAmount(row.earnings),
+      formatAmount(row.expenses),
+      formatAmount(row.autoExpenses),
+      formatAmount(row.net),
+      formatUtilization(row.utilization),
+    ];
+
+    const uri = await writePdf({
+      title: 'Fleet Report',
+      info: [
+        { label: 'Period', value: `${formatDate(report.startDate)} to ${formatDate(report.endDate)} (${report.days} ${report.days === 1 ? 'day' : 'days'})` },
+        { label: 'Drivers', value: String(report.drivers.length) },
+        { label: 'Vehicles', value: String(report.vehicles.length) },
+        { label: 'Net income', value: formatAmount(totals.net) },
+        { label: 'Generated on', value: formatLongDate() },
+      ],
+      tables: [
+        {
+          title: 'Drivers',
+          columns: [
+            { label: '#', width: 0.06 },
+            { label: 'Driver', width: 0.32 },
+            ...amountColumns,
+          ],
+          rows: [
+            ...report.drivers.map(row => ({ cells: [String(row.rank), row.name, ...amountCells(row)] })),
+            { cells: ['', 'Fleet Total', ...amountCells(totals)], style: 'total' },
+          ],
+        },
+        {
+          title: 'Vehicles',
+          columns: [
+            { label: '#', width: 0.06 },
+            { label: 'Vehicle', width: 0.19 },
+            { label: 'Plate', width: 0.13 },
+            ...amountColumns,
+          ],
+          rows: report.vehicles.length === 0
+            ? [{ cells: ['', 'No vehicles', '', '', '', '', '', ''] }]
+            : report.vehicles.map(row => ({ cells: [String(row.rank), row.name, row.plate, ...amountCells(row)] })),
+        },
+      ],
+      note: 'Utilization is the share of days in the period with at least one earning. Vehicles include the records of the drivers assigned to them.',
+    }, fileName || getStatementFileName('fleet-report', 'all drivers', report));
+
+    await sharePdf(uri, 'Download Fleet Report');
+    console.log('Fleet report generated and shared successfully');
+  } catch (error) {
+    console.error('Error generating fleet report:', error);
+    if (error instanceof Error) {
+      console.error('Error details:', error.message, error.stack);
+    }
+    throw new Error('Failed to generate fleet report PDF');
+  }
+};
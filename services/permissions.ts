@@ -0,0 +1,154 @@
+import type { UserRole } from './api.types';
+
+// Capabilities a role can be granted, as `<resource>:<action>`
+export type Permission =
+  | 'dashboard:admin'
+  | 'dashboard:driver'
+  | 'dashboard:viewer'
+  | 'fleet:read'
+  | 'drivers:read'
+  | 'drivers:write'
+  | 'users:read'
+  | 'users:activate'
+  | 'vehicles:read'
+  | 'vehicles:write'
+  | 'vehicles:delete'
+  | 'earnings:own'
+  | 'earnings:read'
+  | 'earnings:write'
+  | 'earnings:delete'
+  | 'accounts:write'
+  | 'expenses:own'
+  | 'expenses:read'
+  | 'expenses:write'
+  | 'expenses:delete'
+  | 'expenses:review'
+  | 'salary:write'
+  | 'settlements:write'
+  | 'trash:manage'
+  | 'reports:export';
+
+/**
+ * What each role may do. `fleet:read` widens the read permissions from the
+ * signed-in driver's own records to every driver's; `earnings:own` and
+ * `expenses:own` cover the screens that only make sense for a driver.
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  Admin: [
+    'dashboard:admin',
+    'fleet:read',
+    'drivers:read',
+    'drivers:write',
+    'users:read',
+    'users:activate',
+    'vehicles:read',
+    'vehicles:write',
+    'vehicles:delete',
+    'earnings:read',
+    'earnings:write',
+    'earnings:delete',
+    'accounts:write',
+    'expenses:read',
+    'expenses:write',
+    'expenses:delete',
+    'expenses:review',
+    'salary:write',
+    'settlements:write',
+    'trash:manage',
+    'reports:export',
+  ],
+  Driver: [
+    'dashboard:driver',
+    'earnings:own',
+    'earnings:read',
+    'earnings:write',
+    'earnings:delete',
+    'expenses:own',
+    'expenses:read',
+    'expenses:write',
+    'expenses:delete',
+    'reports:export',
+  ],
+  Viewer: [
+    'dashboard:viewer',
+    'fleet:read',
+    'drivers:read',
+    'vehicles:read',
+    'earnings:read',
+    'expenses:read',
+    'reports:export',
+  ],
+};
+
+/**
+ * Permission needed to open each route. Routes not listed fall back to their
+ * closest listed parent (so `/vehicles/:id` uses `/vehicles`); routes with no
+ * listed parent only need a signed-in user.
+ */
+export const ROUTE_PERMISSIONS: Record<string, Permission> = {
+  '/dashboard/admin': 'dashboard:admin',
+  '/dashboard/driver': 'dashboard:driver',
+  '/dashboard/viewer': 'dashboard:viewer',
+  '/dashboard/drivers': 'drivers:write',
+  '/dashboard/add-driver': 'drivers:write',
+  '/dashboard/edit-driver': 'drivers:write',
+  '/dashboard/import-fleet': 'drivers:write',
+  '/dashboard/driver-statistics': 'drivers:read',
+  '/dashboard/driver-detail': 'drivers:read',
+  '/dashboard/driver-accounts': 'drivers:read',
+  '/dashboard/accounts': 'accounts:write',
+  '/dashboard/account-detail': 'earnings:read',
+  '/dashboard/account-earnings': 'earnings:own',
+  '/dashboard/earnings': 'earnings:own',
+  '/dashboard/all-earnings': 'earnings:read',
+  '/dashboard/add-earning': 'earnings:write',
+  '/dashboard/import-earnings': 'earnings:write',
+  '/dashboard/all-expenses': 'expenses:read',
+  '/dashboard/add-expense': 'expenses:write',
+  '/dashboard/auto-expense': 'expenses:own',
+  '/dashboard/add-auto-expense': 'expenses:write',
+  '/dashboard/expense-review': 'expenses:review',
+  '/dashboard/users': 'users:read',
+  '/dashboard/user-detail': 'users:read',
+  '/dashboard/salary-rule': 'salary:write',
+  '/dashboard/settlement': 'settlements:write',
+  '/dashboard/trash': 'trash:manage',
+  '/vehicles': 'vehicles:read',
+  '/vehicles/add-vehicle': 'vehicles:write',
+  '/vehicles/edit-vehicle': 'vehicles:write',
+};
+
+const HOME_ROUTES: Record<UserRole, string> = {
+  Admin: '/dashboard/admin',
+  Driver: '/dashboard/driver',
+  Viewer: '/dashboard/viewer',
+};
+
+const getPermissions = (role?: string | null): Permission[] =>
+  (role && ROLE_PERMISSIONS[role as UserRole]) || [];
+
+export const can = (role: string | null | undefined, permission: Permission) =>
+  getPermissions(role).includes(permission);
+
+// Roles that may read but change nothing
+export const isReadOnlyRole = (role?: string | null) =>
+  !!role && !getPermissions(role).some(permission => /:(write|delete|activate|review)$/.test(permission));
+
+export const getRoutePermission = (pathname: string): Permission | undefined => {
+  const segments = pathname.split('/').filter(Boolean);
+  while (segments.length > 0) {
+    const permission = ROUTE_PERMISSIONS[`/${segments.join('/')}`];
+    if (permission) return permission;
+    segments.pop();
+  }
+  return undefined;
+};
+
+export const canAccessRoute = (role: string | null | undefined, pathname: string) => {
+  const permission = getRoutePermission(pathname);
+  return !permission || can(role, permission);
+};
+
+// Dashboard a role lands on after signing in or being turned away from a route
+export const getHomeRoute = (role?: string | null) =>
+  (role && HOME_ROUTES[role as UserRole]) || '/auth/login';
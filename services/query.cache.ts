@@ -0,0 +1,180 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { QueryValue, buildQueryString, replaceParams } from './api.client';
+
+// Storage key
+const CACHE_KEY = 'fleetx_query_cache';
+
+// Keep the persisted cache small; least recently updated entries go first
+const MAX_PERSISTED_ENTRIES = 100;
+const PERSIST_DELAY = 1000;
+
+// Data younger than this is served without hitting the network
+export const DEFAULT_STALE_TIME = 30 * 1000;
+
+// Types
+export type QueryEntry<T = any> = {
+  data: T;
+  updatedAt: number;
+  // Set by a mutation; forces the next read to revalidate
+  invalidated?: boolean;
+};
+
+type QueryListener = (entry: QueryEntry | undefined) => void;
+
+const cache = new Map<string, QueryEntry>();
+const inFlight = new Map<string, Promise<any>>();
+const listeners = new Map<string, Set<QueryListener>>();
+let hydration: Promise<void> | null = null;
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+// Bumped on clear so requests started for a previous session are discarded
+let generation = 0;
+
+/**
+ * Build a cache key from an endpoint and its filters, e.g.
+ * queryKey(ENDPOINTS.EARNING.GET_ALL, { query: { driverId } }) -> '/earnings?driverId=1'
+ */
+export const queryKey = (
+  endpoint: string,
+  options: { params?: Record<string, string | number>; query?: Record<string, QueryValue> } = {}
+) => {
+  const sortedQuery: Record<string, QueryValue> = {};
+  Object.keys(options.query || {}).sort().forEach(key => {
+    sortedQuery[key] = options.query![key];
+  });
+  return `${replaceParams(endpoint, options.params)}${buildQueryString(sortedQuery)}`;
+};
+
+const notify = (key: string) => {
+  listeners.get(key)?.forEach(listener => listener(cache.get(key)));
+};
+
+const persist = () => {
+  if (persistTimer) clearTimeout(persistTimer);
+
+  persistTimer = setTimeout(async () => {
+    persistTimer = null;
+    try {
+      const entries = Array.from(cache.entries())
+        .sort(([, a], [, b]) => b.updatedAt - a.updatedAt)
+        .slice(0, MAX_PERSISTED_ENTRIES);
+      await AsyncStorage.setItem(CACHE_KEY, JSON.stringify(Object.fromEntries(entries)));
+    } catch (error) {
+      console.error('Error persisting query cache:', error);
+    }
+  }, PERSIST_DELAY);
+};
+
+// Load the persisted cache once per app start
+export const hydrateQueryCache = () => {
+  if (!hydration) {
+    const startedIn = generation;
+    hydration = (async () => {
+      try {
+        const json = await AsyncStorage.getItem(CACHE_KEY);
+        if (!json || startedIn !== generation) return;
+
+        const stored: Record<string, QueryEntry> = JSON.parse(json);
+        Object.keys(stored).forEach(key => {
+          // Anything fetched since launch is newer than the stored copy
+          if (!cache.has(key)) {
+            cache.set(key, stored[key]);
+          }
+        });
+      } catch (error) {
+        console.error('Error loading query cache:', error);
+      }
+    })();
+  }
+  return hydration;
+};
+
+export const getQueryEntry = <T = any>(key: string): QueryEntry<T> | undefined => cache.get(key);
+
+export const isQueryStale = (entry: QueryEntry | undefined, staleTime = DEFAULT_STALE_TIME) =>
+  !entry || !!entry.invalidated || Date.now() - entry.updatedAt > staleTime;
+
+export const setQueryData = <T = any>(key: string, data: T) => {
+  cache.set(key, { data, updatedAt: Date.now() });
+  notify(key);
+  persist();
+};
+
+/**
+ * Return cached data while it is fresh, otherwise fetch it. Concurrent calls
+ * for the same key share one request.
+ */
+export const fetchQuery = async <T = any>(
+  key: string,
+  fetcher: () => Promise<T>,
+  options: { staleTime?: number; force?: boolean } = {}
+): Promise<T> => {
+  await hydrateQueryCache();
+
+  const entry = cache.get(key);
+  if (!options.force && !isQueryStale(entry, options.staleTime)) {
+    return entry!.data;
+  }
+
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+
+  const startedIn = generation;
+  const request = (async () => {
+    try {
+      const data = await fetcher();
+      if (startedIn === generation) {
+        setQueryData(key, data);
+      }
+      return data;
+    } finally {
+      inFlight.delete(key);
+    }
+  })();
+
+  inFlight.set(key, request);
+  return request;
+};
+
+// Mark every key that starts with the prefix (usually an endpoint) as stale
+export const invalidateQueries = (prefix: string) => {
+  cache.forEach((entry, key) => {
+    if (key.startsWith(prefix)) {
+      cache.set(key, { ...entry, invalidated: true });
+      notify(key);
+    }
+  });
+  persist();
+};
+
+// Drop all cached data, e.g. when the user logs out
+export const clearQueryCache = async () => {
+  generation += 1;
+  cache.clear();
+  inFlight.clear();
+  if (persistTimer) {
+    clearTimeout(persistTimer);
+    persistTimer = null;
+  }
+  listeners.forEach((_, key) => notify(key));
+
+  try {
+    await AsyncStorage.removeItem(CACHE_KEY);
+  } catch (error) {
+    console.error('Error clearing query cache:', error);
+  }
+};
+
+export const subscribeQuery = (key: string, listener: QueryListener) => {
+  if (!listeners.has(key)) {
+    listeners.set(key, new Set());
+  }
+  listeners.get(key)!.add(listener);
+
+  return () => {
+    const keyListeners = listeners.get(key);
+    keyListeners?.delete(listener);
+    if (keyListeners && keyListeners.size === 0) {
+      listeners.delete(key);
+    }
+  };
+};
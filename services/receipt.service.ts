@@ -0,0 +1,156 @@
+import * as ImagePicker from 'expo-image-picker';
+import * as FileSystem from 'expo-file-system';
+import { PdfImage, fromBase64 } from './pdf.renderer';
+
+export type ReceiptSource = 'camera' | 'library';
+
+// Receipts only need to stay legible, so keep uploads small
+const RECEIPT_QUALITY = 0.6;
+
+/**
+ * Take a receipt photo or pick some from the library
+ * @returns Local URIs, empty when cancelled
+ * @throws When the permission is denied
+ */
+export const pickReceipts = async (source: ReceiptSource): Promise<string[]> => {
+  const permission = source === 'camera'
+    ? await ImagePicker.requestCameraPermissionsAsync()
+    : await ImagePicker.requestMediaLibraryPermissionsAsync();
+  if (permission.status !== 'granted') {
+    throw new Error(source === 'camera'
+      ? 'Please grant camera permissions to photograph a receipt'
+      : 'Please grant camera roll permissions to attach a receipt');
+  }
+
+  const options: ImagePicker.ImagePickerOptions = {
+    mediaTypes: ImagePicker.MediaTypeOptions.Images,
+    quality: RECEIPT_QUALITY,
+  };
+  const result = source === 'camera'
+    ? await ImagePicker.launchCameraAsync(options)
+    : await ImagePicker.launchImageLibraryAsync({ ...options, allowsMultipleSelection: true });
+
+  return result.canceled || !result.assets ? [] : result.assets.map(asset => asset.uri);
+};
+
+/**
+ * Request body for an expense or auto expense. Records with receipts are
+ * sent as multipart with each photo under `receipts`, like vehicle images;
+ * the rest stay JSON.
+ * @param data Input whose `receipts` are local image URIs
+ */
+export const withReceipts = <T extends { receipts?: string[] }>(data: T): T | FormData => {
+  const { receipts, ...fields } = data;
+  if (!receipts || receipts.length === 0) return fields as T;
+
+  const formData = new FormData();
+  Object.entries(fields).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) {
+      formData.append(key, String(value));
+    }
+  });
+  receipts.forEach((uri, index) => {
+    const fileType = (uri.split('.').pop() || 'jpg').toLowerCase();
+    formData.append('receipts', {
+      uri,
+      name: `receipt-${index + 1}.${fileType}`,
+      type: `image/${fileType === 'jpg' ? 'jpeg' : fileType}`,
+    } as any);
+  });
+  return formData;
+};
+
+// Where receipts of queued expenses wait for the upload; null on web
+const QUEUED_RECEIPTS_DIRECTORY = FileSystem.documentDirectory
+  ? `${FileSystem.documentDirectory}queued-receipts/`
+  : null;
+
+/**
+ * Copy picked receipts out of the image picker's cache, which the OS may
+ * clear before a queued expense is retried.
+ * @param uris Local image URIs
+ * @param key Unique per queued record, prefixes the copies' names
+ * @returns The URIs to queue with the record
+ */
+export const keepQueuedReceipts = async (uris: string[], key: string): Promise<string[]> => {
+  if (!QUEUED_RECEIPTS_DIRECTORY || uris.length === 0) return uris;
+
+  await FileSystem.makeDirectoryAsync(QUEUED_RECEIPTS_DIRECTORY, { intermediates: true });
+  return Promise.all(uris.map(async (uri, index) => {
+    const fileType = (uri.split('.').pop() || 'jpg').toLowerCase();
+    const copy = `${QUEUED_RECEIPTS_DIRECTORY}${key}-${index + 1}.${fileType}`;
+    await FileSystem.copyAsync({ from: uri, to: copy });
+    return copy;
+  }));
+};
+
+// Delete copies made by keepQueuedReceipts once they are uploaded or discarded
+export const deleteQueuedReceipts = async (uris: string[]) => {
+  const copies = uris.filter(uri => QUEUED_RECEIPTS_DIRECTORY && uri.startsWith(QUEUED_RECEIPTS_DIRECTORY));
+  await Promise.all(copies.map(uri =>
+    FileSystem.deleteAsync(uri, { idempotent: true }).catch(error => {
+      console.warn('Could not delete queued receipt:', uri, error);
+    })
+  ));
+};
+
+// Size and colour model from a JPEG's start-of-frame marker; null for anything else
+const readJpegInfo = (bytes: string) => {
+  if (bytes.charCodeAt(0) !== 0xff || bytes.charCodeAt(1) !== 0xd8) return null;
+
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes.charCodeAt(offset) !== 0xff) return null;
+    const marker = bytes.charCodeAt(offset + 1);
+    const length = (bytes.charCodeAt(offset + 2) << 8) | bytes.charCodeAt(offset + 3);
+
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      const components = bytes.charCodeAt(offset + 9);
+      return {
+        height: (bytes.charCodeAt(offset + 5) << 8) | bytes.charCodeAt(offset + 6),
+        width: (bytes.charCodeAt(offset + 7) << 8) | bytes.charCodeAt(offset + 8),
+        // CMYK JPEGs would need an inverted decode, so only grey and RGB are embedded
+        components,
+      };
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+/**
+ * Download receipt photos for a PDF. Photos that can't be loaded, or aren't
+ * JPEGs, are left out.
+ * @param receipts Each photo's URL and the caption to print above it
+ */
+export const loadReceiptImages = async (receipts: { url: string; caption: string }[]): Promise<PdfImage[]> => {
+  const images: PdfImage[] = [];
+
+  for (const [index, receipt] of receipts.entries()) {
+    try {
+      let uri = receipt.url;
+      if (!uri.startsWith('file:')) {
+        const download = await FileSystem.downloadAsync(uri, `${FileSystem.cacheDirectory}receipt-${index}.jpg`);
+        uri = download.uri;
+      }
+      const data = await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 });
+      // The header is enough to find the frame size
+      const info = readJpegInfo(fromBase64(data.slice(0, 256 * 1024)));
+
+      if (info && (info.components === 1 || info.components === 3)) {
+        images.push({
+          caption: receipt.caption,
+          data,
+          width: info.width,
+          height: info.height,
+          grayscale: info.components === 1,
+        });
+      }
+    } catch (error) {
+      console.warn('Could not load receipt for PDF:', receipt.url, error);
+    }
+  }
+
+  return images;
+};
@@ -0,0 +1,192 @@
+import { getAllEarnings } from './earning.service';
+import { getAllExpenses } from './expense.service';
+import { getAllAutoExpenses } from './autoExpense.service';
+import { getStatementFileName } from './pdf.renderer';
+import { CsvValue, shareCsv, writeCsv } from './csv.writer';
+import { addDays, countDays, parseDate, toDateKey, toDateString } from '../utils/date';
+import { isApproved } from './review.service';
+import type { AnalyticsRecords, AnalyticsTotals, DateRange } from './analytics.service';
+import type { DriverRef, Vehicle } from './api.types';
+
+// Types
+export type FleetReportRow = AnalyticsTotals & {
+  id: string;
+  name: string;
+  // Days in the period with at least one earning
+  activeDays: number;
+  // activeDays as a share of the days in the period, 0 to 1
+  utilization: number;
+  // 1 for the highest net income
+  rank: number;
+};
+
+export type FleetVehicleRow = FleetReportRow & {
+  plate: string;
+  drivers: string[];
+};
+
+export type FleetReport = DateRange & {
+  days: number;
+  drivers: FleetReportRow[];
+  vehicles: FleetVehicleRow[];
+  totals: AnalyticsTotals & { activeDays: number; utilization: number };
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const toAmount = (value: number | string) => parseFloat(String(value)) || 0;
+
+// Responses are either arrays or wrapped in an object
+const toList = (response: any, field: string) =>
+  Array.isArray(response) ? response : (response && (response.data || response[field])) || [];
+
+const inRange = (date: string, range: DateRange) => {
+  const key = toDateKey(date);
+  return key >= range.startDate && key <= range.endDate;
+};
+
+/**
+ * Earnings, expenses and auto expenses dated within the range, optionally
+ * for a single driver
+ * @param range
+ * @param driverId
+ * @param token
+ */
+export const getPeriodRecords = async (
+  range: DateRange,
+  driverId?: string,
+  token: string | null = null
+): Promise<AnalyticsRecords> => {
+  const filters = {
+    ...(driverId ? { driverId } : {}),
+    startDate: range.startDate,
+    // The day after, so records on the last day are included
+    endDate: toDateString(addDays(parseDate(range.endDate), 1)),
+  };
+
+  const [earnings, expenses, autoExpenses] = await Promise.all([
+    getAllEarnings(filters, token),
+    getAllExpenses(filters, token),
+    getAllAutoExpenses(filters, token),
+  ]);
+
+  return {
+    earnings: toList(earnings, 'earnings').filter((item: { date: string }) => inRange(item.date, range)),
+    expenses: toList(expenses, 'expenses').filter((item: { date: string }) => inRange(item.date, range)),
+    autoExpenses: toList(autoExpenses, 'autoExpenses').filter((item: { date: string }) => inRange(item.date, range)),
+  };
+};
+
+// Highest net first; ties keep their order
+const rank = <T extends FleetReportRow>(rows: T[]): T[] =>
+  [...rows]
+    .sort((a, b) => b.net - a.net)
+    .map((row, index) => ({ ...row, rank: index + 1 }));
+
+/**
+ * Per-driver and per-vehicle totals for a period. Records carry a driver but
+ * no vehicle, so each driver's records count towards the vehicle they are the
+ * primary driver of (or their first vehicle), and a vehicle is in use on the
+ * days any of its drivers earned.
+ */
+export const buildFleetReport = (
+  range: DateRange,
+  records: AnalyticsRecords,
+  drivers: DriverRef[],
+  vehicles: Vehicle[]
+): FleetReport => {
+  const days = Math.max(countDays(range.startDate, range.endDate), 1);
+  const recordDriver = (item: { driverId?: string; driver?: { id: string } }) => item.driverId || item.driver?.id;
+
+  const summarize = (driverIds: string[]) => {
+    const ofDrivers = (item: { driverId?: string; driver?: { id: string } }) =>
+      driverIds.includes(recordDriver(item) || '');
+    const sum = (items: { amount: number | string }[]) => round(items.reduce((total, item) => total + toAmount(item.amount), 0));
+
+    const earnings = records.earnings.filter(ofDrivers);
+    const totals = {
+      earnings: sum(earnings),
+      // Only approved expenses count, matching salaries and settlements
+      expenses: sum(records.expenses.filter(ofDrivers).filter(isApproved)),
+      autoExpenses: sum(records.autoExpenses.filter(ofDrivers).filter(isApproved)),
+    };
+    const activeDays = new Set(earnings.map(item => toDateKey(item.date))).size;
+
+    return {
+      ...totals,
+      net: round(totals.earnings - totals.expenses - totals.autoExpenses),
+      activeDays,
+      utilization: activeDays / days,
+      rank: 0,
+    };
+  };
+
+  // Each driver belongs to one vehicle so nothing is counted twice
+  const vehicleOf = new Map<string, string>();
+  vehicles.forEach(vehicle => (vehicle.drivers || []).forEach(driver => {
+    if (driver.assignment?.isPrimary || !vehicleOf.has(driver.id)) vehicleOf.set(driver.id, vehicle.id);
+  }));
+
+  const totals = summarize(drivers.map(driver => driver.id));
+
+  return {
+    ...range,
+    days,
+    drivers: rank(drivers.map(driver => ({ id: driver.id, name: driver.name, ...summarize([driver.id]) }))),
+    vehicles: rank(vehicles.map(vehicle => {
+      const driverIds = (vehicle.drivers || []).map(driver => driver.id).filter(id => vehicleOf.get(id) === vehicle.id);
+      return {
+        id: vehicle.id,
+        name: vehicle.name,
+        plate: vehicle.plate,
+        drivers: (vehicle.drivers || []).map(driver => driver.name),
+        ...summarize(driverIds),
+      };
+    })),
+    totals: { ...totals, utilization: drivers.length ? totals.activeDays / days : 0 },
+  };
+};
+
+export const formatUtilization = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * Export a fleet report as CSV, one row per driver and vehicle
+ */
+export const generateFleetReportCSV = async (report: FleetReport, fileName?: string): Promise<void> => {
+  try {
+    const header = ['Section', 'Rank', 'Name', 'Plate', 'Earnings', 'Expenses', 'Auto Expenses', 'Net', 'Active Days', 'Utilization'];
+    const toRow = (section: string, row: FleetReportRow, plate = ''): CsvValue[] => [
+      section,
+      row.rank,
+      row.name,
+      plate,
+      row.earnings.toFixed(2),
+      row.expenses.toFixed(2),
+      row.autoExpenses.toFixed(2),
+      row.net.toFixed(2),
+      row.activeDays,
+      formatUtilization(row.utilization),
+    ];
+    const { totals } = report;
+
+    const uri = await writeCsv([
+      header,
+      ...report.drivers.map(row => toRow('Driver', row)),
+      ...report.vehicles.map(row => toRow('Vehicle', row, row.plate)),
+      [
+        'Fleet Total', '', '', '',
+        totals.earnings.toFixed(2),
+        totals.expenses.toFixed(2),
+        totals.autoExpenses.toFixed(2),
+        totals.net.toFixed(2),
+        totals.activeDays,
+        formatUtilization(totals.utilization),
+      ],
+    ], fileName || getStatementFileName('fleet-report', 'all drivers', report, 'csv'));
+
+    await shareCsv(uri, 'Download Fleet Report');
+  } catch (error) {
+    console.error('Error generating fleet report CSV:', error);
+    throw new Error('Failed to generate fleet report CSV');
+  }
+};
@@ -0,0 +1,44 @@
+import type { ExpenseStatus } from './api.types';
+
+export const EXPENSE_STATUS_LABELS: Record<ExpenseStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+export const EXPENSE_STATUS_COLORS: Record<ExpenseStatus, string> = {
+  pending: '#FF9800',
+  approved: '#4CAF50',
+  rejected: '#FF3B30',
+};
+
+type Reviewable = {
+  amount: number | string;
+  status?: ExpenseStatus | string;
+};
+
+export type StatusTotals = Record<ExpenseStatus, number>;
+
+// Records from before reviews existed have no status and were never held back
+export const getExpenseStatus = (record: { status?: ExpenseStatus | string }): ExpenseStatus =>
+  record.status === 'pending' || record.status === 'rejected' ? record.status : 'approved';
+
+// Only approved expenses reduce a driver's net
+export const isApproved = (record: { status?: ExpenseStatus | string }) =>
+  getExpenseStatus(record) === 'approved';
+
+export const isPending = (record: { status?: ExpenseStatus | string }) =>
+  getExpenseStatus(record) === 'pending';
+
+/**
+ * Total the amounts of expenses or auto expenses under each status
+ */
+export const sumByStatus = (items: Reviewable[] = []): StatusTotals =>
+  items.reduce<StatusTotals>(
+    (totals, item) => {
+      const status = getExpenseStatus(item);
+      totals[status] = Math.round((totals[status] + (parseFloat(String(item.amount)) || 0)) * 100) / 100;
+      return totals;
+    },
+    { pending: 0, approved: 0, rejected: 0 }
+  );
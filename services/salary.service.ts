@@ -0,0 +1,235 @@
+import { ENDPOINTS } from './api.config';
+import { apiClient, isApiError } from './api.client';
+import { invalidateQueries, queryKey } from './query.cache';
+import { countDays, parseDate } from '../utils/date';
+import { isApproved } from './review.service';
+import type { SalaryLine, SalaryRule, SalaryRuleInput, SalaryRuleType, SalaryTier } from './api.types';
+
+export type { SalaryLine };
+
+// Drivers without a rule of their own keep the original deal: 30% of earnings minus expenses
+export const DEFAULT_SALARY_RULE: SalaryRuleInput = {
+  type: 'percentage',
+  rate: 30,
+  deductExpenses: true,
+};
+
+export const SALARY_RULE_LABELS: Record<SalaryRuleType, string> = {
+  percentage: 'Percentage of earnings',
+  flat: 'Flat monthly salary',
+  tiered: 'Tiered percentage',
+  percentageAfterExpenses: 'Percentage after expenses',
+  perAccount: 'Per-account rates',
+};
+
+// Earnings without an account are paid at the rule's default rate
+export const UNASSIGNED_ACCOUNT = 'Unassigned';
+
+// Types
+type Amount = { amount: number | string };
+type Reviewed = Amount & { status?: string };
+
+export type SalaryInput = {
+  earnings: (Amount & { accountName?: string })[];
+  // Pending and rejected expenses are left out
+  expenses: Reviewed[];
+  autoExpenses?: Reviewed[];
+  // Inclusive YYYY-MM-DD range the records were taken from
+  startDate: string;
+  endDate: string;
+};
+
+export type SalaryBreakdown = {
+  rule: SalaryRuleInput;
+  totalEarnings: number;
+  totalExpenses: number;
+  totalAutoExpenses: number;
+  // Lines add up to `amount`
+  lines: SalaryLine[];
+  amount: number;
+};
+
+/**
+ * Get a driver's salary rule, falling back to the default rule when the
+ * admin has not configured one yet
+ * @param driverId
+ * @param token
+ */
+export const getSalaryRule = async (driverId: string, token: string | null = null): Promise<SalaryRuleInput> => {
+  try {
+    const response = await apiClient.get(ENDPOINTS.SALARY_RULE.GET, {
+      params: { driverId },
+      token,
+      errorMessage: 'Failed to fetch salary rule',
+    });
+    return (response && response.data) || response || DEFAULT_SALARY_RULE;
+  } catch (error) {
+    if (isApiError(error) && error.status === 404) {
+      return DEFAULT_SALARY_RULE;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Create or replace a driver's salary rule
+ * @param driverId
+ * @param rule
+ * @param token
+ */
+export const saveSalaryRule = async (
+  driverId: string,
+  rule: SalaryRuleInput,
+  token: string | null = null
+): Promise<SalaryRule> => {
+  const data = await apiClient.put(ENDPOINTS.SALARY_RULE.UPDATE, rule, {
+    params: { driverId },
+    token,
+    errorMessage: 'Failed to save salary rule',
+  });
+  invalidateQueries(queryKey(ENDPOINTS.SALARY_RULE.GET, { params: { driverId } }));
+  return data;
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const sum = (items: Amount[] = []) =>
+  items.reduce((total, item) => total + (parseFloat(String(item.amount)) || 0), 0);
+
+const formatAmount = (value: number) =>
+  `AED ${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Number of months a period covers. Whole calendar months count as one each;
+ * any other range is prorated at 30 days per month.
+ */
+export const getPeriodMonths = (startDate: string, endDate: string) => {
+  const start = parseDate(startDate);
+  const end = parseDate(endDate);
+  if (end < start) return 0;
+
+  const isLastDay = new Date(end.getFullYear(), end.getMonth(), end.getDate() + 1).getDate() === 1;
+  if (start.getDate() === 1 && isLastDay) {
+    return (end.getFullYear() - start.getFullYear()) * 12 + end.getMonth() - start.getMonth() + 1;
+  }
+
+  return round(countDays(startDate, endDate) / 30);
+};
+
+// Split earnings across the bands, each band paid at its own rate
+const applyTiers = (tiers: SalaryTier[], earnings: number): SalaryLine[] => {
+  const sorted = [...tiers].sort((a, b) => (a.upTo ?? Infinity) - (b.upTo ?? Infinity));
+  const lines: SalaryLine[] = [];
+  let lower = 0;
+
+  for (const tier of sorted) {
+    if (earnings <= lower) break;
+
+    const upper = tier.upTo ?? Infinity;
+    const portion = Math.min(earnings, upper) - lower;
+    lines.push({
+      label: `${tier.rate}% of earnings ${upper === Infinity ? `over ${formatAmount(lower)}` : `${formatAmount(lower)} – ${formatAmount(upper)}`}`,
+      detail: `On ${formatAmount(portion)}`,
+      amount: round((portion * tier.rate) / 100),
+    });
+    lower = upper;
+  }
+
+  return lines;
+};
+
+/**
+ * Apply a salary rule to the records of a period and explain how the figure
+ * was reached
+ */
+export const calculateSalary = (rule: SalaryRuleInput, input: SalaryInput): SalaryBreakdown => {
+  const totalEarnings = round(sum(input.earnings));
+  const totalExpenses = round(sum(input.expenses.filter(isApproved)));
+  const totalAutoExpenses = round(sum((input.autoExpenses || []).filter(isApproved)));
+  const lines: SalaryLine[] = [];
+
+  switch (rule.type) {
+    case 'percentage':
+      lines.push({
+        label: `${rule.rate}% of earnings`,
+        detail: `On ${formatAmount(totalEarnings)}`,
+        amount: round((totalEarnings * rule.rate) / 100),
+      });
+      break;
+
+    case 'flat': {
+      const months = getPeriodMonths(input.startDate, input.endDate);
+      lines.push({
+        label: 'Flat salary',
+        detail: `${formatAmount(rule.amount)} × ${months} ${months === 1 ? 'month' : 'months'}`,
+        amount: round(rule.amount * months),
+      });
+      break;
+    }
+
+    case 'tiered':
+      lines.push(...applyTiers(rule.tiers, totalEarnings));
+      break;
+
+    case 'percentageAfterExpenses': {
+      const deducted = totalExpenses + (rule.includeAutoExpenses ? totalAutoExpenses : 0);
+      const net = Math.max(totalEarnings - deducted, 0);
+      lines.push({
+        label: `${rule.rate}% of earnings after expenses`,
+        detail: `On ${formatAmount(totalEarnings)} − ${formatAmount(deducted)}${rule.includeAutoExpenses ? ' (incl. auto expenses)' : ''}`,
+        amount: round((net * rule.rate) / 100),
+      });
+      break;
+    }
+
+    case 'perAccount': {
+      const byAccount = new Map<string, number>();
+      input.earnings.forEach(earning => {
+        const account = earning.accountName || UNASSIGNED_ACCOUNT;
+        byAccount.set(account, (byAccount.get(account) || 0) + (parseFloat(String(earning.amount)) || 0));
+      });
+
+      byAccount.forEach((total, account) => {
+        const rate = rule.rates[account] ?? rule.defaultRate;
+        lines.push({
+          label: `${rate}% of ${account}`,
+          detail: `On ${formatAmount(total)}`,
+          amount: round((total * rate) / 100),
+        });
+      });
+      break;
+    }
+  }
+
+  // Expenses were already taken off the base for this rule type
+  if (rule.deductExpenses && rule.type !== 'percentageAfterExpenses' && totalExpenses > 0) {
+    lines.push({ label: 'Less expenses', amount: -totalExpenses });
+  }
+
+  return {
+    rule,
+    totalEarnings,
+    totalExpenses,
+    totalAutoExpenses,
+    lines,
+    amount: round(lines.reduce((total, line) => total + line.amount, 0)),
+  };
+};
+
+// One-line summary of a rule, e.g. for the admin screens
+export const describeSalaryRule = (rule: SalaryRuleInput) => {
+  const suffix = rule.deductExpenses && rule.type !== 'percentageAfterExpenses' ? ', minus expenses' : '';
+
+  switch (rule.type) {
+    case 'percentage':
+      return `${rule.rate}% of earnings${suffix}`;
+    case 'flat':
+      return `${formatAmount(rule.amount)} per month${suffix}`;
+    case 'tiered':
+      return `Tiered: ${rule.tiers.map(tier => `${tier.rate}%${tier.upTo === null ? '' : ` up to ${tier.upTo}`}`).join(', ')}${suffix}`;
+    case 'percentageAfterExpenses':
+      return `${rule.rate}% of earnings after ${rule.includeAutoExpenses ? 'all expenses' : 'expenses'}`;
+    case 'perAccount':
+      return `${Object.keys(rule.rates).map(account => `${rule.rates[account]}% ${account}`).join(', ') || `${rule.defaultRate}% of earnings`}${suffix}`;
+  }
+};
@@ -0,0 +1,241 @@
+import { ENDPOINTS } from './api.config';
+import { apiClient, isApiError } from './api.client';
+import { fetchQuery, invalidateQueries, queryKey } from './query.cache';
+import { calculateSalary, SalaryBreakdown, UNASSIGNED_ACCOUNT } from './salary.service';
+import { isApproved } from './review.service';
+import { getMonthRange, parseDate, toDateString } from '../utils/date';
+import type { Settlement, SettlementFilters, SettlementInput, SalaryRuleInput } from './api.types';
+
+// Types
+type SettlementRecords = {
+  earnings: { amount: number | string; type?: string; accountName?: string }[];
+  expenses: { amount: number | string; category?: string; status?: string }[];
+  autoExpenses: { amount: number | string; category?: string; status?: string }[];
+};
+
+// A driver's net position over a period, before any settlement
+export type ProfitLoss = {
+  startDate: string;
+  endDate: string;
+  earningsByType: Record<string, number>;
+  expensesByCategory: Record<string, number>;
+  autoExpensesByCategory: Record<string, number>;
+  totalEarnings: number;
+  totalExpenses: number;
+  totalAutoExpenses: number;
+  // Earnings less expenses and auto expenses
+  netProfit: number;
+  salary: SalaryBreakdown;
+  // What is left of the net profit after the driver's share
+  companyShare: number;
+  cashHeld: number;
+  // What the company owes the driver; negative when the driver owes the company
+  netPayable: number;
+};
+
+// Thrown when a record falls inside a month that has already been settled
+export class PeriodLockedError extends Error {
+  settlement: Settlement;
+
+  constructor(settlement: Settlement) {
+    super(`${formatMonth(settlement.month)} has been settled and can no longer be changed`);
+    this.name = 'PeriodLockedError';
+    this.settlement = settlement;
+  }
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const toAmount = (value: number | string) => parseFloat(String(value)) || 0;
+
+// Responses are either arrays or wrapped in an object
+const toList = (response: any): Settlement[] =>
+  Array.isArray(response) ? response : (response && (response.data || response.settlements)) || [];
+
+// YYYY-MM for the month containing `date`
+export const getMonthKey = (date: Date | string = new Date()) => {
+  const value = typeof date === 'string' ? parseDate(date) : date;
+  return toDateString(value).slice(0, 7);
+};
+
+// Move a YYYY-MM key forwards or backwards by whole months
+export const shiftMonth = (month: string, offset: number) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return getMonthKey(new Date(year, monthIndex - 1 + offset, 1));
+};
+
+export const getSettlementRange = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return getMonthRange(new Date(year, monthIndex - 1, 1));
+};
+
+export const formatMonth = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(year, monthIndex - 1, 1).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+};
+
+/**
+ * Get settlements, optionally for a single driver or month
+ * @param filters
+ * @param token
+ */
+export const getSettlements = async (filters: SettlementFilters = {}, token: string | null = null): Promise<Settlement[]> => {
+  const response = await apiClient.get(ENDPOINTS.SETTLEMENT.GET_ALL, {
+    query: filters,
+    token,
+    errorMessage: 'Failed to fetch settlements',
+  });
+  return toList(response);
+};
+
+/**
+ * Get a settlement by ID
+ * @param id
+ * @param token
+ */
+export const getSettlementById = async (id: string, token: string | null = null): Promise<Settlement> => {
+  const response = await apiClient.get(ENDPOINTS.SETTLEMENT.GET_ONE, {
+    params: { id },
+    token,
+    errorMessage: 'Failed to fetch settlement',
+  });
+  return (response && response.data) || response;
+};
+
+/**
+ * Close a driver's month. The server locks the period so its earnings and
+ * expenses can no longer be added, edited or deleted.
+ * @param settlement
+ * @param token
+ */
+export const createSettlement = async (settlement: SettlementInput, token: string | null = null): Promise<Settlement> => {
+  const response = await apiClient.post(ENDPOINTS.SETTLEMENT.CREATE, settlement, {
+    token,
+    errorMessage: 'Failed to settle month',
+  });
+  invalidateQueries(ENDPOINTS.SETTLEMENT.GET_ALL);
+  return (response && response.data) || response;
+};
+
+/**
+ * Reopen a settled month by deleting its settlement
+ * @param id
+ * @param token
+ */
+export const reopenSettlement = async (id: string, token: string | null = null) => {
+  const data = await apiClient.delete(ENDPOINTS.SETTLEMENT.DELETE, {
+    params: { id },
+    token,
+    errorMessage: 'Failed to reopen month',
+  });
+  invalidateQueries(ENDPOINTS.SETTLEMENT.GET_ALL);
+  return data;
+};
+
+const groupBy = <T extends { amount: number | string }>(items: T[], field: keyof T, fallback: string) =>
+  items.reduce<Record<string, number>>((groups, item) => {
+    const key = String(item[field] || fallback);
+    groups[key] = round((groups[key] || 0) + toAmount(item.amount));
+    return groups;
+  }, {});
+
+/**
+ * Build the settlement for a driver's month from its records. Cash held
+ * defaults to the cash fares the driver collected.
+ */
+export const buildSettlement = (
+  driverId: string,
+  month: string,
+  records: SettlementRecords,
+  rule: SalaryRuleInput,
+  adjustments: { advances?: number; cashHeld?: number; note?: string } = {}
+): SettlementInput => {
+  const { startDate, endDate } = getSettlementRange(month);
+  const salary = calculateSalary(rule, { ...records, startDate, endDate });
+  const earningsByType = groupBy(records.earnings, 'type', 'Other');
+  const advances = round(adjustments.advances || 0);
+  const cashHeld = round(adjustments.cashHeld ?? earningsByType.Cash ?? 0);
+
+  return {
+    driverId,
+    month,
+    startDate,
+    endDate,
+    earningsByType,
+    earningsByAccount: groupBy(records.earnings, 'accountName', UNASSIGNED_ACCOUNT),
+    totalEarnings: salary.totalEarnings,
+    totalExpenses: salary.totalExpenses,
+    totalAutoExpenses: salary.totalAutoExpenses,
+    salaryRule: rule,
+    salaryLines: salary.lines,
+    driverShare: salary.amount,
+    advances,
+    cashHeld,
+    netPayable: round(salary.amount - advances - cashHeld),
+    note: adjustments.note,
+  };
+};
+
+/**
+ * Net a driver's earnings against their expenses and auto expenses for any
+ * period, with the driver's share under their salary rule. Cash the driver
+ * collected counts against what they are owed, as in a settlement.
+ */
+export const buildProfitLoss = (
+  range: { startDate: string; endDate: string },
+  records: SettlementRecords,
+  rule: SalaryRuleInput
+): ProfitLoss => {
+  const salary = calculateSalary(rule, { ...records, ...range });
+  const earningsByType = groupBy(records.earnings, 'type', 'Other');
+  const netProfit = round(salary.totalEarnings - salary.totalExpenses - salary.totalAutoExpenses);
+  const cashHeld = round(earningsByType.Cash || 0);
+
+  return {
+    ...range,
+    earningsByType,
+    // Matches the totals, which only count approved expenses
+    expensesByCategory: groupBy(records.expenses.filter(isApproved), 'category', 'Other'),
+    autoExpensesByCategory: groupBy(records.autoExpenses.filter(isApproved), 'category', 'Other'),
+    totalEarnings: salary.totalEarnings,
+    totalExpenses: salary.totalExpenses,
+    totalAutoExpenses: salary.totalAutoExpenses,
+    netProfit,
+    salary,
+    companyShare: round(netProfit - salary.amount),
+    cashHeld,
+    netPayable: round(salary.amount - cashHeld),
+  };
+};
+
+// Settlements for a driver, shared with the dashboards through the query cache
+const getDriverSettlements = (driverId: string, token: string | null = null) =>
+  fetchQuery(
+    queryKey(ENDPOINTS.SETTLEMENT.GET_ALL, { query: { driverId } }),
+    () => getSettlements({ driverId }, token)
+  );
+
+/**
+ * Throw a PeriodLockedError if the date falls in a settled month. When the
+ * settlements can't be loaded the server is left to enforce the lock.
+ * @param driverId
+ * @param date YYYY-MM-DD
+ * @param token
+ */
+export const assertPeriodOpen = async (driverId: string | undefined, date: string, token: string | null = null) => {
+  if (!driverId || !date) return;
+
+  let settlements: Settlement[];
+  try {
+    settlements = await getDriverSettlements(driverId, token);
+  } catch (error) {
+    if (isApiError(error)) return;
+    throw error;
+  }
+
+  const month = getMonthKey(date);
+  const settlement = settlements.find(item => item.month === month);
+  if (settlement) {
+    throw new PeriodLockedError(settlement);
+  }
+};
@@ -0,0 +1,229 @@
+import { PdfBrand, PdfDocument, PdfImage, PdfRow, PdfTable } from './pdf.renderer';
+import { toDateKey } from '../utils/date';
+
+// Types
+export type StatementColumn<T> = {
+  label: string;
+  // Share of the table width, e.g. 0.25
+  width: number;
+  value: (record: T) => string | number | undefined;
+  // `amount` columns are right-aligned, formatted as AED and summed into subtotals and totals
+  format?: 'text' | 'date' | 'amount';
+};
+
+export type StatementTemplate<T> = {
+  // Used in file names, e.g. "earnings"
+  kind: string;
+  title: string;
+  tableTitle?: string;
+  columns: StatementColumn<T>[];
+  // Group rows under a heading with a subtotal per group
+  groupBy?: {
+    label: string;
+    value: (record: T) => string;
+  };
+  // Defaults to newest first
+  sort?: (a: T, b: T) => number;
+  emptyText?: string;
+  // Account a record was booked to, for templates that can be filtered by account
+  account?: (record: T) => string | undefined;
+  // Receipt photo URLs, for templates whose statements embed them
+  receipts?: (record: T) => string[] | undefined;
+};
+
+export type StatementInfo = { label: string; value: string }[];
+
+// What the user picked in the statement builder
+export type StatementFilters = {
+  // YYYY-MM-DD, both inclusive
+  startDate: string;
+  endDate: string;
+  // Groups to include (matched against the template's groupBy); empty includes all
+  categories?: string[];
+  account?: string;
+};
+
+export const formatAmount = (value: number) =>
+  `${value < 0 ? '-' : ''}AED ${Math.abs(value).toFixed(2)}`;
+
+export const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  });
+
+export const formatLongDate = (value: Date | string = new Date()) =>
+  new Date(value).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+
+const toAmount = (value: unknown) => parseFloat(String(value)) || 0;
+
+// First and last record dates, used to name the file and label the period
+export const getRecordsPeriod = (records: { date: string }[]) => {
+  if (records.length === 0) return null;
+  const dates = records.map(record => toDateKey(record.date)).sort();
+  return { startDate: dates[0], endDate: dates[dates.length - 1] };
+};
+
+// Sum of the first amount column
+export const getStatementTotal = <T>(template: StatementTemplate<T>, records: T[]) => {
+  const column = template.columns.find(item => item.format === 'amount');
+  return column ? records.reduce((sum, record) => sum + toAmount(column.value(record)), 0) : 0;
+};
+
+/**
+ * Narrow records to the builder's filters. Records that match the categories
+ * and account but fall before the period are returned separately so the
+ * statement can show an opening total.
+ */
+export const applyStatementFilters = <T extends { date: string }>(
+  template: StatementTemplate<T>,
+  records: T[],
+  filters: StatementFilters
+) => {
+  const { startDate, endDate, categories = [], account } = filters;
+
+  const matching = records.filter(record =>
+    (categories.length === 0 || !template.groupBy || categories.includes(template.groupBy.value(record) || 'Other')) &&
+    (!account || !template.account || template.account(record) === account)
+  );
+
+  return {
+    earlier: matching.filter(record => toDateKey(record.date) < startDate),
+    inPeriod: matching.filter(record => {
+      const date = toDateKey(record.date);
+      return date >= startDate && date <= endDate;
+    }),
+  };
+};
+
+// Info rows describing the period and filters a statement was built with
+export const describeStatementFilters = <T>(template: StatementTemplate<T>, filters: StatementFilters): StatementInfo => {
+  const info = [{ label: 'Period', value: `${formatDate(filters.startDate)} to ${formatDate(filters.endDate)}` }];
+
+  if (template.groupBy) {
+    info.push({
+      label: template.groupBy.label,
+      value: filters.categories?.length ? filters.categories.join(', ') : 'All',
+    });
+  }
+  if (template.account) {
+    info.push({ label: 'Account', value: filters.account || 'All accounts' });
+  }
+
+  return info;
+};
+
+const newestFirst = (a: { date?: string }, b: { date?: string }) =>
+  new Date(b.date || 0).getTime() - new Date(a.date || 0).getTime();
+
+const formatCell = <T>(column: StatementColumn<T>, record: T) => {
+  const value = column.value(record);
+  if (value === undefined || value === null || value === '') return column.format === 'amount' ? formatAmount(0) : '-';
+
+  switch (column.format) {
+    case 'amount':
+      return formatAmount(toAmount(value));
+    case 'date':
+      return formatDate(String(value));
+    default:
+      return String(value);
+  }
+};
+
+// One line naming a record, e.g. "May 3, 2024 - Fuel - Shell - AED 45.00"
+export const describeRecord = <T>(template: StatementTemplate<T>, record: T) =>
+  template.columns
+    .filter(column => {
+      const value = column.value(record);
+      return value !== undefined && value !== null && value !== '';
+    })
+    .map(column => formatCell(column, record))
+    .join(' - ');
+
+// A summary row: the label goes in the first non-amount column, sums in the amount columns
+const summaryRow = <T>(
+  columns: StatementColumn<T>[],
+  records: T[],
+  label: string,
+  style: PdfRow['style']
+): PdfRow => {
+  const labelIndex = Math.max(columns.findIndex(column => column.format !== 'amount'), 0);
+  const lastTextIndex = columns.reduce((last, column, index) => (column.format === 'amount' ? last : index), labelIndex);
+
+  return {
+    cells: columns.map((column, index) => {
+      if (column.format === 'amount') {
+        return formatAmount(records.reduce((sum, record) => sum + toAmount(column.value(record)), 0));
+      }
+      // Right next to the amounts reads best when there is room
+      return index === lastTextIndex ? label : '';
+    }),
+    style,
+  };
+};
+
+/**
+ * Lay out records as a statement table following a template. Grouped
+ * templates get a heading and subtotal per group; every table ends with a
+ * total row.
+ */
+export const buildStatementTable = <T extends { date?: string }>(template: StatementTemplate<T>, records: T[]): PdfTable => {
+  const { columns, groupBy } = template;
+  const sorted = [...records].sort(template.sort || newestFirst);
+  const rows: PdfRow[] = [];
+
+  const recordRows = (items: T[]) =>
+    items.map(record => ({ cells: columns.map(column => formatCell(column, record)) }));
+
+  if (sorted.length === 0) {
+    rows.push({ cells: columns.map((_, index) => (index === 0 ? template.emptyText || 'No records' : '')) });
+  } else if (groupBy) {
+    const groups = new Map<string, T[]>();
+    sorted.forEach(record => {
+      const key = groupBy.value(record) || 'Other';
+      groups.set(key, [...(groups.get(key) || []), record]);
+    });
+
+    groups.forEach((items, key) => {
+      rows.push({ cells: columns.map((_, index) => (index === 0 ? `${groupBy.label}: ${key}` : '')), style: 'group' });
+      rows.push(...recordRows(items));
+      rows.push(summaryRow(columns, items, `${key} subtotal`, 'subtotal'));
+    });
+  } else {
+    rows.push(...recordRows(sorted));
+  }
+
+  rows.push(summaryRow(columns, sorted, 'Total', 'total'));
+
+  return {
+    title: template.tableTitle,
+    columns: columns.map(column => ({
+      label: column.label,
+      width: column.width,
+      align: column.format === 'amount' ? 'right' : 'left',
+    })),
+    rows,
+  };
+};
+
+/**
+ * Build a full statement document: branded header, info block, the records
+ * table and an optional note
+ */
+export const buildStatement = <T extends { date?: string }>(
+  template: StatementTemplate<T>,
+  records: T[],
+  options: { info: StatementInfo; note?: string; brand?: PdfBrand; receipts?: PdfImage[] }
+): PdfDocument => ({
+  brand: options.brand,
+  title: template.title,
+  info: options.info,
+  tables: [buildStatementTable(template, records)],
+  note: options.note,
+  images: options.receipts?.length ? { title: 'Receipts', items: options.receipts } : undefined,
+});
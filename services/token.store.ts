@@ -0,0 +1,162 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import { Platform } from 'react-native';
+import { STORAGE_KEYS } from './api.config';
+import type { User } from './api.types';
+
+// The only module that reads or writes the signed-in session. Tokens live in
+// the iOS keychain / Android keystore; the web build has neither, so it falls
+// back to AsyncStorage (localStorage).
+
+// Types
+export type StoredSession = {
+  accessToken: string | null;
+  refreshToken: string | null;
+  user: User | null;
+};
+
+type AccessTokenListener = (accessToken: string | null) => void;
+
+const useSecureStore = Platform.OS !== 'web';
+
+// Readable after the first unlock so background syncs can still authenticate
+const SECURE_OPTIONS: SecureStore.SecureStoreOptions = {
+  keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK,
+};
+
+const EMPTY_SESSION: StoredSession = { accessToken: null, refreshToken: null, user: null };
+
+// In-memory copy so requests don't hit the keychain every time
+let session: StoredSession | null = null;
+let loading: Promise<StoredSession> | null = null;
+const listeners = new Set<AccessTokenListener>();
+
+const readItem = (key: string) =>
+  useSecureStore ? SecureStore.getItemAsync(key, SECURE_OPTIONS) : AsyncStorage.getItem(key);
+
+const writeItem = (key: string, value: string | null) => {
+  if (value === null) {
+    return useSecureStore ? SecureStore.deleteItemAsync(key, SECURE_OPTIONS) : AsyncStorage.removeItem(key);
+  }
+  return useSecureStore ? SecureStore.setItemAsync(key, value, SECURE_OPTIONS) : AsyncStorage.setItem(key, value);
+};
+
+const parseUser = (json: string | null): User | null => {
+  try {
+    return json ? JSON.parse(json) : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Earlier versions kept the token and user in plain AsyncStorage. Move them
+// into secure storage once and remove the old copies.
+const migrateLegacySession = async (): Promise<StoredSession | null> => {
+  const [[, accessToken], [, userJson]] = await AsyncStorage.multiGet([STORAGE_KEYS.TOKEN, STORAGE_KEYS.USER]);
+  if (!accessToken) return null;
+
+  await writeItem(STORAGE_KEYS.TOKEN, accessToken);
+  if (userJson) await writeItem(STORAGE_KEYS.USER, userJson);
+  await AsyncStorage.multiRemove([STORAGE_KEYS.TOKEN, STORAGE_KEYS.USER]);
+
+  // Legacy sessions have no refresh token; they end when the access token expires
+  return { accessToken, refreshToken: null, user: parseUser(userJson) };
+};
+
+const readSession = async (): Promise<StoredSession> => {
+  try {
+    const [accessToken, refreshToken, userJson] = await Promise.all([
+      readItem(STORAGE_KEYS.TOKEN),
+      readItem(STORAGE_KEYS.REFRESH_TOKEN),
+      readItem(STORAGE_KEYS.USER),
+    ]);
+
+    if (!accessToken && useSecureStore) {
+      const migrated = await migrateLegacySession();
+      if (migrated) return migrated;
+    }
+
+    return { accessToken, refreshToken, user: parseUser(userJson) };
+  } catch (error) {
+    console.error('Error reading stored session:', error);
+    return { ...EMPTY_SESSION };
+  }
+};
+
+const loadSession = async () => {
+  if (session) return session;
+  if (!loading) {
+    loading = readSession().then(stored => {
+      session = session || stored;
+      loading = null;
+      return session;
+    });
+  }
+  return loading;
+};
+
+const notify = (accessToken: string | null) => {
+  listeners.forEach(listener => listener(accessToken));
+};
+
+/**
+ * Subscribe to access token changes, e.g. after a refresh. Returns an
+ * unsubscribe function.
+ */
+export const onAccessTokenChange = (listener: AccessTokenListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getAccessToken = async () => (await loadSession()).accessToken;
+
+export const getRefreshToken = async () => (await loadSession()).refreshToken;
+
+export const getStoredUser = async () => (await loadSession()).user;
+
+// Save the session returned by login
+export const saveSession = async (next: StoredSession) => {
+  session = { ...next };
+  await Promise.all([
+    writeItem(STORAGE_KEYS.TOKEN, next.accessToken),
+    writeItem(STORAGE_KEYS.REFRESH_TOKEN, next.refreshToken),
+    writeItem(STORAGE_KEYS.USER, next.user ? JSON.stringify(next.user) : null),
+  ]);
+  notify(next.accessToken);
+};
+
+/**
+ * Save tokens issued by a refresh. The current refresh token is kept when the
+ * server does not rotate it.
+ */
+export const saveTokens = async (accessToken: string, refreshToken?: string | null) => {
+  const current = await loadSession();
+  session = { ...current, accessToken, refreshToken: refreshToken || current.refreshToken };
+  await Promise.all([
+    writeItem(STORAGE_KEYS.TOKEN, session.accessToken),
+    writeItem(STORAGE_KEYS.REFRESH_TOKEN, session.refreshToken),
+  ]);
+  notify(accessToken);
+};
+
+// Replace the stored user, e.g. after fetching a fresh profile
+export const saveUser = async (user: User | null) => {
+  const current = await loadSession();
+  session = { ...current, user };
+  await writeItem(STORAGE_KEYS.USER, user ? JSON.stringify(user) : null);
+};
+
+export const clearSession = async () => {
+  session = { ...EMPTY_SESSION };
+  try {
+    await Promise.all([
+      writeItem(STORAGE_KEYS.TOKEN, null),
+      writeItem(STORAGE_KEYS.REFRESH_TOKEN, null),
+      writeItem(STORAGE_KEYS.USER, null),
+    ]);
+  } finally {
+    notify(null);
+  }
+};
@@ -0,0 +1,111 @@
+import { ENDPOINTS } from './api.config';
+import { apiClient } from './api.client';
+import { invalidateQueries } from './query.cache';
+import type { TrashEntityType, Trashed } from './api.types';
+
+export const TRASH_ENDPOINTS: Record<TrashEntityType, { GET_ALL: string; TRASH: string; RESTORE: string; PURGE: string }> = {
+  earning: ENDPOINTS.EARNING,
+  expense: ENDPOINTS.EXPENSE,
+  autoExpense: ENDPOINTS.AUTO_EXPENSE,
+  driver: ENDPOINTS.DRIVER,
+  vehicle: ENDPOINTS.VEHICLE,
+};
+
+export const TRASH_ENTITY_TYPES = Object.keys(TRASH_ENDPOINTS) as TrashEntityType[];
+
+export const TRASH_ENTITY_LABELS: Record<TrashEntityType, string> = {
+  earning: 'Earnings',
+  expense: 'Expenses',
+  autoExpense: 'Auto Expenses',
+  driver: 'Drivers',
+  vehicle: 'Vehicles',
+};
+
+/**
+ * Days a deleted item stays in the trash before it is purged for good.
+ * Drivers and vehicles are kept longer since restoring them also brings
+ * back their assignments.
+ */
+export const TRASH_RETENTION_DAYS: Record<TrashEntityType, number> = {
+  earning: 30,
+  expense: 30,
+  autoExpense: 30,
+  driver: 90,
+  vehicle: 90,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Responses are either arrays or wrapped in an object
+const toList = (response: any): Trashed<Record<string, any> & { id: string }>[] =>
+  Array.isArray(response) ? response : (response && (response.data || response.items)) || [];
+
+/**
+ * Get the deleted items of one kind, most recently deleted first
+ * @param entityType
+ * @param token
+ */
+export const getTrash = async (entityType: TrashEntityType, token: string | null = null) => {
+  const response = await apiClient.get(TRASH_ENDPOINTS[entityType].TRASH, {
+    token,
+    errorMessage: 'Failed to fetch trash',
+  });
+  return toList(response).sort((a, b) => new Date(b.deletedAt).getTime() - new Date(a.deletedAt).getTime());
+};
+
+/**
+ * Bring a deleted item back
+ * @param entityType
+ * @param id
+ * @param token
+ */
+export const restoreFromTrash = async (entityType: TrashEntityType, id: string, token: string | null = null) => {
+  const endpoints = TRASH_ENDPOINTS[entityType];
+  const data = await apiClient.post(endpoints.RESTORE, undefined, {
+    params: { id },
+    token,
+    errorMessage: 'Failed to restore item',
+  });
+  // Also refreshes the trash, which lives under the same prefix
+  invalidateQueries(endpoints.GET_ALL);
+  return data;
+};
+
+/**
+ * Delete an item in the trash permanently
+ * @param entityType
+ * @param id
+ * @param token
+ */
+export const purgeFromTrash = async (entityType: TrashEntityType, id: string, token: string | null = null) => {
+  const endpoints = TRASH_ENDPOINTS[entityType];
+  const data = await apiClient.delete(endpoints.PURGE, {
+    params: { id },
+    token,
+    errorMessage: 'Failed to delete item permanently',
+  });
+  invalidateQueries(endpoints.TRASH);
+  return data;
+};
+
+// When an item deleted at `deletedAt` is due to be purged
+export const getPurgeDate = (entityType: TrashEntityType, deletedAt: string) =>
+  new Date(new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS[entityType] * DAY_MS);
+
+// Whole days left before an item is purged, 0 once it is due
+export const getDaysUntilPurge = (entityType: TrashEntityType, deletedAt: string, now = new Date()) =>
+  Math.max(0, Math.ceil((getPurgeDate(entityType, deletedAt).getTime() - now.getTime()) / DAY_MS));
+
+/**
+ * Purge the items that have outlived the retention period. Returns the
+ * number purged; failures are left for the next run.
+ */
+export const purgeExpired = async (
+  entityType: TrashEntityType,
+  items: { id: string; deletedAt: string }[],
+  token: string | null = null
+) => {
+  const expired = items.filter(item => getDaysUntilPurge(entityType, item.deletedAt) === 0);
+  const results = await Promise.allSettled(expired.map(item => purgeFromTrash(entityType, item.id, token)));
+  return results.filter(result => result.status === 'fulfilled').length;
+};
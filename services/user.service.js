@@ -1,92 +1,47 @@
-import { API_BASE_URL, ENDPOINTS, getHeaders } from './api.config';
-import { getToken as getAuthToken } from './auth.service';
-
-// Get all users (non-admin users for admin dashboard)
+import { ENDPOINTS } from './api.config';
+import { apiClient } from './api.client';
+import { invalidateQueries } from './query.cache';
+
+/**
+ * Get all users (non-admin users for admin dashboard)
+ * @param {string | null} [token]
+ */
 export const getAllUsers = async (token = null) => {
-  try {
-    // Get token if not provided
-    const authToken = token || await getAuthToken();
-    
-    if (!authToken) {
-      throw new Error('Authentication required');
-    }
-
-    // We'll use the driver endpoint since it already provides user data
-    // but we'll filter out admin users on the frontend
-    const response = await fetch(`${API_BASE_URL}${ENDPOINTS.DRIVER.GET_ALL}`, {
-      method: 'GET',
-      headers: getHeaders(authToken),
-    });
-
-    const data = await response.json();
-    
-    if (!response.ok) {
-      throw new Error(data.message || 'Failed to get users');
-    }
-
-    // For this endpoint, the data is nested in data
-    return data;
-  } catch (error) {
-    console.error('Get all users error:', error);
-    throw error;
-  }
+  // We'll use the driver endpoint since it already provides user data
+  // but we'll filter out admin users on the frontend
+  return apiClient.get(ENDPOINTS.DRIVER.GET_ALL, {
+    token,
+    errorMessage: 'Failed to get users',
+  });
 };
 
-// Get a single user by ID
+/**
+ * Get a single user by ID
+ * @param {string} userId
+ * @param {string | null} [token]
+ */
 export const getUserById = async (userId, token = null) => {
-  try {
-    // Get token if not provided
-    const authToken = token || await getAuthToken();
-    
-    if (!authToken) {
-      throw new Error('Authentication required');
-    }
-
-    // We can use the driver endpoint for this as well
-    const response = await fetch(`${API_BASE_URL}${ENDPOINTS.DRIVER.GET_ONE.replace(':id', userId)}`, {
-      method: 'GET',
-      headers: getHeaders(authToken),
-    });
-
-    const data = await response.json();
-    
-    if (!response.ok) {
-      throw new Error(data.message || 'Failed to get user');
-    }
-
-    return data;
-  } catch (error) {
-    console.error(`Get user ${userId} error:`, error);
-    throw error;
-  }
+  // We can use the driver endpoint for this as well
+  return apiClient.get(ENDPOINTS.DRIVER.GET_ONE, {
+    params: { id: userId },
+    token,
+    errorMessage: 'Failed to get user',
+  });
 };
 
-// Update user active status
+/**
+ * Update user active status
+ * @param {string} userId
+ * @param {boolean} isActive
+ * @param {string | null} [token]
+ */
 export const updateUserStatus = async (userId, isActive, token = null) => {
-  try {
-    // Get token if not provided
-    const authToken = token || await getAuthToken();
-    
-    if (!authToken) {
-      throw new Error('Authentication required');
-    }
-
-    // Use the driver update endpoint
-    const response = await fetch(`${API_BASE_URL}${ENDPOINTS.DRIVER.UPDATE.replace(':id', userId)}`, {
-      method: 'PUT',
-      headers: getHeaders(authToken),
-      body: JSON.stringify({ isActive }),
-    });
-
-    const data = await response.json();
-    
-    if (!response.ok) {
-      throw new Error(data.message || 'Failed to update user status');
-    }
-
-    return data;
-  } catch (error) {
-    console.error(`Update user ${userId} status error:`, error);
-    throw error;
-  }
-}; 
\ No newline at end of file
+  // Use the driver update endpoint
+  const data = await apiClient.put(ENDPOINTS.DRIVER.UPDATE, { isActive }, {
+    params: { id: userId },
+    token,
+    errorMessage: 'Failed to update user status',
+  });
+  invalidateQueries(ENDPOINTS.DRIVER.GET_ALL);
+  return data;
+};
@@ -1,23 +1,8 @@
-import { API_BASE_URL, ENDPOINTS, getHeaders } from './api.config';
+import { ENDPOINTS } from './api.config';
+import { apiClient } from './api.client';
+import { invalidateQueries } from './query.cache';
 
-// Helper function to replace params in URLs
-const replaceParams = (url, params) => {
-  let result = url;
-  Object.keys(params).forEach(key => {
-    result = result.replace(`:${key}`, params[key]);
-  });
-  return result;
-};
-
-// Helper function to safely parse JSON
-const safeJsonParse = async (response) => {
-  const text = await response.text();
-  try {
-    return JSON.parse(text);
-  } catch (error) {
-    throw new Error('Invalid response from server. Please check if the backend is running.');
-  }
-};
+/** @typedef {import('./api.types').VehicleInput} VehicleInput */
 
 // Create Form Data for multipart requests (for image uploads)
 const createFormData = (vehicleData, imageUri) => {
@@ -51,206 +36,114 @@ const createFormData = (vehicleData, imageUri) => {
   return formData;
 };
 
-// Get all vehicles
-export const getAllVehicles = async (token, filters = {}) => {
-  try {
-    if (!token) {
-      throw new Error('Authentication required');
-    }
-    
-    // Build query parameters if filters are provided
-    let queryParams = '';
-    if (Object.keys(filters).length > 0) {
-      const params = new URLSearchParams();
-      Object.keys(filters).forEach(key => {
-        if (filters[key]) {
-          params.append(key, filters[key]);
-        }
-      });
-      queryParams = `?${params.toString()}`;
-    }
-    
-    const response = await fetch(`${API_BASE_URL}${ENDPOINTS.VEHICLE.GET_ALL}${queryParams}`, {
-      method: 'GET',
-      headers: getHeaders(token)
-    });
-    
-    if (!response.ok) {
-      const error = await safeJsonParse(response);
-      throw new Error(error.message || 'Failed to fetch vehicles');
-    }
-
-    return await safeJsonParse(response);
-  } catch (error) {
-    console.error('Error fetching vehicles:', error);
-    throw error;
-  }
+/**
+ * Get all vehicles
+ * @param {string | null} [token]
+ * @param {Record<string, string | undefined>} [filters]
+ */
+export const getAllVehicles = async (token = null, filters = {}) => {
+  return apiClient.get(ENDPOINTS.VEHICLE.GET_ALL, {
+    query: filters,
+    token,
+    errorMessage: 'Failed to fetch vehicles',
+  });
 };
 
-// Get a specific vehicle
-export const getVehicleById = async (id, token) => {
-  try {
-    if (!token) {
-      throw new Error('Authentication required');
-    }
-    
-    const url = replaceParams(ENDPOINTS.VEHICLE.GET_ONE, { id });
-    const response = await fetch(`${API_BASE_URL}${url}`, {
-      method: 'GET',
-      headers: getHeaders(token)
-    });
-
-    if (!response.ok) {
-      const error = await safeJsonParse(response);
-      throw new Error(error.message || 'Failed to fetch vehicle');
-    }
-
-    return await safeJsonParse(response);
-  } catch (error) {
-    console.error('Error fetching vehicle:', error);
-    throw error;
-  }
+/**
+ * Get a specific vehicle
+ * @param {string} id
+ * @param {string | null} [token]
+ */
+export const getVehicleById = async (id, token = null) => {
+  return apiClient.get(ENDPOINTS.VEHICLE.GET_ONE, {
+    params: { id },
+    token,
+    errorMessage: 'Failed to fetch vehicle',
+  });
 };
 
-// Create a new vehicle with optional image upload
-export const createVehicle = async (vehicleData, imageUri, token) => {
-  try {
-    if (!token) {
-      throw new Error('Authentication required');
-    }
-    
-    // Create form data with vehicle data and image if provided
-    const formData = createFormData(vehicleData, imageUri);
-    
-    const response = await fetch(`${API_BASE_URL}${ENDPOINTS.VEHICLE.CREATE}`, {
-      method: 'POST',
-      headers: getHeaders(token, true), // Set true for multipart/form-data
-      body: formData
-    });
-
-    if (!response.ok) {
-      const error = await safeJsonParse(response);
-      throw new Error(error.message || 'Failed to create vehicle');
-    }
-
-    return await safeJsonParse(response);
-  } catch (error) {
-    console.error('Error creating vehicle:', error);
-    throw error;
-  }
+/**
+ * Create a new vehicle with optional image upload
+ * @param {VehicleInput} vehicleData
+ * @param {string | null} imageUri
+ * @param {string | null} [token]
+ */
+export const createVehicle = async (vehicleData, imageUri, token = null) => {
+  // Create form data with vehicle data and image if provided
+  const formData = createFormData(vehicleData, imageUri);
+
+  const data = await apiClient.post(ENDPOINTS.VEHICLE.CREATE, formData, {
+    token,
+    errorMessage: 'Failed to create vehicle',
+  });
+  invalidateQueries(ENDPOINTS.VEHICLE.GET_ALL);
+  return data;
 };
 
-// Update a vehicle with optional image upload
-export const updateVehicle = async (vehicleData, imageUri, token) => {
-  try {
-    if (!token) {
-      throw new Error('Authentication required');
-    }
-    
-    const { id } = vehicleData;
-    if (!id) {
-      throw new Error('Vehicle ID is required');
-    }
-    
-    const url = replaceParams(ENDPOINTS.VEHICLE.UPDATE, { id });
-    
-    // Create form data with vehicle data and image if provided
-    const formData = createFormData(vehicleData, imageUri);
-    
-    const response = await fetch(`${API_BASE_URL}${url}`, {
-      method: 'PUT',
-      headers: getHeaders(token, true), // Set true for multipart/form-data
-      body: formData
-    });
-
-    if (!response.ok) {
-      const error = await safeJsonParse(response);
-      throw new Error(error.message || 'Failed to update vehicle');
-    }
-
-    return await safeJsonParse(response);
-  } catch (error) {
-    console.error('Error updating vehicle:', error);
-    throw error;
+/**
+ * Update a vehicle with optional image upload
+ * @param {VehicleInput} vehicleData
+ * @param {string | null} imageUri
+ * @param {string | null} [token]
+ */
+export const updateVehicle = async (vehicleData, imageUri, token = null) => {
+  const { id } = vehicleData;
+  if (!id) {
+    throw new Error('Vehicle ID is required');
   }
-};
-
-// Delete a vehicle
-export const deleteVehicle = async (id, token) => {
-  try {
-    if (!token) {
-      throw new Error('Authentication required');
-    }
-    
-    const url = replaceParams(ENDPOINTS.VEHICLE.DELETE, { id });
-    const response = await fetch(`${API_BASE_URL}${url}`, {
-      method: 'DELETE',
-      headers: getHeaders(token)
-    });
-
-    if (!response.ok) {
-      const error = await safeJsonParse(response);
-      throw new Error(error.message || 'Failed to delete vehicle');
-    }
+  
+  // Create form data with vehicle data and image if provided
+  const formData = createFormData(vehicleData, imageUri);
 
-    return await safeJsonParse(response);
-  } catch (error) {
-    console.error('Error deleting vehicle:', error);
-    throw error;
-  }
+  const data = await apiClient.put(ENDPOINTS.VEHICLE.UPDATE, formData, {
+    params: { id },
+    token,
+    errorMessage: 'Failed to update vehicle',
+  });
+  invalidateQueries(ENDPOINTS.VEHICLE.GET_ALL);
+  return data;
 };
 
-// Get available drivers for assignment
-export const getAvailableDrivers = async (token) => {
-  try {
-    if (!token) {
-      throw new Error('Authentication required');
-    }
-    
-    const response = await fetch(`${API_BASE_URL}${ENDPOINTS.VEHICLE.GET_AVAILABLE_DRIVERS}`, {
-      method: 'GET',
-      headers: getHeaders(token)
-    });
-
-    if (!response.ok) {
-      const error = await safeJsonParse(response);
-      throw new Error(error.message || 'Failed to fetch available drivers');
-    }
-
-    return await safeJsonParse(response);
-  } catch (error) {
-    console.error('Error fetching available drivers:', error);
-    throw error;
-  }
+/**
+ * Move a vehicle to the trash
+ * @param {string} id
+ * @param {string | null} [token]
+ */
+export const deleteVehicle = async (id, token = null) => {
+  const data = await apiClient.delete(ENDPOINTS.VEHICLE.DELETE, {
+    params: { id },
+    token,
+    errorMessage: 'Failed to delete vehicle',
+  });
+  invalidateQueries(ENDPOINTS.VEHICLE.GET_ALL);
+  return data;
 };
 
-// Get vehicles assigned to a specific driver
-export const getDriverVehicles = async (driverId, token) => {
-  try {
-    if (!token) {
-      throw new Error('Authentication required');
-    }
-    
-    if (!driverId) {
-      throw new Error('Driver ID is required');
-    }
-    
-    // Query vehicles where this driver is assigned
-    const queryParams = `?driverId=${driverId}`;
-    
-    const response = await fetch(`${API_BASE_URL}${ENDPOINTS.VEHICLE.GET_ALL}${queryParams}`, {
-      method: 'GET',
-      headers: getHeaders(token)
-    });
-    
-    if (!response.ok) {
-      const error = await safeJsonParse(response);
-      throw new Error(error.message || 'Failed to fetch driver vehicles');
-    }
+/**
+ * Get available drivers for assignment
+ * @param {string | null} [token]
+ */
+export const getAvailableDrivers = async (token = null) => {
+  return apiClient.get(ENDPOINTS.VEHICLE.GET_AVAILABLE_DRIVERS, {
+    token,
+    errorMessage: 'Failed to fetch available drivers',
+  });
+};
 
-    return await safeJsonParse(response);
-  } catch (error) {
-    console.error('Error fetching driver vehicles:', error);
-    throw error;
+/**
+ * Get vehicles assigned to a specific driver
+ * @param {string} driverId
+ * @param {string | null} [token]
+ */
+export const getDriverVehicles = async (driverId, token = null) => {
+  if (!driverId) {
+    throw new Error('Driver ID is required');
   }
-}; 
\ No newline at end of file
+
+  // Query vehicles where this driver is assigned
+  return apiClient.get(ENDPOINTS.VEHICLE.GET_ALL, {
+    query: { driverId },
+    token,
+    errorMessage: 'Failed to fetch driver vehicles',
+  });
+};
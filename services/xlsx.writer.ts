@@ -0,0 +1,174 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { toBase64 } from './pdf.renderer';
+import type { CsvValue } from './csv.writer';
+
+// Minimal Excel (.xlsx) writer: one worksheet with a bold header row, packed
+// into an uncompressed zip. Enough for spreadsheet and bookkeeping imports
+// without pulling in a spreadsheet library.
+
+// UTF-8 encode, one character per byte
+const toUtf8 = (text: string) => {
+  let output = '';
+  for (const char of text) {
+    const code = char.codePointAt(0) || 0;
+    if (code < 0x80) {
+      output += char;
+    } else if (code < 0x800) {
+      output += String.fromCharCode(0xc0 | (code >> 6), 0x80 | (code & 63));
+    } else if (code < 0x10000) {
+      output += String.fromCharCode(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 63), 0x80 | (code & 63));
+    } else {
+      output += String.fromCharCode(
+        0xf0 | (code >> 18), 0x80 | ((code >> 12) & 63), 0x80 | ((code >> 6) & 63), 0x80 | (code & 63)
+      );
+    }
+  }
+  return output;
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+const crc32 = (binary: string) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < binary.length; i++) {
+    crc = CRC_TABLE[(crc ^ binary.charCodeAt(i)) & 255] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const uint16 = (value: number) => String.fromCharCode(value & 255, (value >>> 8) & 255);
+const uint32 = (value: number) => uint16(value & 0xffff) + uint16(value >>> 16);
+
+// Zip archive with every file stored as-is
+const zip = (files: { name: string; content: string }[]) => {
+  let local = '';
+  let central = '';
+
+  files.forEach(file => {
+    const data = toUtf8(file.content);
+    // Version 2.0, no flags, stored, dated 1980-01-01
+    const header = uint16(20) + uint16(0) + uint16(0) + uint16(0) + uint16(0x21) +
+      uint32(crc32(data)) + uint32(data.length) + uint32(data.length) + uint16(file.name.length) + uint16(0);
+
+    central += 'PK\x01\x02' + uint16(20) + header + uint16(0) + uint16(0) + uint16(0) + uint32(0) +
+      uint32(local.length) + file.name;
+    local += 'PK\x03\x04' + header + file.name + data;
+  });
+
+  return local + central + 'PK\x05\x06' + uint16(0) + uint16(0) + uint16(files.length) + uint16(files.length) +
+    uint32(central.length) + uint32(local.length) + uint16(0);
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+
+// Spreadsheet column name for a zero-based index: 0 -> A, 26 -> AA
+const columnName = (index: number): string =>
+  (index >= 26 ? columnName(Math.floor(index / 26) - 1) : '') + String.fromCharCode(65 + (index % 26));
+
+const renderCell = (value: CsvValue, ref: string, style: number) => {
+  if (value === null || value === undefined || value === '') return '';
+  const styleAttr = style ? ` s="${style}"` : '';
+  if (typeof value === 'number' && isFinite(value)) {
+    return `<c r="${ref}"${styleAttr}><v>${value}</v></c>`;
+  }
+  return `<c r="${ref}" t="inlineStr"${styleAttr}><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+};
+
+const renderSheet = (rows: CsvValue[][]) => {
+  const sheetRows = rows.map((row, rowIndex) => {
+    const cells = row.map((value, index) => renderCell(value, `${columnName(index)}${rowIndex + 1}`, rowIndex === 0 ? 1 : 0));
+    return `<row r="${rowIndex + 1}">${cells.join('')}</row>`;
+  });
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    `<sheetData>${sheetRows.join('')}</sheetData></worksheet>`;
+};
+
+/**
+ * Render rows as an .xlsx workbook with a single sheet. The first row is the
+ * header; numbers stay numeric so they can be summed. Returns base64.
+ */
+export const renderXlsxBase64 = (rows: CsvValue[][], sheetName = 'Sheet1') => {
+  const name = escapeXml(sheetName.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31) || 'Sheet1');
+
+  return toBase64(zip([
+    {
+      name: '[Content_Types].xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        '</Types>',
+    },
+    {
+      name: '_rels/.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>',
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+        'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        `<sheets><sheet name="${name}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+        '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+        '</Relationships>',
+    },
+    {
+      name: 'xl/styles.xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+        '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+        '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+        '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+        '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+        '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+        '</styleSheet>',
+    },
+    { name: 'xl/worksheets/sheet1.xml', content: renderSheet(rows) },
+  ]));
+};
+
+export const writeXlsx = async (rows: CsvValue[][], fileName: string, sheetName?: string): Promise<string> => {
+  const uri = `${FileSystem.documentDirectory}${fileName.replace(/\.xlsx$/i, '')}.xlsx`;
+  await FileSystem.writeAsStringAsync(uri, renderXlsxBase64(rows, sheetName), {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  return uri;
+};
+
+export const shareXlsx = async (uri: string, dialogTitle: string) => {
+  await Sharing.shareAsync(uri, {
+    mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    UTI: 'org.openxmlformats.spreadsheetml.sheet',
+    dialogTitle,
+  });
+};
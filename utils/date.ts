@@ -0,0 +1,29 @@
+// Date helpers for the YYYY-MM-DD strings used by the API. Everything works
+// on local dates so day and month boundaries don't shift with the timezone.
+
+// Parse YYYY-MM-DD (or an ISO timestamp) as a local date
+export const parseDate = (value: string) => {
+  const [year, month, day] = value.split('T')[0].split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// Format a date as YYYY-MM-DD
+export const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Whole days from start to end, counting both
+export const countDays = (startDate: string, endDate: string) =>
+  Math.round((parseDate(endDate).getTime() - parseDate(startDate).getTime()) / (24 * 60 * 60 * 1000)) + 1;
+
+// First and last day of the month containing `date`
+export const getMonthRange = (date = new Date()) => ({
+  startDate: toDateString(new Date(date.getFullYear(), date.getMonth(), 1)),
+  endDate: toDateString(new Date(date.getFullYear(), date.getMonth() + 1, 0)),
+});
+
+// Local YYYY-MM-DD for a record date, which may be a plain date or a UTC timestamp
+export const toDateKey = (value: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : toDateString(new Date(value));
@@ -0,0 +1,31 @@
+// Strength rules for new passwords. The server enforces the same rules; these
+// let the forms explain what is missing before submitting.
+
+export type PasswordRule = {
+  label: string;
+  test: (password: string) => boolean;
+};
+
+export const PASSWORD_RULES: PasswordRule[] = [
+  { label: 'At least 8 characters', test: password => password.length >= 8 },
+  { label: 'An uppercase letter', test: password => /[A-Z]/.test(password) },
+  { label: 'A lowercase letter', test: password => /[a-z]/.test(password) },
+  { label: 'A number', test: password => /\d/.test(password) },
+];
+
+export const isStrongPassword = (password: string) =>
+  PASSWORD_RULES.every(rule => rule.test(password));
+
+/**
+ * Check a new password and its confirmation. Returns the first problem as a
+ * message for the form, or null when the password can be used.
+ */
+export const validateNewPassword = (password: string, confirmation: string, currentPassword?: string) => {
+  const failed = PASSWORD_RULES.find(rule => !rule.test(password));
+  if (failed) return `Password needs ${failed.label.charAt(0).toLowerCase()}${failed.label.slice(1)}`;
+  if (password !== confirmation) return 'Passwords do not match';
+  if (currentPassword !== undefined && password === currentPassword) {
+    return 'New password must be different from the current one';
+  }
+  return null;
+};